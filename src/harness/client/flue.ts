@@ -19,7 +19,30 @@ import {
   ThreadCompactRequestSchema,
   ThreadCreateRequestSchema,
   ThreadForkRequestSchema,
+  ThreadListQuerySchema,
   ThreadListResponseSchema,
+  type ThreadListQueryInput,
+  type ThreadListResponse,
+  ThreadMetadataUpdateRequestSchema,
+  type ThreadMetadataUpdateRequest,
+  ThreadSearchRequestSchema,
+  ThreadSearchResponseSchema,
+  type ThreadSearchRequest,
+  type ThreadSearchResult,
+  ThreadCollaboratorGrantRequestSchema,
+  type ThreadCollaboratorRole,
+  ThreadCommentRequestSchema,
+  ThreadCommentSchema,
+  type ThreadComment,
+  type ThreadCommentRequest,
+  ThreadShareLinkCreateRequestSchema,
+  ThreadShareLinkCreateResponseSchema,
+  ThreadShareLinkSchema,
+  type ThreadShareLink,
+  type ThreadShareLinkCreateRequest,
+  type ThreadShareLinkCreateResponse,
+  ThreadSharedConversationSchema,
+  type ThreadSharedConversation,
   ThreadHistoryDiffResponseSchema,
   ThreadHistoryDiffRequestSchema,
   ThreadHistoryListResponseSchema,
@@ -35,6 +58,8 @@ import {
   ThreadRollbackRequestSchema,
   ThreadRestoreRequestSchema,
   ThreadPortableArchiveSchema,
+  ThreadTranscriptRequestSchema,
+  ThreadTranscriptSchema,
   ThreadDeletionSchema,
   type ThreadDeletion,
   UserInputAnswerRequestSchema,
@@ -55,7 +80,10 @@ import {
   type ThreadHistoryDiffResponse,
   type ThreadHistoryListResponse,
   type ThreadPortableArchive,
+  type ThreadTranscript,
+  type ThreadTranscriptRequest,
   type RealtimeCommandName,
+  type RealtimePresenceMember,
   type RealtimeServerFrame,
 } from "../contracts/index.js";
 import { ThreadRefSchema } from "../contracts/tenancy.js";
@@ -89,9 +117,21 @@ export interface FlaryRealtimeConnection extends AsyncIterable<RealtimeServerFra
     options?: { requestId?: string; idempotencyKey?: string },
   ): Promise<unknown>;
   acknowledge(cursor: number): void;
+  /** Share what the user is looking at or that they are typing. */
+  setPresence(input: { messageId?: string | null; typing?: boolean }): void;
+  /** Call `listener` with every presence change. Returns the unsubscribe function. */
+  presence(listener: (presence: FlaryRealtimePresence) => void): () => void;
   close(code?: number, reason?: string): void;
 }
 
+export interface FlaryRealtimePresence {
+  /** The connection ID of this client. */
+  readonly self?: string;
+  readonly members: readonly RealtimePresenceMember[];
+  /** Other members that are typing now. */
+  readonly typing: readonly RealtimePresenceMember[];
+}
+
 export interface FlaryTerminalTicket {
   readonly url: string;
   readonly expiresAt: string;
@@ -215,11 +255,48 @@ export class FlaryThreadClient {
     return ThreadBindingSchema.parse((value as { binding: unknown }).binding);
   }
 
-  async list(appId: string): Promise<ThreadBinding[]> {
+  /** Every thread that passes the filters, read page by page. */
+  async list(
+    appId: string,
+    query: Omit<ThreadListQueryInput, "cursor"> = {},
+  ): Promise<ThreadBinding[]> {
+    const threads: ThreadBinding[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage(appId, { ...query, ...(cursor ? { cursor } : {}) });
+      threads.push(...page.threads);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return threads;
+  }
+
+  /** List threads newest first. Pass `nextCursor` back as `cursor` to page. */
+  async listPage(appId: string, input: ThreadListQueryInput = {}): Promise<ThreadListResponse> {
+    const { status, tags, metadata, limit, ...filters } = ThreadListQuerySchema.parse(input);
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(filters)) {
+      if (value !== undefined) query.set(name, value);
+    }
+    if (status) query.set("status", status.join(","));
+    for (const tag of tags ?? []) query.append("tag", tag);
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      query.set(`metadata.${key}`, value);
+    }
+    query.set("limit", String(limit));
     const value = await this.apiJson(
-      `${this.#apiPath}/apps/${encodeURIComponent(appId)}/threads`,
+      `${this.#apiPath}/apps/${encodeURIComponent(appId)}/threads?${query.toString()}`,
     );
-    return ThreadListResponseSchema.parse(value).threads;
+    return ThreadListResponseSchema.parse(value);
+  }
+
+  /** Search titles, messages, and tool results across the threads of an app. */
+  async search(appId: string, options: ThreadSearchRequest): Promise<ThreadSearchResult[]> {
+    const input = ThreadSearchRequestSchema.parse(options);
+    const query = new URLSearchParams({ q: input.query, limit: String(input.limit) });
+    const value = await this.apiJson(
+      `${this.#apiPath}/apps/${encodeURIComponent(appId)}/threads/search?${query.toString()}`,
+    );
+    return ThreadSearchResponseSchema.parse(value).results;
   }
 
   async inspect(refInput: ThreadRef): Promise<ThreadBinding> {
@@ -537,6 +614,18 @@ export class FlaryThreadClient {
     return ThreadBindingSchema.parse((value as { binding: unknown }).binding);
   }
 
+  /** Merge metadata into the thread. A `null` value removes its key. */
+  async updateMetadata(
+    refInput: ThreadRef,
+    input: ThreadMetadataUpdateRequest,
+  ): Promise<ThreadBinding> {
+    return this.bindingMutation(
+      refInput,
+      "metadata",
+      ThreadMetadataUpdateRequestSchema.parse(input),
+    );
+  }
+
   async unarchive(refInput: ThreadRef): Promise<ThreadBinding> {
     return this.bindingMutation(refInput, "unarchive", {});
   }
@@ -560,6 +649,84 @@ export class FlaryThreadClient {
     );
   }
 
+  /** Give another user of the tenant a role on the thread, or change it. */
+  async grantAccess(
+    refInput: ThreadRef,
+    actorId: string,
+    role: ThreadCollaboratorRole,
+  ): Promise<ThreadBinding> {
+    return this.bindingMutation(
+      refInput,
+      "collaborators",
+      ThreadCollaboratorGrantRequestSchema.parse({ actorId, role }),
+    );
+  }
+
+  async revokeAccess(refInput: ThreadRef, actorId: string): Promise<ThreadBinding> {
+    const ref = ThreadRefSchema.parse(refInput);
+    const value = await this.apiJson(
+      `${this.#apiPath}/apps/${encodeURIComponent(ref.appId)}/threads/${encodeURIComponent(ref.threadId)}/collaborators/${encodeURIComponent(actorId)}`,
+      { method: "DELETE" },
+    );
+    return ThreadBindingSchema.parse((value as { binding: unknown }).binding);
+  }
+
+  async comment(refInput: ThreadRef, input: ThreadCommentRequest): Promise<ThreadComment> {
+    const value = await this.control(
+      refInput,
+      "comments",
+      ThreadCommentRequestSchema.parse(input),
+    );
+    return ThreadCommentSchema.parse((value as { comment: unknown }).comment);
+  }
+
+  async comments(
+    refInput: ThreadRef,
+    options: { after?: number; limit?: number } = {},
+  ): Promise<ThreadComment[]> {
+    const value = await this.listRecords(refInput, "comments", options);
+    return ThreadCommentSchema.array().parse((value as { comments: unknown }).comments);
+  }
+
+  /** Create a signed, read-only link to the conversation of the thread. */
+  async createShareLink(
+    refInput: ThreadRef,
+    input: ThreadShareLinkCreateRequest = {},
+  ): Promise<ThreadShareLinkCreateResponse> {
+    return ThreadShareLinkCreateResponseSchema.parse(
+      await this.control(
+        refInput,
+        "share-links",
+        ThreadShareLinkCreateRequestSchema.parse(input),
+      ),
+    );
+  }
+
+  async shareLinks(refInput: ThreadRef): Promise<ThreadShareLink[]> {
+    const ref = ThreadRefSchema.parse(refInput);
+    const value = await this.apiJson(
+      `${this.#apiPath}/apps/${encodeURIComponent(ref.appId)}/threads/${encodeURIComponent(ref.threadId)}/share-links`,
+    );
+    return ThreadShareLinkSchema.array().parse((value as { links: unknown }).links);
+  }
+
+  async revokeShareLink(refInput: ThreadRef, linkId: string): Promise<ThreadShareLink> {
+    const ref = ThreadRefSchema.parse(refInput);
+    const value = await this.apiJson(
+      `${this.#apiPath}/apps/${encodeURIComponent(ref.appId)}/threads/${encodeURIComponent(ref.threadId)}/share-links/${encodeURIComponent(linkId)}`,
+      { method: "DELETE" },
+    );
+    return ThreadShareLinkSchema.parse((value as { link: unknown }).link);
+  }
+
+  /** Read the conversation behind a share link token. */
+  async shared(appId: string, token: string): Promise<ThreadSharedConversation> {
+    const value = await this.apiJson(
+      `${this.#apiPath}/apps/${encodeURIComponent(appId)}/shared/${encodeURIComponent(token)}`,
+    );
+    return ThreadSharedConversationSchema.parse(value);
+  }
+
   async delete(refInput: ThreadRef): Promise<ThreadDeletion> {
     const ref = ThreadRefSchema.parse(refInput);
     const value = await this.apiJson(
@@ -636,6 +803,26 @@ export class FlaryThreadClient {
     );
   }
 
+  /** Export the history as Markdown, HTML, or messages for a model API. */
+  async exportTranscript(
+    refInput: ThreadRef,
+    input: ThreadTranscriptRequest,
+  ): Promise<ThreadTranscript> {
+    const ref = ThreadRefSchema.parse(refInput);
+    const request = ThreadTranscriptRequestSchema.parse(input);
+    const query = new URLSearchParams({
+      format: request.format,
+      ...(request.reasoning ? { reasoning: "true" } : {}),
+      ...(request.redact ? { redact: "true" } : {}),
+    });
+    const path =
+      `${this.#apiPath}/apps/${encodeURIComponent(ref.appId)}/threads/${encodeURIComponent(ref.threadId)}/export?${query}`;
+    if (request.format === "markdown" || request.format === "html") {
+      return { format: request.format, text: await this.apiText(path) };
+    }
+    return ThreadTranscriptSchema.parse(await this.apiJson(path));
+  }
+
   setGoal(refInput: ThreadRef, input: unknown) {
     return this.control(
       refInput,
@@ -855,6 +1042,21 @@ function createRealtimeConnection(socket: FlaryRealtimeSocket): FlaryRealtimeCon
     reject(reason: unknown): void;
   }>();
   let closed = false;
+  const listeners = new Set<(presence: FlaryRealtimePresence) => void>();
+  let presence: FlaryRealtimePresence = { members: [], typing: [] };
+  let typingTimer: ReturnType<typeof setTimeout> | undefined;
+  const emitPresence = () => {
+    clearTimeout(typingTimer);
+    const now = Date.now();
+    const typing = presence.members.filter((member) =>
+      member.connectionId !== presence.self &&
+      member.typingUntil !== undefined &&
+      Date.parse(member.typingUntil) > now);
+    presence = { ...presence, typing };
+    const next = Math.min(...typing.map((member) => Date.parse(member.typingUntil!)));
+    if (Number.isFinite(next) && !closed) typingTimer = setTimeout(emitPresence, next - now);
+    for (const listener of listeners) listener(presence);
+  };
   const push = (frame: RealtimeServerFrame) => {
     const waiter = waiters.shift();
     if (waiter) waiter({ value: frame, done: false });
@@ -864,7 +1066,14 @@ function createRealtimeConnection(socket: FlaryRealtimeSocket): FlaryRealtimeCon
     try {
       const frame = RealtimeServerFrameSchema.parse(JSON.parse(String(event.data)));
       push(frame);
-      if (frame.type === "result") {
+      if (frame.type === "presence") {
+        presence = {
+          ...presence,
+          ...(frame.event === "sync" ? { self: frame.connectionId } : {}),
+          members: frame.members,
+        };
+        emitPresence();
+      } else if (frame.type === "result") {
         commands.get(frame.requestId)?.resolve(frame.result);
         commands.delete(frame.requestId);
       } else if (frame.type === "error" && frame.requestId) {
@@ -877,6 +1086,7 @@ function createRealtimeConnection(socket: FlaryRealtimeSocket): FlaryRealtimeCon
   });
   socket.addEventListener("close", () => {
     closed = true;
+    clearTimeout(typingTimer);
     for (const waiter of waiters.splice(0)) waiter({ value: undefined, done: true });
     for (const pending of commands.values()) pending.reject(new Error("The realtime connection closed"));
     commands.clear();
@@ -917,6 +1127,16 @@ function createRealtimeConnection(socket: FlaryRealtimeSocket): FlaryRealtimeCon
     acknowledge(cursor) {
       socket.send(JSON.stringify({ version: 1, type: "ack", cursor }));
     },
+    setPresence(input) {
+      socket.send(JSON.stringify({ version: 1, type: "presence", ...input }));
+    },
+    presence(listener) {
+      listeners.add(listener);
+      listener(presence);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
     close(code, reason) {
       socket.close(code, reason);
     },
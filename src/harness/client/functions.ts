@@ -16,7 +16,18 @@ import type {
   ThreadHistoryDiffResponse,
   ThreadHistoryListResponse,
   ThreadPortableArchive,
+  ThreadListQueryInput,
+  ThreadMetadataUpdateRequest,
   ThreadRef,
+  ThreadSearchRequest,
+  ThreadSearchResult,
+  ThreadCollaboratorRole,
+  ThreadComment,
+  ThreadCommentRequest,
+  ThreadShareLinkCreateRequest,
+  ThreadTranscript,
+  ThreadTranscriptImportFormat,
+  ThreadTranscriptRequest,
 } from "../contracts/index.js";
 import type {
   SubagentActivityEvent,
@@ -139,10 +150,22 @@ export interface FlaryAgentThreadHandle {
   restore(input:
     | { jsonl: string; replace?: boolean }
     | { archive: ThreadPortableArchive; replace?: boolean }
+    | {
+      transcript: { format: ThreadTranscriptImportFormat; content: string | readonly unknown[] };
+      replace?: boolean;
+    }
   ): Promise<unknown>;
   export(): ReturnType<FlaryThreadClient["exportSession"]>;
+  transcript(input: ThreadTranscriptRequest): Promise<ThreadTranscript>;
   compact(input?: { reason?: string }): Promise<unknown>;
   rename(title: string): Promise<ThreadBinding>;
+  updateMetadata(input: ThreadMetadataUpdateRequest): Promise<ThreadBinding>;
+  grantAccess(actorId: string, role: ThreadCollaboratorRole): Promise<ThreadBinding>;
+  revokeAccess(actorId: string): Promise<ThreadBinding>;
+  comment(input: ThreadCommentRequest): Promise<ThreadComment>;
+  comments(options?: { after?: number; limit?: number }): Promise<ThreadComment[]>;
+  share(input?: ThreadShareLinkCreateRequest): ReturnType<FlaryThreadClient["createShareLink"]>;
+  revokeShareLink(linkId: string): ReturnType<FlaryThreadClient["revokeShareLink"]>;
   archive(): Promise<void>;
   unarchive(): Promise<ThreadBinding>;
   pin(pinned?: boolean): Promise<ThreadBinding>;
@@ -233,7 +256,8 @@ type AgentClient<A> = A extends FlaryAgent<any>
         create(
           input: Omit<FlaryThreadClientCreateOptions, "agentId">,
         ): Promise<FlaryAgentThreadHandle>;
-        list(): Promise<ThreadBinding[]>;
+        list(query?: Omit<ThreadListQueryInput, "agentId" | "cursor">): Promise<ThreadBinding[]>;
+        search(input: ThreadSearchRequest): Promise<ThreadSearchResult[]>;
         open(ref: Omit<ThreadRef, "appId" | "agentId">): Promise<FlaryAgentThreadHandle>;
       };
     }
@@ -351,8 +375,11 @@ function makeAgentThreads(client: FlaryThreadClient, agentName: string) {
       const binding = await client.create({ ...input, agentId: agentName });
       return makeAgentThreadHandle(client, binding, agentName);
     },
-    list(): Promise<ThreadBinding[]> {
-      return client.list(agentName);
+    list(query: Omit<ThreadListQueryInput, "agentId" | "cursor"> = {}): Promise<ThreadBinding[]> {
+      return client.list(agentName, query);
+    },
+    search(input: ThreadSearchRequest): Promise<ThreadSearchResult[]> {
+      return client.search(agentName, input);
     },
     async open(
       ref: Omit<ThreadRef, "appId" | "agentId">,
@@ -408,8 +435,16 @@ function makeAgentThreadHandle(
     rollback: (input) => client.rollback(ref, input),
     restore: (input) => client.restore(ref, input),
     export: () => client.exportSession(ref),
+    transcript: (input) => client.exportTranscript(ref, input),
     compact: (input = {}) => client.compact(ref, input),
     rename: (title) => client.rename(ref, title),
+    updateMetadata: (input) => client.updateMetadata(ref, input),
+    grantAccess: (actorId, role) => client.grantAccess(ref, actorId, role),
+    revokeAccess: (actorId) => client.revokeAccess(ref, actorId),
+    comment: (input) => client.comment(ref, input),
+    comments: (options = {}) => client.comments(ref, options),
+    share: (input = {}) => client.createShareLink(ref, input),
+    revokeShareLink: (linkId) => client.revokeShareLink(ref, linkId),
     archive: () => client.archive(ref),
     unarchive: () => client.unarchive(ref),
     pin: (pinned = true) => client.pin(ref, pinned),
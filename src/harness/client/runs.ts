@@ -4,12 +4,16 @@ import {
   RunEventSchema,
   RunHandleSchema,
   RunInputSchema,
+  RunListPageSchema,
+  RunListQuerySchema,
   RunResultSchema,
   type CancelRunRequest,
   type CreateRunRequest,
   type RunEvent,
   type RunHandle,
   type RunInput,
+  type RunListPage,
+  type RunListQueryInput,
   type RunResult,
 } from "../contracts/index.js";
 
@@ -56,6 +60,21 @@ export class FlaryRunClient {
     );
   }
 
+  /** List runs newest first. Pass `nextCursor` back as `cursor` to page. */
+  async list(input: RunListQueryInput = {}): Promise<RunListPage> {
+    const { status, metadata, limit, ...filters } = RunListQuerySchema.parse(input);
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(filters)) {
+      if (value !== undefined) query.set(name, value);
+    }
+    if (status) query.set("status", status.join(","));
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      query.set(`metadata.${key}`, value);
+    }
+    query.set("limit", String(limit));
+    return RunListPageSchema.parse(await this.json(`/runs?${query}`));
+  }
+
   async input(runId: string, input: RunInput): Promise<RunResult> {
     return RunResultSchema.parse(
       await this.json(`/runs/${encodeURIComponent(runId)}/input`, {
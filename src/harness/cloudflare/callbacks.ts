@@ -0,0 +1,244 @@
+import {
+  attemptFlaryCallback,
+  callbackEventFor,
+  callbackMessage,
+  deliverFlaryCallback,
+  type FlaryCallbackMessage,
+} from "../functions/callbacks.js";
+import type {
+  FlaryCallbackDelivery,
+  FlaryCallbackEvent,
+  FlaryCallbackLog,
+} from "../functions/types.js";
+import type { FlaryRunRecord } from "../flue/service.js";
+import type { FlaryDurableObjectNamespace } from "./function-host.js";
+
+interface SqlRows<T> {
+  toArray(): T[];
+}
+
+interface SqlStorage {
+  exec<T = Record<string, unknown>>(
+    query: string,
+    ...bindings: unknown[]
+  ): SqlRows<T>;
+}
+
+interface CallbackQueue {
+  send(message: unknown, options?: { readonly delaySeconds?: number }): Promise<void>;
+}
+
+interface CallbackQueueMessage {
+  readonly body: unknown;
+  ack(): void;
+  retry(): void;
+}
+
+/** Callback delivery logs in the Runtime Durable Object, next to the runs. */
+export class SqliteFlaryCallbackLog implements FlaryCallbackLog {
+  readonly #sql: SqlStorage;
+
+  constructor(sql: unknown) {
+    this.#sql = sql as SqlStorage;
+    this.#sql.exec(`
+      CREATE TABLE IF NOT EXISTS flary_function_callback_deliveries (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        delivery_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS flary_function_callback_deliveries_run
+      ON flary_function_callback_deliveries (run_id, sequence);
+    `);
+  }
+
+  async append(delivery: FlaryCallbackDelivery): Promise<void> {
+    this.#sql.exec(
+      `INSERT INTO flary_function_callback_deliveries (run_id, delivery_json)
+       VALUES (?, ?)`,
+      delivery.runId,
+      JSON.stringify(delivery),
+    );
+  }
+
+  async list(runId: string): Promise<FlaryCallbackDelivery[]> {
+    return this.#sql.exec<{ delivery_json: string }>(
+      `SELECT delivery_json FROM flary_function_callback_deliveries
+       WHERE run_id = ? ORDER BY sequence ASC`,
+      runId,
+    ).toArray().map((row) => JSON.parse(row.delivery_json) as FlaryCallbackDelivery);
+  }
+}
+
+const CALLBACK_METHODS = new Set(["callbackAppend", "callbackList"]);
+
+/**
+ * Answer a callback log RPC inside the Runtime Durable Object. It returns
+ * undefined for other methods.
+ */
+export async function handleFlaryCallbackRpc(
+  sql: unknown,
+  method: string,
+  body: Record<string, unknown>,
+): Promise<{ readonly value: unknown } | undefined> {
+  if (!CALLBACK_METHODS.has(method)) return undefined;
+  const log = new SqliteFlaryCallbackLog(sql);
+  if (method === "callbackAppend") {
+    await log.append(body.delivery as FlaryCallbackDelivery);
+    return { value: { appended: true } };
+  }
+  return { value: await log.list(String(body.runId)) };
+}
+
+/** Create the Worker-side view of the delivery logs kept by the Runtime. */
+export function createFlaryDurableCallbackLog(options: {
+  readonly namespace: FlaryDurableObjectNamespace;
+  readonly name?: string;
+}): FlaryCallbackLog {
+  const stub = options.namespace.get(
+    options.namespace.idFromName(options.name ?? "default"),
+  );
+  const call = async <T>(method: string, body: Record<string, unknown>): Promise<T> => {
+    const response = await stub.fetch(
+      new Request(`https://flary.internal/rpc/${method}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+    const value = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(`Flary callback log request failed (${response.status})`);
+    }
+    return value as T;
+  };
+  return {
+    append: async (delivery) => {
+      await call("callbackAppend", { delivery });
+    },
+    list: (runId) => call<FlaryCallbackDelivery[]>("callbackList", { runId }),
+  };
+}
+
+/**
+ * Send the callback of a run state change. With `FLARY_CALLBACK_QUEUE` the
+ * queue owns delivery and retries. Without it, delivery and its retries run
+ * in `waitUntil`, so the run write that caused the event does not wait for
+ * the endpoint.
+ */
+export async function dispatchFlaryRunCallback(input: {
+  readonly env: Record<string, unknown>;
+  readonly log: FlaryCallbackLog;
+  readonly previous: FlaryRunRecord;
+  readonly next: FlaryRunRecord;
+  readonly waitUntil?: (work: Promise<void>) => void;
+}): Promise<void> {
+  const callback: unknown = input.next.request.metadata?.flaryCallback;
+  const event = callbackEventFor(input.next.result.status);
+  if (
+    !event ||
+    input.previous.result.status === input.next.result.status ||
+    !isRecord(callback) ||
+    typeof callback.url !== "string" ||
+    !Array.isArray(callback.events) ||
+    !(callback.events as FlaryCallbackEvent[]).includes(event)
+  ) {
+    return;
+  }
+  const message = callbackMessage({
+    url: callback.url,
+    event,
+    runId: input.next.runId,
+    functionId: input.next.trusted.agentId,
+    output: input.next.result.output,
+    error: input.next.result.error,
+  });
+  const queue = input.env.FLARY_CALLBACK_QUEUE as CallbackQueue | undefined;
+  if (queue) {
+    await queue.send(message);
+    return;
+  }
+  const delivery = deliverCallback(message, input.env, input.log).catch(() => undefined);
+  if (input.waitUntil) input.waitUntil(delivery);
+  else await delivery;
+}
+
+/**
+ * Consume `FLARY_CALLBACK_QUEUE`. A failed attempt is sent again with a
+ * growing delay and the next attempt number, then the old message is acked.
+ */
+export async function handleFlaryRunCallbackQueue(input: {
+  readonly messages: readonly CallbackQueueMessage[];
+  readonly env: Record<string, unknown>;
+}): Promise<void> {
+  const namespace = input.env.FLARY_RUN_SERVICE;
+  if (!isRecord(namespace) || typeof namespace.idFromName !== "function") {
+    throw new Error("FLARY_RUN_SERVICE is not configured");
+  }
+  const log = createFlaryDurableCallbackLog({
+    namespace: namespace as unknown as FlaryDurableObjectNamespace,
+  });
+  const queue = input.env.FLARY_CALLBACK_QUEUE as CallbackQueue | undefined;
+  await Promise.all(input.messages.map(async (queued) => {
+    const message = queued.body as FlaryCallbackMessage;
+    if (!isRecord(message) || typeof message.url !== "string" || !isRecord(message.payload)) {
+      queued.ack();
+      return;
+    }
+    try {
+      const { retryAfterSeconds } = await attemptCallback(message, input.env, log);
+      if (retryAfterSeconds !== undefined && queue) {
+        await queue.send(
+          { ...message, attempt: message.attempt + 1 },
+          { delaySeconds: Math.ceil(retryAfterSeconds) },
+        );
+      }
+      queued.ack();
+    } catch {
+      queued.retry();
+    }
+  }));
+}
+
+/** Deliver in this isolate with the same retry schedule as the queue. */
+async function deliverCallback(
+  message: FlaryCallbackMessage,
+  env: Record<string, unknown>,
+  log: FlaryCallbackLog,
+): Promise<void> {
+  const secret = await callbackSecret(message, env, log);
+  if (secret) await deliverFlaryCallback(message, { secret, log });
+}
+
+async function attemptCallback(
+  message: FlaryCallbackMessage,
+  env: Record<string, unknown>,
+  log: FlaryCallbackLog,
+): Promise<{ readonly retryAfterSeconds?: number }> {
+  const secret = await callbackSecret(message, env, log);
+  return secret ? attemptFlaryCallback(message, { secret, log }) : {};
+}
+
+/** The signing key, or undefined after logging that it is missing. */
+async function callbackSecret(
+  message: FlaryCallbackMessage,
+  env: Record<string, unknown>,
+  log: FlaryCallbackLog,
+): Promise<string | undefined> {
+  const secret = env.FLARY_CALLBACK_SECRET;
+  if (typeof secret === "string" && secret.length > 0) return secret;
+  await log.append({
+    deliveryId: message.payload.id,
+    runId: message.payload.runId,
+    event: message.payload.type.slice("run.".length) as FlaryCallbackEvent,
+    url: message.url,
+    attempt: message.attempt,
+    status: "failed",
+    error: "FLARY_CALLBACK_SECRET is not configured",
+    attemptedAt: new Date().toISOString(),
+  });
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
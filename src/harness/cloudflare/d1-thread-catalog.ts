@@ -1,9 +1,17 @@
 import {
+  IdentifierSchema,
   ThreadBindingSchema,
   type ThreadBinding,
   ThreadDeletionSchema,
   type ThreadDeletion,
+  type ThreadListQuery,
+  ThreadListResponseSchema,
+  type ThreadListResponse,
+  type ThreadSearchHitKind,
+  type ThreadSearchResult,
+  TimestampSchema,
 } from "../contracts/index.js";
+import { FlaryHostError } from "../host/errors.js";
 
 interface D1Statement {
   bind(...values: unknown[]): D1Statement;
@@ -15,11 +23,94 @@ interface D1Statement {
 export interface D1DatabaseLike {
   prepare(query: string): D1Statement;
   exec(query: string): Promise<unknown>;
+  /** Run the statements in one transaction. */
+  batch(statements: D1Statement[]): Promise<unknown[]>;
+}
+
+/** One searchable title, message, or tool result of a thread. */
+export interface D1ThreadSearchEntry {
+  readonly kind: ThreadSearchHitKind;
+  readonly content: string;
+  readonly messageId?: string;
+  readonly turnId?: string;
+}
+
+const SEARCH_HITS_PER_THREAD = 3;
+
+/** Marks that the filter tables hold rows for threads written before they existed. */
+const FILTER_BACKFILL = "filters-v1";
+
+/**
+ * Threads with access rows belong to their creator and collaborators. Threads
+ * without rows were created by a service and stay readable by the tenant.
+ */
+const READABLE = `(NOT EXISTS (
+    SELECT 1 FROM flary_thread_access AS a
+    WHERE a.tenant_id = c.tenant_id AND a.application_id = c.application_id
+      AND a.thread_id = c.thread_id
+  ) OR EXISTS (
+    SELECT 1 FROM flary_thread_access AS a
+    WHERE a.tenant_id = c.tenant_id AND a.application_id = c.application_id
+      AND a.thread_id = c.thread_id AND a.actor_id = ?
+  ))`;
+
+/** The list position after one thread. Threads sort by update time, then ID. */
+export function encodeThreadCursor(binding: ThreadBinding): string {
+  return btoa(JSON.stringify([binding.updatedAt, binding.thread.threadId]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeThreadCursor(cursor: string): { updatedAt: string; threadId: string } {
+  try {
+    const [updatedAt, threadId] = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/")),
+    ) as unknown[];
+    return {
+      updatedAt: TimestampSchema.parse(updatedAt),
+      threadId: IdentifierSchema.parse(threadId),
+    };
+  } catch {
+    throw new FlaryHostError(400, "invalid_thread_cursor", "The thread cursor is invalid");
+  }
+}
+
+/**
+ * The metadata values that list filters can match, as strings. Flary keys
+ * and structured values are left out.
+ */
+export function filterableThreadMetadata(binding: ThreadBinding): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(binding.metadata ?? {})
+      .filter(([key, value]) =>
+        !key.startsWith("flary") &&
+        (typeof value === "string" || typeof value === "number" || typeof value === "boolean"))
+      .map(([key, value]) => [key, String(value)])
+      .filter(([, value]) => value.length <= 1_024),
+  );
+}
+
+/** Whether a thread passes the list filters, apart from the cursor. */
+export function matchesThreadListQuery(
+  binding: ThreadBinding,
+  query: ThreadListQuery,
+): boolean {
+  const metadata = filterableThreadMetadata(binding);
+  return (
+    (!query.agentId || binding.agentId === query.agentId) &&
+    (!query.status || query.status.includes(binding.status)) &&
+    (query.tags ?? []).every((tag) => binding.tags?.includes(tag)) &&
+    Object.entries(query.metadata ?? {}).every(([key, value]) => metadata[key] === value) &&
+    (!query.updatedAfter || binding.updatedAt >= query.updatedAfter) &&
+    (!query.updatedBefore || binding.updatedAt < query.updatedBefore)
+  );
 }
 
 /** Tenant-scoped list index. Thread Control and Flue keep authoritative state. */
 export class D1ThreadCatalog {
   readonly #database: D1DatabaseLike;
+  #backfilled = false;
 
   constructor(database: D1DatabaseLike) {
     this.#database = database;
@@ -59,30 +150,116 @@ export class D1ThreadCatalog {
       ON flary_thread_catalog
         (tenant_id, application_id, agent_id, status, updated_at DESC);
     `).run();
+    await this.#database.prepare(`
+      CREATE TABLE IF NOT EXISTS flary_thread_tags (
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        PRIMARY KEY (tenant_id, application_id, thread_id, tag)
+      )
+    `).run();
+    await this.#database.prepare(`
+      CREATE INDEX IF NOT EXISTS flary_thread_tags_filter
+      ON flary_thread_tags (tenant_id, application_id, tag, thread_id)
+    `).run();
+    await this.#database.prepare(`
+      CREATE TABLE IF NOT EXISTS flary_thread_metadata (
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        PRIMARY KEY (tenant_id, application_id, thread_id, key)
+      )
+    `).run();
+    await this.#database.prepare(`
+      CREATE INDEX IF NOT EXISTS flary_thread_metadata_filter
+      ON flary_thread_metadata (tenant_id, application_id, key, value, thread_id)
+    `).run();
+    await this.#database.prepare(`
+      CREATE TABLE IF NOT EXISTS flary_thread_access (
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        actor_id TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        PRIMARY KEY (tenant_id, application_id, thread_id, actor_id)
+      )
+    `).run();
+    await this.#database.prepare(`
+      CREATE INDEX IF NOT EXISTS flary_thread_access_filter
+      ON flary_thread_access (tenant_id, application_id, actor_id, thread_id)
+    `).run();
+    await this.#database.prepare(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS flary_thread_search USING fts5(
+        content,
+        tenant_id UNINDEXED,
+        application_id UNINDEXED,
+        thread_id UNINDEXED,
+        kind UNINDEXED,
+        message_id UNINDEXED,
+        turn_id UNINDEXED
+      )
+    `).run();
+    await this.#database.prepare(`
+      CREATE TABLE IF NOT EXISTS flary_thread_catalog_backfills (
+        name TEXT PRIMARY KEY
+      )
+    `).run();
+    await this.#backfillFilterRows();
+  }
+
+  /**
+   * Write the tag, metadata, and access rows of threads that were cataloged
+   * before those tables existed. Without them the threads would drop out of
+   * filtered lists and collaborators could not read them.
+   */
+  async #backfillFilterRows(): Promise<void> {
+    if (this.#backfilled) return;
+    const done = await this.#database.prepare(
+      "SELECT name FROM flary_thread_catalog_backfills WHERE name = ?",
+    ).bind(FILTER_BACKFILL).first<{ name: string }>();
+    if (!done) {
+      const result = await this.#database.prepare(
+        "SELECT binding_json FROM flary_thread_catalog",
+      ).all<{ binding_json: string }>();
+      for (const row of result.results ?? []) {
+        const binding = ThreadBindingSchema.safeParse(JSON.parse(row.binding_json));
+        if (binding.success) await this.#database.batch(this.#filterRows(binding.data));
+      }
+      await this.#database.prepare(
+        `INSERT INTO flary_thread_catalog_backfills (name) VALUES (?)
+         ON CONFLICT(name) DO NOTHING`,
+      ).bind(FILTER_BACKFILL).run();
+    }
+    this.#backfilled = true;
   }
 
   async put(bindingInput: ThreadBinding): Promise<ThreadBinding> {
     const binding = ThreadBindingSchema.parse(bindingInput);
     await this.initialize();
-    await this.#database.prepare(
-      `INSERT INTO flary_thread_catalog (
-         tenant_id, application_id, thread_id, agent_id, status,
-         updated_at, binding_json
-       ) VALUES (?, ?, ?, ?, ?, ?, ?)
-       ON CONFLICT(tenant_id, application_id, thread_id) DO UPDATE SET
-         agent_id = excluded.agent_id,
-         status = excluded.status,
-         updated_at = excluded.updated_at,
-         binding_json = excluded.binding_json`,
-    ).bind(
-      binding.thread.organizationId,
-      binding.thread.appId,
-      binding.thread.threadId,
-      binding.agentId,
-      binding.status,
-      binding.updatedAt,
-      JSON.stringify(binding),
-    ).run();
+    await this.#database.batch([
+      this.#database.prepare(
+        `INSERT INTO flary_thread_catalog (
+           tenant_id, application_id, thread_id, agent_id, status,
+           updated_at, binding_json
+         ) VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(tenant_id, application_id, thread_id) DO UPDATE SET
+           agent_id = excluded.agent_id,
+           status = excluded.status,
+           updated_at = excluded.updated_at,
+           binding_json = excluded.binding_json`,
+      ).bind(
+        binding.thread.organizationId,
+        binding.thread.appId,
+        binding.thread.threadId,
+        binding.agentId,
+        binding.status,
+        binding.updatedAt,
+        JSON.stringify(binding),
+      ),
+      ...this.#filterRows(binding),
+    ]);
     return binding;
   }
 
@@ -90,33 +267,255 @@ export class D1ThreadCatalog {
     readonly tenantId: string;
     readonly applicationId: string;
     readonly agentId?: string;
+    /** Keep only the threads that this user may read. */
+    readonly viewerId?: string;
   }): Promise<ThreadBinding[]> {
     await this.initialize();
     const result = await this.#database.prepare(
       `SELECT binding_json
-       FROM flary_thread_catalog
+       FROM flary_thread_catalog AS c
        WHERE tenant_id = ? AND application_id = ?
          ${input.agentId ? "AND agent_id = ?" : ""}
+         ${input.viewerId ? `AND ${READABLE}` : ""}
        ORDER BY updated_at DESC, thread_id ASC`,
     ).bind(
       input.tenantId,
       input.applicationId,
       ...(input.agentId ? [input.agentId] : []),
+      ...(input.viewerId ? [input.viewerId] : []),
     ).all<{ binding_json: string }>();
     return (result.results ?? []).map((row) =>
       ThreadBindingSchema.parse(JSON.parse(row.binding_json)));
   }
 
+  /** One page of the threads that pass the list filters. */
+  async listPage(input: {
+    readonly tenantId: string;
+    readonly applicationId: string;
+    readonly query: ThreadListQuery;
+    readonly viewerId?: string;
+  }): Promise<ThreadListResponse> {
+    const { query } = input;
+    const where = ["c.tenant_id = ?", "c.application_id = ?"];
+    const bindings: unknown[] = [input.tenantId, input.applicationId];
+    const filter = (clause: string, ...values: unknown[]) => {
+      where.push(clause);
+      bindings.push(...values);
+    };
+    const sameThread = `tenant_id = c.tenant_id AND application_id = c.application_id
+           AND thread_id = c.thread_id`;
+    if (query.agentId) filter("c.agent_id = ?", query.agentId);
+    if (query.status) {
+      filter(`c.status IN (${query.status.map(() => "?").join(", ")})`, ...query.status);
+    }
+    for (const tag of query.tags ?? []) {
+      filter(
+        `EXISTS (SELECT 1 FROM flary_thread_tags WHERE ${sameThread} AND tag = ?)`,
+        tag,
+      );
+    }
+    for (const [key, value] of Object.entries(query.metadata ?? {})) {
+      filter(
+        `EXISTS (SELECT 1 FROM flary_thread_metadata
+           WHERE ${sameThread} AND key = ? AND value = ?)`,
+        key,
+        value,
+      );
+    }
+    if (input.viewerId) filter(READABLE, input.viewerId);
+    if (query.updatedAfter) filter("c.updated_at >= ?", query.updatedAfter);
+    if (query.updatedBefore) filter("c.updated_at < ?", query.updatedBefore);
+    if (query.cursor) {
+      const after = decodeThreadCursor(query.cursor);
+      filter(
+        "(c.updated_at < ? OR (c.updated_at = ? AND c.thread_id > ?))",
+        after.updatedAt,
+        after.updatedAt,
+        after.threadId,
+      );
+    }
+    await this.initialize();
+    const result = await this.#database.prepare(
+      `SELECT c.binding_json
+       FROM flary_thread_catalog AS c
+       WHERE ${where.join(" AND ")}
+       ORDER BY c.updated_at DESC, c.thread_id ASC
+       LIMIT ?`,
+    ).bind(...bindings, query.limit + 1).all<{ binding_json: string }>();
+    const rows = result.results ?? [];
+    const threads = rows.slice(0, query.limit).map((row) =>
+      ThreadBindingSchema.parse(JSON.parse(row.binding_json)));
+    return ThreadListResponseSchema.parse({
+      threads,
+      ...(rows.length > query.limit
+        ? { nextCursor: encodeThreadCursor(threads.at(-1)!) }
+        : {}),
+    });
+  }
+
   async delete(input: {
     readonly tenantId: string;
     readonly applicationId: string;
     readonly threadId: string;
   }): Promise<void> {
     await this.initialize();
-    await this.#database.prepare(
-      `DELETE FROM flary_thread_catalog
+    await this.#database.batch([
+      this.#database.prepare(
+        `DELETE FROM flary_thread_catalog
+         WHERE tenant_id = ? AND application_id = ? AND thread_id = ?`,
+      ).bind(input.tenantId, input.applicationId, input.threadId),
+      ...this.#deleteFilterRows(input),
+      this.#deleteSearchEntries(input),
+    ]);
+  }
+
+  /**
+   * Replace the indexed content of one thread. The whole thread is written
+   * again so a rollback or a new title never leaves stale rows behind.
+   */
+  async replaceSearchEntries(
+    thread: {
+      readonly tenantId: string;
+      readonly applicationId: string;
+      readonly threadId: string;
+    },
+    entries: readonly D1ThreadSearchEntry[],
+  ): Promise<void> {
+    await this.initialize();
+    await this.#database.batch([
+      this.#deleteSearchEntries(thread),
+      ...entries.filter((entry) => entry.content.trim()).map((entry) =>
+        this.#database.prepare(
+          `INSERT INTO flary_thread_search
+            (content, tenant_id, application_id, thread_id, kind, message_id, turn_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        ).bind(
+          entry.content,
+          thread.tenantId,
+          thread.applicationId,
+          thread.threadId,
+          entry.kind,
+          entry.messageId ?? null,
+          entry.turnId ?? null,
+        )),
+    ]);
+  }
+
+  /**
+   * Search the threads of one tenant application. Every word of the query
+   * must match and the last one may be a prefix. Only threads that are still
+   * in the catalog are returned, best match first.
+   */
+  async search(input: {
+    readonly tenantId: string;
+    readonly applicationId: string;
+    readonly query: string;
+    readonly limit: number;
+    readonly viewerId?: string;
+  }): Promise<ThreadSearchResult[]> {
+    const terms = (input.query.match(/[\p{L}\p{N}_]+/gu) ?? []).slice(0, 16);
+    if (terms.length === 0) return [];
+    const match = terms
+      .map((term, index) => `"${term}"${index === terms.length - 1 ? "*" : ""}`)
+      .join(" ");
+    await this.initialize();
+    const result = await this.#database.prepare(
+      `SELECT flary_thread_search.thread_id, kind, message_id, turn_id,
+         snippet(flary_thread_search, 0, '**', '**', '...', 24) AS snippet,
+         binding_json
+       FROM flary_thread_search
+       JOIN flary_thread_catalog AS c
+         ON c.tenant_id = flary_thread_search.tenant_id
+         AND c.application_id = flary_thread_search.application_id
+         AND c.thread_id = flary_thread_search.thread_id
+       WHERE flary_thread_search MATCH ?
+         AND flary_thread_search.tenant_id = ?
+         AND flary_thread_search.application_id = ?
+         ${input.viewerId ? `AND ${READABLE}` : ""}
+       ORDER BY bm25(flary_thread_search), flary_thread_search.thread_id
+       LIMIT ?`,
+    ).bind(
+      match,
+      input.tenantId,
+      input.applicationId,
+      ...(input.viewerId ? [input.viewerId] : []),
+      input.limit * SEARCH_HITS_PER_THREAD * 4,
+    ).all<{
+      thread_id: string;
+      kind: ThreadSearchHitKind;
+      message_id: string | null;
+      turn_id: string | null;
+      snippet: string;
+      binding_json: string;
+    }>();
+    const results = new Map<string, ThreadSearchResult>();
+    for (const row of result.results ?? []) {
+      let found = results.get(row.thread_id);
+      if (!found) {
+        if (results.size >= input.limit) continue;
+        const title = ThreadBindingSchema.parse(JSON.parse(row.binding_json))
+          .metadata?.title;
+        found = {
+          threadId: row.thread_id,
+          ...(typeof title === "string" ? { title } : {}),
+          hits: [],
+        };
+        results.set(row.thread_id, found);
+      }
+      if (found.hits.length >= SEARCH_HITS_PER_THREAD) continue;
+      found.hits.push({
+        kind: row.kind,
+        snippet: row.snippet,
+        ...(row.message_id ? { messageId: row.message_id } : {}),
+        ...(row.turn_id ? { turnId: row.turn_id } : {}),
+      });
+    }
+    return [...results.values()];
+  }
+
+  /** The statements that replace the filter rows of one thread. */
+  #filterRows(binding: ThreadBinding): D1Statement[] {
+    const { organizationId, appId, threadId } = binding.thread;
+    return [
+      ...this.#deleteFilterRows(owner(binding)),
+      ...(binding.tags ?? []).map((tag) => this.#database.prepare(
+        `INSERT INTO flary_thread_tags (tenant_id, application_id, tag, thread_id)
+         VALUES (?, ?, ?, ?)`,
+      ).bind(organizationId, appId, tag, threadId)),
+      ...Object.entries(filterableThreadMetadata(binding)).map(([key, value]) =>
+        this.#database.prepare(
+          `INSERT INTO flary_thread_metadata
+            (tenant_id, application_id, key, value, thread_id)
+           VALUES (?, ?, ?, ?, ?)`,
+        ).bind(organizationId, appId, key, value, threadId)),
+      ...threadReaders(binding).map((actorId) => this.#database.prepare(
+        `INSERT INTO flary_thread_access (tenant_id, application_id, actor_id, thread_id)
+         VALUES (?, ?, ?, ?)`,
+      ).bind(organizationId, appId, actorId, threadId)),
+    ];
+  }
+
+  #deleteFilterRows(thread: {
+    readonly tenantId: string;
+    readonly applicationId: string;
+    readonly threadId: string;
+  }): D1Statement[] {
+    return ["flary_thread_tags", "flary_thread_metadata", "flary_thread_access"].map((table) =>
+      this.#database.prepare(
+        `DELETE FROM ${table}
+         WHERE tenant_id = ? AND application_id = ? AND thread_id = ?`,
+      ).bind(thread.tenantId, thread.applicationId, thread.threadId));
+  }
+
+  #deleteSearchEntries(thread: {
+    readonly tenantId: string;
+    readonly applicationId: string;
+    readonly threadId: string;
+  }): D1Statement {
+    return this.#database.prepare(
+      `DELETE FROM flary_thread_search
        WHERE tenant_id = ? AND application_id = ? AND thread_id = ?`,
-    ).bind(input.tenantId, input.applicationId, input.threadId).run();
+    ).bind(thread.tenantId, thread.applicationId, thread.threadId);
   }
 
   async putDeletion(input: ThreadDeletion & {
@@ -187,3 +586,20 @@ export class D1ThreadCatalog {
     });
   }
 }
+
+function owner(binding: ThreadBinding) {
+  return {
+    tenantId: binding.thread.organizationId,
+    applicationId: binding.thread.appId,
+    threadId: binding.thread.threadId,
+  };
+}
+
+/** The users who may read a thread, or none when the tenant may read it. */
+function threadReaders(binding: ThreadBinding): string[] {
+  if (binding.createdBy.kind !== "user") return [];
+  return [
+    binding.createdBy.id,
+    ...(binding.collaborators ?? []).map((collaborator) => collaborator.actor.id),
+  ];
+}
@@ -1,3 +1,5 @@
+import { z, ZodError } from "zod";
+
 import {
   createFlueClient,
   type CreateFlueClientOptions,
@@ -10,11 +12,16 @@ import {
   FlueAdmissionSchema,
   type FlueAgentGateway,
   type FlaryRunRecord,
+  type FlaryRunSettlement,
+  type FlaryRunSettlementInput,
 } from "../flue/service.js";
 import type {
   CancelRunRequest,
   CreateRunRequest,
+  DeadLetterQueryInput,
+  DeadLetterRecord,
   RunEvent,
+  RunListPage,
   RunHandle,
   RunInput,
   RunResult,
@@ -26,16 +33,38 @@ import type {
   UserInputRecord,
   UserInputRequest,
 } from "../contracts/index.js";
-import { UserInputRequestSchema } from "../contracts/index.js";
-import type {
-  FlaryRunService,
-  ObserveRunOptions,
-  TrustedRunContext,
+import {
+  ApprovalDecisionSchema,
+  CancelRunRequestSchema,
+  CreateRunRequestSchema,
+  DeadLetterQuerySchema,
+  IdentifierSchema,
+  JsonObjectSchema,
+  RunInputSchema,
+  RunListQuerySchema,
+  UserInputAnswerRequestSchema,
+  UserInputRequestSchema,
+} from "../contracts/index.js";
+import {
+  TrustedRunContextSchema,
+  type FlaryRunService,
+  type ObserveRunOptions,
+  type TrustedRunContext,
 } from "../host/runs.js";
 import {
   SqliteFlaryRunRepository,
   type FlaryUserInputRepository,
 } from "./sqlite-run-repository.js";
+import {
+  createFlaryDurableQuotaStore,
+  handleFlaryQuotaRpc,
+} from "./quota-store.js";
+import {
+  SqliteFlaryCallbackLog,
+  dispatchFlaryRunCallback,
+  handleFlaryCallbackRpc,
+} from "./callbacks.js";
+import { handleFlaryMemoryRpc } from "./memory-store.js";
 
 /** Minimal structural view of Cloudflare Durable Object APIs. */
 export interface FlaryDurableObjectState {
@@ -138,6 +167,14 @@ export function createFlaryDurableRunService(
         input,
       });
     },
+    list: (context, query) =>
+      call<RunListPage>("list", { context, query }),
+    listDeadLetters: (context, query) =>
+      call<DeadLetterRecord[]>("listDeadLetters", { context, query }),
+    getDeadLetter: (context, runId) =>
+      call<DeadLetterRecord>("getDeadLetter", { context, runId }),
+    replay: (context, runId, replayOptions) =>
+      call<RunHandle>("replay", { context, runId, options: replayOptions }),
   };
 }
 
@@ -167,6 +204,13 @@ export interface FlaryDurableRunObjectOptions<TEnv = Record<string, unknown>> {
   };
   /** Schedule projection work outside the request when the host supports it. */
   readonly schedule?: (state: FlaryDurableObjectState, work: Promise<void>) => void;
+  /** Validate, repair, and guard the answer of a prompt-function run. */
+  readonly settleOutput?: (
+    env: TEnv,
+    input: FlaryRunSettlementInput,
+  ) => Promise<FlaryRunSettlement>;
+  /** Call the application's end hooks once a run reaches its final state. */
+  readonly runEnded?: (env: TEnv, record: FlaryRunRecord) => Promise<void>;
 }
 
 /**
@@ -188,22 +232,33 @@ export async function handleFlaryDurableRunObjectRequest<TEnv>(input: {
   if (!method) return json({ error: { code: "invalid_runtime_request", message: "Missing RPC method" } }, 400);
 
   const repository = new SqliteFlaryRunRepository(input.state.storage.sql);
+  const schedule = (work: Promise<void>) => {
+    if (input.options.schedule) input.options.schedule(input.state, work);
+    else input.state.waitUntil?.(work);
+  };
   const service = createFlueRunService({
-    repository,
+    repository: settlingRepository(repository, input.env, input.state.storage.sql, schedule),
     gateway: input.options.createGateway(input.env),
     ...(input.options.createApprovalHooks
       ? input.options.createApprovalHooks(input.env, repository)
       : {}),
-    schedule: (work) => {
-      if (input.options.schedule) input.options.schedule(input.state, work);
-      else input.state.waitUntil?.(work);
-    },
+    schedule,
+    ...(input.options.settleOutput
+      ? { settleOutput: (settled) => input.options.settleOutput!(input.env, settled) }
+      : {}),
+    ...(input.options.runEnded
+      ? { runEnded: (record) => input.options.runEnded!(input.env, record) }
+      : {}),
   });
   try {
     if (method === "createUserInput" || method === "getUserInput") {
       assertInternalToken(input.request, input.env);
     }
     const body = await readJson(input.request);
+    const handled = await handleFlaryQuotaRpc(input.state.storage.sql, method, body) ??
+      await handleFlaryCallbackRpc(input.state.storage.sql, method, body) ??
+      await handleFlaryMemoryRpc(input.state.storage.sql, method, body);
+    if (handled) return json(handled.value);
     const value = await dispatchRuntimeRpc(service, repository, method, body);
     return json(value);
   } catch (cause) {
@@ -216,22 +271,105 @@ export async function handleFlaryDurableRunObjectRequest<TEnv>(input: {
   }
 }
 
+/**
+ * Act on run state changes that the application asked for in the run
+ * metadata. A settled run releases its quota slot, and a run with a callback
+ * sends the signed event without holding up the write.
+ */
+function settlingRepository(
+  repository: SqliteFlaryRunRepository,
+  env: unknown,
+  sql: unknown,
+  schedule: (work: Promise<void>) => void,
+): SqliteFlaryRunRepository {
+  const namespace = isRecord(env) ? env.FLARY_RUN_SERVICE : undefined;
+  const quotas = isRecord(namespace) && typeof namespace.idFromName === "function"
+    ? createFlaryDurableQuotaStore({
+        namespace: namespace as unknown as FlaryDurableObjectNamespace,
+      })
+    : undefined;
+  return new Proxy(repository, {
+    get(target, property, receiver) {
+      if (property !== "setResult") {
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === "function" ? value.bind(target) : value;
+      }
+      return async (runId: string, result: RunResult) => {
+        const previous = await target.get(runId);
+        const record = await target.setResult(runId, result);
+        if (previous && record.request.metadata?.flaryCallback !== undefined) {
+          await dispatchFlaryRunCallback({
+            env: isRecord(env) ? env : {},
+            log: new SqliteFlaryCallbackLog(sql),
+            previous,
+            next: record,
+            waitUntil: schedule,
+          }).catch(() => undefined);
+        }
+        const lease: unknown = record.request.metadata?.flaryQuota;
+        if (
+          quotas &&
+          isTerminal(result.status) &&
+          isRecord(lease) &&
+          typeof lease.tenantId === "string" &&
+          typeof lease.leaseId === "string"
+        ) {
+          const usage = result.usage;
+          await quotas.release({
+            tenantId: lease.tenantId,
+            leaseId: lease.leaseId,
+            charge: {
+              tokens: usage?.totalTokens ??
+                (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0),
+              costUsd: usage?.costUsd ?? 0,
+            },
+          }).catch(() => undefined);
+        }
+        return record;
+      };
+    },
+  });
+}
+
+const ReplayOptionsSchema = z
+  .object({
+    requestId: IdentifierSchema.optional(),
+    metadata: JsonObjectSchema.optional(),
+    force: z.boolean().optional(),
+  })
+  .strict()
+  .optional();
+
 async function dispatchRuntimeRpc(
   service: FlaryRunService,
   repository: FlaryUserInputRepository,
   method: string,
   body: Record<string, unknown>,
 ): Promise<unknown> {
-  const context = body.context as TrustedRunContext;
+  // The user input store methods are internal and run without a caller.
+  if (method === "createUserInput") {
+    return repository.createUserInput(
+      string(body.runId),
+      UserInputRequestSchema.parse(body.request),
+    );
+  }
+  if (method === "getUserInput") {
+    return repository.getUserInput(string(body.runId), string(body.requestId));
+  }
+  const context = TrustedRunContextSchema.parse(body.context);
   switch (method) {
     case "create":
-      return service.create(context, body.request as CreateRunRequest);
+      return service.create(context, CreateRunRequestSchema.parse(body.request));
     case "get":
       return service.get(context, string(body.runId));
     case "input":
-      return service.input(context, string(body.runId), body.input as RunInput);
+      return service.input(context, string(body.runId), RunInputSchema.parse(body.input));
     case "cancel":
-      return service.cancel(context, string(body.runId), body.input as CancelRunRequest);
+      return service.cancel(
+        context,
+        string(body.runId),
+        CancelRunRequestSchema.parse(body.input),
+      );
     case "observe": {
       const controller = new AbortController();
       const events: RunEvent[] = [];
@@ -256,7 +394,11 @@ async function dispatchRuntimeRpc(
       return service.listApprovals(context, string(body.runId));
     case "decideApproval":
       if (!service.decideApproval) throw featureMissing("Run approvals");
-      return service.decideApproval(context, string(body.runId), body.decision as ApprovalDecision);
+      return service.decideApproval(
+        context,
+        string(body.runId),
+        ApprovalDecisionSchema.parse(body.decision),
+      );
     case "listUserInput":
       if (!service.listUserInput) throw featureMissing("Run user input");
       return service.listUserInput(context, string(body.runId));
@@ -266,15 +408,30 @@ async function dispatchRuntimeRpc(
         context,
         string(body.runId),
         string(body.requestId),
-        body.input as UserInputAnswerRequest,
+        UserInputAnswerRequestSchema.parse(body.input),
       );
-    case "createUserInput":
-      return repository.createUserInput(
+    case "list":
+      if (!service.list) throw featureMissing("Run listing");
+      return service.list(
+        context,
+        body.query === undefined ? undefined : RunListQuerySchema.parse(body.query),
+      );
+    case "listDeadLetters":
+      if (!service.listDeadLetters) throw featureMissing("Dead letters");
+      return service.listDeadLetters(
+        context,
+        body.query === undefined ? undefined : DeadLetterQuerySchema.parse(body.query),
+      );
+    case "getDeadLetter":
+      if (!service.getDeadLetter) throw featureMissing("Dead letters");
+      return service.getDeadLetter(context, string(body.runId));
+    case "replay":
+      if (!service.replay) throw featureMissing("Dead letters");
+      return service.replay(
+        context,
         string(body.runId),
-        UserInputRequestSchema.parse(body.request),
+        ReplayOptionsSchema.parse(body.options),
       );
-    case "getUserInput":
-      return repository.getUserInput(string(body.runId), string(body.requestId));
     default:
       throw Object.assign(new Error(`Unknown Flary Runtime method '${method}'`), {
         code: "invalid_runtime_request",
@@ -455,7 +612,7 @@ export function createFlaryCodemodeApprovalHooks<
   ): Promise<unknown> => {
     const kind = record.request?.execution === "workflow" ? "workflow" : "agent";
     const targetId = kind === "workflow"
-      ? record.admission.submissionId
+      ? record.admission?.submissionId ?? record.instanceId
       : record.instanceId;
     const binding = bindingFor(env, kind, record.agentName);
     const path = `/${kind === "workflow" ? "workflows" : "agents"}/${encodeURIComponent(record.agentName)}/${encodeURIComponent(targetId)}?flary=${action}`;
@@ -578,12 +735,14 @@ function featureMissing(name: string): Error {
 }
 
 function errorCode(cause: unknown): string {
+  if (cause instanceof ZodError) return "invalid_runtime_request";
   return isRecord(cause) && typeof cause.code === "string"
     ? cause.code
     : "flary_runtime_failed";
 }
 
 function errorStatus(cause: unknown): number {
+  if (cause instanceof ZodError) return 400;
   return isRecord(cause) && typeof cause.status === "number"
     ? cause.status
     : 500;
@@ -6,6 +6,9 @@ export * from "./thread-metadata.js";
 export * from "./tool-journal.js";
 export * from "./run-repository.js";
 export * from "./sqlite-run-repository.js";
+export * from "./quota-store.js";
+export * from "./callbacks.js";
+export * from "./memory-store.js";
 export * from "./function-host.js";
 export * from "./sandbox.js";
 export * from "./scheduler.js";
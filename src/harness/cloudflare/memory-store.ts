@@ -0,0 +1,143 @@
+import {
+  MemoryDeleteRequestSchema,
+  MemoryListRequestSchema,
+  MemoryPutRequestSchema,
+} from "../contracts/index.js";
+import type {
+  FlaryMemoryOwner,
+  FlaryMemoryRecord,
+  FlaryMemoryStore,
+} from "../functions/types.js";
+import type { FlaryDurableObjectNamespace } from "./function-host.js";
+
+interface SqlRows<T> {
+  toArray(): T[];
+}
+
+interface SqlStorage {
+  exec<T = Record<string, unknown>>(
+    query: string,
+    ...bindings: unknown[]
+  ): SqlRows<T>;
+}
+
+/** Memory records of one owner partition in Durable Object SQLite. */
+export class SqliteFlaryMemoryStore implements FlaryMemoryStore {
+  readonly #sql: SqlStorage;
+
+  constructor(sql: unknown) {
+    this.#sql = sql as SqlStorage;
+    this.#sql.exec(`
+      CREATE TABLE IF NOT EXISTS flary_memory_records (
+        owner TEXT NOT NULL,
+        id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        record_json TEXT NOT NULL,
+        PRIMARY KEY (owner, id)
+      );
+    `);
+  }
+
+  async list(owner: FlaryMemoryOwner): Promise<FlaryMemoryRecord[]> {
+    return this.#sql.exec<{ record_json: string }>(
+      `SELECT record_json FROM flary_memory_records
+       WHERE owner = ? ORDER BY created_at ASC, id ASC`,
+      ownerKey(owner),
+    ).toArray().map((row) => JSON.parse(row.record_json) as FlaryMemoryRecord);
+  }
+
+  async put(record: FlaryMemoryRecord): Promise<void> {
+    this.#sql.exec(
+      `INSERT INTO flary_memory_records (owner, id, created_at, record_json)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (owner, id) DO UPDATE SET record_json = excluded.record_json`,
+      ownerKey({ scope: record.scope, key: record.owner }),
+      record.id,
+      record.createdAt,
+      JSON.stringify(record),
+    );
+  }
+
+  async delete(owner: FlaryMemoryOwner, id?: string): Promise<number> {
+    const rows = id === undefined
+      ? this.#sql.exec<{ id: string }>(
+          "DELETE FROM flary_memory_records WHERE owner = ? RETURNING id",
+          ownerKey(owner),
+        )
+      : this.#sql.exec<{ id: string }>(
+          "DELETE FROM flary_memory_records WHERE owner = ? AND id = ? RETURNING id",
+          ownerKey(owner),
+          id,
+        );
+    return rows.toArray().length;
+  }
+}
+
+const MEMORY_METHODS = new Set(["memoryList", "memoryPut", "memoryDelete"]);
+
+/**
+ * Answer a memory RPC inside the Runtime Durable Object. It returns undefined
+ * for other methods.
+ */
+export async function handleFlaryMemoryRpc(
+  sql: unknown,
+  method: string,
+  body: Record<string, unknown>,
+): Promise<{ readonly value: unknown } | undefined> {
+  if (!MEMORY_METHODS.has(method)) return undefined;
+  const store = new SqliteFlaryMemoryStore(sql);
+  if (method === "memoryList") {
+    return { value: await store.list(MemoryListRequestSchema.parse(body).owner) };
+  }
+  if (method === "memoryPut") {
+    await store.put(MemoryPutRequestSchema.parse(body).record);
+    return { value: { stored: true } };
+  }
+  const request = MemoryDeleteRequestSchema.parse(body);
+  return { value: { deleted: await store.delete(request.owner, request.id) } };
+}
+
+/**
+ * Create the Worker-side memory store. Each owner partition is one instance
+ * of the Runtime Durable Object, so a user's records stay together.
+ */
+export function createFlaryDurableMemoryStore(options: {
+  readonly namespace: FlaryDurableObjectNamespace;
+}): FlaryMemoryStore {
+  const call = async <T>(
+    owner: FlaryMemoryOwner,
+    method: string,
+    body: Record<string, unknown>,
+  ): Promise<T> => {
+    const stub = options.namespace.get(
+      options.namespace.idFromName(`memory:${ownerKey(owner)}`),
+    );
+    const response = await stub.fetch(
+      new Request(`https://flary.internal/rpc/${method}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+    const value = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(`Flary memory request failed (${response.status})`);
+    }
+    return value as T;
+  };
+  return {
+    list: (owner) => call<FlaryMemoryRecord[]>(owner, "memoryList", { owner }),
+    put: async (record) => {
+      await call({ scope: record.scope, key: record.owner }, "memoryPut", { record });
+    },
+    delete: async (owner, id) =>
+      (await call<{ deleted: number }>(owner, "memoryDelete", {
+        owner,
+        ...(id !== undefined ? { id } : {}),
+      })).deleted,
+  };
+}
+
+function ownerKey(owner: FlaryMemoryOwner): string {
+  return `${owner.scope}:${owner.key}`;
+}
@@ -0,0 +1,154 @@
+import {
+  QuotaAdmitRequestSchema,
+  QuotaReleaseRequestSchema,
+  QuotaUsageRequestSchema,
+} from "../contracts/index.js";
+import {
+  QUOTA_LEASE_RETENTION_MS,
+  admitQuota,
+  readQuotaUsage,
+  releaseQuota,
+  type FlaryQuotaTable,
+} from "../functions/quotas.js";
+import type {
+  FlaryQuotaDecision,
+  FlaryQuotaStore,
+  FlaryQuotaUsage,
+} from "../functions/types.js";
+import type { FlaryDurableObjectNamespace } from "./function-host.js";
+
+interface SqlRows<T> {
+  toArray(): T[];
+}
+
+interface SqlStorage {
+  exec<T = Record<string, unknown>>(
+    query: string,
+    ...bindings: unknown[]
+  ): SqlRows<T>;
+}
+
+/**
+ * Quota counters of one tenant in Durable Object SQLite.
+ *
+ * Every statement is synchronous, so one admission is atomic inside the
+ * Durable Object that owns the tenant.
+ */
+export class SqliteFlaryQuotaStore implements FlaryQuotaStore {
+  readonly #storage: SqlStorage;
+  readonly #table: FlaryQuotaTable;
+
+  constructor(sql: unknown) {
+    const storage = sql as SqlStorage;
+    this.#storage = storage;
+    storage.exec(`
+      CREATE TABLE IF NOT EXISTS flary_quota_state (
+        key TEXT PRIMARY KEY NOT NULL,
+        value_json TEXT NOT NULL
+      );
+    `);
+    this.#table = {
+      read: (key) => {
+        const row = storage.exec<{ value_json: string }>(
+          "SELECT value_json FROM flary_quota_state WHERE key = ?",
+          key,
+        ).toArray()[0];
+        return row ? JSON.parse(row.value_json) : undefined;
+      },
+      write: (key, value) => {
+        storage.exec(
+          `INSERT INTO flary_quota_state (key, value_json) VALUES (?, ?)
+           ON CONFLICT (key) DO UPDATE SET value_json = excluded.value_json`,
+          key,
+          JSON.stringify(value),
+        );
+      },
+      remove: (key) => {
+        storage.exec("DELETE FROM flary_quota_state WHERE key = ?", key);
+      },
+    };
+  }
+
+  async admit(input: Parameters<FlaryQuotaStore["admit"]>[0]): Promise<FlaryQuotaDecision> {
+    this.sweepLeases();
+    return admitQuota(this.#table, input);
+  }
+
+  async release(input: Parameters<FlaryQuotaStore["release"]>[0]): Promise<void> {
+    releaseQuota(this.#table, input);
+  }
+
+  async usage(input: Parameters<FlaryQuotaStore["usage"]>[0]): Promise<FlaryQuotaUsage[]> {
+    return readQuotaUsage(this.#table, input.subjects);
+  }
+
+  /** Delete lease records that expired longer ago than the retention window. */
+  private sweepLeases(now = Date.now()): void {
+    this.#storage.exec(
+      `DELETE FROM flary_quota_state
+       WHERE key LIKE 'flary:quota-lease:%'
+         AND json_extract(value_json, '$.expiresAt') < ?`,
+      now - QUOTA_LEASE_RETENTION_MS,
+    );
+  }
+}
+
+const QUOTA_METHODS = new Set(["quotaAdmit", "quotaRelease", "quotaUsage"]);
+
+/**
+ * Answer a quota RPC inside the Runtime Durable Object. It returns undefined
+ * for other methods, so the run service can handle them.
+ */
+export async function handleFlaryQuotaRpc(
+  sql: unknown,
+  method: string,
+  body: Record<string, unknown>,
+): Promise<{ readonly value: unknown } | undefined> {
+  if (!QUOTA_METHODS.has(method)) return undefined;
+  const store = new SqliteFlaryQuotaStore(sql);
+  if (method === "quotaAdmit") {
+    return { value: await store.admit(QuotaAdmitRequestSchema.parse(body)) };
+  }
+  if (method === "quotaRelease") {
+    await store.release(QuotaReleaseRequestSchema.parse(body));
+    return { value: { released: true } };
+  }
+  return { value: await store.usage(QuotaUsageRequestSchema.parse(body)) };
+}
+
+/**
+ * Create the Worker-side quota store. Each tenant is one instance of the
+ * Runtime Durable Object, so its counters never race across Workers.
+ */
+export function createFlaryDurableQuotaStore(options: {
+  readonly namespace: FlaryDurableObjectNamespace;
+}): FlaryQuotaStore {
+  const call = async <T>(
+    tenantId: string,
+    method: string,
+    body: Record<string, unknown>,
+  ): Promise<T> => {
+    const stub = options.namespace.get(
+      options.namespace.idFromName(`quota:${tenantId}`),
+    );
+    const response = await stub.fetch(
+      new Request(`https://flary.internal/rpc/${method}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    );
+    const value = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(`Flary quota request failed (${response.status})`);
+    }
+    return value as T;
+  };
+  return {
+    admit: (input) => call<FlaryQuotaDecision>(input.tenantId, "quotaAdmit", { ...input }),
+    release: async (input) => {
+      await call(input.tenantId, "quotaRelease", { ...input });
+    },
+    usage: (input) => call<FlaryQuotaUsage[]>(input.tenantId, "quotaUsage", { ...input }),
+  };
+}
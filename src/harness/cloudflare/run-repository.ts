@@ -9,8 +9,10 @@ import {
 import {
   RunEventSchema,
   RunResultSchema,
+  RunWaitStateSchema,
   type RunEvent,
   type RunResult,
+  type RunWaitState,
 } from "../contracts/index.js";
 import type { TrustedRunContext } from "../host/runs.js";
 
@@ -201,6 +203,20 @@ export class D1FlaryRunRepository implements FlaryRunRepository {
     return next;
   }
 
+  async setWait(
+    runId: string,
+    waitInput: RunWaitState | undefined,
+  ): Promise<FlaryRunRecord> {
+    const { wait: _previous, ...record } = await this.required(runId);
+    const next = FlaryRunRecordSchema.parse({
+      ...record,
+      ...(waitInput ? { wait: RunWaitStateSchema.parse(waitInput) } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    await this.write(next);
+    return next;
+  }
+
   async appendEvent(
     runId: string,
     dedupeKey: string,
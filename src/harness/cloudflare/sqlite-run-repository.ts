@@ -1,22 +1,35 @@
 import {
   FlaryRunRecordSchema,
   FlueAdmissionSchema,
+  deadLetterFor,
+  decodeRunCursor,
+  encodeRunCursor,
+  runConcurrency,
+  runSummary,
   type FlaryRunRecord,
   type FlaryRunRepository,
   type FlueAdmission,
   type RunEventDraft,
 } from "../flue/service.js";
 import {
+  DeadLetterRecordSchema,
   RunEventSchema,
+  RunListPageSchema,
   RunResultSchema,
+  RunWaitStateSchema,
   UserInputAnswerRequestSchema,
   UserInputRecordSchema,
   UserInputRequestSchema,
+  type DeadLetterQuery,
+  type DeadLetterRecord,
   type UserInputAnswerRequest,
   type UserInputRecord,
   type UserInputRequest,
   type RunEvent,
+  type RunListPage,
+  type RunListQuery,
   type RunResult,
+  type RunWaitState,
 } from "../contracts/index.js";
 import type { IdentityReference } from "../contracts/identity.js";
 import type { TrustedRunContext } from "../host/runs.js";
@@ -53,7 +66,8 @@ export interface FlaryUserInputRepository {
 
 /**
  * Durable Object SQLite storage for function admission, ownership, results,
- * inputs, and replayable public events.
+ * inputs, replayable public events, dead letters of failed runs, and the
+ * run list index.
  */
 export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserInputRepository {
   readonly #sql: SqlStorage;
@@ -107,7 +121,62 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
       );
       CREATE INDEX IF NOT EXISTS flary_function_user_input_run
       ON flary_function_user_input (run_id, created_at);
+      CREATE TABLE IF NOT EXISTS flary_function_dead_letters (
+        run_id TEXT PRIMARY KEY NOT NULL,
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        project_id TEXT,
+        agent_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        letter_json TEXT NOT NULL,
+        failed_at TEXT NOT NULL,
+        replayed_run_id TEXT
+      );
+      CREATE TABLE IF NOT EXISTS flary_function_run_index (
+        run_id TEXT PRIMARY KEY NOT NULL,
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        project_id TEXT,
+        agent_id TEXT NOT NULL,
+        revision_id TEXT,
+        user_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        summary_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS flary_function_run_index_list
+      ON flary_function_run_index (
+        tenant_id,
+        application_id,
+        created_at DESC,
+        run_id DESC
+      );
+      CREATE TABLE IF NOT EXISTS flary_function_run_slots (
+        run_id TEXT PRIMARY KEY NOT NULL,
+        tenant_id TEXT NOT NULL,
+        application_id TEXT NOT NULL,
+        project_id TEXT,
+        agent_id TEXT NOT NULL,
+        concurrency_key TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS flary_function_run_slots_key
+      ON flary_function_run_slots (
+        tenant_id,
+        application_id,
+        agent_id,
+        concurrency_key,
+        created_at
+      );
+      CREATE INDEX IF NOT EXISTS flary_function_dead_letters_scope
+      ON flary_function_dead_letters (
+        tenant_id,
+        application_id,
+        agent_id,
+        failed_at
+      );
     `);
+    this.backfillIndex();
   }
 
   async createUserInput(
@@ -230,6 +299,7 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
       record.createdAt,
       record.updatedAt,
     );
+    this.index(record);
     return record;
   }
 
@@ -297,6 +367,37 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
       updatedAt: new Date().toISOString(),
     });
     await this.write(next);
+    const letter = deadLetterFor(record, next);
+    if (letter) {
+      this.#sql.exec(
+        `INSERT OR IGNORE INTO flary_function_dead_letters (
+           run_id, tenant_id, application_id, project_id, agent_id,
+           channel_id, letter_json, failed_at, replayed_run_id
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL)`,
+        next.runId,
+        next.trusted.tenantId,
+        next.trusted.applicationId,
+        next.trusted.projectId ?? null,
+        next.trusted.agentId,
+        letter.channelId,
+        JSON.stringify(letter),
+        letter.failedAt,
+      );
+    }
+    return next;
+  }
+
+  async setWait(
+    runId: string,
+    waitInput: RunWaitState | undefined,
+  ): Promise<FlaryRunRecord> {
+    const { wait: _previous, ...record } = await this.required(runId);
+    const next = FlaryRunRecordSchema.parse({
+      ...record,
+      ...(waitInput ? { wait: RunWaitStateSchema.parse(waitInput) } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    await this.write(next);
     return next;
   }
 
@@ -355,6 +456,136 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
     );
   }
 
+  async listDeadLetters(
+    scope: TrustedRunContext,
+    query: DeadLetterQuery,
+  ): Promise<DeadLetterRecord[]> {
+    return this.#sql.exec<{ letter_json: string }>(
+      `SELECT letter_json FROM flary_function_dead_letters
+       WHERE tenant_id = ? AND application_id = ?
+         AND COALESCE(project_id, '') = COALESCE(?, '')
+         AND agent_id = ?
+         AND (? IS NULL OR channel_id = ?)
+         AND (? = 1 OR replayed_run_id IS NULL)
+       ORDER BY failed_at DESC
+       LIMIT ?`,
+      scope.tenantId,
+      scope.applicationId,
+      scope.projectId ?? null,
+      scope.agentId,
+      query.channelId ?? null,
+      query.channelId ?? null,
+      query.includeReplayed ? 1 : 0,
+      query.limit,
+    ).toArray().map((row) => DeadLetterRecordSchema.parse(JSON.parse(row.letter_json)));
+  }
+
+  async getDeadLetter(runId: string): Promise<DeadLetterRecord | undefined> {
+    const row = this.first<{ letter_json: string }>(
+      `SELECT letter_json FROM flary_function_dead_letters
+       WHERE run_id = ? LIMIT 1`,
+      runId,
+    );
+    return row
+      ? DeadLetterRecordSchema.parse(JSON.parse(row.letter_json))
+      : undefined;
+  }
+
+  async markReplayed(runId: string, replayedRunId: string): Promise<DeadLetterRecord> {
+    const letter = await this.getDeadLetter(runId);
+    if (!letter) throw new Error("The dead letter was not found");
+    const next = DeadLetterRecordSchema.parse({
+      ...letter,
+      replayedRunId,
+      replayedAt: new Date().toISOString(),
+    });
+    this.#sql.exec(
+      `UPDATE flary_function_dead_letters
+       SET letter_json = ?, replayed_run_id = ?
+       WHERE run_id = ?`,
+      JSON.stringify(next),
+      replayedRunId,
+      runId,
+    );
+    return next;
+  }
+
+  async list(scope: TrustedRunContext, query: RunListQuery): Promise<RunListPage> {
+    const where = [
+      "tenant_id = ?",
+      "application_id = ?",
+      "COALESCE(project_id, '') = COALESCE(?, '')",
+    ];
+    const bindings: unknown[] = [
+      scope.tenantId,
+      scope.applicationId,
+      scope.projectId ?? null,
+    ];
+    const filter = (clause: string, ...values: unknown[]) => {
+      where.push(clause);
+      bindings.push(...values);
+    };
+    if (query.status) {
+      filter(`status IN (${query.status.map(() => "?").join(", ")})`, ...query.status);
+    }
+    if (query.agentId) filter("agent_id = ?", query.agentId);
+    if (query.revisionId) filter("revision_id = ?", query.revisionId);
+    if (query.userId) filter("user_id = ?", query.userId);
+    if (query.createdAfter) filter("created_at >= ?", query.createdAfter);
+    if (query.createdBefore) filter("created_at < ?", query.createdBefore);
+    for (const [key, value] of Object.entries(query.metadata ?? {})) {
+      filter("json_extract(summary_json, ?) = ?", `$.metadata."${key}"`, value);
+    }
+    if (query.cursor) {
+      const after = decodeRunCursor(query.cursor);
+      filter(
+        "(created_at < ? OR (created_at = ? AND run_id < ?))",
+        after.createdAt,
+        after.createdAt,
+        after.runId,
+      );
+    }
+    const rows = this.#sql.exec<{ summary_json: string }>(
+      `SELECT summary_json FROM flary_function_run_index
+       WHERE ${where.join(" AND ")}
+       ORDER BY created_at DESC, run_id DESC
+       LIMIT ?`,
+      ...bindings,
+      query.limit + 1,
+    ).toArray();
+    const runs = rows.slice(0, query.limit).map((row) => JSON.parse(row.summary_json));
+    return RunListPageSchema.parse({
+      runs,
+      ...(rows.length > query.limit
+        ? { nextCursor: encodeRunCursor(runs.at(-1)!) }
+        : {}),
+    });
+  }
+
+  async concurrencyRuns(
+    scope: TrustedRunContext,
+    key: string,
+  ): Promise<FlaryRunRecord[]> {
+    const rows = this.#sql.exec<{ run_id: string }>(
+      `SELECT run_id FROM flary_function_run_slots
+       WHERE tenant_id = ? AND application_id = ?
+         AND COALESCE(project_id, '') = COALESCE(?, '')
+         AND agent_id = ? AND concurrency_key = ?
+       ORDER BY created_at ASC, run_id ASC`,
+      scope.tenantId,
+      scope.applicationId,
+      scope.projectId ?? null,
+      scope.agentId,
+      key,
+    ).toArray();
+    const records: FlaryRunRecord[] = [];
+    for (const row of rows) {
+      const record = await this.get(row.run_id);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
   private first<T>(query: string, ...bindings: unknown[]): T | undefined {
     return this.#sql.exec<T>(query, ...bindings).toArray()[0];
   }
@@ -379,7 +610,7 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
     for (const row of rows) {
       try {
         const record = FlaryRunRecordSchema.parse(JSON.parse(row.record_json));
-        if (record.admission.submissionId === runId) return record.runId;
+        if (record.admission?.submissionId === runId) return record.runId;
       } catch {
         // Ignore an unrelated malformed legacy row. Normal run reads still
         // fail closed through required() and the public schema validators.
@@ -398,6 +629,69 @@ export class SqliteFlaryRunRepository implements FlaryRunRepository, FlaryUserIn
       record.updatedAt,
       record.runId,
     );
+    this.index(record);
+  }
+
+  /**
+   * Index the runs stored before the list index existed. Only runs without
+   * an index row are read, so this is a no-op once every run is indexed.
+   */
+  private backfillIndex(): void {
+    const rows = this.#sql.exec<{ record_json: string }>(
+      `SELECT record_json FROM flary_function_runs AS run
+       WHERE NOT EXISTS (
+         SELECT 1 FROM flary_function_run_index AS indexed
+         WHERE indexed.run_id = run.run_id
+       )`,
+    ).toArray();
+    for (const row of rows) {
+      const record = FlaryRunRecordSchema.safeParse(JSON.parse(row.record_json));
+      // A record that no longer parses stays unlisted; get() fails closed on it.
+      if (record.success) this.index(record.data);
+    }
+  }
+
+  /** Keep the list index in step with every run write. */
+  private index(record: FlaryRunRecord): void {
+    const summary = runSummary(record);
+    this.#sql.exec(
+      `INSERT INTO flary_function_run_index (
+         run_id, tenant_id, application_id, project_id, agent_id,
+         revision_id, user_id, status, created_at, summary_json
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (run_id) DO UPDATE SET
+         status = excluded.status,
+         summary_json = excluded.summary_json`,
+      record.runId,
+      record.trusted.tenantId,
+      record.trusted.applicationId,
+      record.trusted.projectId ?? null,
+      record.trusted.agentId,
+      record.trusted.revisionId ?? null,
+      summary.userId,
+      summary.status,
+      record.createdAt,
+      JSON.stringify(summary),
+    );
+    // A slot row lives while a run with a concurrency key is unsettled.
+    const concurrency = runConcurrency(record);
+    if (!concurrency || ["completed", "failed", "cancelled"].includes(record.result.status)) {
+      this.#sql.exec("DELETE FROM flary_function_run_slots WHERE run_id = ?", record.runId);
+      return;
+    }
+    this.#sql.exec(
+      `INSERT OR IGNORE INTO flary_function_run_slots (
+         run_id, tenant_id, application_id, project_id, agent_id,
+         concurrency_key, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      record.runId,
+      record.trusted.tenantId,
+      record.trusted.applicationId,
+      record.trusted.projectId ?? null,
+      record.trusted.agentId,
+      concurrency.key,
+      record.createdAt,
+    );
   }
 
   private userInputRecord(row: {
@@ -1,5 +1,7 @@
 import {
   ApprovalDecisionSchema,
+  IdentityReferenceSchema,
+  JsonValueSchema,
   ThreadBindingSchema,
   ThreadCreateRequestSchema,
   ThreadForkRequestSchema,
@@ -7,7 +9,21 @@ import {
   ThreadHistoryRestoreRequestSchema,
   ThreadMessageRequestSchema,
   ThreadModelSetRequestSchema,
+  ThreadHandoffRequestSchema,
   ThreadDeletionSchema,
+  ThreadListQuerySchema,
+  ThreadListResponseSchema,
+  ThreadMetadataUpdateRequestSchema,
+  ThreadSearchRequestSchema,
+  ThreadCollaboratorGrantRequestSchema,
+  ThreadCollaboratorSchema,
+  ThreadCommentRequestSchema,
+  ThreadCommentSchema,
+  ThreadShareLinkCreateRequestSchema,
+  ThreadShareLinkSchema,
+  ThreadTranscriptRequestSchema,
+  type ThreadShareLink,
+  type ThreadSharedConversation,
   type ThreadDeletion,
   UserInputAnswerRequestSchema,
   type ApprovalDecision,
@@ -19,9 +35,11 @@ import {
   type ThreadPortableArchive,
 } from "../contracts/index.js";
 import {
+  REALTIME_TYPING_TTL_MS,
   RealtimeClientFrameSchema,
   RealtimeTicketRequestSchema,
   type RealtimeClientFrame,
+  type RealtimePresenceMember,
   type RealtimeServerFrame,
 } from "../contracts/realtime.js";
 import {
@@ -32,7 +50,10 @@ import {
   type ResolvedModelPin,
 } from "../contracts/provider.js";
 import { toFlueModelSpecifier } from "../providers/resolver.js";
+import { classifyProviderFailureMessage } from "../providers/recovery.js";
+import { ModelPricingCatalogSchema, priceUsage } from "../providers/pricing.js";
 import type {
+  FlaryThreadGuardrailRecord,
   FlaryThreadHostService,
   FlaryThreadScope,
   FlaryThreadTarget,
@@ -49,11 +70,20 @@ import { DurableSandboxProcessRuntime } from "./sandbox-process-runtime.js";
 import { SqliteSandboxProcessRegistry } from "./sandbox-process-registry.js";
 import {
   D1ThreadCatalog,
+  decodeThreadCursor,
+  encodeThreadCursor,
+  matchesThreadListQuery,
   type D1DatabaseLike,
+  type D1ThreadSearchEntry,
 } from "./d1-thread-catalog.js";
 import {
+  conversationHistory,
   exportSessionJsonl,
   importSessionJsonl,
+  importTranscript,
+  importedHistoryMessage,
+  renderThreadTranscript,
+  TranscriptImportError,
   FlarySessionProjector,
   SqliteCanonicalSessionArchive,
   R2SessionArchive,
@@ -63,12 +93,14 @@ import {
   type SessionRecordType,
 } from "../session/index.js";
 import type { FlueAdmission, FlueAgentGateway } from "../flue/service.js";
-import { FlaryHostError } from "../host/errors.js";
+import { FlaryHostError, featureUnavailable } from "../host/errors.js";
+import { threadAccessAllowed, type FlaryThreadAccess } from "../host/access.js";
 import { redactErrorMessage, redactText } from "../execution/redaction.js";
 import {
   assertPublicBrowserUrl,
   browserStateObjectKey,
 } from "../functions/browser.js";
+import type { FlaryTurnContext } from "../functions/types.js";
 
 interface DurableObjectStub {
   fetch(request: Request): Promise<Response>;
@@ -172,7 +204,10 @@ export interface CreateCloudflareThreadServiceOptions<
     readonly connectionIds: readonly string[];
     readonly selection: ModelSelection;
   }) => Promise<Partial<ResolvedModelPin> | void> | Partial<ResolvedModelPin> | void;
-  /** Resolve trusted context for one turn without changing the public message. */
+  /**
+   * Resolve the context of one turn without changing the public message. A
+   * string is trusted context. `quoted` text goes ahead of the message instead.
+   */
   readonly resolveTurnContext?: (input: {
     readonly bindings: TEnv;
     readonly tenantId: string;
@@ -182,24 +217,131 @@ export interface CreateCloudflareThreadServiceOptions<
     readonly threadId: string;
     readonly message: string;
     readonly admittedAt: string;
-  }) => string | undefined | Promise<string | undefined>;
+  }) => string | FlaryTurnContext | undefined | Promise<string | FlaryTurnContext | undefined>;
 }
 
-async function resolveTrustedTurnContext<TEnv extends Record<string, unknown>>(
+/**
+ * Admit one agent turn before it reaches the model. The generated host passes
+ * the authored application, so its quotas, input guardrails, and `onRunStart`
+ * apply to HTTP, realtime, and scheduled turns alike.
+ */
+export type FlaryThreadTurnGate = (input: {
+  readonly bindings: Record<string, unknown>;
+  readonly agentId: string;
+  readonly tenantId: string;
+  readonly threadId: string;
+  readonly admissionId: string;
+  readonly actor: {
+    readonly id: string;
+    readonly roles?: readonly string[];
+    readonly scopes?: readonly string[];
+  };
+  readonly message: string;
+}) => Promise<{
+  readonly text: string;
+  readonly trips: readonly FlaryThreadGuardrailRecord[];
+  readonly blocked: boolean;
+  /** The agent has output guardrails, so its answer is held until guarded. */
+  readonly guardsOutput: boolean;
+}>;
+
+/**
+ * Run agent output guardrails on a completed answer. The generated host
+ * passes the authored application, so the Durable Object can reach them.
+ */
+export type FlaryThreadOutputGuard = (input: {
+  readonly bindings: Record<string, unknown>;
+  readonly agentId: string;
+  readonly tenantId: string;
+  readonly threadId: string;
+  readonly text: string;
+}) => Promise<{
+  readonly text: string;
+  readonly trips: readonly FlaryThreadGuardrailRecord[];
+  readonly blocked: boolean;
+}>;
+
+/**
+ * Observe one settled agent turn. The generated host passes the authored
+ * application, so its lifecycle hooks also see durable thread turns.
+ */
+export type FlaryThreadTurnObserver = (input: {
+  readonly bindings: Record<string, unknown>;
+  readonly agentId: string;
+  readonly tenantId: string;
+  readonly threadId: string;
+  readonly submissionId: string;
+  /** The idempotency key the turn was admitted with, without fallback suffixes. */
+  readonly admissionId?: string;
+  readonly status: "completed" | "failed";
+  readonly model?: string;
+  readonly error?: string;
+  readonly durationMs: number;
+  /** Tokens and USD cost the turn spent on its provider. */
+  readonly usage: { readonly tokens: number; readonly costUsd: number };
+}) => Promise<void>;
+
+/**
+ * Write the due title or summary fields of a thread from its transcript. The
+ * generated host passes the authored application and its summary model.
+ */
+export type FlaryThreadDescriber = (input: {
+  readonly bindings: Record<string, unknown>;
+  readonly agentId: string;
+  readonly tenantId: string;
+  readonly threadId: string;
+  readonly fields: readonly ("title" | "summary")[];
+  readonly messages: readonly {
+    readonly role: "user" | "assistant";
+    readonly text: string;
+  }[];
+  /** The summary to continue. It is absent after a fork or rollback. */
+  readonly summary?: string;
+}) => Promise<{
+  readonly title?: string;
+  readonly summary?: string;
+  /** Model usage of the call, charged to the thread's limits. */
+  readonly usage?: { readonly tokens?: number; readonly costUsd?: number };
+}>;
+
+/** Binding metadata that holds the policy of the active agent. */
+const AGENT_POLICY_METADATA_KEYS = new Set([
+  "flaryAgentRevision",
+  "flaryModelPolicy",
+  "flaryDelegation",
+  "flaryCompaction",
+  "flaryLimits",
+  "flaryPricing",
+  "flarySummary",
+]);
+
+async function resolveTurnContext<TEnv extends Record<string, unknown>>(
   resolver: CreateCloudflareThreadServiceOptions<TEnv>["resolveTurnContext"],
   input: Parameters<NonNullable<CreateCloudflareThreadServiceOptions<TEnv>["resolveTurnContext"]>>[0],
-): Promise<string | undefined> {
-  if (!resolver) return undefined;
-  const value = (await resolver(input))?.trim();
-  if (!value) return undefined;
-  if (value.length > 8_192) {
+): Promise<FlaryTurnContext> {
+  if (!resolver) return {};
+  const resolved = await resolver(input);
+  const context = typeof resolved === "string" ? { trusted: resolved } : resolved ?? {};
+  const trusted = context.trusted?.trim();
+  const quoted = context.quoted?.trim();
+  if (trusted && trusted.length > 8_192) {
     throw new FlaryHostError(
       500,
       "turn_context_too_large",
       "Trusted turn context must not exceed 8,192 characters",
     );
   }
-  return value;
+  return { ...(trusted ? { trusted } : {}), ...(quoted ? { quoted } : {}) };
+}
+
+/**
+ * Put the history of an imported transcript ahead of the first message after
+ * the import, and quoted turn context ahead of every message. Both stay quoted
+ * user content and never enter trusted context.
+ */
+function withQuotedContext(imported: unknown, quoted: string | undefined, message: string): string {
+  const quotedMessage = quoted ? `${quoted}\n\n${message}` : message;
+  return typeof imported === "string" && imported ? `${imported}\n\n${quotedMessage}` : quotedMessage;
 }
 
 interface ThreadControlExecutionContext {
@@ -247,11 +389,18 @@ export function createCloudflareThreadService<
     );
     const value = await response.json().catch(() => undefined);
     if (!response.ok) {
-      throw new Error(
-        value && typeof value === "object" && "error" in value
-          ? String((value as { error: unknown }).error)
-          : `Thread Control failed (${response.status})`,
-      );
+      const message = value && typeof value === "object" && "error" in value
+        ? String((value as { error: unknown }).error)
+        : `Thread Control failed (${response.status})`;
+      if (value && typeof value === "object" && typeof (value as { code?: unknown }).code === "string") {
+        throw new FlaryHostError(
+          response.status,
+          (value as { code: string }).code,
+          message,
+          (value as { details?: unknown }).details,
+        );
+      }
+      throw new Error(message);
     }
     return value;
   };
@@ -263,6 +412,10 @@ export function createCloudflareThreadService<
     tenantId: scope.authorization.organizationId,
     applicationId: scope.appId,
   });
+  const viewer = (scope: FlaryThreadScope) =>
+    scope.authorization.actor.kind === "user"
+      ? { viewerId: scope.authorization.actor.id }
+      : {};
   const d1 = options.env.FLARY_THREAD_CATALOG
     ? new D1ThreadCatalog(
         options.env.FLARY_THREAD_CATALOG as D1DatabaseLike,
@@ -291,6 +444,31 @@ export function createCloudflareThreadService<
       applicationId: target.appId,
     });
   };
+  const conversationOf = async (binding: ThreadBinding): Promise<unknown> => {
+    if (!gateway.history) {
+      throw new FlaryHostError(
+        503,
+        "session_engine_unavailable",
+        "The canonical session engine is not available",
+      );
+    }
+    const instanceId = threadName(binding.thread);
+    try {
+      return await gateway.history(runtimeAgentId(binding), instanceId);
+    } catch (error) {
+      const status = error && typeof error === "object" && "status" in error
+        ? Number((error as { status?: unknown }).status)
+        : undefined;
+      if (status !== 404) throw error;
+      return {
+        v: 1,
+        conversationId: instanceId,
+        offset: "0000000000000000_0000000000000000",
+        messages: [],
+        settlements: [],
+      };
+    }
+  };
   const trackAdmission = async (
     name: string,
     body: Record<string, unknown>,
@@ -312,10 +490,54 @@ export function createCloudflareThreadService<
         return d1.list({
           tenantId: scope.authorization.organizationId,
           applicationId: scope.appId,
+          ...viewer(scope),
         });
       }
       const value = await rpc(catalogName(scope), "list", ownership(scope));
-      return ThreadBindingSchema.array().parse(value.bindings ?? []);
+      return ThreadBindingSchema.array().parse(value.bindings ?? [])
+        .filter((binding) => threadAccessAllowed(binding, scope.authorization, "view"));
+    },
+    async listPage(scope, rawQuery) {
+      const query = ThreadListQuerySchema.parse(rawQuery);
+      if (d1) {
+        return d1.listPage({
+          tenantId: scope.authorization.organizationId,
+          applicationId: scope.appId,
+          query,
+          ...viewer(scope),
+        });
+      }
+      const after = query.cursor ? decodeThreadCursor(query.cursor) : undefined;
+      const matching = (await service.list(scope))
+        .filter((binding) =>
+          matchesThreadListQuery(binding, query) &&
+          (!after ||
+            binding.updatedAt < after.updatedAt ||
+            (binding.updatedAt === after.updatedAt &&
+              binding.thread.threadId > after.threadId)))
+        .sort((left, right) =>
+          right.updatedAt.localeCompare(left.updatedAt) ||
+          left.thread.threadId.localeCompare(right.thread.threadId));
+      const threads = matching.slice(0, query.limit);
+      return ThreadListResponseSchema.parse({
+        threads,
+        ...(matching.length > query.limit
+          ? { nextCursor: encodeThreadCursor(threads.at(-1)!) }
+          : {}),
+      });
+    },
+    async search(scope, rawInput) {
+      const input = ThreadSearchRequestSchema.parse(rawInput);
+      if (!d1) throw featureUnavailable("Thread search");
+      return {
+        results: await d1.search({
+          tenantId: scope.authorization.organizationId,
+          applicationId: scope.appId,
+          query: input.query,
+          limit: input.limit,
+          ...viewer(scope),
+        }),
+      };
     },
     async create(scope, rawInput) {
       const input = ThreadCreateRequestSchema.parse(rawInput);
@@ -340,6 +562,7 @@ export function createCloudflareThreadService<
         status: "active",
         createdAt: now,
         updatedAt: now,
+        tags: input.tags,
         metadata: input.metadata,
       });
       await rpc(
@@ -611,11 +834,15 @@ export function createCloudflareThreadService<
         thinkingLevel:
           input.thinkingLevel ?? parent.defaultThinkingLevel,
         connectionIds: parent.connectionIds,
+        tags: parent.tags,
         metadata: {
           ...(input.metadata ?? {}),
           parentThreadId: target.threadId,
           ...(boundary.turnId ? { forkTurnId: boundary.turnId } : {}),
           forkWorkspaceMode: input.workspace,
+          ...(parent.metadata?.flarySummary
+            ? { flarySummary: parent.metadata.flarySummary }
+            : {}),
         },
       });
       try {
@@ -655,14 +882,139 @@ export function createCloudflareThreadService<
         }).catch(() => undefined);
         throw error;
       }
-      return child;
+      // The fork keeps only part of the transcript, so it gets its own title.
+      const described = parent.metadata?.flarySummary
+        ? await mutateBinding(
+            { ...target, threadId: child.thread.threadId },
+            "describe",
+            { reason: "fork" },
+          ).catch(() => child)
+        : child;
+      await queueSearchIndex(options.env, child.thread).catch(() => undefined);
+      return described;
     },
     async setMode(target, mode, reason) {
       return mutateBinding(target, "setMode", { mode, reason });
     },
+    async updateMetadata(target, input) {
+      return mutateBinding(
+        target,
+        "updateMetadata",
+        ThreadMetadataUpdateRequestSchema.parse(input),
+      );
+    },
     async setConnections(target, connectionIds) {
       return mutateBinding(target, "setConnections", { connectionIds });
     },
+    async threadAccess(target) {
+      return service.inspect(target);
+    },
+    async grantAccess(target, rawInput) {
+      const input = ThreadCollaboratorGrantRequestSchema.parse(rawInput);
+      return mutateBinding(target, "grantAccess", {
+        actor: { id: input.actorId, kind: "user" },
+        role: input.role,
+        grantedBy: target.authorization.actor,
+        grantedAt: new Date().toISOString(),
+      });
+    },
+    async revokeAccess(target, actorId) {
+      return mutateBinding(target, "revokeAccess", { actorId });
+    },
+    async comment(target, rawInput) {
+      const input = ThreadCommentRequestSchema.parse(rawInput);
+      const comment = ThreadCommentSchema.parse({
+        id: `comment_${crypto.randomUUID().replaceAll("-", "")}`,
+        text: input.text,
+        turnId: input.turnId,
+        author: target.authorization.actor,
+        createdAt: new Date().toISOString(),
+      });
+      await rpc(controlName(target), "record", {
+        ...ownership(target),
+        recordType: "thread.comment",
+        payload: comment,
+      });
+      return comment;
+    },
+    async comments(target, input) {
+      const value = await rpc(controlName(target), "records", {
+        ...ownership(target),
+        ...input,
+        types: ["thread.comment"],
+      });
+      return (value.records ?? []).map((record: { publicPayload: unknown }) =>
+        ThreadCommentSchema.parse(record.publicPayload));
+    },
+    async createShareLink(target, rawInput, requestUrl) {
+      const input = ThreadShareLinkCreateRequestSchema.parse(rawInput);
+      const secret = shareLinkSecret(options.env);
+      const now = Date.now();
+      const link = ThreadShareLinkSchema.parse({
+        id: `share_${crypto.randomUUID().replaceAll("-", "")}`,
+        createdBy: target.authorization.actor,
+        createdAt: new Date(now).toISOString(),
+        ...(input.expiresIn
+          ? { expiresAt: new Date(now + input.expiresIn * 1_000).toISOString() }
+          : {}),
+      });
+      await rpc(controlName(target), "issueShareLink", { ...ownership(target), link });
+      const token = await signShareLink(secret, {
+        tenantId: target.authorization.organizationId,
+        appId: target.appId,
+        threadId: target.threadId,
+        linkId: link.id,
+      });
+      const url = new URL(requestUrl);
+      url.pathname = url.pathname.replace(
+        /\/threads\/[^/]+\/share-links$/,
+        `/shared/${token}`,
+      );
+      url.search = "";
+      return { link, token, url: url.toString() };
+    },
+    async shareLinks(target) {
+      const value = await rpc(controlName(target), "shareLinks", ownership(target));
+      return ThreadShareLinkSchema.array().parse(value.links ?? []);
+    },
+    async revokeShareLink(target, linkId) {
+      const value = await rpc(controlName(target), "revokeShareLink", {
+        ...ownership(target),
+        linkId,
+      });
+      return ThreadShareLinkSchema.parse(value.link);
+    },
+    async sharedConversation(appId, token) {
+      const claims = await verifyShareLink(shareLinkSecret(options.env), token);
+      const notFound = new FlaryHostError(
+        404,
+        "share_link_not_found",
+        "The share link was not found",
+      );
+      if (!claims || claims.appId !== appId) throw notFound;
+      const target: FlaryThreadTarget = {
+        authorization: {
+          organizationId: claims.tenantId,
+          actor: { id: claims.linkId, kind: "system" },
+        },
+        appId,
+        threadId: claims.threadId,
+      };
+      const value = await rpc(controlName(target), "shareLink", {
+        ...ownership(target),
+        linkId: claims.linkId,
+      }).catch(() => undefined);
+      const link = ThreadShareLinkSchema.safeParse(value?.link);
+      if (
+        !link.success ||
+        link.data.revokedAt ||
+        (link.data.expiresAt && Date.parse(link.data.expiresAt) <= Date.now())
+      ) {
+        throw notFound;
+      }
+      const binding = ThreadBindingSchema.parse(value.binding);
+      return sharedConversation(binding, await conversationOf(binding));
+    },
     async modelGet(target) {
       const value = await rpc(controlName(target), "modelGet", ownership(target));
       return value.model;
@@ -690,6 +1042,21 @@ export function createCloudflareThreadService<
       const value = await rpc(controlName(target), "modelHistory", ownership(target));
       return Array.isArray(value.history) ? value.history : [];
     },
+    async handoff(target, input) {
+      const parsed = ThreadHandoffRequestSchema.parse(input);
+      const value = await rpc(controlName(target), "handoff", {
+        ...ownership(target),
+        input: parsed,
+        actor: target.authorization.actor,
+      });
+      const updated = ThreadBindingSchema.parse(value.binding);
+      await rpc(catalogName(target), "catalogPut", {
+        ...ownership(target),
+        binding: updated,
+      });
+      await d1?.put(updated);
+      return updated;
+    },
     async submit(target, rawInput) {
       const input = ThreadMessageRequestSchema.parse(rawInput);
       const binding = await service.inspect(target);
@@ -744,10 +1111,17 @@ export function createCloudflareThreadService<
       });
       const pin = ResolvedModelPinSchema.parse(pinnedValue.pin);
       const segmentId = String(pinnedValue.segmentId ?? `segment_${admissionId}`);
-      await rpc(controlName(target), "admitTurn", {
+      const admitted = await rpc(controlName(target), "admitTurn", {
         ...ownership(target),
         admissionId,
+        message: input.message,
+        actor: {
+          id: target.authorization.actor.id,
+          roles: [...(target.authorization.roles ?? [])],
+          scopes: [...(target.authorization.scopes ?? [])],
+        },
       });
+      const message = String(admitted.message ?? input.message);
       if (input.mode === "steer") {
         // Keep the interrupted turn visible before admitting its replacement.
         // The Flue abort is asynchronous, so the ledger records the durable
@@ -764,32 +1138,43 @@ export function createCloudflareThreadService<
         await gateway.abort(runtimeAgentId(binding), instanceId).catch(() => undefined);
       }
       const runtimeSelection = pin.runtimeSelection ?? pin.selection;
-      const turnContext = await resolveTrustedTurnContext(
-        options.resolveTurnContext,
-        {
-          bindings: options.env,
-          tenantId: target.authorization.organizationId,
-          userId: target.authorization.actor.id,
-          applicationId: target.appId,
-          agentId: binding.thread.agentId,
-          threadId: binding.thread.threadId,
-          message: input.message,
-          admittedAt: new Date().toISOString(),
-        },
-      );
-      const admission = await gateway.send(
-        runtimeAgentId(binding),
-        instanceId,
-        input.message,
-        {
-          idempotencyKey: admissionId,
-          model: toFlueModelSpecifier(runtimeSelection),
-          ...(input.images ? { images: input.images } : {}),
-          ...(input.thinkingLevel ? { thinkingLevel: input.thinkingLevel } : {}),
-          ...(input.cacheRetention ? { cacheRetention: input.cacheRetention } : {}),
-          ...(turnContext ? { turnContext } : {}),
-        },
-      );
+      let admission: FlueAdmission;
+      try {
+        const turnContext = await resolveTurnContext(
+          options.resolveTurnContext,
+          {
+            bindings: options.env,
+            tenantId: target.authorization.organizationId,
+            userId: target.authorization.actor.id,
+            applicationId: target.appId,
+            agentId: binding.thread.agentId,
+            threadId: binding.thread.threadId,
+            message,
+            admittedAt: new Date().toISOString(),
+          },
+        );
+        admission = await gateway.send(
+          runtimeAgentId(binding),
+          instanceId,
+          withQuotedContext(pinnedValue.importedContext, turnContext.quoted, message),
+          {
+            idempotencyKey: admissionId,
+            model: toFlueModelSpecifier(runtimeSelection),
+            ...(input.images ? { images: input.images } : {}),
+            ...(input.thinkingLevel ? { thinkingLevel: input.thinkingLevel } : {}),
+            ...(input.cacheRetention ? { cacheRetention: input.cacheRetention } : {}),
+            ...(turnContext.trusted ? { turnContext: turnContext.trusted } : {}),
+          },
+        );
+      } catch (error) {
+        // The turn never reached the model, so the gate frees what it holds.
+        await rpc(controlName(target), "abandonTurn", {
+          ...ownership(target),
+          admissionId,
+          error: publicAgentFailureMessage(error),
+        }).catch(() => undefined);
+        throw error;
+      }
       await rpc(controlName(target), "record", {
         ...ownership(target),
         recordType: "turn.started",
@@ -797,6 +1182,7 @@ export function createCloudflareThreadService<
           admissionId,
           submissionId: admission.submissionId,
           mode: input.mode ?? "queue",
+          author: input.author ?? target.authorization.actor,
           modelPin: pin,
           segmentId,
         },
@@ -814,35 +1200,13 @@ export function createCloudflareThreadService<
         instanceId,
         modelPin: pin,
         segmentId,
-        turnMessage: input.message,
+        turnMessage: message,
+        ...(pinnedValue.importedContext ? { importedHistorySent: true } : {}),
       });
       return admission;
     },
     async conversation(target) {
-      const binding = await service.inspect(target);
-      if (!gateway.history) {
-        throw new FlaryHostError(
-          503,
-          "session_engine_unavailable",
-          "The canonical session engine is not available",
-        );
-      }
-      const instanceId = threadName(binding.thread);
-      try {
-        return await gateway.history(runtimeAgentId(binding), instanceId);
-      } catch (error) {
-        const status = error && typeof error === "object" && "status" in error
-          ? Number((error as { status?: unknown }).status)
-          : undefined;
-        if (status !== 404) throw error;
-        return {
-          v: 1,
-          conversationId: instanceId,
-          offset: "0000000000000000_0000000000000000",
-          messages: [],
-          settlements: [],
-        };
-      }
+      return conversationOf(await service.inspect(target));
     },
     async conversationUpdates(target, input) {
       const binding = await service.inspect(target);
@@ -970,6 +1334,11 @@ export function createCloudflareThreadService<
           applied: !objectValue(result).runtimeUnavailable,
         },
       });
+      if (binding.metadata?.flarySummary) {
+        await mutateBinding(target, "describe", { reason: "rollback" })
+          .catch(() => undefined);
+      }
+      await queueSearchIndex(options.env, binding.thread).catch(() => undefined);
       return result;
     },
     async restore(target, input) {
@@ -1004,6 +1373,37 @@ export function createCloudflareThreadService<
           );
         }
       }
+      if (input.transcript) {
+        const transcript = await importTranscript(
+          input.transcript.format,
+          input.transcript.content,
+          {
+            tenantId: target.authorization.organizationId,
+            applicationId: target.appId,
+            threadId: target.threadId,
+          },
+        ).catch((error: unknown) => {
+          if (error instanceof TranscriptImportError) {
+            throw new FlaryHostError(400, "invalid_transcript", error.message);
+          }
+          throw error;
+        });
+        if (transcript.records.length === 0) {
+          throw new FlaryHostError(400, "invalid_transcript", "The transcript has no messages");
+        }
+        // Flue cannot replay a foreign transcript, so the next message quotes
+        // it once and Flue keeps it as history from then on.
+        return rpc(controlName(target), "restore", {
+          ...ownership(target),
+          binding,
+          input: {
+            jsonl: exportSessionJsonl(transcript.records),
+            replace: input.replace,
+            retarget: input.replace === false,
+            importedContext: importedHistoryMessage(transcript.history),
+          },
+        });
+      }
       return rpc(controlName(target), "restore", {
         ...ownership(target),
         binding,
@@ -1049,6 +1449,28 @@ export function createCloudflareThreadService<
         sha256: await sha256Json(unsigned),
       } satisfies ThreadPortableArchive;
     },
+    async exportTranscript(target, rawInput) {
+      const input = ThreadTranscriptRequestSchema.parse(rawInput);
+      const binding = await service.inspect(target);
+      const approvals: SessionRecord[] = [];
+      let after = 0;
+      do {
+        const page = await rpc(controlName(target), "records", {
+          ...ownership(target),
+          after,
+          limit: 1_000,
+          families: ["approval."],
+        });
+        approvals.push(...(page.records ?? []));
+        after = typeof page.nextAfter === "number" ? page.nextAfter : 0;
+      } while (after > 0);
+      return renderThreadTranscript({
+        threadId: binding.thread.threadId,
+        ...(typeof binding.metadata?.title === "string" ? { title: binding.metadata.title } : {}),
+        history: conversationHistory(await conversationOf(binding)),
+        records: approvals,
+      }, input);
+    },
     async setGoal(target, input) {
       return rpc(controlName(target), "record", {
         ...ownership(target),
@@ -1321,6 +1743,9 @@ export function createCloudflareThreadService<
       binding,
     });
     await d1?.put(binding);
+    if (method === "rename") {
+      await queueSearchIndex(options.env, binding.thread).catch(() => undefined);
+    }
     return binding;
   }
 
@@ -1334,6 +1759,10 @@ export async function handleFlaryThreadControlObjectRequest(input: {
   readonly env?: Record<string, unknown>;
   readonly execution?: ThreadControlExecutionContext;
   readonly webSockets?: ThreadControlWebSocketHost;
+  readonly gateTurn?: FlaryThreadTurnGate;
+  readonly guardOutput?: FlaryThreadOutputGuard;
+  readonly turnEnded?: FlaryThreadTurnObserver;
+  readonly describeThread?: FlaryThreadDescriber;
 }): Promise<Response> {
   const storage = normalizeThreadControlStorage(input.storage);
   const sql = storage.sql;
@@ -1418,9 +1847,16 @@ export async function handleFlaryThreadControlObjectRequest(input: {
     await broadcastThreadRecords(sql, input.webSockets).catch(() => undefined);
     return Response.json(result);
   } catch (error) {
+    // Keep the code and status of host errors, such as a blocked message or
+    // an exhausted quota, so the service can rethrow them to its caller.
+    const coded = codedError(error);
     return Response.json(
-      { error: error instanceof Error ? error.message : "Thread Control failed" },
-      { status: 400 },
+      {
+        error: error instanceof Error ? error.message : "Thread Control failed",
+        ...(coded?.status ? { code: coded.code } : {}),
+        ...(coded?.status && coded.details ? { details: coded.details } : {}),
+      },
+      { status: coded?.status ?? 400 },
     );
   }
 }
@@ -1434,6 +1870,10 @@ async function dispatchThreadControl(
     readonly execution?: ThreadControlExecutionContext;
     readonly storage?: ThreadControlStorage;
     readonly webSockets?: ThreadControlWebSocketHost;
+    readonly gateTurn?: FlaryThreadTurnGate;
+    readonly guardOutput?: FlaryThreadOutputGuard;
+    readonly turnEnded?: FlaryThreadTurnObserver;
+    readonly describeThread?: FlaryThreadDescriber;
   },
 ): Promise<unknown> {
   if (method === "issueRealtimeTicket") {
@@ -1807,6 +2247,59 @@ async function dispatchThreadControl(
     }
     return { model: requested, history };
   }
+  if (method === "handoff") {
+    const binding = requireBinding(sql);
+    const input = ThreadHandoffRequestSchema.parse(body.input);
+    const from = binding.activeAgentId ?? binding.agentId;
+    const previous = currentModel(sql, binding);
+    const requested = normalizeModelInput(input.model);
+    // The next agent brings its own policy, so check against it. A policy key
+    // the next agent does not set must not keep the previous agent's value.
+    binding.metadata = {
+      ...Object.fromEntries(
+        Object.entries(binding.metadata ?? {}).filter(([key]) => !AGENT_POLICY_METADATA_KEYS.has(key)),
+      ),
+      ...input.metadata,
+    };
+    assertAllowedModel(binding, requested);
+    binding.activeAgentId = input.agentId;
+    binding.defaultModel = requested;
+    binding.updatedAt = new Date().toISOString();
+    put(sql, "binding", ThreadBindingSchema.parse(binding));
+    put(sql, "model-state", requested);
+    const sequence = nextControlSequence(sql, "model-history:");
+    put(sql, `model-history:${String(sequence).padStart(12, "0")}`, {
+      sequence,
+      model: requested,
+      changedAt: binding.updatedAt,
+      actor: body.actor,
+      reason: input.reason ?? `handoff to ${input.agentId}`,
+      handoff: { from, to: input.agentId },
+    });
+    await appendLedger(sql, binding, "agent.handoff", {
+      from,
+      to: input.agentId,
+      ...(input.reason ? { reason: input.reason } : {}),
+      model: requested,
+      previousModel: previous,
+      actor: body.actor,
+      sequence,
+    });
+    if (previous && !sameModel(previous, requested)) {
+      await appendLedger(sql, binding, "model.changed", {
+        model: requested,
+        previousModel: previous,
+        actor: body.actor,
+        sequence,
+      });
+      await appendLedger(sql, binding, "provider.cache_reset", {
+        from: previous,
+        to: requested,
+        reason: "agent_handoff",
+      });
+    }
+    return { binding };
+  }
   if (method === "pinModel") {
     const binding = requireBinding(sql);
     const admissionId = String(body.admissionId ?? "");
@@ -1820,6 +2313,7 @@ async function dispatchThreadControl(
         pin: JSON.parse(existing.value_json),
         segmentId: `segment_${admissionId}`,
         replay: true,
+        ...importedContext(sql),
       };
     }
     const requested = body.model
@@ -1871,7 +2365,7 @@ async function dispatchThreadControl(
       admissionId,
       pin,
     });
-    return { pin, segmentId, replay: false };
+    return { pin, segmentId, replay: false, ...importedContext(sql) };
   }
   if (method === "forkRecords") {
     const binding = requireBinding(sql);
@@ -1937,6 +2431,7 @@ async function dispatchThreadControl(
       sql.exec("DROP TABLE IF EXISTS flary_session_ledger_metadata");
       sql.exec("DROP TABLE IF EXISTS flary_session_archive_segments");
       sql.exec("DELETE FROM flary_session_projection_dedupe");
+      sql.exec("DELETE FROM flary_thread_control WHERE key = 'imported-context'");
     }
     const ledger = new SqliteSessionLedger(sql);
     for (const record of imported) {
@@ -1973,6 +2468,9 @@ async function dispatchThreadControl(
           : {}),
       });
     }
+    if (typeof restoreInput.importedContext === "string") {
+      put(sql, "imported-context", restoreInput.importedContext);
+    }
     put(sql, "restore-state", {
       restoredAt: new Date().toISOString(),
       recordCount: imported.length,
@@ -1998,12 +2496,26 @@ async function dispatchThreadControl(
       "SELECT admission_id FROM flary_interactive_admissions WHERE admission_id = ?",
       admissionId,
     ).toArray()[0];
-    if (existing) return { admitted: true, replay: true };
-    await reserveRootInteractiveUsage(sql, host?.env, binding, {
-      reservationId: `turn_${admissionId}`,
-      kind: "provider-step",
-      delta: emptyUsage({ steps: 1 }),
-    });
+    if (existing) {
+      return { admitted: true, replay: true, ...admittedTurn(sql, admissionId) };
+    }
+    const gated = typeof body.message === "string"
+      ? await gateTurn(sql, host, binding, {
+          admissionId,
+          message: body.message,
+          actor: turnActor(body.actor, binding),
+        })
+      : undefined;
+    try {
+      await reserveRootInteractiveUsage(sql, host?.env, binding, {
+        reservationId: `turn_${admissionId}`,
+        kind: "provider-step",
+        delta: emptyUsage({ steps: 1 }),
+      });
+    } catch (error) {
+      if (gated) await abandonGatedTurn(host, binding, admissionId, error);
+      throw error;
+    }
     return sql.transactionSync(() => {
       sql.exec(
         `INSERT INTO flary_interactive_admissions
@@ -2011,9 +2523,20 @@ async function dispatchThreadControl(
         admissionId,
         new Date().toISOString(),
       );
-      return { admitted: true, replay: false };
+      if (gated) put(sql, `turn-admission:${admissionId}`, gated);
+      return { admitted: true, replay: false, ...(gated ?? {}) };
     });
   }
+  if (method === "abandonTurn") {
+    const binding = requireBinding(sql);
+    const admissionId = String(body.admissionId ?? "");
+    if (admittedTurn(sql, admissionId).message === undefined) return { abandoned: false };
+    // A retry with the same key is gated again instead of replayed.
+    sql.exec("DELETE FROM flary_interactive_admissions WHERE admission_id = ?", admissionId);
+    sql.exec("DELETE FROM flary_thread_control WHERE key = ?", `turn-admission:${admissionId}`);
+    await abandonGatedTurn(host, binding, admissionId, String(body.error ?? "The turn was not admitted."));
+    return { abandoned: true };
+  }
   if (
     method === "reserveUsage" ||
     method === "settleUsage" ||
@@ -2119,6 +2642,10 @@ async function dispatchThreadControl(
   if (method === "track") {
     const binding = requireBinding(sql);
     const admission = body.admission as FlueAdmission;
+    // Flue now holds the imported history in its own transcript.
+    if (body.importedHistorySent === true) {
+      sql.exec("DELETE FROM flary_thread_control WHERE key = 'imported-context'");
+    }
     put(sql, `projection:${admission.submissionId}`, {
       admission,
       agentId: String(body.agentId ?? binding.agentId),
@@ -2149,6 +2676,10 @@ async function dispatchThreadControl(
         turnMessage:
           typeof body.turnMessage === "string" ? body.turnMessage : undefined,
         webSockets: host.webSockets,
+        guardOutput: host.guardOutput,
+        turnEnded: host.turnEnded,
+        describeThread: host.describeThread,
+        execution: host.execution,
       }),
     );
     await host.storage?.setAlarm?.(Date.now() + 30_000);
@@ -2361,11 +2892,12 @@ async function dispatchThreadControl(
   }
   if (method === "records" || method === "export") {
     const binding = requireBinding(sql);
+    const limit = method === "records" ? positive(body.limit, 100) : 1_000_000;
     const records = await readLedger(
       sql,
       binding.thread.threadId,
       method === "records" ? numericValue(body.after, 0) : 0,
-      method === "records" ? positive(body.limit, 100) : 1_000_000,
+      limit,
       host?.env,
     );
     if (method === "export") {
@@ -2380,8 +2912,47 @@ async function dispatchThreadControl(
         (families.length === 0 ||
           families.some((family) => record.recordType.startsWith(family))) &&
         (types.length === 0 || types.includes(record.recordType))),
+      // The filter runs after the page is read, so the next page starts after
+      // the last record read rather than the last record returned.
+      ...(records.length === limit ? { nextAfter: records.at(-1)!.sequence } : {}),
+    };
+  }
+  if (method === "issueShareLink") {
+    assertOwner(sql, body);
+    assertThreadOpen(sql);
+    const link = ThreadShareLinkSchema.parse(body.link);
+    put(sql, `shareLink:${link.id}`, link);
+    return { link };
+  }
+  if (method === "shareLinks") {
+    assertOwner(sql, body);
+    return { links: readShareLinks(sql) };
+  }
+  if (method === "revokeShareLink" || method === "shareLink") {
+    assertOwner(sql, body);
+    const link = readShareLinks(sql).find((entry) => entry.id === body.linkId);
+    if (!link) throw new Error("The share link was not found");
+    if (method === "shareLink") return { link, binding: requireBinding(sql) };
+    const revoked = ThreadShareLinkSchema.parse({
+      ...link,
+      revokedAt: link.revokedAt ?? new Date().toISOString(),
+    });
+    put(sql, `shareLink:${link.id}`, revoked);
+    return { link: revoked };
+  }
+  if (method === "searchEntries") {
+    return {
+      binding: requireBinding(sql),
+      entries: host?.env ? await threadSearchEntries(sql, host.env) : [],
     };
   }
+  if (method === "describe") {
+    const reason = objectValue(body.input).reason === "fork" ? "fork" : "rollback";
+    const described = host?.env
+      ? await describeThread(sql, host.env, reason, host.describeThread)
+      : undefined;
+    return { binding: described ?? requireBinding(sql) };
+  }
   const binding = requireBinding(sql);
   const update = objectValue(body.input);
   const metadata = { ...(binding.metadata ?? {}) };
@@ -2389,6 +2960,7 @@ async function dispatchThreadControl(
   if (method === "unarchive") binding.status = "active";
   if (method === "rename" && typeof update.title === "string") {
     metadata.title = update.title;
+    delete metadata.flaryGeneratedTitle;
   }
   if (method === "pin") {
     metadata.pinned =
@@ -2406,20 +2978,68 @@ async function dispatchThreadControl(
       ? update.connectionIds.map(String)
       : [];
   }
+  if (method === "updateMetadata") {
+    for (const [key, value] of Object.entries(objectValue(update.metadata))) {
+      if (value === null) delete metadata[key];
+      else metadata[key] = JsonValueSchema.parse(value);
+    }
+    if (Array.isArray(update.tags)) binding.tags = update.tags.map(String);
+  }
+  if (method === "grantAccess") {
+    const grant = ThreadCollaboratorSchema.parse(update);
+    if (grant.actor.id === binding.createdBy.id) {
+      throw new Error("The thread owner cannot be a collaborator");
+    }
+    binding.collaborators = [
+      ...(binding.collaborators ?? []).filter((entry) => entry.actor.id !== grant.actor.id),
+      grant,
+    ];
+  }
+  if (method === "revokeAccess") {
+    binding.collaborators = (binding.collaborators ?? [])
+      .filter((entry) => entry.actor.id !== update.actorId);
+  }
   binding.metadata = metadata;
   binding.updatedAt = new Date().toISOString();
   const parsed = ThreadBindingSchema.parse(binding);
   put(sql, "binding", parsed);
   await appendLedger(sql, parsed, "session.lifecycle", { action: method });
+  if (method === "revokeAccess") closeUnreadableSockets(host?.webSockets, parsed);
   return { binding: parsed };
 }
 
+/** Close the realtime sockets of users who may no longer read the thread. */
+function closeUnreadableSockets(
+  host: ThreadControlWebSocketHost | undefined,
+  binding: ThreadBinding,
+): void {
+  for (const socket of host?.getWebSockets() ?? []) {
+    const attachment = socket.deserializeAttachment?.() as RealtimeSocketAttachment | undefined;
+    if (!attachment || realtimeAccessAllowed(binding, attachment, "view")) continue;
+    socket.close(1008, "thread access revoked");
+  }
+}
+
+/** Whether the user behind a realtime socket still holds an access level. */
+function realtimeAccessAllowed(
+  binding: ThreadBinding,
+  attachment: RealtimeSocketAttachment,
+  access: FlaryThreadAccess,
+): boolean {
+  const actor = IdentityReferenceSchema.safeParse(attachment.actor);
+  return actor.success && threadAccessAllowed(binding, { actor: actor.data }, access);
+}
+
 /** Run due schedules from the generated Thread Control Durable Object alarm. */
 export async function handleFlaryThreadControlAlarm(input: {
   readonly storage: ThreadControlStorage;
   readonly env: Record<string, unknown>;
   readonly execution?: ThreadControlExecutionContext;
   readonly webSockets?: ThreadControlWebSocketHost;
+  readonly gateTurn?: FlaryThreadTurnGate;
+  readonly guardOutput?: FlaryThreadOutputGuard;
+  readonly turnEnded?: FlaryThreadTurnObserver;
+  readonly describeThread?: FlaryThreadDescriber;
 }): Promise<void> {
   const storage = normalizeThreadControlStorage(input.storage);
   const binding = requireBinding(storage.sql);
@@ -2447,6 +3067,10 @@ export async function handleFlaryThreadControlAlarm(input: {
           ? projection.turnMessage
           : undefined,
       webSockets: input.webSockets,
+      guardOutput: input.guardOutput,
+      turnEnded: input.turnEnded,
+      describeThread: input.describeThread,
+      execution: input.execution,
     });
     input.execution?.waitUntil(work);
   }
@@ -2503,18 +3127,29 @@ export async function handleFlaryThreadControlAlarm(input: {
       return true;
     });
     if (!claimed) continue;
+    const admissionId = `schedule_${row.schedule_id}_${scheduledFor}`;
+    let gated: GatedTurn | undefined;
     try {
-      const admissionId = `schedule_${row.schedule_id}_${scheduledFor}`;
+      // A schedule runs as the thread creator, through the same gate as a
+      // message that creator sends.
+      gated = await gateTurn(storage.sql, input, binding, {
+        admissionId,
+        message: String(schedule.message ?? ""),
+        actor: turnActor(undefined, binding),
+      });
       await reserveRootInteractiveUsage(storage.sql, input.env, binding, {
         reservationId: `turn_${admissionId}`,
         kind: "provider-step",
         delta: emptyUsage({ steps: 1 }),
       });
+      if (gated) put(storage.sql, `turn-admission:${admissionId}`, gated);
       const admission = await gateway.send(
         runtimeAgentId(binding),
         threadName(binding.thread),
-        String(schedule.message ?? ""),
+        gated?.message ?? String(schedule.message ?? ""),
       );
+      // The projection ends the turn from here on.
+      gated = undefined;
       storage.sql.exec(
         `UPDATE flary_thread_schedule_runs
          SET status = 'admitted', admission_json = ?, updated_at = ?
@@ -2530,6 +3165,10 @@ export async function handleFlaryThreadControlAlarm(input: {
         binding,
         admission,
         admissionId,
+        guardOutput: input.guardOutput,
+        turnEnded: input.turnEnded,
+        describeThread: input.describeThread,
+        execution: input.execution,
       });
       input.execution?.waitUntil(projection);
       await appendLedger(storage.sql, binding, "schedule.run", {
@@ -2538,6 +3177,7 @@ export async function handleFlaryThreadControlAlarm(input: {
         admission,
       });
     } catch (error) {
+      if (gated) await abandonGatedTurn(input, binding, admissionId, error);
       storage.sql.exec(
         `UPDATE flary_thread_schedule_runs
          SET status = 'failed', error = ?, updated_at = ?
@@ -2568,6 +3208,11 @@ interface RealtimeSocketAttachment {
   readonly actor: Record<string, unknown>;
   readonly sent: number;
   readonly acknowledged: number;
+  /** Presence of the connection. Sockets opened before presence have none. */
+  readonly connectionId?: string;
+  readonly joinedAt?: string;
+  readonly messageId?: string;
+  readonly typingUntil?: string;
 }
 
 async function openThreadControlWebSocket(
@@ -2633,6 +3278,8 @@ async function openThreadControlWebSocket(
     actor: objectValue(JSON.parse(row.actor_json)),
     sent: Math.max(0, Number(row.after_sequence)),
     acknowledged: Math.max(0, Number(row.after_sequence)),
+    connectionId: `connection_${crypto.randomUUID().replaceAll("-", "")}`,
+    joinedAt: new Date().toISOString(),
   };
   server.serializeAttachment?.(attachment);
   input.webSockets.acceptWebSocket(server, [
@@ -2646,6 +3293,14 @@ async function openThreadControlWebSocket(
     threadId: binding.thread.threadId,
     cursor: metadata?.latestSequence ?? 0,
   } satisfies RealtimeServerFrame));
+  broadcastPresence(input.webSockets, "joined", attachment.connectionId!);
+  server.send(JSON.stringify({
+    version: 1,
+    type: "presence",
+    event: "sync",
+    connectionId: attachment.connectionId!,
+    members: presenceMembers(input.webSockets),
+  } satisfies RealtimeServerFrame));
   await sendThreadRecords(sql, server, attachment);
   return new Response(null, {
     status: 101,
@@ -2663,6 +3318,10 @@ export async function handleFlaryThreadControlWebSocketMessage(input: {
   readonly webSockets?: ThreadControlWebSocketHost;
   readonly resolveModel?: CreateCloudflareThreadServiceOptions<Record<string, unknown>>["resolveModel"];
   readonly resolveTurnContext?: CreateCloudflareThreadServiceOptions<Record<string, unknown>>["resolveTurnContext"];
+  readonly gateTurn?: FlaryThreadTurnGate;
+  readonly guardOutput?: FlaryThreadOutputGuard;
+  readonly turnEnded?: FlaryThreadTurnObserver;
+  readonly describeThread?: FlaryThreadDescriber;
 }): Promise<void> {
   const storage = normalizeThreadControlStorage(input.storage);
   const attachment = realtimeAttachment(input.socket);
@@ -2696,11 +3355,38 @@ export async function handleFlaryThreadControlWebSocketMessage(input: {
     } satisfies RealtimeSocketAttachment);
     return;
   }
-  const now = new Date().toISOString();
-  const existing = storage.sql.exec<{ status: string; result_json: string | null }>(
-    `SELECT status, result_json FROM flary_realtime_commands
-     WHERE idempotency_key = ?`,
-    frame.idempotencyKey,
+  if (frame.type === "presence") {
+    if (!attachment.connectionId) return;
+    const { messageId, typingUntil, ...rest } = attachment;
+    const nextMessageId = frame.messageId === undefined ? messageId : frame.messageId;
+    const nextTypingUntil = frame.typing === undefined
+      ? typingUntil
+      : frame.typing
+        ? new Date(Date.now() + REALTIME_TYPING_TTL_MS).toISOString()
+        : undefined;
+    input.socket.serializeAttachment?.({
+      ...rest,
+      ...(nextMessageId ? { messageId: nextMessageId } : {}),
+      ...(nextTypingUntil ? { typingUntil: nextTypingUntil } : {}),
+    } satisfies RealtimeSocketAttachment);
+    broadcastPresence(input.webSockets, "updated", attachment.connectionId);
+    return;
+  }
+  if (!realtimeAccessAllowed(requireBinding(storage.sql), attachment, "participate")) {
+    input.socket.send(JSON.stringify({
+      version: 1,
+      type: "error",
+      requestId: frame.requestId,
+      code: "thread_access_denied",
+      message: "This thread does not allow you to participate",
+    } satisfies RealtimeServerFrame));
+    return;
+  }
+  const now = new Date().toISOString();
+  const existing = storage.sql.exec<{ status: string; result_json: string | null }>(
+    `SELECT status, result_json FROM flary_realtime_commands
+     WHERE idempotency_key = ?`,
+    frame.idempotencyKey,
   ).toArray()[0];
   if (existing) {
     input.socket.send(JSON.stringify({
@@ -2754,6 +3440,10 @@ export async function handleFlaryThreadControlWebSocketMessage(input: {
         frame,
         resolveModel: input.resolveModel,
         resolveTurnContext: input.resolveTurnContext,
+        gateTurn: input.gateTurn,
+        guardOutput: input.guardOutput,
+        turnEnded: input.turnEnded,
+        describeThread: input.describeThread,
       });
       storeRealtimeCommandSuccess(storage.sql, frame, result);
       input.socket.send(JSON.stringify({
@@ -2763,7 +3453,9 @@ export async function handleFlaryThreadControlWebSocketMessage(input: {
         result,
       } satisfies RealtimeServerFrame));
     } catch (cause) {
-      const code = cause instanceof FlaryHostError ? cause.code : "command_failed";
+      // The turn gate reports blocked messages and exhausted quotas with the
+      // error codes of the authored application.
+      const code = codedError(cause)?.code ?? "command_failed";
       const message = cause instanceof Error ? cause.message : "The realtime command failed";
       await storeRealtimeCommandFailure(storage.sql, frame, code, message);
       input.socket.send(JSON.stringify({
@@ -2813,6 +3505,10 @@ async function submitRealtimeMessageDirect(input: {
   readonly frame: Extract<RealtimeClientFrame, { type: "command" }>;
   readonly resolveModel?: CreateCloudflareThreadServiceOptions<Record<string, unknown>>["resolveModel"];
   readonly resolveTurnContext?: CreateCloudflareThreadServiceOptions<Record<string, unknown>>["resolveTurnContext"];
+  readonly gateTurn?: FlaryThreadTurnGate;
+  readonly guardOutput?: FlaryThreadOutputGuard;
+  readonly turnEnded?: FlaryThreadTurnObserver;
+  readonly describeThread?: FlaryThreadDescriber;
 }): Promise<FlueAdmission> {
   const binding = requireBinding(input.sql);
   const request = ThreadMessageRequestSchema.parse({
@@ -2844,6 +3540,16 @@ async function submitRealtimeMessageDirect(input: {
         selection,
       })
     : undefined;
+  const host = {
+    env: input.env,
+    execution: input.execution,
+    storage: input.storage,
+    webSockets: input.webSockets,
+    gateTurn: input.gateTurn,
+    guardOutput: input.guardOutput,
+    turnEnded: input.turnEnded,
+    describeThread: input.describeThread,
+  };
   const pinnedValue = objectValue(await dispatchThreadControl(
     input.sql,
     "pinModel",
@@ -2854,20 +3560,23 @@ async function submitRealtimeMessageDirect(input: {
       ...(selection ? { model: selection } : {}),
       ...(grant ? { grant } : {}),
     },
-    { env: input.env, execution: input.execution, storage: input.storage, webSockets: input.webSockets },
+    host,
   ));
   const pin = ResolvedModelPinSchema.parse(pinnedValue.pin);
   const segmentId = String(pinnedValue.segmentId ?? `segment_${admissionId}`);
-  await dispatchThreadControl(
+  const admitted = objectValue(await dispatchThreadControl(
     input.sql,
     "admitTurn",
     {
       tenantId: input.attachment.tenantId,
       applicationId: input.attachment.applicationId,
       admissionId,
+      message: request.message,
+      actor: input.attachment.actor,
     },
-    { env: input.env, execution: input.execution, storage: input.storage, webSockets: input.webSockets },
-  );
+    host,
+  ));
+  const message = String(admitted.message ?? request.message);
   const gateway = createCloudflareFlueGateway(input.env, {
     token: typeof input.env.FLARY_INTERNAL_TOKEN === "string"
       ? input.env.FLARY_INTERNAL_TOKEN
@@ -2882,36 +3591,50 @@ async function submitRealtimeMessageDirect(input: {
     await gateway.abort(runtimeAgentId(binding), threadName(binding.thread)).catch(() => undefined);
   }
   const runtimeSelection = pin.runtimeSelection ?? pin.selection;
-  const turnContext = await resolveTrustedTurnContext(
-    input.resolveTurnContext,
-    {
-      bindings: input.env,
-      tenantId: input.attachment.tenantId,
-      userId: String(input.attachment.actor.id ?? "realtime-user"),
-      applicationId: input.attachment.applicationId,
-      agentId: binding.thread.agentId,
-      threadId: binding.thread.threadId,
-      message: request.message,
-      admittedAt: new Date().toISOString(),
-    },
-  );
-  const admission = await gateway.send(
-    runtimeAgentId(binding),
-    threadName(binding.thread),
-    request.message,
-    {
-      idempotencyKey: admissionId,
-      model: toFlueModelSpecifier(runtimeSelection),
-      ...(request.images ? { images: request.images } : {}),
-      ...(request.thinkingLevel ? { thinkingLevel: request.thinkingLevel } : {}),
-      ...(request.cacheRetention ? { cacheRetention: request.cacheRetention } : {}),
-      ...(turnContext ? { turnContext } : {}),
-    },
-  );
+  let admission: FlueAdmission;
+  try {
+    const turnContext = await resolveTurnContext(
+      input.resolveTurnContext,
+      {
+        bindings: input.env,
+        tenantId: input.attachment.tenantId,
+        userId: String(input.attachment.actor.id ?? "realtime-user"),
+        applicationId: input.attachment.applicationId,
+        agentId: binding.thread.agentId,
+        threadId: binding.thread.threadId,
+        message,
+        admittedAt: new Date().toISOString(),
+      },
+    );
+    admission = await gateway.send(
+      runtimeAgentId(binding),
+      threadName(binding.thread),
+      withQuotedContext(pinnedValue.importedContext, turnContext.quoted, message),
+      {
+        idempotencyKey: admissionId,
+        model: toFlueModelSpecifier(runtimeSelection),
+        ...(request.images ? { images: request.images } : {}),
+        ...(request.thinkingLevel ? { thinkingLevel: request.thinkingLevel } : {}),
+        ...(request.cacheRetention ? { cacheRetention: request.cacheRetention } : {}),
+        ...(turnContext.trusted ? { turnContext: turnContext.trusted } : {}),
+      },
+    );
+  } catch (error) {
+    // The turn never reached the model, so the gate frees what it holds.
+    await dispatchThreadControl(
+      input.sql,
+      "abandonTurn",
+      { admissionId, error: publicAgentFailureMessage(error) },
+      host,
+    ).catch(() => undefined);
+    throw error;
+  }
+  const author = IdentityReferenceSchema.safeParse(input.attachment.actor);
   await appendLedger(input.sql, binding, "turn.started", {
     admissionId,
     submissionId: admission.submissionId,
     mode: request.mode ?? "queue",
+    ...(author.success ? { author: author.data } : {}),
     modelPin: pin,
     segmentId,
   });
@@ -2928,9 +3651,10 @@ async function submitRealtimeMessageDirect(input: {
       instanceId: threadName(binding.thread),
       modelPin: pin,
       segmentId,
-      turnMessage: request.message,
+      turnMessage: message,
+      ...(pinnedValue.importedContext ? { importedHistorySent: true } : {}),
     },
-    { env: input.env, execution: input.execution, storage: input.storage, webSockets: input.webSockets },
+    host,
   );
   return admission;
 }
@@ -2940,8 +3664,62 @@ export function handleFlaryThreadControlWebSocketClose(input: {
   readonly socket: ThreadControlWebSocket;
   readonly code?: number;
   readonly reason?: string;
+  readonly webSockets?: ThreadControlWebSocketHost;
 }): void {
+  const connectionId = (input.socket.deserializeAttachment?.() as
+    | RealtimeSocketAttachment
+    | undefined)?.connectionId;
   input.socket.close(input.code ?? 1000, input.reason ?? "closed");
+  if (connectionId) broadcastPresence(input.webSockets, "left", connectionId);
+}
+
+/**
+ * The members of a thread, read from the attachments of its sockets so that
+ * presence survives hibernation. A closing socket is left out.
+ */
+function presenceMembers(
+  host: ThreadControlWebSocketHost | undefined,
+  without?: string,
+): RealtimePresenceMember[] {
+  return (host?.getWebSockets() ?? []).flatMap((socket) => {
+    const attachment = socket.deserializeAttachment?.() as RealtimeSocketAttachment | undefined;
+    if (!attachment?.connectionId || !attachment.joinedAt || attachment.connectionId === without) {
+      return [];
+    }
+    const actor = IdentityReferenceSchema.safeParse(attachment.actor);
+    if (!actor.success) return [];
+    return [{
+      connectionId: attachment.connectionId,
+      actor: actor.data,
+      joinedAt: attachment.joinedAt,
+      ...(attachment.messageId ? { messageId: attachment.messageId } : {}),
+      ...(attachment.typingUntil ? { typingUntil: attachment.typingUntil } : {}),
+    }];
+  });
+}
+
+function broadcastPresence(
+  host: ThreadControlWebSocketHost | undefined,
+  event: "joined" | "left" | "updated",
+  connectionId: string,
+): void {
+  const members = presenceMembers(host, event === "left" ? connectionId : undefined);
+  const frame = JSON.stringify({
+    version: 1,
+    type: "presence",
+    event,
+    connectionId,
+    members,
+  } satisfies RealtimeServerFrame);
+  for (const socket of host?.getWebSockets() ?? []) {
+    const attachment = socket.deserializeAttachment?.() as RealtimeSocketAttachment | undefined;
+    if (!attachment?.connectionId || attachment.connectionId === connectionId) continue;
+    try {
+      socket.send(frame);
+    } catch {
+      // A socket that is closing gets its own close event.
+    }
+  }
 }
 
 async function broadcastThreadRecords(
@@ -3035,6 +3813,7 @@ export async function handleFlarySessionProjectionQueue(input: {
     | DurableObjectNamespace
     | undefined;
   if (!namespace) throw new Error("FLARY_THREAD_CONTROL is not configured");
+  const indexing = new Map<string, Promise<void>>();
   await Promise.all(
     input.messages.map(async (message) => {
       const body = objectValue(message.body);
@@ -3056,6 +3835,18 @@ export async function handleFlarySessionProjectionQueue(input: {
           return;
         }
         const stub = namespace.get(namespace.idFromName(controlName));
+        if (body.kind === "search.index") {
+          // Each run rewrites the whole thread, so duplicates in one batch
+          // share a run instead of interleaving their deletes and inserts.
+          let run = indexing.get(controlName);
+          if (!run) {
+            run = indexThreadSearch(input.env, stub, body);
+            indexing.set(controlName, run);
+          }
+          await run;
+          message.ack();
+          return;
+        }
         const method = body.kind === "child.projection" ? "projectChild" : "track";
         const response = await stub.fetch(
           new Request("https://flary.internal/track", {
@@ -3073,6 +3864,34 @@ export async function handleFlarySessionProjectionQueue(input: {
   );
 }
 
+/** Write the searchable content of one thread into the D1 search index. */
+async function indexThreadSearch(
+  env: Record<string, unknown>,
+  stub: DurableObjectStub,
+  body: Record<string, unknown>,
+): Promise<void> {
+  const database = env.FLARY_THREAD_CATALOG as D1DatabaseLike | undefined;
+  if (!database) return;
+  const response = await stub.fetch(
+    new Request("https://flary.internal/searchEntries", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...body, method: "searchEntries" }),
+    }),
+  );
+  if (!response.ok) throw new Error(`Search indexing failed (${response.status})`);
+  const value = objectValue(await response.json());
+  const binding = ThreadBindingSchema.parse(value.binding);
+  await new D1ThreadCatalog(database).replaceSearchEntries(
+    {
+      tenantId: binding.thread.organizationId,
+      applicationId: binding.thread.appId,
+      threadId: binding.thread.threadId,
+    },
+    Array.isArray(value.entries) ? value.entries as D1ThreadSearchEntry[] : [],
+  );
+}
+
 /** Run destructive thread cleanup outside the user-facing delete request. */
 export async function handleFlaryThreadPurgeQueue(input: {
   readonly messages: readonly ProjectionQueueMessage[];
@@ -3594,6 +4413,10 @@ async function projectAdmission(input: {
   readonly segmentId?: string;
   readonly turnMessage?: string;
   readonly webSockets?: ThreadControlWebSocketHost;
+  readonly guardOutput?: FlaryThreadOutputGuard;
+  readonly turnEnded?: FlaryThreadTurnObserver;
+  readonly describeThread?: FlaryThreadDescriber;
+  readonly execution?: ThreadControlExecutionContext;
 }): Promise<void> {
   const gateway = createCloudflareFlueGateway(input.env, {
     token:
@@ -3615,6 +4438,97 @@ async function projectAdmission(input: {
   });
   let providerStepSettled = false;
   let providerFailure: string | undefined;
+  // A turn that reached a tool may have changed state, so it never retries.
+  let stateChanged = false;
+  let guardrailBlocked = false;
+  let budgetExceeded = false;
+  const startedAt = Date.now();
+  const turnUsage = { tokens: 0, costUsd: 0 };
+  // An agent with output guardrails holds its answer until the answer passes
+  // them, so neither clients nor the ledger see an unguarded answer.
+  const holdAnswer = Boolean(input.guardOutput) &&
+    input.admissionId !== undefined &&
+    admittedTurn(input.sql, input.admissionId.replace(/_fallback_\d+$/, ""))
+      .guardsOutput === true;
+  const held: { sourceCursor: string; event: Record<string, unknown> }[] = [];
+  const markProjected = (sourceCursor: string) =>
+    input.sql.exec(
+      `INSERT OR IGNORE INTO flary_session_projection_dedupe
+        (source_cursor, recorded_at) VALUES (?, ?)`,
+      sourceCursor,
+      new Date().toISOString(),
+    );
+  const deliver = async (
+    sourceCursor: string,
+    event: Record<string, unknown>,
+  ): Promise<void> => {
+    const projected = await projector.project({ sourceCursor, event });
+    await mirrorChildProjection(input, projected, sourceCursor);
+    if (
+      projected.recordType === "tool.call" ||
+      projected.recordType === "codemode.started"
+    ) {
+      stateChanged = true;
+    }
+    if (
+      projected.recordType === "approval.requested" ||
+      projected.recordType === "input.requested"
+    ) {
+      await updateSubagentAtRoot(input, "wait", sourceCursor, {
+        reason: projected.recordType,
+      });
+    } else if (
+      projected.recordType === "approval.resolved" ||
+      projected.recordType === "input.resolved"
+    ) {
+      await updateSubagentAtRoot(input, "resume", sourceCursor, {
+        reason: projected.recordType,
+      });
+    }
+    markProjected(sourceCursor);
+    await broadcastThreadRecords(input.sql, input.webSockets);
+  };
+  const release = async (answer?: { readonly text?: string }) => {
+    let replaced = false;
+    for (const item of held.splice(0)) {
+      const text = item.event.type === "message-delta";
+      if (answer && (text || item.event.type === "submission-settled")) {
+        // A rewrite streams as one delta and settles with the same text. A
+        // block drops the answer and leaves the terminal record to close it.
+        if (text && answer.text !== undefined && !replaced) {
+          replaced = true;
+          await deliver(item.sourceCursor, { ...item.event, delta: answer.text });
+        } else if (!text && answer.text !== undefined) {
+          await deliver(item.sourceCursor, {
+            ...item.event,
+            result: { ...objectValue(item.event.result), text: answer.text },
+          });
+        } else {
+          markProjected(item.sourceCursor);
+        }
+        continue;
+      }
+      await deliver(item.sourceCursor, item.event);
+    }
+  };
+  const turnEnded = (status: "completed" | "failed", error?: string) =>
+    input.turnEnded?.({
+      bindings: input.env,
+      agentId: input.binding.agentId,
+      tenantId: input.binding.thread.organizationId,
+      threadId: input.binding.thread.threadId,
+      submissionId: input.admission.submissionId,
+      ...(input.admissionId
+        ? { admissionId: input.admissionId.replace(/_fallback_\d+$/, "") }
+        : {}),
+      status,
+      ...(input.modelPin
+        ? { model: `${input.modelPin.provider}/${input.modelPin.model}` }
+        : {}),
+      ...(error ? { error } : {}),
+      durationMs: Date.now() - startedAt,
+      usage: { ...turnUsage },
+    }).catch(() => undefined);
   try {
     const result = await gateway.wait(input.admission, async (event) => {
       providerFailure = providerFailureFromFlueEvent(event) ?? providerFailure;
@@ -3658,7 +4572,12 @@ async function projectAdmission(input: {
               type: providerStepEvent ? "reserved-provider-step" : event.type,
             }
           : event as unknown as Record<string, unknown>,
+        input.modelPin
+          ? `${input.modelPin.provider}/${input.modelPin.model}`
+          : undefined,
       );
+      turnUsage.tokens += limit.delta.tokens;
+      turnUsage.costUsd += limit.delta.costUsd;
       const rootDelta = providerStepSettled && providerStepEvent
         ? { ...limit.delta, steps: 0 }
         : limit.delta;
@@ -3679,35 +4598,17 @@ async function projectAdmission(input: {
             },
           }
         : event as unknown as Record<string, unknown>;
-      const projected = await projector.project({
-        sourceCursor,
-        event: projectedEvent,
-      });
-      await mirrorChildProjection(input, projected, sourceCursor);
-      if (
-        projected.recordType === "approval.requested" ||
-        projected.recordType === "input.requested"
-      ) {
-        await updateSubagentAtRoot(input, "wait", sourceCursor, {
-          reason: projected.recordType,
-        });
-      } else if (
-        projected.recordType === "approval.resolved" ||
-        projected.recordType === "input.resolved"
-      ) {
-        await updateSubagentAtRoot(input, "resume", sourceCursor, {
-          reason: projected.recordType,
-        });
+      if (holdAnswer && isAnswerEvent(projectedEvent)) {
+        held.push({ sourceCursor, event: projectedEvent });
+      } else {
+        // Text before a tool call is not the answer, so it is released.
+        if (projectedEvent.type === "tool-input") await release();
+        await deliver(sourceCursor, projectedEvent);
       }
-      input.sql.exec(
-        `INSERT OR IGNORE INTO flary_session_projection_dedupe
-          (source_cursor, recorded_at) VALUES (?, ?)`,
-        sourceCursor,
-        new Date().toISOString(),
-      );
-      await broadcastThreadRecords(input.sql, input.webSockets);
       const appliedLimit = limit.exceeded ? limit : rootLimit;
       if (appliedLimit.exceeded) {
+        stateChanged = true;
+        budgetExceeded = appliedLimit.code === "budget_exceeded";
         await gateway.abort(
           runtimeAgentId(input.binding),
           threadName(input.binding.thread),
@@ -3730,6 +4631,49 @@ async function projectAdmission(input: {
           "The model completed without returning an assistant message.",
       );
     }
+    if (input.guardOutput) {
+      const outcome = await input.guardOutput({
+        bindings: input.env,
+        agentId: input.binding.agentId,
+        tenantId: input.binding.thread.organizationId,
+        threadId: input.binding.thread.threadId,
+        text: resultValue.text,
+      });
+      const lastRewrite = outcome.blocked
+        ? -1
+        : outcome.trips.map((trip) => trip.action).lastIndexOf("rewrite");
+      // The model must continue from the answer the user received, so a
+      // rewritten answer leaves the canonical history for its replacement.
+      const historyReplaced = lastRewrite >= 0 &&
+        await replaceAnswerInHistory(input, held, outcome.text);
+      for (const [index, trip] of outcome.trips.entries()) {
+        await appendLedger(input.sql, input.binding, "guardrail.tripped", {
+          ...trip,
+          submissionId: input.admission.submissionId,
+          ...(input.admissionId ? { admissionId: input.admissionId } : {}),
+          ...(index === lastRewrite
+            ? { replacement: outcome.text, historyReplaced }
+            : {}),
+          recordedAt: new Date().toISOString(),
+        });
+      }
+      if (outcome.trips.length > 0) {
+        await broadcastThreadRecords(input.sql, input.webSockets);
+      }
+      await release(
+        outcome.blocked
+          ? {}
+          : lastRewrite >= 0
+            ? { text: outcome.text }
+            : undefined,
+      );
+      if (outcome.blocked) {
+        guardrailBlocked = true;
+        throw new Error(
+          outcome.trips.at(-1)?.reason ?? "A guardrail blocked the answer.",
+        );
+      }
+    }
     if (input.modelPin) {
       await appendLedger(input.sql, input.binding, "provider.segment.completed", {
         ...(input.segmentId ? { segmentId: input.segmentId } : {}),
@@ -3763,6 +4707,15 @@ async function projectAdmission(input: {
       admission: input.admission,
       status: "completed",
     });
+    await turnEnded("completed");
+    // Titles and summaries are a convenience, written after the projection
+    // settles. A failure never fails the turn.
+    const describing = describeThread(input.sql, input.env, "turn", input.describeThread)
+      .then((described) => described && publishBinding(input.env, described))
+      .catch(() => undefined);
+    if (input.execution) input.execution.waitUntil(describing);
+    else void describing;
+    await queueSearchIndex(input.env, input.binding.thread).catch(() => undefined);
   } catch (error) {
     if (input.admissionId && !providerStepSettled) {
       await rootInteractiveReservationAction(
@@ -3786,17 +4739,30 @@ async function projectAdmission(input: {
         completionReason: "failed",
       }).catch(() => undefined);
     }
+    const failure = error instanceof Error ? error.message : String(error);
+    const fallback = !stateChanged && !guardrailBlocked && input.modelPin && input.turnMessage
+      ? nextAgentFallbackModel(input.binding, input.modelPin.selection, failure)
+      : undefined;
+    if (fallback) {
+      await admitFallbackTurn(input, fallback, failure, gateway);
+      return;
+    }
     await appendLedger(input.sql, input.binding, "terminal", {
       status: "failed",
       outcome: "failed",
       submissionId: input.admission.submissionId,
       ...(input.admissionId ? { admissionId: input.admissionId } : {}),
       error: {
-        code: "provider_execution_failed",
+        code: guardrailBlocked
+          ? "guardrail_blocked"
+          : budgetExceeded
+            ? "budget_exceeded"
+            : "provider_execution_failed",
         message: publicAgentFailureMessage(error),
       },
     }).catch(() => undefined);
     await broadcastThreadRecords(input.sql, input.webSockets).catch(() => undefined);
+    await turnEnded("failed", publicAgentFailureMessage(error));
     await settleSubagent(input, "fail", {
       error: {
         code: "subagent_execution_failed",
@@ -3808,6 +4774,131 @@ async function projectAdmission(input: {
   }
 }
 
+/** Answer text and the settlement after it, which a guarded turn holds. */
+function isAnswerEvent(event: Record<string, unknown>): boolean {
+  return (event.type === "message-delta" && event.kind !== "reasoning") ||
+    event.type === "message-completed" ||
+    event.type === "submission-settled";
+}
+
+/**
+ * Roll the canonical history back past a rewritten answer. Flue keeps the
+ * rollback reason as context, so the next turn sees the replacement instead.
+ */
+async function replaceAnswerInHistory(
+  input: { readonly env: Record<string, unknown>; readonly binding: ThreadBinding },
+  held: readonly { readonly event: Record<string, unknown> }[],
+  replacement: string,
+): Promise<boolean> {
+  const messageId = held.map((item) => item.event)
+    .filter((event) => event.type === "message-delta")
+    .map((event) => event.messageId)
+    .filter((value): value is string => typeof value === "string")
+    .at(-1);
+  if (!messageId) return false;
+  try {
+    const result = await agentControlRpc(input.env, input.binding, "rollback", {
+      turnId: messageId,
+      excludeTarget: true,
+      reason:
+        `A guardrail replaced your previous answer. The user received this answer instead:\n\n${replacement}`,
+    });
+    return !objectValue(result).runtimeUnavailable;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the model that retries a failed agent turn. Only rate-limited and
+ * transient failures move along the chain, one model per failure.
+ */
+export function nextAgentFallbackModel(
+  binding: ThreadBinding,
+  current: ModelSelection,
+  failure: string,
+): ModelSelection | undefined {
+  const failureClass = classifyProviderFailureMessage(failure);
+  if (failureClass !== "rate_limit" && failureClass !== "transient") {
+    return undefined;
+  }
+  const chain = modelPolicy(binding).fallback;
+  const index = chain.findIndex((candidate) => sameModel(candidate, current));
+  return chain[index + 1];
+}
+
+/** Re-admit the failed turn on a fallback model and project it in place. */
+async function admitFallbackTurn(
+  input: Parameters<typeof projectAdmission>[0],
+  selection: ModelSelection,
+  failure: string,
+  gateway: FlueAgentGateway,
+): Promise<void> {
+  const from = input.modelPin!.selection;
+  const failedAdmissionId = input.admissionId ?? input.admission.submissionId;
+  const rootAdmissionId = failedAdmissionId.replace(/_fallback_\d+$/, "");
+  const index = modelPolicy(input.binding).fallback.findIndex((candidate) =>
+    sameModel(candidate, selection)
+  );
+  const admissionId = `${rootAdmissionId}_fallback_${index + 1}`;
+  const segmentId = `segment_${admissionId}`;
+  const pin = ResolvedModelPinSchema.parse(resolvedModelPin(input.binding, selection));
+  put(input.sql, `model-pin:${admissionId}`, pin);
+  const sequence = nextControlSequence(input.sql, "model-history:");
+  put(input.sql, `model-history:${String(sequence).padStart(12, "0")}`, {
+    sequence,
+    model: selection,
+    changedAt: new Date().toISOString(),
+    actor: input.binding.createdBy,
+    reason: "fallback",
+    fallback: {
+      admissionId: failedAdmissionId,
+      from,
+      failureClass: classifyProviderFailureMessage(failure),
+    },
+  });
+  await appendLedger(input.sql, input.binding, "provider.cache_reset", {
+    from,
+    to: selection,
+    admissionId,
+    reason: "provider_fallback",
+  });
+  await appendLedger(input.sql, input.binding, "provider.segment.started", {
+    segmentId,
+    admissionId,
+    pin,
+  });
+  await reserveRootInteractiveUsage(input.sql, input.env, input.binding, {
+    reservationId: `turn_${admissionId}`,
+    kind: "provider-step",
+    delta: emptyUsage({ steps: 1 }),
+  });
+  const admission = await gateway.send(
+    runtimeAgentId(input.binding),
+    threadName(input.binding.thread),
+    input.turnMessage!,
+    { idempotencyKey: admissionId, model: toFlueModelSpecifier(selection) },
+  );
+  put(input.sql, `projection:${admission.submissionId}`, {
+    admission,
+    agentId: input.binding.agentId,
+    instanceId: threadName(input.binding.thread),
+    modelPin: pin,
+    admissionId,
+    segmentId,
+    turnMessage: input.turnMessage,
+    status: "active",
+  });
+  await broadcastThreadRecords(input.sql, input.webSockets).catch(() => undefined);
+  await projectAdmission({
+    ...input,
+    admission,
+    admissionId,
+    modelPin: pin,
+    segmentId,
+  });
+}
+
 export function providerFailureFromFlueEvent(event: unknown): string | undefined {
   const value = objectValue(event);
   const response = objectValue(value.response);
@@ -4158,11 +5249,8 @@ function accountInteractiveEvent(
   sql: ThreadControlStorage["sql"],
   binding: ThreadBinding,
   event: Record<string, unknown>,
-): {
-  exceeded: boolean;
-  message: string;
-  delta: InteractiveUsage;
-} {
+  model?: string,
+): InteractiveLimitResult {
   const type = String(event.type ?? "");
   const stepDelta =
     type === "message-started" || type === "turn_request" ? 1 : 0;
@@ -4174,10 +5262,11 @@ function accountInteractiveEvent(
             objectValue(objectValue(event.message).metadata).usage,
         );
   const cost = objectValue(usage.cost);
-  const costDelta =
-    typeof cost.total === "number" && Number.isFinite(cost.total)
+  const priced =
+    typeof cost.total === "number" && Number.isFinite(cost.total) && cost.total > 0
       ? cost.total
-      : 0;
+      : pricedInteractiveCost(binding, usage, model);
+  const costDelta = priced ?? 0;
   const tokenDelta = nonnegative(usage.totalTokens, 0);
   const toolCallDelta = type === "tool-input" ? 1 : 0;
   const delta = {
@@ -4191,14 +5280,50 @@ function accountInteractiveEvent(
   if (Object.values(delta).every((value) => value === 0)) {
     return { exceeded: false, message: "", delta };
   }
-  return accountInteractiveDelta(sql, binding, delta);
+  const result = accountInteractiveDelta(sql, binding, delta);
+  // Spend is limited, so a turn that cannot be priced ends the turn.
+  if (priced === undefined && !result.exceeded) {
+    return {
+      ...result,
+      exceeded: true,
+      message: `The model ${model ?? "of this turn"} has no price, so the cost limit cannot be enforced`,
+      code: "model_unpriced",
+    };
+  }
+  return result;
+}
+
+/**
+ * Price the tokens of a turn whose provider reported no cost, using the
+ * catalog the agent was created with. The cost is undefined only when spend
+ * is limited and the model has no price.
+ */
+function pricedInteractiveCost(
+  binding: ThreadBinding,
+  usage: Record<string, unknown>,
+  model: string | undefined,
+): number | undefined {
+  // `required` is set when a cost limit or spend quota applies to the thread.
+  const { required, ...catalog } = objectValue(binding.metadata?.flaryPricing);
+  const pricing = ModelPricingCatalogSchema.safeParse(catalog);
+  if (!pricing.success) return 0;
+  const cacheRead = nonnegative(usage.cacheRead, 0);
+  const tokens = {
+    // Flue counts cache reads apart from the other input tokens.
+    inputTokens: nonnegative(usage.input, 0) + cacheRead,
+    outputTokens: nonnegative(usage.output, 0),
+    cachedInputTokens: cacheRead,
+  };
+  if (tokens.inputTokens + tokens.outputTokens === 0) return 0;
+  const cost = model ? priceUsage(pricing.data, model, tokens) : undefined;
+  return cost ?? (required === true ? undefined : 0);
 }
 
 function accountInteractiveDelta(
   sql: ThreadControlStorage["sql"],
   binding: ThreadBinding,
   delta: InteractiveUsage,
-): { exceeded: boolean; message: string; delta: InteractiveUsage } {
+): InteractiveLimitResult {
   const next = sql.transactionSync(() => {
     const current = interactiveUsage(sql);
     const value = {
@@ -4215,11 +5340,19 @@ function accountInteractiveDelta(
   return interactiveLimitResult(binding, next, delta);
 }
 
+interface InteractiveLimitResult {
+  exceeded: boolean;
+  message: string;
+  /** `budget_exceeded` when the cost limit was the one reached. */
+  code?: string;
+  delta: InteractiveUsage;
+}
+
 function interactiveLimitResult(
   binding: ThreadBinding,
   next: InteractiveUsage,
   delta: InteractiveUsage,
-): { exceeded: boolean; message: string; delta: InteractiveUsage } {
+): InteractiveLimitResult {
   const limits = objectValue(binding.metadata?.flaryLimits);
   const maxSteps = positive(limits.steps, Number.MAX_SAFE_INTEGER);
   const maxToolCalls = positive(limits.toolCalls, Number.MAX_SAFE_INTEGER);
@@ -4244,6 +5377,7 @@ function interactiveLimitResult(
     return {
       exceeded: true,
       message: `The interactive cost limit of ${maxCost} USD was exceeded`,
+      code: "budget_exceeded",
       delta,
     };
   }
@@ -4481,7 +5615,7 @@ async function accountRootInteractiveEvent(
   env: Record<string, unknown>,
   binding: ThreadBinding,
   delta: InteractiveUsage,
-): Promise<{ exceeded: boolean; message: string }> {
+): Promise<{ exceeded: boolean; message: string; code?: string }> {
   const rootThreadId = binding.metadata?.flarySubagentRootThreadId;
   if (typeof rootThreadId !== "string") {
     return { exceeded: false, message: "" };
@@ -4510,6 +5644,7 @@ async function accountRootInteractiveEvent(
   return {
     exceeded: value.exceeded === true,
     message: typeof value.message === "string" ? value.message : "",
+    ...(typeof value.code === "string" ? { code: value.code } : {}),
   };
 }
 
@@ -4939,6 +6074,208 @@ async function captureCanonicalSnapshot(
   );
 }
 
+/**
+ * Store a generated title or summary on the binding when one is due. After a
+ * turn, the title is written once and the summary every `every` turns. A fork
+ * or rollback rewrites both. A title the user gave is never replaced. It
+ * returns the changed binding.
+ */
+async function describeThread(
+  sql: ThreadControlStorage["sql"],
+  env: Record<string, unknown>,
+  reason: "turn" | "fork" | "rollback",
+  describer: FlaryThreadDescriber | undefined,
+): Promise<ThreadBinding | undefined> {
+  const binding = requireBinding(sql);
+  const policy = objectValue(binding.metadata?.flarySummary);
+  if (!describer || Object.keys(policy).length === 0) return undefined;
+  const userTitled = (metadata: Record<string, unknown> | undefined) =>
+    typeof metadata?.title === "string" && metadata.flaryGeneratedTitle !== true;
+  const gateway = createCloudflareFlueGateway(env, {
+    token:
+      typeof env.FLARY_INTERNAL_TOKEN === "string"
+        ? env.FLARY_INTERNAL_TOKEN
+        : undefined,
+  });
+  if (!gateway.history) return undefined;
+  const snapshot = objectValue(await gateway.history(
+    runtimeAgentId(binding),
+    threadName(binding.thread),
+  ));
+  const messages = (Array.isArray(snapshot.messages) ? snapshot.messages : [])
+    .map(objectValue)
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .map((message) => ({
+      role: message.role as "user" | "assistant",
+      text: (Array.isArray(message.parts) ? message.parts : [])
+        .map(objectValue)
+        .filter((part) => part.type === "text" && typeof part.text === "string")
+        .map((part) => part.text as string)
+        .join("")
+        .trim(),
+    }))
+    .filter((message) => message.text.length > 0);
+  const turns = messages.filter((message) => message.role === "user").length;
+  if (turns === 0 || !messages.some((message) => message.role === "assistant")) {
+    return undefined;
+  }
+  const every = numericValue(policy.every, 5);
+  const fields = [
+    ...(policy.title !== false &&
+      !userTitled(binding.metadata) &&
+      (reason !== "turn" || typeof binding.metadata?.title !== "string")
+      ? ["title" as const]
+      : []),
+    ...(every > 0 && (reason !== "turn" || turns % every === 0)
+      ? ["summary" as const]
+      : []),
+  ];
+  if (fields.length === 0) return undefined;
+  // The call spends like a turn, so a thread at its limits is not described.
+  if (interactiveLimitResult(binding, interactiveUsage(sql), emptyUsage()).exceeded) {
+    return undefined;
+  }
+  const previous = binding.metadata?.summary;
+  const description = await describer({
+    bindings: env,
+    agentId: binding.agentId,
+    tenantId: binding.thread.organizationId,
+    threadId: binding.thread.threadId,
+    fields,
+    messages,
+    ...(reason === "turn" && typeof previous === "string" ? { summary: previous } : {}),
+  });
+  const usage = emptyUsage({
+    tokens: nonnegative(description.usage?.tokens, 0),
+    costUsd: positiveNumber(description.usage?.costUsd, 0),
+  });
+  if (usage.tokens > 0 || usage.costUsd > 0) {
+    accountInteractiveDelta(sql, binding, usage);
+    const rootThreadId = binding.metadata?.flarySubagentRootThreadId;
+    if (typeof rootThreadId === "string" && rootThreadId !== binding.thread.threadId) {
+      await accountRootInteractiveEvent(env, binding, usage);
+    }
+  }
+  // Read the binding again. The user may have renamed the thread meanwhile.
+  const current = requireBinding(sql);
+  const metadata = { ...(current.metadata ?? {}) };
+  const title = fields.includes("title") && !userTitled(metadata)
+    ? description.title
+    : undefined;
+  const summary = fields.includes("summary") ? description.summary : undefined;
+  if (!title && !summary) return undefined;
+  if (title) {
+    metadata.title = title;
+    metadata.flaryGeneratedTitle = true;
+  }
+  if (summary) metadata.summary = summary;
+  current.metadata = metadata;
+  current.updatedAt = new Date().toISOString();
+  const parsed = ThreadBindingSchema.parse(current);
+  put(sql, "binding", parsed);
+  await appendLedger(sql, parsed, "session.lifecycle", {
+    action: "describe",
+    reason,
+    ...(title ? { title } : {}),
+    ...(summary ? { summary } : {}),
+  });
+  return parsed;
+}
+
+/**
+ * Copy a binding that the Thread Control object changed on its own into the
+ * catalog object and D1, so `list()` shows it.
+ */
+async function publishBinding(
+  env: Record<string, unknown>,
+  binding: ThreadBinding,
+): Promise<void> {
+  const namespace = env.FLARY_THREAD_CONTROL as DurableObjectNamespace | undefined;
+  const database = env.FLARY_THREAD_CATALOG as D1DatabaseLike | undefined;
+  await Promise.all([
+    namespace?.get(
+      namespace.idFromName(`catalog:${binding.thread.organizationId}:${binding.thread.appId}`),
+    ).fetch(new Request("https://flary.internal/catalog", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        method: "catalogPut",
+        tenantId: binding.thread.organizationId,
+        applicationId: binding.thread.appId,
+        binding,
+      }),
+    })),
+    database ? new D1ThreadCatalog(database).put(binding) : undefined,
+  ]);
+}
+
+/** Ask the projection queue to index the thread again for tenant search. */
+async function queueSearchIndex(
+  env: Record<string, unknown>,
+  thread: ThreadBinding["thread"],
+): Promise<void> {
+  const queue = env.FLARY_SESSION_PROJECTION_QUEUE as ProjectionQueue | undefined;
+  if (!queue || !env.FLARY_THREAD_CATALOG) return;
+  await queue.send({
+    kind: "search.index",
+    controlName: `thread:${thread.organizationId}:${thread.appId}:${thread.threadId}`,
+    tenantId: thread.organizationId,
+    applicationId: thread.appId,
+  });
+}
+
+/**
+ * The searchable content of a thread: its title, the text of each message,
+ * and each tool result. Every message is anchored to its submission, which
+ * is the turn ID of the ledger.
+ */
+async function threadSearchEntries(
+  sql: ThreadControlStorage["sql"],
+  env: Record<string, unknown>,
+): Promise<D1ThreadSearchEntry[]> {
+  const binding = requireBinding(sql);
+  const entries: D1ThreadSearchEntry[] = typeof binding.metadata?.title === "string"
+    ? [{ kind: "title", content: binding.metadata.title }]
+    : [];
+  const gateway = createCloudflareFlueGateway(env, {
+    token:
+      typeof env.FLARY_INTERNAL_TOKEN === "string"
+        ? env.FLARY_INTERNAL_TOKEN
+        : undefined,
+  });
+  if (!gateway.history) return entries;
+  const snapshot = objectValue(await gateway.history(
+    runtimeAgentId(binding),
+    threadName(binding.thread),
+  ));
+  let turnId: string | undefined;
+  for (const message of (Array.isArray(snapshot.messages) ? snapshot.messages : []).map(objectValue)) {
+    if (typeof message.submissionId === "string") turnId = message.submissionId;
+    const anchor = {
+      ...(typeof message.id === "string" ? { messageId: message.id } : {}),
+      ...(turnId ? { turnId } : {}),
+    };
+    const parts = (Array.isArray(message.parts) ? message.parts : []).map(objectValue);
+    const text = parts
+      .filter((part) => part.type === "text" && typeof part.text === "string")
+      .map((part) => part.text as string)
+      .join("")
+      .trim();
+    if (text) entries.push({ kind: "message", content: text.slice(0, 20_000), ...anchor });
+    for (const part of parts) {
+      if (part.type !== "dynamic-tool" || part.state !== "output-available") continue;
+      const output = typeof part.output === "string" ? part.output : JSON.stringify(part.output);
+      if (!output) continue;
+      entries.push({
+        kind: "tool",
+        content: `${String(part.toolName ?? "tool")}: ${output}`.slice(0, 20_000),
+        ...anchor,
+      });
+    }
+  }
+  return entries;
+}
+
 /**
  * Return only durable subagent children for a thread.
  *
@@ -5016,13 +6353,14 @@ function runtimeAgentId(binding: ThreadBinding): string {
 interface StoredModelPolicy {
   readonly allow: ModelSelection[];
   readonly switching: "user" | "disabled";
-  readonly fallback: "none";
+  /** Ordered models that retry a turn after a retryable provider failure. */
+  readonly fallback: ModelSelection[];
 }
 
 function modelPolicy(binding: ThreadBinding): StoredModelPolicy {
   const value = binding.metadata?.flaryModelPolicy;
   if (!value || typeof value !== "object" || Array.isArray(value)) {
-    return { allow: binding.defaultModel ? [binding.defaultModel] : [], switching: "user", fallback: "none" };
+    return { allow: binding.defaultModel ? [binding.defaultModel] : [], switching: "user", fallback: [] };
   }
   const candidate = value as Record<string, unknown>;
   const allow = Array.isArray(candidate.allow)
@@ -5031,10 +6369,16 @@ function modelPolicy(binding: ThreadBinding): StoredModelPolicy {
         return parsed.success ? [parsed.data] : [];
       })
     : [];
+  const fallback = Array.isArray(candidate.fallback)
+    ? candidate.fallback.flatMap((item) => {
+        const parsed = ModelSelectionSchema.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [];
   return {
     allow,
     switching: candidate.switching === "disabled" ? "disabled" : "user",
-    fallback: "none",
+    fallback,
   };
 }
 
@@ -5118,6 +6462,139 @@ function forkWorkspaceBranch(parent: string, threadId: string): string {
   return `${parent.slice(0, Math.max(1, 200 - suffix.length - 6))}-fork-${suffix}`;
 }
 
+function readShareLinks(sql: ThreadControlStorage["sql"]): ThreadShareLink[] {
+  return sql.exec<{ value_json: string }>(
+    `SELECT value_json FROM flary_thread_control
+     WHERE key LIKE 'shareLink:%'`,
+  ).toArray()
+    .map((row) => ThreadShareLinkSchema.parse(JSON.parse(row.value_json)))
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+}
+
+interface ShareLinkClaims {
+  readonly tenantId: string;
+  readonly appId: string;
+  readonly threadId: string;
+  readonly linkId: string;
+}
+
+function shareLinkSecret(env: Record<string, unknown>): string {
+  const secret = env.FLARY_SHARE_LINK_SECRET;
+  if (typeof secret !== "string" || secret.length < 32) {
+    throw featureUnavailable("Share links");
+  }
+  return secret;
+}
+
+function shareLinkKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+}
+
+/** A share link token is its base64url claims and their HMAC-SHA-256 signature. */
+async function signShareLink(secret: string, claims: ShareLinkClaims): Promise<string> {
+  const payload = base64Url(new TextEncoder().encode(JSON.stringify([
+    claims.tenantId,
+    claims.appId,
+    claims.threadId,
+    claims.linkId,
+  ])));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await shareLinkKey(secret, "sign"),
+    new TextEncoder().encode(payload),
+  );
+  return `${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+async function verifyShareLink(
+  secret: string,
+  token: string,
+): Promise<ShareLinkClaims | undefined> {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return undefined;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await shareLinkKey(secret, "verify"),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload),
+    );
+    if (!valid) return undefined;
+    const [tenantId, appId, threadId, linkId] = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(payload)),
+    ) as unknown[];
+    return typeof tenantId === "string" && typeof appId === "string" &&
+        typeof threadId === "string" && typeof linkId === "string"
+      ? { tenantId, appId, threadId, linkId }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(
+    atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+    (character) => character.charCodeAt(0),
+  );
+}
+
+/**
+ * Keep the text of user and assistant messages. A tool call shows only its
+ * name and state, so tool inputs, outputs, and the secrets in them stay private.
+ */
+function sharedConversation(
+  binding: ThreadBinding,
+  history: unknown,
+): ThreadSharedConversation {
+  const snapshot = objectValue(history);
+  const messages = (Array.isArray(snapshot.messages) ? snapshot.messages : [])
+    .map(objectValue)
+    .filter((message) =>
+      (message.role === "user" || message.role === "assistant") &&
+      typeof message.id === "string")
+    .map((message) => ({
+      id: String(message.id),
+      role: message.role as "user" | "assistant",
+      parts: (Array.isArray(message.parts) ? message.parts : [])
+        .map(objectValue)
+        .flatMap((part): ThreadSharedConversation["messages"][number]["parts"] => {
+          if (part.type === "text" && typeof part.text === "string") {
+            return [{ type: "text", text: redactText(part.text) }];
+          }
+          if (part.type !== "dynamic-tool") return [];
+          return [{
+            type: "tool",
+            toolName: String(part.toolName ?? "tool"),
+            status: part.state === "output-available"
+              ? "completed"
+              : part.state === "output-error"
+                ? "failed"
+                : "running",
+          }];
+        }),
+    }))
+    .filter((message) => message.parts.length > 0);
+  return {
+    threadId: binding.thread.threadId,
+    ...(typeof binding.metadata?.title === "string" ? { title: binding.metadata.title } : {}),
+    messages,
+  };
+}
+
 async function sha256Text(value: string): Promise<string> {
   const digest = await crypto.subtle.digest(
     "SHA-256",
@@ -5234,6 +6711,134 @@ function assertOwner(
   }
 }
 
+function importedContext(
+  sql: ThreadControlStorage["sql"],
+): { importedContext?: string } {
+  const row = sql.exec<{ value_json: string }>(
+    "SELECT value_json FROM flary_thread_control WHERE key = 'imported-context'",
+  ).toArray()[0];
+  return row ? { importedContext: JSON.parse(row.value_json) as string } : {};
+}
+
+/** Read the code and status of a host error or an authored function error. */
+function codedError(
+  error: unknown,
+): { readonly code: string; readonly status?: number; readonly details?: unknown } | undefined {
+  if (!(error instanceof Error)) return undefined;
+  const { code, status, details } = error as Error & {
+    code?: unknown;
+    status?: unknown;
+    details?: unknown;
+  };
+  if (typeof code !== "string") return undefined;
+  return {
+    code,
+    ...(typeof status === "number" ? { status } : {}),
+    ...(details === undefined ? {} : { details }),
+  };
+}
+
+interface GatedTurn {
+  readonly message: string;
+  readonly guardsOutput: boolean;
+}
+
+function admittedTurn(
+  sql: ThreadControlStorage["sql"],
+  admissionId: string,
+): Partial<GatedTurn> {
+  const row = sql.exec<{ value_json: string }>(
+    "SELECT value_json FROM flary_thread_control WHERE key = ?",
+    `turn-admission:${admissionId}`,
+  ).toArray()[0];
+  return row ? JSON.parse(row.value_json) as GatedTurn : {};
+}
+
+/** Read the caller of a turn, or the thread creator for scheduled turns. */
+function turnActor(
+  value: unknown,
+  binding: ThreadBinding,
+): Parameters<FlaryThreadTurnGate>[0]["actor"] {
+  const actor = objectValue(value);
+  const strings = (candidate: unknown) =>
+    Array.isArray(candidate)
+      ? candidate.filter((item): item is string => typeof item === "string")
+      : [];
+  if (typeof actor.id === "string" && actor.id) {
+    return { id: actor.id, roles: strings(actor.roles), scopes: strings(actor.scopes) };
+  }
+  return {
+    id: binding.createdBy.id,
+    roles: strings(binding.metadata?.flaryAdmittedRoles),
+    scopes: strings(binding.metadata?.flaryAdmittedScopes),
+  };
+}
+
+/**
+ * Pass one turn through the host gate before it is admitted. Trips are kept
+ * in the ledger, and a blocked message never reaches the model.
+ */
+async function gateTurn(
+  sql: ThreadControlStorage["sql"],
+  host: { readonly env?: Record<string, unknown>; readonly gateTurn?: FlaryThreadTurnGate } | undefined,
+  binding: ThreadBinding,
+  input: {
+    readonly admissionId: string;
+    readonly message: string;
+    readonly actor: Parameters<FlaryThreadTurnGate>[0]["actor"];
+  },
+): Promise<GatedTurn | undefined> {
+  if (!host?.gateTurn || !host.env) return undefined;
+  const outcome = await host.gateTurn({
+    bindings: host.env,
+    agentId: binding.agentId,
+    tenantId: binding.thread.organizationId,
+    threadId: binding.thread.threadId,
+    ...input,
+  });
+  for (const trip of outcome.trips) {
+    await appendLedger(sql, binding, "guardrail.tripped", {
+      ...trip,
+      admissionId: input.admissionId,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+  if (outcome.blocked) {
+    throw new FlaryHostError(
+      400,
+      "guardrail_blocked",
+      outcome.trips.at(-1)?.reason ?? "A guardrail blocked the message.",
+    );
+  }
+  return { message: outcome.text, guardsOutput: outcome.guardsOutput };
+}
+
+/**
+ * End a gated turn that never reached the model, so the host frees its quota
+ * slot and `onRunEnd` follows the `onRunStart` the gate already called.
+ */
+async function abandonGatedTurn(
+  host: { readonly env?: Record<string, unknown>; readonly turnEnded?: FlaryThreadTurnObserver } | undefined,
+  binding: ThreadBinding,
+  admissionId: string,
+  error: unknown,
+): Promise<void> {
+  if (!host?.env) return;
+  await host.turnEnded?.({
+    bindings: host.env,
+    agentId: binding.agentId,
+    tenantId: binding.thread.organizationId,
+    threadId: binding.thread.threadId,
+    // The turn has no Flue submission, so its admission stands in for one.
+    submissionId: admissionId,
+    admissionId,
+    status: "failed",
+    error: publicAgentFailureMessage(error),
+    durationMs: 0,
+    usage: { tokens: 0, costUsd: 0 },
+  }).catch(() => undefined);
+}
+
 function put(
   sql: ThreadControlStorage["sql"],
   key: string,
@@ -11,9 +11,9 @@ import {
 } from "./common";
 import { ApprovalDecisionSchema, ApprovalRequestSchema } from "./approvals";
 import { PromptRoleSchema } from "./prompts";
-import { PromptCacheRetentionSchema } from "./provider";
+import { ModelSelectionSchema, PromptCacheRetentionSchema } from "./provider";
 import { ProviderBillingModeSchema } from "./connections";
-import { RunTargetSchema } from "./runs";
+import { RunTargetSchema, RunWaitSchema } from "./runs";
 import { ToolCallSchema, ToolResultSchema } from "./tools";
 import {
   NormalizedUsageSchema,
@@ -59,6 +59,10 @@ export const EventTypeSchema = z.enum([
   "tool.result",
   "approval.requested",
   "approval.resolved",
+  "step.progress",
+  "output.repair",
+  "model.fallback",
+  "guardrail.tripped",
 ]);
 export type EventType = z.infer<typeof EventTypeSchema>;
 
@@ -116,6 +120,7 @@ export const RunWaitingEventSchema = z
       .object({
         reason: NonEmptyStringSchema,
         approvalId: IdentifierSchema.optional(),
+        wait: RunWaitSchema.optional(),
       })
       .strict(),
   })
@@ -333,6 +338,87 @@ export const ApprovalResolvedEventSchema = z
   .strict();
 export type ApprovalResolvedEvent = z.infer<typeof ApprovalResolvedEventSchema>;
 
+// Record one settled item of a `context.map()` or `context.parallel()` step.
+export const StepProgressEventSchema = z
+  .object({
+    ...EventBaseFields,
+    type: z.literal("step.progress"),
+    payload: z
+      .object({
+        step: IdentifierSchema,
+        index: NonNegativeIntegerSchema,
+        status: z.enum(["succeeded", "failed"]),
+        completed: NonNegativeIntegerSchema,
+        failed: NonNegativeIntegerSchema,
+        total: NonNegativeIntegerSchema,
+      })
+      .strict(),
+  })
+  .strict();
+export type StepProgressEvent = z.infer<typeof StepProgressEventSchema>;
+
+// Record a follow-up turn that asked the model to fix invalid output.
+export const OutputRepairEventSchema = z
+  .object({
+    ...EventBaseFields,
+    type: z.literal("output.repair"),
+    payload: z
+      .object({
+        attempt: NonNegativeIntegerSchema,
+        maxAttempts: NonNegativeIntegerSchema,
+        model: NonEmptyStringSchema,
+        issues: z
+          .array(
+            z
+              .object({
+                path: z.string().max(1_000),
+                message: NonEmptyStringSchema,
+              })
+              .strict(),
+          )
+          .max(100),
+      })
+      .strict(),
+  })
+  .strict();
+export type OutputRepairEvent = z.infer<typeof OutputRepairEventSchema>;
+
+// Record a model turn that moved to the next model of its fallback chain.
+export const ModelFallbackEventSchema = z
+  .object({
+    ...EventBaseFields,
+    type: z.literal("model.fallback"),
+    payload: z
+      .object({
+        decisionId: NonEmptyStringSchema,
+        operationId: NonEmptyStringSchema,
+        from: ModelSelectionSchema,
+        to: ModelSelectionSchema,
+        fallbackIndex: NonNegativeIntegerSchema,
+        failureClass: IdentifierSchema,
+      })
+      .strict(),
+  })
+  .strict();
+export type ModelFallbackEvent = z.infer<typeof ModelFallbackEventSchema>;
+
+// Record a guardrail that blocked or rewrote a run input or output.
+export const GuardrailTrippedEventSchema = z
+  .object({
+    ...EventBaseFields,
+    type: z.literal("guardrail.tripped"),
+    payload: z
+      .object({
+        stage: z.enum(["input", "output"]),
+        guardrail: NonEmptyStringSchema,
+        action: z.enum(["block", "rewrite"]),
+        reason: z.string().max(4_096).optional(),
+      })
+      .strict(),
+  })
+  .strict();
+export type GuardrailTrippedEvent = z.infer<typeof GuardrailTrippedEventSchema>;
+
 // Validate every event with its event-specific payload.
 export const RunEventSchema = z.discriminatedUnion("type", [
   RunQueuedEventSchema,
@@ -353,6 +439,10 @@ export const RunEventSchema = z.discriminatedUnion("type", [
   ToolResultEventSchema,
   ApprovalRequestedEventSchema,
   ApprovalResolvedEventSchema,
+  StepProgressEventSchema,
+  OutputRepairEventSchema,
+  ModelFallbackEventSchema,
+  GuardrailTrippedEventSchema,
 ]);
 export type RunEvent = z.infer<typeof RunEventSchema>;
 
@@ -9,10 +9,12 @@ export * from "./execution";
 export * from "./filesystem";
 export * from "./flows";
 export * from "./identity";
+export * from "./memory";
 export * from "./modes";
 export * from "./prompts";
 export * from "./prompt-revisions";
 export * from "./provider";
+export * from "./quotas";
 export * from "./recall";
 export * from "./realtime";
 export * from "./runtime";
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import { IdentifierSchema, NonEmptyStringSchema, TimestampSchema } from "./common";
+
+export const MemoryScopeSchema = z.enum(["user", "tenant", "app"]);
+export type MemoryScope = z.infer<typeof MemoryScopeSchema>;
+
+// Name one owner partition of memory records.
+export const MemoryOwnerSchema = z
+  .object({
+    scope: MemoryScopeSchema,
+    key: NonEmptyStringSchema.max(512),
+  })
+  .strict();
+export type MemoryOwner = z.infer<typeof MemoryOwnerSchema>;
+
+// One remembered fact, as the Runtime Durable Object stores it.
+export const MemoryRecordSchema = z
+  .object({
+    id: IdentifierSchema,
+    scope: MemoryScopeSchema,
+    owner: NonEmptyStringSchema.max(512),
+    content: z.string().min(1).max(2_000),
+    tags: z.array(z.string().min(1).max(64)).max(16).optional(),
+    createdAt: TimestampSchema,
+    updatedAt: TimestampSchema,
+  })
+  .strict();
+export type MemoryRecord = z.infer<typeof MemoryRecordSchema>;
+
+// List every record of one owner.
+export const MemoryListRequestSchema = z
+  .object({ owner: MemoryOwnerSchema })
+  .strict();
+export type MemoryListRequest = z.infer<typeof MemoryListRequestSchema>;
+
+// Store one record in its owner partition.
+export const MemoryPutRequestSchema = z
+  .object({ record: MemoryRecordSchema })
+  .strict();
+export type MemoryPutRequest = z.infer<typeof MemoryPutRequestSchema>;
+
+// Delete one record, or every record of the owner when `id` is missing.
+export const MemoryDeleteRequestSchema = z
+  .object({
+    owner: MemoryOwnerSchema,
+    id: IdentifierSchema.optional(),
+  })
+  .strict();
+export type MemoryDeleteRequest = z.infer<typeof MemoryDeleteRequestSchema>;
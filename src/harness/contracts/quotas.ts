@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+import { IdentifierSchema, NonEmptyStringSchema } from "./common";
+
+const QuotaAmountSchema = z.number().finite().nonnegative();
+
+// Limit one quota counter. A missing limit is not enforced.
+export const QuotaLimitsSchema = z
+  .object({
+    requestsPerMinute: QuotaAmountSchema.optional(),
+    concurrentRuns: QuotaAmountSchema.optional(),
+    dailyTokens: QuotaAmountSchema.optional(),
+    monthlySpendUsd: QuotaAmountSchema.optional(),
+  })
+  .strict();
+export type QuotaLimits = z.infer<typeof QuotaLimitsSchema>;
+
+// Name the tenant, user, or agent counter that an admission is checked against.
+export const QuotaSubjectSchema = z
+  .object({
+    scope: z.enum(["tenant", "user", "agent"]),
+    key: NonEmptyStringSchema.max(512),
+    limits: QuotaLimitsSchema,
+  })
+  .strict();
+export type QuotaSubject = z.infer<typeof QuotaSubjectSchema>;
+
+// Admit one run against every subject and hold a concurrency slot.
+export const QuotaAdmitRequestSchema = z
+  .object({
+    tenantId: IdentifierSchema,
+    subjects: z.array(QuotaSubjectSchema).max(16),
+    leaseId: IdentifierSchema,
+    leaseMs: z.number().finite().positive(),
+  })
+  .strict();
+export type QuotaAdmitRequest = z.infer<typeof QuotaAdmitRequestSchema>;
+
+// Free the slot of a lease and charge the usage of its run.
+export const QuotaReleaseRequestSchema = z
+  .object({
+    tenantId: IdentifierSchema,
+    leaseId: IdentifierSchema,
+    charge: z
+      .object({
+        tokens: QuotaAmountSchema.optional(),
+        costUsd: QuotaAmountSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+export type QuotaReleaseRequest = z.infer<typeof QuotaReleaseRequestSchema>;
+
+// Read the used and remaining allowance of each subject.
+export const QuotaUsageRequestSchema = z
+  .object({
+    tenantId: IdentifierSchema,
+    subjects: z.array(QuotaSubjectSchema).max(16),
+  })
+  .strict();
+export type QuotaUsageRequest = z.infer<typeof QuotaUsageRequestSchema>;
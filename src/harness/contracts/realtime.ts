@@ -1,6 +1,12 @@
 import { z } from "zod";
 
+import { IdentityReferenceSchema } from "./identity.js";
+
 const RealtimeIdentifierSchema = z.string().trim().min(1).max(512);
+const RealtimeTimestampSchema = z.string().datetime({ offset: true });
+
+/** How long one typing frame shows its sender as typing. */
+export const REALTIME_TYPING_TTL_MS = 6_000;
 
 export const RealtimeTicketRequestSchema = z
   .object({
@@ -13,7 +19,7 @@ export type RealtimeTicketRequest = z.input<typeof RealtimeTicketRequestSchema>;
 export const RealtimeTicketResponseSchema = z
   .object({
     url: z.string().url(),
-    expiresAt: z.string().datetime({ offset: true }),
+    expiresAt: RealtimeTimestampSchema,
   })
   .strict();
 export type RealtimeTicketResponse = z.infer<typeof RealtimeTicketResponseSchema>;
@@ -57,9 +63,29 @@ export const RealtimeClientFrameSchema = z.discriminatedUnion("type", [
     type: z.literal("ping"),
     requestId: RealtimeIdentifierSchema.optional(),
   }).strict(),
+  z.object({
+    version: z.literal(1),
+    type: z.literal("presence"),
+    /** The transcript message the user is looking at. `null` clears it. */
+    messageId: RealtimeIdentifierSchema.nullable().optional(),
+    typing: z.boolean().optional(),
+  }).strict(),
 ]);
 export type RealtimeClientFrame = z.infer<typeof RealtimeClientFrameSchema>;
 
+/** One connection to a thread. A user with two tabs open has two members. */
+export const RealtimePresenceMemberSchema = z
+  .object({
+    connectionId: RealtimeIdentifierSchema,
+    actor: IdentityReferenceSchema,
+    joinedAt: RealtimeTimestampSchema,
+    messageId: RealtimeIdentifierSchema.optional(),
+    /** The member is typing until this time unless another frame moves it. */
+    typingUntil: RealtimeTimestampSchema.optional(),
+  })
+  .strict();
+export type RealtimePresenceMember = z.infer<typeof RealtimePresenceMemberSchema>;
+
 export const RealtimeServerFrameSchema = z.discriminatedUnion("type", [
   z.object({
     version: z.literal(1),
@@ -102,5 +128,13 @@ export const RealtimeServerFrameSchema = z.discriminatedUnion("type", [
     type: z.literal("pong"),
     requestId: RealtimeIdentifierSchema.optional(),
   }).strict(),
+  z.object({
+    version: z.literal(1),
+    type: z.literal("presence"),
+    /** `sync` is sent on connect; its connection ID is the receiving socket. */
+    event: z.enum(["sync", "joined", "left", "updated"]),
+    connectionId: RealtimeIdentifierSchema,
+    members: z.array(RealtimePresenceMemberSchema).max(256),
+  }).strict(),
 ]);
 export type RealtimeServerFrame = z.infer<typeof RealtimeServerFrameSchema>;
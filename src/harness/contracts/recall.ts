@@ -66,6 +66,7 @@ export const RecallKindSchema = z.enum([
   "tool",
   "run",
   "event",
+  "memory",
 ]);
 export type RecallKind = z.infer<typeof RecallKindSchema>;
 
@@ -3,9 +3,11 @@ import { z } from "zod";
 import {
   ErrorInfoSchema,
   IdentifierSchema,
+  JsonObjectSchema,
   JsonValueSchema,
   MetadataSchema,
   NonNegativeIntegerSchema,
+  PositiveIntegerSchema,
   TimestampSchema,
 } from "./common";
 import {
@@ -47,6 +49,53 @@ export const RunStatusSchema = z.enum([
 ]);
 export type RunStatus = z.infer<typeof RunStatusSchema>;
 
+// Describe the durable sleep or event wait that holds a run in `waiting`.
+export const RunWaitSchema = z
+  .object({
+    kind: z.enum(["sleep", "event"]),
+    name: IdentifierSchema,
+    resumeAt: TimestampSchema.optional(),
+    eventType: IdentifierSchema.optional(),
+  })
+  .strict();
+export type RunWait = z.infer<typeof RunWaitSchema>;
+
+// Carry an event sent to a paused run until a durable wait claims it.
+export const RunWaitEventSchema = z
+  .object({
+    type: IdentifierSchema,
+    payload: JsonValueSchema,
+    receivedAt: TimestampSchema,
+  })
+  .strict();
+export type RunWaitEvent = z.infer<typeof RunWaitEventSchema>;
+
+// Hold the replay journal of a paused workflow run. Each workflow attempt
+// owns a fresh Flue Durable Object, so the host stores completed steps and
+// unclaimed events and passes them back when the run resumes.
+export const RunWaitStateSchema = z
+  .object({
+    wait: RunWaitSchema,
+    steps: z.record(
+      z.string().min(1).max(200),
+      z
+        .object({
+          inputHash: z.string(),
+          value: JsonValueSchema,
+        })
+        .strict(),
+    ),
+    events: z.array(RunWaitEventSchema).max(1_000),
+  })
+  .strict();
+export type RunWaitState = z.infer<typeof RunWaitStateSchema>;
+
+// A generated workflow returns this envelope instead of output when it pauses.
+export const PausedWorkflowOutputSchema = z
+  .object({ __flaryWait: RunWaitStateSchema })
+  .strict();
+export type PausedWorkflowOutput = z.infer<typeof PausedWorkflowOutputSchema>;
+
 // This is the tenant-neutral request body for POST /runs. The mounting product
 // supplies tenantId and agentId through trusted server context.
 export const CreateRunRequestSchema = z
@@ -196,3 +245,84 @@ export const RunResultSchema = z
     }
   });
 export type RunResult = z.infer<typeof RunResultSchema>;
+
+// Keep the input of a run that failed after its last attempt for replay.
+export const DeadLetterRecordSchema = z
+  .object({
+    runId: IdentifierSchema,
+    requestId: IdentifierSchema,
+    tenantId: IdentifierSchema,
+    channelId: IdentifierSchema,
+    execution: RunExecutionSchema,
+    input: JsonValueSchema,
+    /** The function revision the run was admitted against. */
+    revision: JsonObjectSchema.optional(),
+    error: ErrorInfoSchema,
+    attempts: PositiveIntegerSchema,
+    failedAt: TimestampSchema,
+    /** The latest run that re-admitted this input. */
+    replayedRunId: IdentifierSchema.optional(),
+    replayedAt: TimestampSchema.optional(),
+  })
+  .strict();
+export type DeadLetterRecord = z.infer<typeof DeadLetterRecordSchema>;
+
+export const DeadLetterQuerySchema = z
+  .object({
+    channelId: IdentifierSchema.optional(),
+    includeReplayed: z.boolean().default(false),
+    limit: z.number().int().min(1).max(500).default(50),
+  })
+  .strict();
+export type DeadLetterQuery = z.infer<typeof DeadLetterQuerySchema>;
+export type DeadLetterQueryInput = z.input<typeof DeadLetterQuerySchema>;
+
+// Summarize one run in a list. Internal `flary*` metadata keys are omitted.
+export const RunSummarySchema = z
+  .object({
+    runId: IdentifierSchema,
+    requestId: IdentifierSchema,
+    channelId: IdentifierSchema,
+    /** The function or agent that owns the run. */
+    agentId: IdentifierSchema,
+    revisionId: IdentifierSchema.optional(),
+    userId: IdentifierSchema,
+    execution: RunExecutionSchema,
+    status: RunStatusSchema,
+    createdAt: TimestampSchema,
+    updatedAt: TimestampSchema,
+    completedAt: TimestampSchema.optional(),
+    metadata: MetadataSchema.optional(),
+  })
+  .strict();
+export type RunSummary = z.infer<typeof RunSummarySchema>;
+
+// Filter the runs of one tenant application, newest first.
+export const RunListQuerySchema = z
+  .object({
+    status: z.array(RunStatusSchema).min(1).optional(),
+    /** Function or agent name. */
+    agentId: IdentifierSchema.optional(),
+    revisionId: IdentifierSchema.optional(),
+    userId: IdentifierSchema.optional(),
+    createdAfter: TimestampSchema.optional(),
+    createdBefore: TimestampSchema.optional(),
+    /** Exact string matches on run metadata keys. */
+    metadata: z
+      .record(z.string().regex(/^[A-Za-z0-9_.:-]{1,128}$/), z.string().max(1_024))
+      .optional(),
+    cursor: z.string().min(1).max(1_024).optional(),
+    limit: z.number().int().min(1).max(100).default(20),
+  })
+  .strict();
+export type RunListQuery = z.infer<typeof RunListQuerySchema>;
+export type RunListQueryInput = z.input<typeof RunListQuerySchema>;
+
+export const RunListPageSchema = z
+  .object({
+    runs: z.array(RunSummarySchema),
+    /** Pass back as `cursor` to read the next page. */
+    nextCursor: z.string().min(1).optional(),
+  })
+  .strict();
+export type RunListPage = z.infer<typeof RunListPageSchema>;
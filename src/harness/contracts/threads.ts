@@ -17,6 +17,7 @@ import {
 import {
   IdentifierSchema,
   JsonObjectSchema,
+  JsonValueSchema,
   MetadataSchema,
   NonEmptyStringSchema,
   TimestampSchema,
@@ -42,6 +43,36 @@ export type ThreadLifecycleStatus = z.infer<
   typeof ThreadLifecycleStatusSchema
 >;
 
+/** A label that callers attach to a thread and filter the thread list by. */
+export const ThreadTagSchema = z.string().regex(/^[A-Za-z0-9_.:-]{1,64}$/);
+export type ThreadTag = z.infer<typeof ThreadTagSchema>;
+
+const ThreadTagsSchema = z
+  .array(ThreadTagSchema)
+  .max(32)
+  .transform((tags) => [...new Set(tags)]);
+
+export const ThreadCollaboratorRoleSchema = z.enum([
+  "viewer",
+  "commenter",
+  "participant",
+]);
+export type ThreadCollaboratorRole = z.infer<typeof ThreadCollaboratorRoleSchema>;
+
+/**
+ * A grant to a user other than the creator. A viewer reads the thread, a
+ * commenter may also comment, and a participant may also send and steer turns.
+ */
+export const ThreadCollaboratorSchema = z
+  .object({
+    actor: IdentityReferenceSchema,
+    role: ThreadCollaboratorRoleSchema,
+    grantedBy: IdentityReferenceSchema,
+    grantedAt: TimestampSchema,
+  })
+  .strict();
+export type ThreadCollaborator = z.infer<typeof ThreadCollaboratorSchema>;
+
 /**
  * The durable identity of one Flary thread.
  *
@@ -54,6 +85,8 @@ export const ThreadBindingSchema = z
     thread: ThreadRefSchema,
     workspace: WorkspaceRefSchema,
     agentId: IdentifierSchema,
+    /** Agent that answers the next turn after a handoff. Unset means `agentId`. */
+    activeAgentId: IdentifierSchema.optional(),
     persona: IdentifierSchema.optional(),
     defaultMode: AgentModeIdSchema,
     defaultModel: ModelSelectionSchema.optional(),
@@ -64,6 +97,8 @@ export const ThreadBindingSchema = z
     parentThread: ThreadRefSchema.optional(),
     createdAt: TimestampSchema,
     updatedAt: TimestampSchema,
+    tags: ThreadTagsSchema.optional(),
+    collaborators: z.array(ThreadCollaboratorSchema).max(64).optional(),
     metadata: MetadataSchema.optional(),
   })
   .strict()
@@ -98,6 +133,7 @@ export const ThreadCreateRequestSchema = z
     model: ModelSelectionSchema.optional(),
     thinkingLevel: ReasoningEffortSchema.default("medium"),
     connectionIds: z.array(IdentifierSchema).max(256).default([]),
+    tags: ThreadTagsSchema.optional(),
     metadata: MetadataSchema.optional(),
   })
   .strict();
@@ -141,6 +177,18 @@ export const ThreadModelSetRequestSchema = z
   .strict();
 export type ThreadModelSetRequest = z.input<typeof ThreadModelSetRequestSchema>;
 
+/** Trusted handoff of a thread to another agent of the same application. */
+export const ThreadHandoffRequestSchema = z
+  .object({
+    agentId: IdentifierSchema,
+    model: ModelSelectionSchema,
+    reason: z.string().max(4_096).optional(),
+    /** Runtime policy of the next agent, merged into the binding metadata. */
+    metadata: MetadataSchema.optional(),
+  })
+  .strict();
+export type ThreadHandoffRequest = z.input<typeof ThreadHandoffRequestSchema>;
+
 export const ThreadModelHistoryRecordSchema = z
   .object({
     sequence: z.number().int().positive(),
@@ -148,6 +196,20 @@ export const ThreadModelHistoryRecordSchema = z
     changedAt: TimestampSchema,
     actor: IdentityReferenceSchema,
     reason: z.string().max(4_096).optional(),
+    /** Set when one turn moved to a fallback model after a provider failure. */
+    fallback: z
+      .object({
+        admissionId: IdentifierSchema,
+        from: ModelSelectionSchema,
+        failureClass: IdentifierSchema,
+      })
+      .strict()
+      .optional(),
+    /** Set when the model changed because the thread moved to another agent. */
+    handoff: z
+      .object({ from: IdentifierSchema, to: IdentifierSchema })
+      .strict()
+      .optional(),
   })
   .strict();
 export type ThreadModelHistoryRecord = z.infer<
@@ -173,6 +235,11 @@ export const ThreadMessageRequestSchema = z
     thinkingLevel: ReasoningEffortSchema.optional(),
     cacheRetention: PromptCacheRetentionSchema.default("short"),
     idempotencyKey: IdentifierSchema.optional(),
+    /**
+     * Who wrote the message. The host sets it to the calling user; a service
+     * may name the user it acts for.
+     */
+    author: IdentityReferenceSchema.optional(),
   })
   .strict();
 export type ThreadMessageRequest = z.input<typeof ThreadMessageRequestSchema>;
@@ -188,6 +255,137 @@ export const ThreadRenameRequestSchema = z
   .strict();
 export type ThreadRenameRequest = z.infer<typeof ThreadRenameRequestSchema>;
 
+/**
+ * Change the caller metadata and tags of a thread. `metadata` is merged into
+ * the current metadata and a `null` value removes its key. `tags` replaces
+ * the tag list. Keys that start with `flary` belong to Flary.
+ */
+export const ThreadMetadataUpdateRequestSchema = z
+  .object({
+    metadata: z
+      .record(z.string().regex(/^[A-Za-z0-9_.:-]{1,128}$/), JsonValueSchema)
+      .optional(),
+    tags: ThreadTagsSchema.optional(),
+  })
+  .strict()
+  .superRefine((value, context) => {
+    if (!value.metadata && !value.tags) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Pass metadata or tags",
+      });
+    }
+    for (const key of Object.keys(value.metadata ?? {})) {
+      if (key.startsWith("flary")) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["metadata", key],
+          message: "Metadata keys that start with flary are reserved",
+        });
+      }
+    }
+  });
+export type ThreadMetadataUpdateRequest = z.input<
+  typeof ThreadMetadataUpdateRequestSchema
+>;
+
+export const ThreadCollaboratorGrantRequestSchema = z
+  .object({
+    actorId: IdentifierSchema,
+    role: ThreadCollaboratorRoleSchema,
+  })
+  .strict();
+export type ThreadCollaboratorGrantRequest = z.infer<
+  typeof ThreadCollaboratorGrantRequestSchema
+>;
+
+export const ThreadCommentRequestSchema = z
+  .object({
+    text: NonEmptyStringSchema.max(8_000),
+    /** Turn that the comment is about. */
+    turnId: IdentifierSchema.optional(),
+  })
+  .strict();
+export type ThreadCommentRequest = z.infer<typeof ThreadCommentRequestSchema>;
+
+export const ThreadCommentSchema = z
+  .object({
+    id: IdentifierSchema,
+    text: NonEmptyStringSchema.max(8_000),
+    turnId: IdentifierSchema.optional(),
+    author: IdentityReferenceSchema,
+    createdAt: TimestampSchema,
+  })
+  .strict();
+export type ThreadComment = z.infer<typeof ThreadCommentSchema>;
+
+/** A read-only link to the conversation of one thread. */
+export const ThreadShareLinkSchema = z
+  .object({
+    id: IdentifierSchema,
+    createdBy: IdentityReferenceSchema,
+    createdAt: TimestampSchema,
+    expiresAt: TimestampSchema.optional(),
+    revokedAt: TimestampSchema.optional(),
+  })
+  .strict();
+export type ThreadShareLink = z.infer<typeof ThreadShareLinkSchema>;
+
+export const ThreadShareLinkCreateRequestSchema = z
+  .object({
+    /** Seconds until the link stops working. Links never expire by default. */
+    expiresIn: z.number().int().min(60).max(90 * 24 * 60 * 60).optional(),
+  })
+  .strict();
+export type ThreadShareLinkCreateRequest = z.infer<
+  typeof ThreadShareLinkCreateRequestSchema
+>;
+
+export const ThreadShareLinkCreateResponseSchema = z
+  .object({
+    link: ThreadShareLinkSchema,
+    token: NonEmptyStringSchema,
+    url: z.string().url(),
+  })
+  .strict();
+export type ThreadShareLinkCreateResponse = z.infer<
+  typeof ThreadShareLinkCreateResponseSchema
+>;
+
+/**
+ * The conversation behind a share link. Tool calls keep only their name and
+ * outcome; their input, output, reasoning, and files are never shared.
+ */
+export const ThreadSharedConversationSchema = z
+  .object({
+    threadId: IdentifierSchema,
+    title: z.string().optional(),
+    messages: z.array(
+      z
+        .object({
+          id: IdentifierSchema,
+          role: z.enum(["user", "assistant"]),
+          parts: z.array(
+            z.discriminatedUnion("type", [
+              z.object({ type: z.literal("text"), text: z.string() }).strict(),
+              z
+                .object({
+                  type: z.literal("tool"),
+                  toolName: NonEmptyStringSchema,
+                  status: z.enum(["running", "completed", "failed"]),
+                })
+                .strict(),
+            ]),
+          ),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+export type ThreadSharedConversation = z.infer<
+  typeof ThreadSharedConversationSchema
+>;
+
 export const ThreadPinRequestSchema = z
   .object({ pinned: z.boolean().default(true) })
   .strict();
@@ -229,19 +427,141 @@ export const ThreadPortableArchiveSchema = z
   .strict();
 export type ThreadPortableArchive = z.infer<typeof ThreadPortableArchiveSchema>;
 
-/** Verified projection JSONL or a complete portable session archive. */
+export const ThreadTranscriptFormatSchema = z.enum([
+  "markdown",
+  "html",
+  "openai-messages",
+  "anthropic-messages",
+]);
+export type ThreadTranscriptFormat = z.infer<typeof ThreadTranscriptFormatSchema>;
+
+/**
+ * A readable or provider-shaped export of the thread history. `reasoning`
+ * adds reasoning to Markdown and HTML; `redact` removes credentials from tool
+ * input and output.
+ */
+export const ThreadTranscriptRequestSchema = z
+  .object({
+    format: ThreadTranscriptFormatSchema,
+    reasoning: z.boolean().default(false),
+    redact: z.boolean().default(false),
+  })
+  .strict();
+export type ThreadTranscriptRequest = z.input<typeof ThreadTranscriptRequestSchema>;
+
+export const ThreadTranscriptImportFormatSchema = z.enum([
+  "openai-messages",
+  "anthropic-messages",
+  "claude-code-jsonl",
+  "jsonl",
+]);
+export type ThreadTranscriptImportFormat = z.infer<typeof ThreadTranscriptImportFormatSchema>;
+
+/** One message in the OpenAI Chat Completions format. */
+export const OpenAIChatMessageSchema = z.discriminatedUnion("role", [
+  z.object({ role: z.literal("user"), content: z.string() }).strict(),
+  z
+    .object({
+      role: z.literal("assistant"),
+      content: z.string().nullable(),
+      tool_calls: z
+        .array(
+          z
+            .object({
+              id: NonEmptyStringSchema,
+              type: z.literal("function"),
+              function: z.object({ name: NonEmptyStringSchema, arguments: z.string() }).strict(),
+            })
+            .strict(),
+        )
+        .optional(),
+    })
+    .strict(),
+  z
+    .object({
+      role: z.literal("tool"),
+      tool_call_id: NonEmptyStringSchema,
+      content: z.string(),
+    })
+    .strict(),
+]);
+export type OpenAIChatMessage = z.infer<typeof OpenAIChatMessageSchema>;
+
+/** One message in the Anthropic Messages format. */
+export const AnthropicMessageSchema = z
+  .object({
+    role: z.enum(["user", "assistant"]),
+    content: z.array(
+      z.discriminatedUnion("type", [
+        z.object({ type: z.literal("text"), text: z.string() }).strict(),
+        z
+          .object({
+            type: z.literal("tool_use"),
+            id: NonEmptyStringSchema,
+            name: NonEmptyStringSchema,
+            input: JsonObjectSchema,
+          })
+          .strict(),
+        z
+          .object({
+            type: z.literal("tool_result"),
+            tool_use_id: NonEmptyStringSchema,
+            content: z.string(),
+            is_error: z.literal(true).optional(),
+          })
+          .strict(),
+      ]),
+    ),
+  })
+  .strict();
+export type AnthropicMessage = z.infer<typeof AnthropicMessageSchema>;
+
+export const ThreadTranscriptSchema = z.discriminatedUnion("format", [
+  z.object({ format: z.enum(["markdown", "html"]), text: z.string() }).strict(),
+  z
+    .object({
+      format: z.literal("openai-messages"),
+      messages: z.array(OpenAIChatMessageSchema),
+    })
+    .strict(),
+  z
+    .object({
+      format: z.literal("anthropic-messages"),
+      messages: z.array(AnthropicMessageSchema),
+    })
+    .strict(),
+]);
+export type ThreadTranscript = z.infer<typeof ThreadTranscriptSchema>;
+
+/**
+ * Verified projection JSONL, a complete portable session archive, or a
+ * transcript from another stack. A transcript is given as text or as an array
+ * of messages.
+ */
 export const ThreadRestoreRequestSchema = z
   .object({
     jsonl: z.string().min(1).max(50_000_000).optional(),
     archive: ThreadPortableArchiveSchema.optional(),
+    transcript: z
+      .object({
+        format: ThreadTranscriptImportFormatSchema,
+        content: z.union([
+          z.string().min(1).max(50_000_000),
+          z.array(z.unknown()).min(1).max(100_000),
+        ]),
+      })
+      .strict()
+      .optional(),
     replace: z.boolean().default(true),
   })
   .strict()
   .superRefine((value, context) => {
-    if ((value.jsonl === undefined) === (value.archive === undefined)) {
+    const sources = [value.jsonl, value.archive, value.transcript]
+      .filter((source) => source !== undefined);
+    if (sources.length !== 1) {
       context.addIssue({
         code: "custom",
-        message: "Provide exactly one of jsonl or archive",
+        message: "Provide exactly one of jsonl, archive, or transcript",
       });
     }
   });
@@ -302,11 +622,72 @@ export const ThreadOverrideSchema = z
   .strict();
 export type ThreadOverride = z.infer<typeof ThreadOverrideSchema>;
 
+// Filter the threads of one tenant application, most recently updated first.
+export const ThreadListQuerySchema = z
+  .object({
+    agentId: IdentifierSchema.optional(),
+    status: z.array(ThreadLifecycleStatusSchema).min(1).optional(),
+    /** Every tag must be on the thread. */
+    tags: z.array(ThreadTagSchema).min(1).max(16).optional(),
+    /** Exact string matches on thread metadata keys. */
+    metadata: z
+      .record(z.string().regex(/^[A-Za-z0-9_.:-]{1,128}$/), z.string().max(1_024))
+      .optional(),
+    updatedAfter: TimestampSchema.optional(),
+    updatedBefore: TimestampSchema.optional(),
+    cursor: z.string().min(1).max(1_024).optional(),
+    limit: z.number().int().min(1).max(200).default(50),
+  })
+  .strict();
+export type ThreadListQuery = z.infer<typeof ThreadListQuerySchema>;
+export type ThreadListQueryInput = z.input<typeof ThreadListQuerySchema>;
+
 export const ThreadListResponseSchema = z
   .object({
     threads: z.array(ThreadBindingSchema),
+    /** Pass back as `cursor` to read the next page. */
+    nextCursor: z.string().min(1).optional(),
+  })
+  .strict();
+export type ThreadListResponse = z.infer<typeof ThreadListResponseSchema>;
+
+export const ThreadSearchRequestSchema = z
+  .object({
+    query: NonEmptyStringSchema.max(500),
+    limit: z.coerce.number().int().positive().max(50).default(20),
+  })
+  .strict();
+export type ThreadSearchRequest = z.input<typeof ThreadSearchRequestSchema>;
+
+export const ThreadSearchHitKindSchema = z.enum(["title", "message", "tool"]);
+export type ThreadSearchHitKind = z.infer<typeof ThreadSearchHitKindSchema>;
+
+/** One matching title, message, or tool result, anchored to its turn. */
+export const ThreadSearchHitSchema = z
+  .object({
+    kind: ThreadSearchHitKindSchema,
+    snippet: NonEmptyStringSchema,
+    messageId: IdentifierSchema.optional(),
+    turnId: IdentifierSchema.optional(),
+  })
+  .strict();
+export type ThreadSearchHit = z.infer<typeof ThreadSearchHitSchema>;
+
+export const ThreadSearchResultSchema = z
+  .object({
+    threadId: IdentifierSchema,
+    title: z.string().optional(),
+    hits: z.array(ThreadSearchHitSchema).min(1).max(3),
+  })
+  .strict();
+export type ThreadSearchResult = z.infer<typeof ThreadSearchResultSchema>;
+
+export const ThreadSearchResponseSchema = z
+  .object({
+    results: z.array(ThreadSearchResultSchema),
   })
   .strict();
+export type ThreadSearchResponse = z.infer<typeof ThreadSearchResponseSchema>;
 
 export const ThreadHistoryListResponseSchema = z
   .object({
@@ -1,5 +1,12 @@
 import { z, type ZodType } from "zod";
 
+import {
+  DEFAULT_MODEL_PRICING,
+  priceUsage,
+  type ModelPricingCatalog,
+  type PricedTokenUsage,
+} from "../providers/pricing.js";
+
 export const EvaluationCaseSchema = z.object({
   id: z.string().min(1).max(256),
   input: z.unknown(),
@@ -100,14 +107,20 @@ export interface EvaluationExecutor {
 
 /**
  * An executor may return this envelope when it can report provider cost. Raw
- * values remain valid executor results for backwards compatibility.
+ * values remain valid executor results for backwards compatibility. Without a
+ * reported cost, the tokens of `usage` are priced for `model`.
  */
 export interface EvaluationExecutionResult {
   readonly output: unknown;
   readonly costUsd?: number;
+  /** `provider/model` that produced the output. */
+  readonly model?: string;
   readonly usage?: {
     readonly costUsd?: number;
     readonly cost?: { readonly total?: number };
+    readonly inputTokens?: number;
+    readonly outputTokens?: number;
+    readonly cachedInputTokens?: number;
   };
 }
 
@@ -136,6 +149,8 @@ export interface EvaluationRunOptions {
   readonly graders: readonly EvaluationGraderDefinition[];
   readonly passThreshold?: number;
   readonly signal?: AbortSignal;
+  /** Prices for executor usage without a reported cost. */
+  readonly pricing?: ModelPricingCatalog;
 }
 
 export class EvaluationError extends Error {
@@ -188,6 +203,7 @@ export async function runEvaluation(
       revision: options.candidateRevision,
       graders: options.graders,
       signal: options.signal,
+      pricing: options.pricing,
     });
     results.push(candidateCase.result);
     if (candidateCase.costUsd !== undefined) {
@@ -200,6 +216,7 @@ export async function runEvaluation(
         revision: options.controlRevision ?? "control",
         graders: options.graders,
         signal: options.signal,
+        pricing: options.pricing,
       });
       controlResults.push(controlCase.result);
       if (controlCase.costUsd !== undefined) {
@@ -261,6 +278,7 @@ async function executeCase(
     readonly revision: string;
     readonly graders: readonly EvaluationGraderDefinition[];
     readonly signal?: AbortSignal;
+    readonly pricing?: ModelPricingCatalog;
   },
 ): Promise<{ readonly result: EvaluationCaseResult; readonly costUsd?: number }> {
   const caseStarted = Date.now();
@@ -275,7 +293,10 @@ async function executeCase(
       revision: options.revision,
       signal: options.signal,
     });
-    const normalized = normalizeExecutionResult(raw);
+    const normalized = normalizeExecutionResult(
+      raw,
+      options.pricing ?? DEFAULT_MODEL_PRICING,
+    );
     output = normalized.output;
     costUsd = normalized.costUsd;
   } catch (cause) {
@@ -304,7 +325,10 @@ async function executeCase(
   };
 }
 
-function normalizeExecutionResult(value: unknown): {
+function normalizeExecutionResult(
+  value: unknown,
+  pricing: ModelPricingCatalog,
+): {
   readonly output: unknown;
   readonly costUsd?: number;
 } {
@@ -315,6 +339,10 @@ function normalizeExecutionResult(value: unknown): {
     value.costUsd,
     usage?.costUsd,
     nestedCost,
+    usage && typeof value.model === "string"
+      // Token fields that are not numbers are priced as zero.
+      ? priceUsage(pricing, value.model, usage as PricedTokenUsage)
+      : undefined,
   );
   if (
     Object.prototype.hasOwnProperty.call(value, "output") &&
@@ -12,23 +12,42 @@ import {
   ApprovalDecisionSchema,
   ApprovalRequestSchema,
   CreateRunRequestSchema,
+  DeadLetterQuerySchema,
+  DeadLetterRecordSchema,
   IdentifierSchema,
   JsonObjectSchema,
   JsonValueSchema,
+  ModelFallbackEventSchema,
+  GuardrailTrippedEventSchema,
+  OutputRepairEventSchema,
+  PausedWorkflowOutputSchema,
   RunEventSchema,
   RunHandleSchema,
   RunInputSchema,
+  RunListPageSchema,
+  RunListQuerySchema,
   RunResultSchema,
+  RunSummarySchema,
+  RunWaitStateSchema,
+  StepProgressEventSchema,
   TimestampSchema,
   UserInputAnswerRequestSchema,
   UserInputRecordSchema,
   type ApprovalDecision,
   type ApprovalRequest,
   type CreateRunRequest,
+  type DeadLetterQuery,
+  type DeadLetterRecord,
+  type JsonValue,
+  type ModelSelection,
   type RunEvent,
   type RunHandle,
   type RunInput,
+  type RunListPage,
+  type RunListQuery,
   type RunResult,
+  type RunSummary,
+  type RunWaitState,
   type UserInputAnswerRequest,
   type UserInputRecord,
 } from "../contracts/index.js";
@@ -38,7 +57,20 @@ import {
   type ObserveRunOptions,
   type TrustedRunContext,
 } from "../host/runs.js";
-import { FlaryHostError } from "../host/errors.js";
+import { FlaryHostError, featureUnavailable } from "../host/errors.js";
+import {
+  ModelPricingCatalogSchema,
+  priceUsage,
+  type ModelPricingCatalog,
+} from "../providers/pricing.js";
+import { classifyProviderFailureMessage } from "../providers/recovery.js";
+import {
+  parseFlueModelSpecifier,
+  toFlueModelSpecifier,
+} from "../providers/resolver.js";
+
+/** The generated workflow that runs the parent run of every durable batch. */
+export const FLARY_BATCH_WORKFLOW = "flary-batch";
 
 export const FlueAdmissionSchema = z
   .object({
@@ -56,13 +88,17 @@ export const FlaryRunRecordSchema = z
     request: CreateRunRequestSchema,
     agentName: IdentifierSchema,
     instanceId: IdentifierSchema,
-    admission: FlueAdmissionSchema,
+    /** Absent while a run waits in the queue of its concurrency key. */
+    admission: FlueAdmissionSchema.optional(),
     result: RunResultSchema,
+    /** Replay journal of a workflow run paused on a durable wait. */
+    wait: RunWaitStateSchema.optional(),
     createdAt: TimestampSchema,
     updatedAt: TimestampSchema,
   })
   .strict();
 export type FlaryRunRecord = z.infer<typeof FlaryRunRecordSchema>;
+type AdmittedRunRecord = FlaryRunRecord & { readonly admission: FlueAdmission };
 
 export type RunEventDraft = RunEvent extends infer Event
   ? Event extends RunEvent
@@ -94,12 +130,141 @@ export interface FlaryRunRepository {
     admission: FlueAdmission,
   ): Promise<boolean>;
   setResult(runId: string, result: RunResult): Promise<FlaryRunRecord>;
+  /** Store or clear the durable wait of a paused workflow run. */
+  setWait(
+    runId: string,
+    wait: RunWaitState | undefined,
+  ): Promise<FlaryRunRecord>;
   appendEvent(
     runId: string,
     dedupeKey: string,
     event: RunEventDraft,
   ): Promise<RunEvent | undefined>;
   events(runId: string, afterSequence: number): Promise<RunEvent[]>;
+  /**
+   * Dead letters of one tenant scope, newest first. A repository stores one
+   * from `setResult` when a run first becomes `failed`.
+   */
+  listDeadLetters?(
+    scope: TrustedRunContext,
+    query: DeadLetterQuery,
+  ): Promise<DeadLetterRecord[]>;
+  getDeadLetter?(runId: string): Promise<DeadLetterRecord | undefined>;
+  /** Record the run that re-admitted a dead letter. */
+  markReplayed?(runId: string, replayedRunId: string): Promise<DeadLetterRecord>;
+  /**
+   * Runs of one tenant application, newest first. `scope.agentId` is not a
+   * filter; `query.agentId` is.
+   */
+  list?(scope: TrustedRunContext, query: RunListQuery): Promise<RunListPage>;
+  /**
+   * Unsettled runs of one function and tenant that share a concurrency key,
+   * oldest first. The key is `metadata.flaryConcurrency.key`.
+   */
+  concurrencyRuns?(scope: TrustedRunContext, key: string): Promise<FlaryRunRecord[]>;
+}
+
+/** Project a stored run into its list entry. */
+export function runSummary(record: FlaryRunRecord): RunSummary {
+  const metadata = Object.fromEntries(
+    Object.entries(record.request.metadata ?? {})
+      .filter(([key]) => !key.startsWith("flary")),
+  );
+  return RunSummarySchema.parse({
+    runId: record.runId,
+    requestId: record.request.requestId,
+    channelId: record.request.channelId,
+    agentId: record.trusted.agentId,
+    ...(record.trusted.revisionId ? { revisionId: record.trusted.revisionId } : {}),
+    userId: record.trusted.identity.id,
+    execution: record.request.execution,
+    status: record.result.status,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    ...(record.result.completedAt ? { completedAt: record.result.completedAt } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+  });
+}
+
+/** The list position after one run. Runs sort by creation time, then ID. */
+export function encodeRunCursor(run: Pick<RunSummary, "createdAt" | "runId">): string {
+  return btoa(JSON.stringify([run.createdAt, run.runId]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeRunCursor(cursor: string): { createdAt: string; runId: string } {
+  try {
+    const [createdAt, runId] = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/")),
+    ) as unknown[];
+    return {
+      createdAt: TimestampSchema.parse(createdAt),
+      runId: IdentifierSchema.parse(runId),
+    };
+  } catch {
+    throw new FlaryHostError(400, "invalid_run_cursor", "The run cursor is invalid");
+  }
+}
+
+/** Whether a run of the scope's tenant application passes the list filters. */
+export function matchesRunQuery(
+  record: FlaryRunRecord,
+  scope: TrustedRunContext,
+  query: RunListQuery,
+): boolean {
+  // Match the listed metadata, which leaves out internal keys.
+  const metadata = runSummary(record).metadata ?? {};
+  return (
+    record.trusted.tenantId === scope.tenantId &&
+    record.trusted.applicationId === scope.applicationId &&
+    record.trusted.projectId === scope.projectId &&
+    (!query.status || query.status.includes(record.result.status)) &&
+    (!query.agentId || record.trusted.agentId === query.agentId) &&
+    (!query.revisionId || record.trusted.revisionId === query.revisionId) &&
+    (!query.userId || record.trusted.identity.id === query.userId) &&
+    (!query.createdAfter || record.createdAt >= query.createdAfter) &&
+    (!query.createdBefore || record.createdAt < query.createdBefore) &&
+    Object.entries(query.metadata ?? {})
+      .every(([key, value]) => metadata[key] === value)
+  );
+}
+
+/**
+ * Build the dead letter of a run that has just failed. The input of a prompt
+ * function is its parsed input, which the application stores in metadata.
+ */
+export function deadLetterFor(
+  previous: FlaryRunRecord,
+  next: FlaryRunRecord,
+): DeadLetterRecord | undefined {
+  if (next.result.status !== "failed" || previous.result.status === "failed") {
+    return undefined;
+  }
+  const metadata = next.request.metadata ?? {};
+  // The items of a batch are runs of their own and keep their own letters.
+  if (metadata.flaryBatch !== undefined) return undefined;
+  const attempts = next.result.metadata?.attempts;
+  const error = next.result.error!;
+  const revision = metadata.flaryFunction;
+  return DeadLetterRecordSchema.parse({
+    runId: next.runId,
+    requestId: next.request.requestId,
+    tenantId: next.trusted.tenantId,
+    channelId: next.request.channelId,
+    execution: next.request.execution,
+    input: metadata.flaryInput ?? next.request.input,
+    ...(revision && typeof revision === "object" && !Array.isArray(revision)
+      ? { revision }
+      : {}),
+    error,
+    // The service stores the count Flue reported when it gave up retrying.
+    attempts: typeof attempts === "number" && Number.isInteger(attempts) && attempts > 0
+      ? attempts
+      : 1,
+    failedAt: next.result.completedAt ?? next.updatedAt,
+  });
 }
 
 /**
@@ -113,6 +278,7 @@ export class InMemoryFlaryRunRepository implements FlaryRunRepository {
   readonly #events = new Map<string, RunEvent[]>();
   readonly #dedupe = new Set<string>();
   readonly #inputs = new Map<string, FlueAdmission>();
+  readonly #deadLetters = new Map<string, DeadLetterRecord>();
 
   async findByIdempotency(
     trusted: TrustedRunContext,
@@ -186,6 +352,22 @@ export class InMemoryFlaryRunRepository implements FlaryRunRepository {
       updatedAt: new Date().toISOString(),
     });
     this.#runs.set(runId, next);
+    const letter = deadLetterFor(record, next);
+    if (letter && !this.#deadLetters.has(runId)) this.#deadLetters.set(runId, letter);
+    return clone(next);
+  }
+
+  async setWait(
+    runId: string,
+    waitInput: RunWaitState | undefined,
+  ): Promise<FlaryRunRecord> {
+    const { wait: _previous, ...record } = this.required(runId);
+    const next = FlaryRunRecordSchema.parse({
+      ...record,
+      ...(waitInput ? { wait: RunWaitStateSchema.parse(waitInput) } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+    this.#runs.set(runId, next);
     return clone(next);
   }
 
@@ -228,6 +410,71 @@ export class InMemoryFlaryRunRepository implements FlaryRunRepository {
       .map(clone);
   }
 
+  async listDeadLetters(
+    scope: TrustedRunContext,
+    query: DeadLetterQuery,
+  ): Promise<DeadLetterRecord[]> {
+    return [...this.#deadLetters.values()]
+      .filter((letter) => {
+        const record = this.#runs.get(letter.runId);
+        return record !== undefined &&
+          sameOwner(record.trusted, scope) &&
+          (!query.channelId || letter.channelId === query.channelId) &&
+          (query.includeReplayed || !letter.replayedRunId);
+      })
+      .sort((left, right) => right.failedAt.localeCompare(left.failedAt))
+      .slice(0, query.limit)
+      .map(clone);
+  }
+
+  async getDeadLetter(runId: string): Promise<DeadLetterRecord | undefined> {
+    const letter = this.#deadLetters.get(runId);
+    return letter ? clone(letter) : undefined;
+  }
+
+  async markReplayed(runId: string, replayedRunId: string): Promise<DeadLetterRecord> {
+    const letter = this.#deadLetters.get(runId);
+    if (!letter) throw new Error("The dead letter was not found");
+    const next = DeadLetterRecordSchema.parse({
+      ...letter,
+      replayedRunId,
+      replayedAt: new Date().toISOString(),
+    });
+    this.#deadLetters.set(runId, next);
+    return clone(next);
+  }
+
+  async list(scope: TrustedRunContext, query: RunListQuery): Promise<RunListPage> {
+    const after = query.cursor ? decodeRunCursor(query.cursor) : undefined;
+    const matches = [...this.#runs.values()]
+      .filter((record) =>
+        matchesRunQuery(record, scope, query) &&
+        (!after || compareRunOrder(record, after) > 0)
+      )
+      .sort(compareRunOrder);
+    const runs = matches.slice(0, query.limit).map(runSummary);
+    return RunListPageSchema.parse({
+      runs,
+      ...(matches.length > query.limit
+        ? { nextCursor: encodeRunCursor(runs.at(-1)!) }
+        : {}),
+    });
+  }
+
+  async concurrencyRuns(
+    scope: TrustedRunContext,
+    key: string,
+  ): Promise<FlaryRunRecord[]> {
+    return [...this.#runs.values()]
+      .filter((record) =>
+        sameOwner(record.trusted, scope) &&
+        !isTerminal(record.result.status) &&
+        runConcurrency(record)?.key === key
+      )
+      .sort((left, right) => compareRunOrder(right, left))
+      .map(clone);
+  }
+
   private required(runId: string): FlaryRunRecord {
     const record = this.#runs.get(runId);
     if (!record) throw new Error("The run was not found");
@@ -235,6 +482,64 @@ export class InMemoryFlaryRunRepository implements FlaryRunRepository {
   }
 }
 
+/**
+ * The concurrency policy an application stored on a function run. Runs with
+ * the same key and owner share `limit` slots.
+ */
+export interface RunConcurrency {
+  readonly key: string;
+  readonly limit: number;
+  readonly onConflict: "queue" | "reject" | "cancel-previous";
+  /**
+   * Hold each run this long, and let a newer run replace it meanwhile. The
+   * limit and conflict policy apply when the hold ends.
+   */
+  readonly debounceMs?: number;
+}
+
+const RunConcurrencySchema = z
+  .object({
+    key: z.string().min(1).max(256),
+    limit: z.number().int().positive(),
+    onConflict: z.enum(["queue", "reject", "cancel-previous"]),
+    debounceMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export function runConcurrency(
+  record: Pick<FlaryRunRecord, "request">,
+): RunConcurrency | undefined {
+  const parsed = RunConcurrencySchema.safeParse(record.request.metadata?.flaryConcurrency);
+  return parsed.success ? parsed.data : undefined;
+}
+
+const CachedRunOutputSchema = z
+  .object({
+    key: z.string().min(1),
+    storedAt: TimestampSchema,
+    expiresAt: TimestampSchema,
+    output: JsonValueSchema,
+  })
+  .strict();
+
+/** The output a function run was served from its cache, if it was a hit. */
+function cachedRunOutput(
+  record: Pick<FlaryRunRecord, "request">,
+): JsonValue | undefined {
+  const parsed = CachedRunOutputSchema.safeParse(record.request.metadata?.flaryCacheHit);
+  return parsed.success ? parsed.data.output : undefined;
+}
+
+/** Newest first. A positive result means `left` comes after `right`. */
+function compareRunOrder(
+  left: { readonly createdAt: string; readonly runId: string },
+  right: { readonly createdAt: string; readonly runId: string },
+): number {
+  // Plain string order, so SQLite pages the same way.
+  const order = (a: string, b: string) => (a < b ? 1 : a > b ? -1 : 0);
+  return order(left.createdAt, right.createdAt) || order(left.runId, right.runId);
+}
+
 export interface FlueAgentGateway {
   send(
     agentName: string,
@@ -287,6 +592,34 @@ export interface FlueAgentGateway {
   ): Promise<{ aborted: boolean }>;
 }
 
+/** An event the application adds to a run while it settles agent output. */
+export type FlaryRunSettlementEvent = {
+  [Type in "output.repair" | "guardrail.tripped" | "model.fallback"]: {
+    readonly type: Type;
+    readonly payload: Extract<RunEvent, { type: Type }>["payload"];
+  };
+}["output.repair" | "guardrail.tripped" | "model.fallback"];
+
+export interface FlaryRunSettlementInput {
+  readonly record: FlaryRunRecord;
+  /** The final answer of the latest Flue turn. */
+  readonly output: unknown;
+  /** Repair turns already sent for this run. */
+  readonly repairs: number;
+}
+
+/**
+ * How the application settles the output of a finished agent turn. `retry`
+ * sends one more message to the same Flue agent, optionally on another model.
+ */
+export type FlaryRunSettlement = {
+  readonly events?: readonly FlaryRunSettlementEvent[];
+} & (
+  | { readonly status: "completed"; readonly output: unknown }
+  | { readonly status: "failed"; readonly error: NonNullable<RunResult["error"]> }
+  | { readonly status: "retry"; readonly message: string; readonly model?: string }
+);
+
 export interface CreateFlueRunServiceOptions {
   readonly repository: FlaryRunRepository;
   readonly gateway: FlueAgentGateway;
@@ -320,6 +653,18 @@ export interface CreateFlueRunServiceOptions {
     requestId: string,
     input: UserInputAnswerRequest,
   ) => Promise<void> | void;
+  /**
+   * Check the answer of an agent run before it is stored. Function hosts
+   * validate, repair, and guard prompt-function output here.
+   */
+  readonly settleOutput?: (
+    input: FlaryRunSettlementInput,
+  ) => Promise<FlaryRunSettlement> | FlaryRunSettlement;
+  /**
+   * Called once when a run reaches its final state. Function hosts call the
+   * application's turn and run end hooks here.
+   */
+  readonly runEnded?: (record: FlaryRunRecord) => Promise<void> | void;
 }
 
 /**
@@ -330,38 +675,50 @@ export interface CreateFlueRunServiceOptions {
  * A new request can restart projection from the stored Flue admission receipt.
  */
 export function createFlueRunService(
-  options: CreateFlueRunServiceOptions,
+  serviceOptions: CreateFlueRunServiceOptions,
 ): FlaryRunService {
+  const options = serviceOptions.runEnded
+    ? {
+        ...serviceOptions,
+        repository: reportingRunEnd(
+          serviceOptions.repository,
+          serviceOptions.runEnded,
+          serviceOptions.schedule,
+        ),
+      }
+    : serviceOptions;
   const active = new Map<string, Promise<void>>();
   const pollMs = options.pollMs ?? 100;
 
+  const resuming = new Map<string, Promise<FlaryRunRecord>>();
+  const timers = new Set<string>();
+
   const track = (record: FlaryRunRecord): Promise<void> => {
-    const trackingId = `${record.runId}:${record.admission.submissionId}`;
+    // A paused workflow has no live submission. It resumes through a new one.
+    // A queued run gets its first submission when it leaves the queue.
+    const admission = record.admission;
+    if (record.wait || !admission) return Promise.resolve();
+    const trackingId = `${record.runId}:${admission.submissionId}`;
     const current = active.get(trackingId);
     if (current) return current;
-    const work = trackAdmission(record, options)
+    const work = trackAdmission({ ...record, admission }, options)
+      .then(async () => {
+        const latest = await options.repository.get(record.runId);
+        const resumeAt = latest?.wait?.wait.resumeAt;
+        if (latest && resumeAt && !isTerminal(latest.result.status)) {
+          wake(latest.runId, resumeAt);
+        }
+      })
       .catch(async (cause) => {
         const latest = await options.repository.get(record.runId);
         if (!latest || isTerminal(latest.result.status)) return;
-        const failed = RunResultSchema.parse({
-          ...latest.result,
-          status: "failed",
-          error: {
-            code: errorCode(cause),
-            message: errorMessage(cause),
-            retryable: true,
-          },
-          completedAt: new Date().toISOString(),
-        });
-        await options.repository.setResult(record.runId, failed);
-        await options.repository.appendEvent(
-          record.runId,
-          `projection-failed:${record.admission.submissionId}`,
-          eventDraft(record, "run.failed", {
-            error: failed.error!,
-          }),
-        );
+        await fail(latest, `projection-failed:${admission.submissionId}`, {
+          code: errorCode(cause),
+          message: errorMessage(cause),
+          retryable: true,
+        }, submissionAttempts(cause));
       })
+      .then(() => release(record))
       .finally(() => active.delete(trackingId));
     active.set(trackingId, work);
     if (options.schedule) options.schedule(work);
@@ -369,6 +726,256 @@ export function createFlueRunService(
     return work;
   };
 
+  const fail = async (
+    record: FlaryRunRecord,
+    eventKey: string,
+    error: NonNullable<RunResult["error"]>,
+    attempts?: number,
+  ): Promise<void> => {
+    const failed = RunResultSchema.parse({
+      ...record.result,
+      status: "failed",
+      error,
+      ...(attempts ? { metadata: { ...record.result.metadata, attempts } } : {}),
+      completedAt: new Date().toISOString(),
+    });
+    await options.repository.setResult(record.runId, failed);
+    await options.repository.appendEvent(
+      record.runId,
+      eventKey,
+      eventDraft(record, "run.failed", { error: failed.error! }),
+    );
+  };
+
+  /** Submit a run to Flue and return the admission receipt. */
+  const admit = async (
+    record: Pick<
+      FlaryRunRecord,
+      "runId" | "trusted" | "request" | "agentName" | "instanceId"
+    >,
+  ): Promise<FlueAdmission> => {
+    if (record.request.execution !== "workflow") {
+      return FlueAdmissionSchema.parse(
+        await options.gateway.send(
+          IdentifierSchema.parse(record.agentName),
+          IdentifierSchema.parse(record.instanceId),
+          inputMessage(record.request.input),
+        ),
+      );
+    }
+    if (!options.gateway.invokeWorkflow) {
+      throw new FlaryHostError(
+        501,
+        "workflow_gateway_missing",
+        "Native Flary functions need a Flue workflow gateway",
+      );
+    }
+    return FlueAdmissionSchema.parse(
+      await options.gateway.invokeWorkflow(
+        IdentifierSchema.parse(record.agentName),
+        {
+          __flary: {
+            runId: record.runId,
+            revisionId: record.trusted.revisionId,
+          },
+          input: record.request.input,
+        },
+      ),
+    );
+  };
+
+  const abortSubmission = async (record: FlaryRunRecord): Promise<void> => {
+    if (record.admission && record.request.execution === "workflow") {
+      if (!options.gateway.abortWorkflow) {
+        throw new FlaryHostError(
+          501,
+          "workflow_cancel_unavailable",
+          "This Flue host does not support durable workflow cancellation",
+        );
+      }
+      await options.gateway.abortWorkflow(
+        record.agentName,
+        record.admission.submissionId,
+      );
+    } else if (record.admission) {
+      await options.gateway.abort(record.agentName, record.instanceId);
+    }
+  };
+
+  /** Abort the Flue work of a run, if it started, and mark it cancelled. */
+  const stop = async (
+    record: FlaryRunRecord,
+    eventKey: string,
+    reason?: string,
+  ): Promise<RunResult> => {
+    await abortSubmission(record);
+    const result = RunResultSchema.parse({
+      ...record.result,
+      status: "cancelled",
+      completedAt: new Date().toISOString(),
+    });
+    await options.repository.setResult(record.runId, result);
+    await options.repository.appendEvent(
+      record.runId,
+      eventKey,
+      eventDraft(record, "run.cancelled", {
+        ...(reason ? { reason } : {}),
+      }),
+    );
+    return result;
+  };
+
+  /** Store a run that completed from the function cache. */
+  const storeCachedRun = async (
+    admitted: Pick<FlaryRunRecord, "runId" | "trusted" | "request" | "agentName" | "instanceId">,
+    output: JsonValue,
+  ): Promise<FlaryRunRecord> => {
+    const now = new Date().toISOString();
+    const record = await options.repository.create(FlaryRunRecordSchema.parse({
+      ...admitted,
+      result: RunResultSchema.parse({
+        runId: admitted.runId,
+        requestId: admitted.request.requestId,
+        status: "running",
+        channelId: admitted.request.channelId,
+        execution: admitted.request.execution,
+        lastSequence: 1,
+        startedAt: now,
+      }),
+      createdAt: now,
+      updatedAt: now,
+    }));
+    await options.repository.appendEvent(
+      record.runId,
+      "run-queued",
+      eventDraft(record, "run.queued", {
+        requestId: record.request.requestId,
+        target: { kind: "agent", agentId: record.trusted.agentId },
+      }),
+    );
+    await options.repository.appendEvent(
+      record.runId,
+      "run-started",
+      eventDraft(record, "run.started", { requestId: record.request.requestId }),
+    );
+    // Completing through setResult lets the host send the run callback.
+    const completed = await options.repository.setResult(
+      record.runId,
+      RunResultSchema.parse({
+        ...record.result,
+        status: "completed",
+        output,
+        completedAt: new Date().toISOString(),
+      }),
+    );
+    await options.repository.appendEvent(
+      record.runId,
+      "completed:cache",
+      eventDraft(completed, "run.completed", { output }),
+    );
+    return (await options.repository.get(record.runId)) ?? completed;
+  };
+
+  /**
+   * Leave the queue. The run is marked running before Flue is called, so a
+   * second drain of the same key counts the slot and cannot start it twice.
+   * Returns false when another drain claimed the run first.
+   */
+  const start = async (record: FlaryRunRecord): Promise<boolean> => {
+    const current = await options.repository.get(record.runId);
+    if (current?.result.status !== "queued") return false;
+    const claimed = await options.repository.setResult(
+      record.runId,
+      RunResultSchema.parse({
+        ...current.result,
+        status: "running",
+        startedAt: new Date().toISOString(),
+      }),
+    );
+    let admission: FlueAdmission;
+    try {
+      admission = await admit(claimed);
+    } catch (cause) {
+      await fail(claimed, "admission-failed", {
+        code: errorCode(cause),
+        message: errorMessage(cause),
+        retryable: true,
+      });
+      return true;
+    }
+    await options.repository.setAdmission(record.runId, "run-start", admission);
+    const latest = await options.repository.get(record.runId);
+    if (!latest || isTerminal(latest.result.status)) {
+      // The run was cancelled while Flue admitted it.
+      await abortSubmission({ ...claimed, admission }).catch(() => undefined);
+      return true;
+    }
+    await options.repository.appendEvent(
+      record.runId,
+      "run-started",
+      eventDraft(claimed, "run.started", {
+        requestId: record.request.requestId,
+      }),
+    );
+    track({ ...claimed, admission });
+    return true;
+  };
+
+  /** Drain the queue of a concurrency key again at `at`. */
+  const later = (runId: string, at: number, scope: TrustedRunContext, key: string): void => {
+    if (timers.has(runId)) return;
+    timers.add(runId);
+    const work = new Promise<void>((resolve) => {
+      setTimeout(resolve, Math.min(Math.max(0, at - Date.now()), MAX_TIMER_MS));
+    })
+      .then(() => {
+        timers.delete(runId);
+        return drain(scope, key);
+      })
+      .catch(() => undefined);
+    if (options.schedule) options.schedule(work);
+    else void work;
+  };
+
+  /**
+   * Start the queued runs of a concurrency key, oldest first, while the key
+   * has free slots. A debounced run waits until its delay has passed. The
+   * key's runs are read again after every step, so a drain never counts
+   * slots from a snapshot that another drain has already changed.
+   */
+  const drain = async (scope: TrustedRunContext, key: string): Promise<void> => {
+    while (true) {
+      const runs = await options.repository.concurrencyRuns!(scope, key);
+      const started = runs.filter((run) => run.result.status !== "queued");
+      const next = runs.find((run) => run.result.status === "queued" && runConcurrency(run));
+      const policy = next && runConcurrency(next);
+      if (!next || !policy) return;
+      const due = Date.parse(next.createdAt) + (policy.debounceMs ?? 0);
+      if (due > Date.now()) {
+        later(next.runId, due, scope, key);
+        return;
+      }
+      if (started.length >= policy.limit) {
+        if (policy.onConflict === "queue") return;
+        if (policy.onConflict === "reject") {
+          await fail(next, "concurrency-rejected", concurrencyConflict(key));
+          continue;
+        }
+        for (const previous of started) {
+          await stop(previous, `superseded:${next.runId}`, SUPERSEDED);
+        }
+      }
+      if (!(await start(next))) return;
+    }
+  };
+
+  /** Let the queue of a settled run's key move on. */
+  const release = async (record: FlaryRunRecord): Promise<void> => {
+    const concurrency = runConcurrency(record);
+    if (!concurrency || !options.repository.concurrencyRuns) return;
+    await drain(record.trusted, concurrency.key).catch(() => undefined);
+  };
+
   const load = async (
     trusted: TrustedRunContext,
     runId: string,
@@ -380,6 +987,135 @@ export function createFlueRunService(
     return FlaryRunRecordSchema.parse(record);
   };
 
+  /**
+   * Arm a best-effort timer for a timed wait. Reads of the run also resume it,
+   * so a host that drops the timer only delays the run until the next read.
+   */
+  const wake = (runId: string, resumeAt: string): void => {
+    const timer = setTimeout(
+      () => {
+        void options.repository
+          .get(runId)
+          .then((latest) => (latest ? refreshWaiting(latest) : undefined))
+          .catch(() => undefined);
+      },
+      Math.min(Math.max(0, Date.parse(resumeAt) - Date.now()), MAX_TIMER_MS),
+    );
+    (timer as { unref?: () => void }).unref?.();
+  };
+
+  /**
+   * Start a new workflow attempt for a paused run.
+   *
+   * The attempt replays the stored step journal and receives unclaimed events.
+   * The admission key is derived from the paused submission, so concurrent
+   * readers start at most one attempt for each pause.
+   */
+  const resumeWorkflow = (record: FlaryRunRecord): Promise<FlaryRunRecord> => {
+    const key = `resume:${record.admission?.submissionId ?? record.runId}`;
+    const current = resuming.get(`${record.runId}:${key}`);
+    if (current) return current;
+    const work = (async () => {
+      const wait = record.wait;
+      if (!wait) return record;
+      if (await options.repository.findInputAdmission(record.runId, key)) {
+        return (await options.repository.get(record.runId)) ?? record;
+      }
+      if (!options.gateway.invokeWorkflow) {
+        throw new FlaryHostError(
+          501,
+          "workflow_gateway_missing",
+          "Native Flary functions need a Flue workflow gateway",
+        );
+      }
+      const admission = FlueAdmissionSchema.parse(
+        await options.gateway.invokeWorkflow(record.agentName, {
+          __flary: {
+            runId: record.runId,
+            revisionId: record.trusted.revisionId,
+            resume: { steps: wait.steps, events: wait.events },
+          },
+          input: record.request.input,
+        }),
+      );
+      const accepted = await options.repository.setAdmission(
+        record.runId,
+        key,
+        admission,
+      );
+      if (!accepted) {
+        return (await options.repository.get(record.runId)) ?? record;
+      }
+      const cleared = await options.repository.setWait(record.runId, undefined);
+      const next = await options.repository.setResult(
+        record.runId,
+        RunResultSchema.parse({ ...cleared.result, status: "running" }),
+      );
+      await options.repository.appendEvent(
+        record.runId,
+        `run-resumed:${admission.submissionId}`,
+        eventDraft(record, "run.started", {
+          requestId: record.request.requestId,
+        }),
+      );
+      track(next);
+      return next;
+    })().finally(() => resuming.delete(`${record.runId}:${key}`));
+    resuming.set(`${record.runId}:${key}`, work);
+    return work;
+  };
+
+  /**
+   * Accept an event for a workflow run paused on a durable wait.
+   *
+   * Events that the current wait does not claim stay in the journal until a
+   * later `waitForEvent` step asks for their type.
+   */
+  const deliverWorkflowEvent = async (
+    record: FlaryRunRecord,
+    input: RunInput,
+  ): Promise<FlaryRunRecord> => {
+    if (record.result.status !== "waiting" || !record.wait) {
+      throw new FlaryHostError(
+        409,
+        "run_not_waiting",
+        "The run is not waiting for an event",
+      );
+    }
+    const parsed = RunEventInputSchema.safeParse(input.input);
+    if (!parsed.success) {
+      throw new FlaryHostError(
+        400,
+        "invalid_run_event",
+        "Workflow run input must be an event with a type and an optional payload",
+      );
+    }
+    const accepted = await options.repository.appendEvent(
+      record.runId,
+      `input:${input.idempotencyKey}`,
+      eventDraft(record, "run.input.accepted", {
+        idempotencyKey: input.idempotencyKey,
+      }),
+    );
+    if (!accepted) return record;
+    const wait = RunWaitStateSchema.parse({
+      ...record.wait,
+      events: [
+        ...record.wait.events,
+        {
+          type: parsed.data.type,
+          payload: parsed.data.payload ?? null,
+          receivedAt: new Date().toISOString(),
+        },
+      ],
+    });
+    const next = await options.repository.setWait(record.runId, wait);
+    if (wait.wait.kind === "event" && wait.wait.eventType === parsed.data.type) {
+      return resumeWorkflow(next);
+    }
+    return next;
+  };
+
   /**
    * Materialize an external wait in the host projection.
    *
@@ -391,6 +1127,15 @@ export function createFlueRunService(
     record: FlaryRunRecord,
   ): Promise<FlaryRunRecord> => {
     if (isTerminal(record.result.status)) return record;
+    if (record.result.status === "queued") {
+      // Reads also drain the queue, in case its timer was dropped.
+      await release(record);
+      return (await options.repository.get(record.runId)) ?? record;
+    }
+    const resumeAt = record.wait?.wait.resumeAt;
+    if (resumeAt && Date.parse(resumeAt) <= Date.now()) {
+      return resumeWorkflow(record);
+    }
     const approvals = options.listApprovals
       ? await options.listApprovals(record)
       : [];
@@ -422,7 +1167,26 @@ export function createFlueRunService(
     return next;
   };
 
-  return {
+  /** Load a dead letter of the caller's scope, from any function revision. */
+  const loadDeadLetter = async (
+    trusted: TrustedRunContext,
+    runId: string,
+  ): Promise<DeadLetterRecord> => {
+    const repository = options.repository;
+    if (!repository.getDeadLetter || !repository.markReplayed) {
+      throw featureUnavailable("Dead letters");
+    }
+    const record = await repository.get(runId);
+    const letter = record && sameOwner(record.trusted, trusted)
+      ? await repository.getDeadLetter(runId)
+      : undefined;
+    if (!letter) {
+      throw new FlaryHostError(404, "dead_letter_not_found", "The dead letter was not found");
+    }
+    return letter;
+  };
+
+  const service: FlaryRunService = {
     async create(trustedInput, requestInput): Promise<RunHandle> {
       const trusted = TrustedRunContextSchema.parse(trustedInput);
       const request = CreateRunRequestSchema.parse(requestInput);
@@ -433,6 +1197,19 @@ export function createFlueRunService(
         );
         if (existing) return handle(existing);
       }
+      // A replay is checked before admission, so a letter that is missing or
+      // already replayed never starts a run.
+      const replayOf = request.metadata?.flaryReplayOf;
+      if (typeof replayOf === "string") {
+        const letter = await loadDeadLetter(trusted, replayOf);
+        if (letter.replayedRunId && request.metadata?.flaryReplayForce !== true) {
+          throw new FlaryHostError(
+            409,
+            "dead_letter_replayed",
+            `The dead letter was already replayed by run ${letter.replayedRunId}`,
+          );
+        }
+      }
 
       // Allocate the Flary run id before deriving the Flue instance. A
       // function-first run gets one isolated agent instance, which prevents
@@ -443,8 +1220,11 @@ export function createFlueRunService(
         options.createRunId?.() ?? `run_${crypto.randomUUID()}`,
       );
 
+      // The parent of a durable batch runs in the app's generated batch
+      // workflow. Its items are ordinary runs of the function.
       const agentName =
-        options.agentName?.(trusted, request) ?? trusted.agentId;
+        options.agentName?.(trusted, request) ??
+        (isRecord(request.metadata?.flaryBatch) ? FLARY_BATCH_WORKFLOW : trusted.agentId);
       const instanceId =
         options.instanceId?.(trusted, request) ??
         (isFunctionFirstRequest(request)
@@ -455,42 +1235,60 @@ export function createFlueRunService(
               trusted.projectId ?? "global",
               request.channelId,
             ].join("."));
-      const admission = FlueAdmissionSchema.parse(
-        request.execution === "workflow"
-          ? options.gateway.invokeWorkflow
-            ? await options.gateway.invokeWorkflow(
-                IdentifierSchema.parse(agentName),
-                {
-                  __flary: {
-                    runId,
-                    revisionId: trusted.revisionId,
-                  },
-                  input: request.input,
-                },
-              )
-            : (() => {
-                throw new FlaryHostError(
-                  501,
-                  "workflow_gateway_missing",
-                  "Native Flary functions need a Flue workflow gateway",
-                );
-              })()
-          : await options.gateway.send(
-              IdentifierSchema.parse(agentName),
-              IdentifierSchema.parse(instanceId),
-              inputMessage(request.input),
-            ),
-      );
+      // A cache hit is stored as a completed run and never reaches Flue.
+      const cached = cachedRunOutput({ request });
+      if (cached !== undefined) {
+        return handle(
+          await storeCachedRun({ runId, trusted, request, agentName, instanceId }, cached),
+        );
+      }
+      // A run with a concurrency key is stored as queued and leaves the
+      // queue when its key has a free slot.
+      const concurrency = runConcurrency({ request });
+      if (concurrency) {
+        if (!options.repository.concurrencyRuns) {
+          throw featureUnavailable("Run concurrency keys");
+        }
+        const others = await options.repository.concurrencyRuns(trusted, concurrency.key);
+        const started = others.filter((run) => run.result.status !== "queued");
+        if (concurrency.debounceMs !== undefined) {
+          // The limit and conflict policy of a held run apply in drain().
+          for (const waiting of others) {
+            if (waiting.result.status === "queued") {
+              await stop(waiting, `superseded:${runId}`, SUPERSEDED);
+            }
+          }
+        } else if (
+          concurrency.onConflict === "reject" &&
+          started.length >= concurrency.limit
+        ) {
+          throw new FlaryHostError(
+            409,
+            "concurrency_limit_reached",
+            concurrencyConflict(concurrency.key).message,
+          );
+        } else if (
+          concurrency.onConflict === "cancel-previous" &&
+          started.length >= concurrency.limit
+        ) {
+          for (const previous of others) {
+            await stop(previous, `superseded:${runId}`, SUPERSEDED);
+          }
+        }
+      }
+      const admission = concurrency
+        ? undefined
+        : await admit({ runId, trusted, request, agentName, instanceId });
       const now = new Date().toISOString();
       const result = RunResultSchema.parse({
         runId,
         requestId: request.requestId,
-        status: "running",
+        status: admission ? "running" : "queued",
         channelId: request.channelId,
         execution: request.execution,
         lastSequence: 1,
         ...(request.traceContext ? { traceContext: request.traceContext } : {}),
-        startedAt: now,
+        ...(admission ? { startedAt: now } : {}),
       });
       const record = FlaryRunRecordSchema.parse({
         runId,
@@ -498,7 +1296,7 @@ export function createFlueRunService(
         request,
         agentName,
         instanceId,
-        admission,
+        ...(admission ? { admission } : {}),
         result,
         createdAt: now,
         updatedAt: now,
@@ -512,15 +1310,66 @@ export function createFlueRunService(
           target: { kind: "agent", agentId: trusted.agentId },
         }),
       );
-      await options.repository.appendEvent(
-        runId,
-        "run-started",
-        eventDraft(stored, "run.started", {
-          requestId: request.requestId,
-        }),
+      if (concurrency) {
+        await drain(trusted, concurrency.key);
+      } else {
+        await options.repository.appendEvent(
+          runId,
+          "run-started",
+          eventDraft(stored, "run.started", {
+            requestId: request.requestId,
+          }),
+        );
+        track(stored);
+      }
+      if (typeof replayOf === "string") {
+        await options.repository.markReplayed!(replayOf, runId);
+      }
+      return handle((await options.repository.get(runId)) ?? stored);
+    },
+
+    async list(trustedInput, queryInput = {}): Promise<RunListPage> {
+      if (!options.repository.list) throw featureUnavailable("Run listing");
+      return RunListPageSchema.parse(
+        await options.repository.list(
+          TrustedRunContextSchema.parse(trustedInput),
+          RunListQuerySchema.parse(queryInput),
+        ),
+      );
+    },
+
+    async listDeadLetters(trustedInput, queryInput = {}): Promise<DeadLetterRecord[]> {
+      if (!options.repository.listDeadLetters) {
+        throw featureUnavailable("Dead letters");
+      }
+      return options.repository.listDeadLetters(
+        TrustedRunContextSchema.parse(trustedInput),
+        DeadLetterQuerySchema.parse(queryInput),
       );
-      track(stored);
-      return handle(stored);
+    },
+
+    getDeadLetter: (trusted, runId) =>
+      loadDeadLetter(TrustedRunContextSchema.parse(trusted), runId),
+
+    async replay(trustedInput, runId, replayOptions = {}): Promise<RunHandle> {
+      await loadDeadLetter(TrustedRunContextSchema.parse(trustedInput), runId);
+      const record = FlaryRunRecordSchema.parse(await options.repository.get(runId));
+      // The failed run keeps its idempotency key. The replay is a new request.
+      const { idempotencyKey: _previous, ...request } = record.request;
+      const { flaryReplayForce: _force, ...metadata } = request.metadata ?? {};
+      return service.create(record.trusted, {
+        ...request,
+        requestId: IdentifierSchema.parse(
+          replayOptions.requestId ?? `request_${crypto.randomUUID()}`,
+        ),
+        requestedAt: new Date().toISOString(),
+        metadata: {
+          ...metadata,
+          ...(replayOptions.metadata ?? {}),
+          flaryReplayOf: runId,
+          ...(replayOptions.force ? { flaryReplayForce: true } : {}),
+        },
+      });
     },
 
     async get(trusted, runId): Promise<RunResult> {
@@ -564,6 +1413,10 @@ export function createFlueRunService(
           "A terminal run cannot accept more input",
         );
       }
+      assertStarted(record);
+      if (record.request.execution === "workflow") {
+        return (await deliverWorkflowEvent(record, input)).result;
+      }
       const existingAdmission =
         await options.repository.findInputAdmission(
           runId,
@@ -600,35 +1453,8 @@ export function createFlueRunService(
     async cancel(trusted, runId, input): Promise<RunResult> {
       const record = await load(trusted, runId);
       if (isTerminal(record.result.status)) return record.result;
-      if (record.request.execution === "workflow") {
-        if (!options.gateway.abortWorkflow) {
-          throw new FlaryHostError(
-            501,
-            "workflow_cancel_unavailable",
-            "This Flue host does not support durable workflow cancellation",
-          );
-        }
-        await options.gateway.abortWorkflow(
-          record.agentName,
-          record.admission.submissionId,
-        );
-      } else {
-        await options.gateway.abort(record.agentName, record.instanceId);
-      }
-      const completedAt = new Date().toISOString();
-      const result = RunResultSchema.parse({
-        ...record.result,
-        status: "cancelled",
-        completedAt,
-      });
-      await options.repository.setResult(runId, result);
-      await options.repository.appendEvent(
-        runId,
-        `cancel:${input.idempotencyKey}`,
-        eventDraft(record, "run.cancelled", {
-          ...(input.reason ? { reason: input.reason } : {}),
-        }),
-      );
+      const result = await stop(record, `cancel:${input.idempotencyKey}`, input.reason);
+      await release(record);
       return result;
     },
 
@@ -640,6 +1466,7 @@ export function createFlueRunService(
           ): Promise<ApprovalRequest[]> {
             const record = await load(trusted, runId);
             const current = await refreshWaiting(record);
+            if (!current.admission) return [];
             return (await options.listApprovals!(current)).map((value) =>
               ApprovalRequestSchema.parse(value),
             );
@@ -656,6 +1483,7 @@ export function createFlueRunService(
           ): Promise<RunResult> {
             const record = await load(trusted, runId);
             const decision = ApprovalDecisionSchema.parse(decisionInput);
+            assertStarted(record);
             await options.decideApproval!(record, decision);
             await options.repository.appendEvent(
               runId,
@@ -683,6 +1511,7 @@ export function createFlueRunService(
           ): Promise<UserInputRecord[]> {
             const record = await load(trusted, runId);
             const current = await refreshWaiting(record);
+            if (!current.admission) return [];
             return (await options.listUserInput!(current)).map((value) =>
               UserInputRecordSchema.parse(value),
             );
@@ -700,6 +1529,7 @@ export function createFlueRunService(
           ): Promise<RunResult> {
             const record = await load(trusted, runId);
             const input = UserInputAnswerRequestSchema.parse(inputValue);
+            assertStarted(record);
             await options.respondToUserInput!(
               record,
               IdentifierSchema.parse(requestId),
@@ -718,6 +1548,7 @@ export function createFlueRunService(
         }
       : {}),
   };
+  return service;
 }
 
 export function createFlueAgentGateway(
@@ -789,8 +1620,9 @@ export function createFlueAgentGateway(
 }
 
 async function trackAdmission(
-  record: FlaryRunRecord,
+  record: AdmittedRunRecord,
   options: CreateFlueRunServiceOptions,
+  message = inputMessage(record.request.input),
 ): Promise<void> {
   if (record.request.execution === "workflow") {
     await trackWorkflowAdmission(record, options);
@@ -798,113 +1630,194 @@ async function trackAdmission(
   }
   const toolNames = new Map<string, string>();
   const toolInputs = new Map<string, unknown>();
-  let toolCalls = record.result.usage?.toolCalls ?? 0;
+  const admittedToolCalls = record.result.usage?.toolCalls ?? 0;
+  let toolCalls = admittedToolCalls;
   let modelSteps = 0;
   let costUsd = record.result.usage?.costUsd ?? 0;
   let lastUsage = record.result.usage;
   const limits = functionLimits(record);
+  const pricing = functionPricing(record);
   const delegation = functionDelegation(record);
   let totalDelegations = 0;
   const activeDelegations = new Set<string>();
 
-  const output = await options.gateway.wait(
-    record.admission,
-    async (chunk: ConversationStreamChunk) => {
-      const mapped = mapChunk(record, chunk, toolNames, toolInputs);
-      if (chunk.type === "message-started") {
-        modelSteps += 1;
-        await enforceFunctionLimit(limits.steps, modelSteps, "steps", async () => {
-          await options.gateway.abort(record.agentName, record.instanceId);
-        });
-      }
-      if (chunk.type === "tool-input") {
-        toolCalls += 1;
-        await enforceFunctionLimit(
-          limits.toolCalls,
-          toolCalls,
-          "tool calls",
-          async () => {
+  let output: unknown;
+  try {
+    output = await options.gateway.wait(
+      record.admission,
+      async (chunk: ConversationStreamChunk) => {
+        const mapped = mapChunk(record, chunk, toolNames, toolInputs);
+        if (chunk.type === "message-started") {
+          modelSteps += 1;
+          await enforceFunctionLimit(limits.steps, modelSteps, "steps", async () => {
             await options.gateway.abort(record.agentName, record.instanceId);
-          },
-        );
-        if (chunk.toolName === "task") {
-          totalDelegations += 1;
-          await enforceDelegationLimit(
-            delegation,
-            totalDelegations,
-            activeDelegations.size + 1,
+          });
+        }
+        if (chunk.type === "tool-input") {
+          toolCalls += 1;
+          await enforceFunctionLimit(
+            limits.toolCalls,
+            toolCalls,
+            "tool calls",
             async () => {
               await options.gateway.abort(record.agentName, record.instanceId);
             },
           );
-          activeDelegations.add(chunk.toolCallId);
+          if (chunk.toolName === "task") {
+            totalDelegations += 1;
+            await enforceDelegationLimit(
+              delegation,
+              totalDelegations,
+              activeDelegations.size + 1,
+              async () => {
+                await options.gateway.abort(record.agentName, record.instanceId);
+              },
+            );
+            activeDelegations.add(chunk.toolCallId);
+          }
         }
-      }
-      if (
-        (chunk.type === "tool-output" || chunk.type === "tool-output-error") &&
-        activeDelegations.has(chunk.toolCallId)
-      ) {
-        activeDelegations.delete(chunk.toolCallId);
-      }
-      if (chunk.type === "message-completed" && chunk.usage) {
-        costUsd += Math.max(0, chunk.usage.cost.total);
-        await enforceFunctionLimit(
-          limits.costUsd,
-          costUsd,
-          "cost",
-          async () => {
+        if (
+          (chunk.type === "tool-output" || chunk.type === "tool-output-error") &&
+          activeDelegations.has(chunk.toolCallId)
+        ) {
+          activeDelegations.delete(chunk.toolCallId);
+        }
+        if (chunk.type === "message-completed" && chunk.usage) {
+          const billingMode = record.request.metadata?.billingMode;
+          const subscription = billingMode === "subscription";
+          costUsd += subscription
+            ? Math.max(0, chunk.usage.cost.total)
+            : await pricedTurn(
+                turnCost(chunk.usage, pricing, pricing?.model),
+                pricing,
+                async () => {
+                  await options.gateway.abort(record.agentName, record.instanceId);
+                },
+              );
+          await enforceCostLimit(limits.costUsd, costUsd, async () => {
             await options.gateway.abort(record.agentName, record.instanceId);
-          },
-          "USD",
-        );
-        const billingMode = record.request.metadata?.billingMode;
-        const subscription = billingMode === "subscription";
-        lastUsage = {
-          inputTokens: chunk.usage.input,
-          outputTokens: chunk.usage.output,
-          totalTokens: chunk.usage.totalTokens,
-          toolCalls,
-          cache: {
-            readTokens: chunk.usage.cacheRead,
-            writeTokens: chunk.usage.cacheWrite,
-          },
-          cost: {
+          });
+          lastUsage = {
+            inputTokens: chunk.usage.input,
+            outputTokens: chunk.usage.output,
+            totalTokens: chunk.usage.totalTokens,
+            toolCalls,
+            cache: {
+              readTokens: chunk.usage.cacheRead,
+              writeTokens: chunk.usage.cacheWrite,
+            },
+            cost: {
+              ...(subscription && chunk.usage.cost.total === 0
+                ? {
+                    state: "unknown" as const,
+                    reason: "Subscription provider did not report a cost",
+                  }
+                : {
+                    state: "known" as const,
+                    microUnits: Math.max(
+                      0,
+                      Math.round(costUsd * 1_000_000),
+                    ),
+                    unit: "USD" as const,
+                  }),
+            },
             ...(subscription && chunk.usage.cost.total === 0
-              ? {
-                  state: "unknown" as const,
-                  reason: "Subscription provider did not report a cost",
-                }
-              : {
-                  state: "known" as const,
-                  microUnits: Math.max(
-                    0,
-                    Math.round(costUsd * 1_000_000),
-                  ),
-                  unit: "USD" as const,
-                }),
-          },
-          ...(subscription && chunk.usage.cost.total === 0
-            ? {}
-            : { costUsd }),
-        };
-      }
-      if (!mapped) return;
-      await options.repository.appendEvent(
-        record.runId,
-        chunkKey(chunk),
-        mapped,
-      );
-    },
-  );
+              ? {}
+              : { costUsd }),
+          };
+        }
+        if (!mapped) return;
+        await options.repository.appendEvent(
+          record.runId,
+          chunkKey(chunk),
+          mapped,
+        );
+      },
+    );
+  } catch (error) {
+    // A failed turn that called no tool moves to the next fallback model.
+    const fallback = toolCalls === admittedToolCalls
+      ? nextFunctionModel(record, errorMessage(error))
+      : undefined;
+    const latest = fallback ? await options.repository.get(record.runId) : undefined;
+    if (!fallback || !latest || isTerminal(latest.result.status)) throw error;
+    await options.repository.appendEvent(
+      record.runId,
+      `fallback:${record.admission.submissionId}`,
+      eventDraft(record, "model.fallback", {
+        decisionId: `fallback_${record.admission.submissionId}`,
+        operationId: record.admission.submissionId,
+        from: fallback.from,
+        to: fallback.to,
+        fallbackIndex: fallback.fallbackIndex,
+        failureClass: fallback.failureClass,
+      }),
+    );
+    await resubmit(
+      latest,
+      options,
+      `fallback:${record.admission.submissionId}`,
+      message,
+      toFlueModelSpecifier(fallback.to),
+      lastUsage,
+    );
+    return;
+  }
   const latest = await options.repository.get(record.runId);
   if (!latest || latest.result.status === "cancelled") return;
-  const completedAt = new Date().toISOString();
+  const settlement: FlaryRunSettlement = options.settleOutput
+    ? await options.settleOutput({
+        record: latest,
+        output,
+        repairs: (await options.repository.events(record.runId, 0))
+          .filter((event) => event.type === "output.repair").length,
+      })
+    : { status: "completed", output };
+  for (const [index, event] of (settlement.events ?? []).entries()) {
+    await options.repository.appendEvent(
+      record.runId,
+      `settle:${record.admission.submissionId}:${index}`,
+      eventDraft(record, event.type, event.payload as never),
+    );
+  }
+  const usage = lastUsage ? { usage: lastUsage } : {};
+  if (settlement.status === "retry") {
+    // The same agent instance keeps the conversation, so the follow-up turn
+    // sees its previous answer.
+    await resubmit(
+      latest,
+      options,
+      `settle:${record.admission.submissionId}`,
+      settlement.message,
+      settlement.model,
+      lastUsage,
+    );
+    return;
+  }
+  if (settlement.status === "failed") {
+    const failed = RunResultSchema.parse({
+      ...latest.result,
+      status: "failed",
+      error: settlement.error,
+      ...usage,
+      completedAt: new Date().toISOString(),
+    });
+    await options.repository.setResult(record.runId, failed);
+    await options.repository.appendEvent(
+      record.runId,
+      `failed:${record.admission.submissionId}`,
+      eventDraft(record, "run.failed", { error: failed.error! }),
+    );
+    return;
+  }
+  const model = answeringModel(latest);
   const result = RunResultSchema.parse({
     ...latest.result,
     status: "completed",
-    output: JsonValueSchema.parse(jsonValue(output)),
-    ...(lastUsage ? { usage: lastUsage } : {}),
-    completedAt,
+    output: JsonValueSchema.parse(jsonValue(settlement.output)),
+    ...usage,
+    ...(model ? { metadata: { ...latest.result.metadata, model } } : {}),
+    completedAt: new Date().toISOString(),
   });
   await options.repository.setResult(record.runId, result);
   await options.repository.appendEvent(
@@ -914,8 +1827,43 @@ async function trackAdmission(
   );
 }
 
+/**
+ * Send a follow-up message to the agent instance of a run and track it. A
+ * model override becomes the model that answers the rest of the run.
+ */
+async function resubmit(
+  latest: FlaryRunRecord,
+  options: CreateFlueRunServiceOptions,
+  key: string,
+  message: string,
+  model: string | undefined,
+  usage: RunResult["usage"],
+): Promise<void> {
+  const admission = FlueAdmissionSchema.parse(
+    await options.gateway.send(
+      latest.agentName,
+      latest.instanceId,
+      message,
+      model ? { model } : {},
+    ),
+  );
+  await options.repository.setResult(
+    latest.runId,
+    RunResultSchema.parse({
+      ...latest.result,
+      ...(usage ? { usage } : {}),
+      ...(model ? { metadata: { ...latest.result.metadata, model } } : {}),
+    }),
+  );
+  await options.repository.setAdmission(latest.runId, key, admission);
+  const next = await options.repository.get(latest.runId);
+  if (next && !isTerminal(next.result.status)) {
+    await trackAdmission({ ...next, admission }, options, message);
+  }
+}
+
 async function trackWorkflowAdmission(
-  record: FlaryRunRecord,
+  record: AdmittedRunRecord,
   options: CreateFlueRunServiceOptions,
 ): Promise<void> {
   const wait = options.gateway.waitWorkflow;
@@ -923,6 +1871,7 @@ async function trackWorkflowAdmission(
     throw new Error("The Flue workflow gateway cannot resume this run.");
   }
   const limits = functionLimits(record);
+  const pricing = functionPricing(record);
   const delegation = functionDelegation(record);
   let totalDelegations = 0;
   const activeDelegations = new Set<string>();
@@ -973,19 +1922,25 @@ async function trackWorkflowAdmission(
       } else if (event.type === "task") {
         activeDelegations.delete(event.taskId);
       }
-      if (event.type === "turn" && event.response.usage?.cost?.total !== undefined) {
-        costUsd += Math.max(0, Number(event.response.usage.cost.total));
-        await enforceFunctionLimit(
-          limits.costUsd,
-          costUsd,
-          "cost",
+      if (event.type === "turn" && event.response.usage) {
+        costUsd += await pricedTurn(
+          turnCost(
+            event.response.usage,
+            pricing,
+            `${event.request.providerId}/${event.request.requestedModel}`,
+          ),
+          pricing,
           async () => {
             if (options.gateway.abortWorkflow) {
               await options.gateway.abortWorkflow(record.agentName, record.admission.submissionId);
             }
           },
-          "USD",
         );
+        await enforceCostLimit(limits.costUsd, costUsd, async () => {
+          if (options.gateway.abortWorkflow) {
+            await options.gateway.abortWorkflow(record.agentName, record.admission.submissionId);
+          }
+        });
       }
       const mapped = mapWorkflowEvent(record, event);
       if (!mapped) return;
@@ -999,6 +1954,34 @@ async function trackWorkflowAdmission(
   );
   const latest = await options.repository.get(record.runId);
   if (!latest || latest.result.status === "cancelled") return;
+  const paused = PausedWorkflowOutputSchema.safeParse(output);
+  if (paused.success) {
+    const { wait } = paused.data.__flaryWait;
+    await options.repository.setWait(record.runId, paused.data.__flaryWait);
+    await options.repository.setResult(
+      record.runId,
+      RunResultSchema.parse({
+        ...latest.result,
+        status: "waiting",
+        usage: {
+          ...(latest.result.usage ?? {}),
+          ...(toolCalls > 0 ? { toolCalls } : {}),
+          ...(costUsd > 0 ? { costUsd } : {}),
+        },
+      }),
+    );
+    await options.repository.appendEvent(
+      record.runId,
+      `waiting:${record.admission.submissionId}`,
+      eventDraft(record, "run.waiting", {
+        reason: wait.kind === "sleep"
+          ? `The function is sleeping until ${wait.resumeAt}.`
+          : `The function is waiting for a '${wait.eventType}' event.`,
+        wait,
+      }),
+    );
+    return;
+  }
   const result = RunResultSchema.parse({
     ...latest.result,
     status: "completed",
@@ -1018,6 +2001,40 @@ async function trackWorkflowAdmission(
   );
 }
 
+// Node and workerd reject timers longer than a signed 32-bit millisecond count.
+const MAX_TIMER_MS = 2_147_483_647;
+const SUPERSEDED = "Replaced by a newer run with the same concurrency key";
+
+function concurrencyConflict(key: string): NonNullable<RunResult["error"]> {
+  return {
+    code: "concurrency_limit_reached",
+    message: `Concurrency key ${key} has no free run slot`,
+    retryable: true,
+  };
+}
+
+function assertStarted(record: FlaryRunRecord): void {
+  if (!record.admission) {
+    throw new FlaryHostError(
+      409,
+      "run_not_started",
+      "The run is queued and has not started",
+    );
+  }
+}
+
+const StepProgressPayloadSchema = StepProgressEventSchema.shape.payload;
+const OutputRepairPayloadSchema = OutputRepairEventSchema.shape.payload;
+const ModelFallbackPayloadSchema = ModelFallbackEventSchema.shape.payload;
+const GuardrailTrippedPayloadSchema = GuardrailTrippedEventSchema.shape.payload;
+
+const RunEventInputSchema = z
+  .object({
+    type: IdentifierSchema,
+    payload: JsonValueSchema.optional(),
+  })
+  .strict();
+
 interface FunctionLimits {
   readonly steps?: number;
   readonly toolCalls?: number;
@@ -1039,6 +2056,128 @@ function functionLimits(record: FlaryRunRecord): FunctionLimits {
   };
 }
 
+const FunctionModelsSchema = z
+  .object({
+    model: z.string().min(1),
+    fallback: z.array(z.string().min(1)).max(16),
+  })
+  .strict();
+
+/** The model of the current submission of a prompt-function run. */
+function answeringModel(record: FlaryRunRecord): string | undefined {
+  const model = record.result.metadata?.model;
+  if (typeof model === "string") return model;
+  const parsed = FunctionModelsSchema.safeParse(record.request.metadata?.flaryModels);
+  return parsed.success ? parsed.data.model : undefined;
+}
+
+/**
+ * Pick the model that retries a failed prompt-function turn. Only
+ * rate-limited and transient failures move along the chain.
+ */
+function nextFunctionModel(
+  record: FlaryRunRecord,
+  failure: string,
+): {
+  readonly from: ModelSelection;
+  readonly to: ModelSelection;
+  readonly fallbackIndex: number;
+  readonly failureClass: string;
+} | undefined {
+  const parsed = FunctionModelsSchema.safeParse(record.request.metadata?.flaryModels);
+  if (!parsed.success) return undefined;
+  const failureClass = classifyProviderFailureMessage(failure);
+  if (failureClass !== "rate_limit" && failureClass !== "transient") {
+    return undefined;
+  }
+  const current = answeringModel(record)!;
+  const index = parsed.data.fallback.indexOf(current);
+  const from = parseFlueModelSpecifier(current);
+  const to = parseFlueModelSpecifier(parsed.data.fallback[index + 1] ?? "");
+  return from && to
+    ? { from, to, fallbackIndex: index + 2, failureClass }
+    : undefined;
+}
+
+interface FunctionPricing extends ModelPricingCatalog {
+  /** Model of a prompt function, used for turns that do not name one. */
+  readonly model?: string;
+  /**
+   * Set when a cost limit or spend quota applies. A turn that cannot be
+   * priced then fails the run instead of costing nothing.
+   */
+  readonly required?: boolean;
+}
+
+const FunctionPricingSchema = ModelPricingCatalogSchema.extend({
+  model: z.string().min(1).optional(),
+  required: z.boolean().optional(),
+});
+
+function functionPricing(record: FlaryRunRecord): FunctionPricing | undefined {
+  const parsed = FunctionPricingSchema.safeParse(record.request.metadata?.flaryPricing);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Cost of one turn in USD. A provider-reported cost wins; otherwise the
+ * tokens are priced with the catalog the function was admitted with. The
+ * cost is undefined when the catalog has no price for the model.
+ */
+function turnCost(
+  usage: {
+    readonly input?: number;
+    readonly output?: number;
+    readonly cacheRead?: number;
+    readonly cost?: { readonly total?: number };
+  },
+  pricing: FunctionPricing | undefined,
+  model: string | undefined,
+): number | undefined {
+  const reported = Number(usage.cost?.total ?? 0);
+  if (Number.isFinite(reported) && reported > 0) return reported;
+  if (!pricing) return 0;
+  const priced = [model, pricing.model]
+    .filter((value): value is string => typeof value === "string")
+    .map((candidate) =>
+      priceUsage(pricing, candidate, {
+        // Flue counts cache reads apart from the other input tokens.
+        inputTokens: (usage.input ?? 0) + (usage.cacheRead ?? 0),
+        outputTokens: usage.output ?? 0,
+        cachedInputTokens: usage.cacheRead ?? 0,
+      }))
+    .find((value) => value !== undefined);
+  return priced;
+}
+
+/** Fail a run whose spend is limited when one of its turns has no price. */
+async function pricedTurn(
+  costUsd: number | undefined,
+  pricing: FunctionPricing | undefined,
+  abort: () => Promise<void>,
+): Promise<number> {
+  if (costUsd !== undefined) return costUsd;
+  if (!pricing?.required) return 0;
+  await abort();
+  throw Object.assign(
+    new Error("The model of this turn has no price, so its cost limit cannot be enforced."),
+    { code: "model_unpriced" },
+  );
+}
+
+async function enforceCostLimit(
+  limit: number | undefined,
+  costUsd: number,
+  abort: () => Promise<void>,
+): Promise<void> {
+  if (limit === undefined || costUsd <= limit) return;
+  await abort();
+  throw Object.assign(
+    new Error(`The function exceeded its cost limit of ${limit} USD.`),
+    { code: "budget_exceeded" },
+  );
+}
+
 function functionDelegation(record: FlaryRunRecord): FunctionDelegation {
   const value = record.request.metadata?.flaryDelegation;
   if (!isRecord(value)) return {};
@@ -1075,14 +2214,11 @@ async function enforceFunctionLimit(
   value: number,
   label: string,
   abort: () => Promise<void>,
-  unit = "",
 ): Promise<void> {
   if (limit === undefined || value <= limit) return;
   await abort();
   throw Object.assign(
-    new Error(
-      `The function exceeded its ${label} limit${unit ? ` in ${unit}` : ""}.`,
-    ),
+    new Error(`The function exceeded its ${label} limit.`),
     { code: "function_limit_exceeded" },
   );
 }
@@ -1099,6 +2235,20 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+/**
+ * Attempts a failed Flue submission used. Flue reports the count when it
+ * gives up after interrupted or retried attempts. Any other failure ended the
+ * first attempt.
+ */
+function submissionAttempts(cause: unknown): number {
+  const meta = isRecord(cause) && isRecord(cause.meta) ? cause.meta : {};
+  return typeof meta.attemptCount === "number" &&
+      Number.isInteger(meta.attemptCount) &&
+      meta.attemptCount > 0
+    ? meta.attemptCount
+    : 1;
+}
+
 function errorCode(cause: unknown): string {
   if (isRecord(cause) && typeof cause.code === "string" && cause.code.length > 0) {
     return cause.code;
@@ -1155,6 +2305,32 @@ function mapWorkflowEvent(
           completedAt: event.timestamp,
         },
       });
+    case "log": {
+      const progress = StepProgressPayloadSchema.safeParse(
+        event.attributes?.flaryStepProgress,
+      );
+      if (progress.success) {
+        return eventDraft(record, "step.progress", progress.data);
+      }
+      const repair = OutputRepairPayloadSchema.safeParse(
+        event.attributes?.flaryOutputRepair,
+      );
+      if (repair.success) {
+        return eventDraft(record, "output.repair", repair.data);
+      }
+      const fallback = ModelFallbackPayloadSchema.safeParse(
+        event.attributes?.flaryModelFallback,
+      );
+      if (fallback.success) {
+        return eventDraft(record, "model.fallback", fallback.data);
+      }
+      const guardrail = GuardrailTrippedPayloadSchema.safeParse(
+        event.attributes?.flaryGuardrail,
+      );
+      return guardrail.success
+        ? eventDraft(record, "guardrail.tripped", guardrail.data)
+        : undefined;
+    }
     case "run_end":
       if (event.isError) {
         return eventDraft(record, "run.failed", {
@@ -1324,6 +2500,19 @@ function handle(record: FlaryRunRecord): RunHandle {
   });
 }
 
+/** Match tenant ownership across revisions, as dead letters outlive deploys. */
+function sameOwner(
+  left: TrustedRunContext,
+  right: TrustedRunContext,
+): boolean {
+  return (
+    left.tenantId === right.tenantId &&
+    left.applicationId === right.applicationId &&
+    left.projectId === right.projectId &&
+    left.agentId === right.agentId
+  );
+}
+
 function sameScope(
   left: TrustedRunContext,
   right: TrustedRunContext,
@@ -1363,6 +2552,41 @@ function jsonValue(value: unknown): z.infer<typeof JsonValueSchema> {
   }
 }
 
+/**
+ * Report each run once, on the write that moves it to a final state. Retried
+ * attempts and paused workflows keep a live status, so they report nothing.
+ */
+function reportingRunEnd(
+  repository: FlaryRunRepository,
+  runEnded: (record: FlaryRunRecord) => Promise<void> | void,
+  schedule: ((work: Promise<void>) => void) | undefined,
+): FlaryRunRepository {
+  return new Proxy(repository, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (property !== "setResult") {
+        return typeof value === "function" ? value.bind(target) : value;
+      }
+      return async (runId: string, result: RunResult) => {
+        const previous = await target.get(runId);
+        const record = await target.setResult(runId, result);
+        if (
+          previous &&
+          !isTerminal(previous.result.status) &&
+          isTerminal(record.result.status)
+        ) {
+          const work = Promise.resolve()
+            .then(() => runEnded(record))
+            .catch(() => undefined);
+          if (schedule) schedule(work);
+          else await work;
+        }
+        return record;
+      };
+    },
+  });
+}
+
 function isTerminal(status: RunResult["status"]): boolean {
   return ["completed", "failed", "cancelled"].includes(status);
 }
@@ -9,13 +9,21 @@ import {
   CreateRunRequestSchema,
   IdentifierSchema,
   JsonObjectSchema as ContractJsonObjectSchema,
+  type PausedWorkflowOutput,
+  type ThreadBinding,
 } from "../contracts/index.js";
 import {
   TrustedRunContextSchema,
+  parseRunListQuery,
   type FlaryRunService,
   type TrustedRunContext,
 } from "../host/runs.js";
 import { FlaryHostError } from "../host/errors.js";
+import type {
+  FlaryRunRecord,
+  FlaryRunSettlement,
+  FlaryRunSettlementInput,
+} from "../flue/service.js";
 import { createFlaryHostRouter } from "../host/router.js";
 import type {
   FlaryThreadHostService,
@@ -25,17 +33,31 @@ import {
   OpenAICompatibleAdapter,
   AnthropicMessagesAdapter,
   CloudflareWorkersAIAdapter,
+  classifyHttpFailure,
+  DeterministicModelRouter,
   parseFlueModelSpecifier,
+  toFlueModelSpecifier,
+  DEFAULT_MODEL_PRICING,
+  extendModelPricing,
+  priceUsage,
+  selectModelPricing,
+  supportsModelBatch,
   type ModelAdapter,
+  type ModelBatch,
+  type ModelBatchAdapter,
+  type ModelPricingCatalog,
+  type ProviderFailureClass,
 } from "../providers/index.js";
 import type {
   NormalizedModelRequest,
+  NormalizedModelResponse,
   ProviderMessage,
 } from "../providers/contracts.js";
 import {
   ModelSelectionSchema,
   normalizeModelInput,
   ReasoningEffortSchema,
+  type ModelSelection,
 } from "../contracts/provider.js";
 import {
   createAdapterOperationHandlers,
@@ -65,41 +87,95 @@ import {
   createFlueBackedFlaryRun,
   DurableObjectFlaryFunctionRunStore,
   DurableObjectFlaryStepStore,
+  durationMs,
+  FlaryRunPausedError,
   InMemoryFlaryFunctionRunStore,
+  JournalFlaryStepStore,
   SqliteFlaryStepStore,
   runId as makeRunId,
+  type FlaryStepJournal,
 } from "./runs.js";
 import type {
   FlaryAppOptions,
   FlaryAgent,
   FlaryAgentOptions,
   FlaryApplicationExport,
+  FlaryBatchItem,
+  FlaryBatchOptions,
+  FlaryBatchResult,
   FlaryBrowserSource,
+  FlaryCacheHit,
+  FlaryCacheInvalidation,
+  FlaryCacheOptions,
   FlaryCallableLike,
   FlaryEvent,
   FlaryFunction,
   FlaryFunctionRevision,
   FlaryFunctionOptions,
   FlaryFunctionMode,
+  FlaryCallbackDelivery,
+  FlaryCallbackEvent,
+  FlaryCallbackLog,
   FlaryCodeExecutor,
+  FlaryConcurrencyOptions,
+  FlaryDeadLetter,
+  FlaryDeadLetterQuery,
+  FlaryGuardrail,
+  FlaryGuardrailCheck,
+  FlaryGuardrailContext,
+  FlaryGuardrailInput,
+  FlaryGuardrailOutcome,
+  FlaryGuardrailTrip,
+  FlaryGuardrailVerdict,
+  FlaryGuardrails,
+  FlaryHookEvent,
+  FlaryModerationGuardrail,
   FlaryInput,
   FlaryMcpSource,
+  FlaryModelFallback,
   FlaryOpenApiSource,
   FlaryPromptRequest,
+  FlaryParallelStep,
   FlaryR2Source,
+  FlaryReceivedEvent,
+  FlaryReplayOptions,
+  FlaryResultCache,
   FlaryRun,
+  FlaryRunCallback,
   FlaryRunOptions,
   FlarySandboxSource,
   FlarySchema,
   FlaryStepStore,
   FlaryStepContext,
+  FlaryStepMapOptions,
+  FlaryStepProgress,
+  FlaryOutputIssue,
+  FlaryOutputOptions,
+  FlaryOutputRepair,
+  FlaryOutputRepairAttempt,
   FlaryToolRegistry,
   FlaryToolDescriptor,
   FlaryToolSource,
   FlaryWorkspaceSource,
   FlaryWorkspaceOptions,
   FlaryIdentity,
+  FlaryQuotaCharge,
+  FlaryQuotaLease,
+  FlaryQuotaOptions,
+  FlaryQuotaStore,
+  FlaryQuotaSubject,
+  FlaryQuotaUsage,
+  FlaryMemoryRecord,
+  FlaryMemoryScope,
+  FlaryMemorySource,
+  FlaryMemoryStore,
+  FlaryTurnContext,
+  FlaryLimits,
+  FlaryPrompt,
+  FlaryPromptOptions,
   FlarySkill,
+  FlaryThreadDescription,
+  FlaryThreadTranscriptMessage,
 } from "./types.js";
 import {
   createFlaryCodemodeExecutor,
@@ -112,6 +188,18 @@ import {
   openApiRevision,
 } from "./openapi.js";
 import { createMcpConnection } from "./mcp.js";
+import { parsePartialJson } from "./partial.js";
+import { InMemoryFlaryResultCache } from "./cache.js";
+import { InMemoryFlaryQuotaStore } from "./quotas.js";
+import {
+  InMemoryFlaryCallbackLog,
+  callbackMessage,
+  deliverFlaryCallback,
+  parseRunCallback,
+} from "./callbacks.js";
+import { FlaryFunctionError } from "./errors.js";
+import { notifyHook, withToolHooks } from "./hooks.js";
+import { stableHash } from "../prompts/rollouts.js";
 import type { ApprovalContinuation } from "../execution/approval-continuation.js";
 import {
   DurableSandboxProcessRuntime,
@@ -121,14 +209,37 @@ import {
   hashSandboxEnvironment,
 } from "../cloudflare/sandbox-process-registry.js";
 import { createCloudflareWorkspaceConnection } from "../cloudflare/workspace.js";
+import { createFlaryDurableQuotaStore } from "../cloudflare/quota-store.js";
+import { createFlaryDurableCallbackLog } from "../cloudflare/callbacks.js";
 import { executeToolDescription } from "./tool-guidance.js";
 import { CloudflareSandboxWorkspaceBackend } from "../cloudflare/workspace-execution.js";
 import { parseThreadName } from "../storage/scopes.js";
 import { createCloudflareBrowserConnection } from "./browser.js";
 import { createR2FileConnection } from "./r2.js";
+import {
+  InMemoryFlaryMemoryStore,
+  createMemoryConnection,
+  memoryOwners,
+  memorySource,
+  memoryQuote,
+  searchFlaryMemories,
+} from "./memory.js";
+import { createFlaryDurableMemoryStore } from "../cloudflare/memory-store.js";
+import {
+  assertPromptInput,
+  isFlaryPrompt,
+  promptCandidates,
+  promptSettings,
+  promptSource,
+  renderFlaryPrompt,
+  selectFlaryPrompt,
+} from "./prompts.js";
 
 const FUNCTION_STATE = Symbol("flary.function.state");
 const AGENT_STATE = Symbol("flary.agent.state");
+const DEFAULT_MAP_CONCURRENCY = 8;
+const DEFAULT_BATCH_POLL_MS = 30_000;
+const DEFAULT_QUOTA_LEASE_MS = 15 * 60_000;
 
 type AnyFunction = FlaryFunction<any, any, any>;
 type AnyAgent = FlaryAgent<any>;
@@ -143,12 +254,34 @@ interface Invocation<TBindings> {
   readonly waitUntil?: (work: Promise<unknown>) => void;
   readonly stepStore?: FlaryStepStore;
   readonly stepCache: Map<string, { input: string; value: Promise<unknown> }>;
+  /** Events sent to the run that no durable wait has claimed yet. */
+  readonly inbox?: FlaryReceivedEvent[];
+  /** Receives settled `map` and `parallel` items for the run stream. */
+  readonly progress?: (progress: FlaryStepProgress) => void;
+  /**
+   * Receives streamed prefixes of this invocation's prompt output. Named
+   * steps do not inherit it, so only the run's own output is reported.
+   */
+  readonly partial?: (output: unknown) => void;
+  /** Receives schema-repair turns of prompt functions, including steps. */
+  readonly repair?: (attempt: FlaryOutputRepairAttempt) => void;
+  /** Receives a cache hit of this invocation. Named steps do not inherit it. */
+  readonly cacheHit?: (hit: FlaryCacheHit) => void;
+  /** Receives model turns that moved along a fallback chain. */
+  readonly fallback?: (decision: FlaryModelFallback) => void;
+  /** Receives guardrails that blocked or rewrote a value. */
+  readonly guardrail?: (trip: FlaryGuardrailTrip) => void;
+  /** Receives the tokens and cost of each model turn, including steps. */
+  readonly usage?: (charge: FlaryQuotaCharge) => void;
 }
 
 interface FunctionState {
   readonly app: FlaryApplication<any>;
+  /** The authored definition with `output` reduced to its schema. */
   readonly definition: FlaryFunctionOptions<any, any, any>;
   readonly mode: FlaryFunctionMode;
+  /** Repair policy from `output.repair`. */
+  readonly repair?: FlaryOutputRepair;
   functionId?: string;
   invoke(input: unknown, invocation?: Partial<Invocation<any>>): Promise<unknown>;
 }
@@ -163,6 +296,15 @@ export interface FlaryWorkflowInvocation {
   readonly runId: string;
   readonly bindings: unknown;
   readonly signal?: AbortSignal;
+  /** Replay state carried by a run that resumes after a durable wait. */
+  readonly resume?: {
+    readonly steps: FlaryStepJournal;
+    readonly events: readonly FlaryReceivedEvent[];
+  };
+  readonly progress?: (progress: FlaryStepProgress) => void;
+  readonly repair?: (attempt: FlaryOutputRepairAttempt) => void;
+  readonly fallback?: (decision: FlaryModelFallback) => void;
+  readonly guardrail?: (trip: FlaryGuardrailTrip) => void;
 }
 
 export interface FlaryServeOptions {
@@ -170,17 +312,24 @@ export interface FlaryServeOptions {
   readonly prefix?: string;
 }
 
-/** Error returned by the function HTTP adapter. */
-export class FlaryFunctionError extends Error {
-  readonly code: string;
-  readonly status: number;
+interface CallbackTarget {
+  readonly url: string;
+  readonly events: readonly FlaryCallbackEvent[];
+  readonly secret: string;
+}
+
+interface DurableScopeInput<TBindings> {
+  readonly bindings?: TBindings;
+  readonly identity?: FlaryIdentity;
+  readonly request?: Request;
+}
 
-  constructor(code: string, message: string, status = 500) {
-    super(message);
-    this.name = "FlaryFunctionError";
-    this.code = code;
-    this.status = status;
-  }
+interface DurableScope<TBindings> {
+  readonly service: FlaryRunService;
+  readonly trusted: TrustedRunContext;
+  readonly revision: FlaryFunctionRevision;
+  readonly bindings: TBindings;
+  readonly identity?: FlaryIdentity;
 }
 
 /**
@@ -194,9 +343,17 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
   readonly options: FlaryAppOptions<TBindings>;
   readonly runStore;
   readonly stepStore;
+  readonly resultCache: FlaryResultCache;
+  /** Model prices used to enforce `limits.costUsd`. */
+  readonly pricing: ModelPricingCatalog;
   #runServiceOverride: FlaryAppOptions<TBindings>["runService"];
   #threadServiceOverride: FlaryAppOptions<TBindings>["threadService"];
   #defaultCodeExecutors = new WeakMap<object, FlaryCodeExecutor<TBindings>>();
+  #modelRouter = new DeterministicModelRouter();
+  #quotaStore = new InMemoryFlaryQuotaStore();
+  #callbackLog = new InMemoryFlaryCallbackLog();
+  #memoryStore = new InMemoryFlaryMemoryStore();
+  #agents = new Map<string, FlaryAgent<TBindings>>();
 
   constructor(options: FlaryAppOptions<TBindings> = {}) {
     this.options = options;
@@ -207,6 +364,8 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         ? new DurableObjectFlaryFunctionRunStore(options.runStorage)
         : new InMemoryFlaryFunctionRunStore());
     this.stepStore = options.stepStore;
+    this.resultCache = options.resultCache ?? new InMemoryFlaryResultCache();
+    this.pricing = extendModelPricing(DEFAULT_MODEL_PRICING, options.pricing);
   }
 
   /**
@@ -271,10 +430,28 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     return this.modelOperations().rerank(request, context);
   }
 
+  /**
+   * Classify text with the moderation model. Called without a request, it
+   * returns the built-in moderation guardrail for `guardrails` lists.
+   */
+  moderate(
+    options?: Omit<FlaryModerationGuardrail, "kind">,
+  ): FlaryModerationGuardrail;
   moderate(
     request: ModerateRequest,
     context?: Partial<ModelOperationContext<TBindings>>,
-  ): Promise<ModerationResult> {
+  ): Promise<ModerationResult>;
+  moderate(
+    request?: ModerateRequest | Omit<FlaryModerationGuardrail, "kind">,
+    context?: Partial<ModelOperationContext<TBindings>>,
+  ): FlaryModerationGuardrail | Promise<ModerationResult> {
+    if (!request || !("input" in request)) {
+      return Object.freeze({
+        kind: "moderation" as const,
+        ...(request?.model ? { model: request.model } : {}),
+        ...(request?.categories ? { categories: [...request.categories] } : {}),
+      });
+    }
     return this.modelOperations().moderate(request, context);
   }
 
@@ -349,14 +526,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       );
     }
     const ref = parseThreadName(input.runId);
-    const currentTarget: FlaryThreadTarget = {
-      authorization: {
-        organizationId: ref.organizationId,
-        actor: { id: "flary-agent", kind: "service" },
-      },
-      appId: ref.appId,
-      threadId: ref.threadId,
-    };
+    const currentTarget = agentThreadTarget(ref);
     const currentBinding = await service.inspect(currentTarget);
     const rootThreadId =
       typeof currentBinding.metadata?.flarySubagentRootThreadId === "string"
@@ -393,6 +563,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         flaryDelegation: delegationMetadata(child),
         flaryCompaction: { ...(child.definition.compaction ?? { mode: "auto" }) },
         flaryLimits: { ...(child.definition.limits ?? {}) },
+        ...pricingMetadata(child),
       };
     } else if (input.action === "send") {
       value.fromThreadId = ref.threadId;
@@ -408,6 +579,98 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     return service.subagentAction(rootTarget, input.action, value);
   }
 
+  /** Hand the thread of a run to another agent from its next turn. */
+  async agentHandoff(
+    current: FlaryAgent<TBindings>,
+    input: {
+      readonly bindings: TBindings;
+      readonly runId: string;
+      readonly agent: string;
+      readonly reason?: string;
+    },
+  ): Promise<ThreadBinding> {
+    const configured = this.#threadServiceOverride;
+    if (!configured) {
+      throw new FlaryFunctionError(
+        "thread_service_missing",
+        "Agent handoffs need the generated thread service.",
+        500,
+      );
+    }
+    const service = resolveThreadService(configured, {
+      bindings: input.bindings,
+    });
+    if (!service.handoff) {
+      throw new FlaryFunctionError(
+        "handoffs_unavailable",
+        "The durable thread host does not support agent handoffs.",
+        501,
+      );
+    }
+    const next = handoffTargets(current).find((agent) => agent.name === input.agent);
+    if (!next) {
+      throw new FlaryFunctionError(
+        "handoff_not_declared",
+        `Handoff '${input.agent}' is not declared by '${current.name}'.`,
+        400,
+      );
+    }
+    const model = resolveDefaultAgentModel(next);
+    if (!model) {
+      throw new FlaryFunctionError(
+        "handoff_model_missing",
+        `Agent '${next.name}' has no model.`,
+        400,
+      );
+    }
+    return service.handoff(agentThreadTarget(parseThreadName(input.runId)), {
+      agentId: next.name,
+      model,
+      ...(input.reason ? { reason: input.reason } : {}),
+      metadata: {
+        flaryAgentRevision: next.revision,
+        flaryModelPolicy: modelPolicyMetadata(next),
+        flaryDelegation: delegationMetadata(next),
+        flaryCompaction: { ...(next.definition.compaction ?? { mode: "auto" }) },
+        flaryLimits: { ...(next.definition.limits ?? {}) },
+        ...pricingMetadata(next),
+        ...summaryMetadata(next),
+      },
+    });
+  }
+
+  /**
+   * The agent that answers the next turn of a run after a handoff. It is
+   * undefined when no agent under `root` declares handoffs.
+   */
+  async handoffAgentForRun(
+    root: FlaryAgent<TBindings>,
+    input: { readonly bindings: TBindings; readonly runId: string },
+  ): Promise<FlaryAgent<TBindings> | undefined> {
+    const tree = agentTree(root);
+    const configured = this.#threadServiceOverride;
+    if (!configured || !tree.some((agent) => handoffTargets(agent).length > 0)) {
+      return undefined;
+    }
+    let ref: ReturnType<typeof parseThreadName>;
+    try {
+      ref = parseThreadName(input.runId);
+    } catch {
+      return undefined;
+    }
+    const service = resolveThreadService(configured, {
+      bindings: input.bindings,
+    });
+    const binding = await service.inspect(agentThreadTarget(ref));
+    if (!binding.activeAgentId) return undefined;
+    return tree.find((agent) => agent.name === binding.activeAgentId);
+  }
+
+  /** Look up an agent of this app by name. */
+  agentNamed(name: string): FlaryAgent<TBindings> | undefined {
+    return this.#agents.get(name);
+  }
+
   /** True when this app has a Flue-backed durable host. */
   hasDurableRuntime(): boolean {
     return this.#runServiceOverride !== undefined;
@@ -424,7 +687,18 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
   >(
     definition: FlaryFunctionOptions<TInput, TOutput, TBindings>,
   ): FlaryFunction<TInput, TOutput, TBindings> {
-    validateFunctionDefinition(definition);
+    if (isFlaryPrompt(definition.prompt)) {
+      assertPromptInput(
+        definition.prompt,
+        definition.input,
+        `function '${definition.name ?? "function"}'`,
+      );
+      definition = this.withPromptSettings(definition, definition.prompt);
+    }
+    // The rest of the application reads `output` as the schema.
+    const { schema: output, repair } = outputOptions(definition.output);
+    definition = { ...definition, output };
+    validateFunctionDefinition(definition, repair);
     if (typeof definition.run !== "function" && definition.prompt === undefined) {
       throw new FlaryFunctionError(
         "function_implementation_missing",
@@ -445,8 +719,9 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       definition: definition as FlaryFunctionOptions<any, any, any>,
       mode: typeof definition.run === "function" ? "run" : "prompt",
       ...(definition.name ? { functionId: definition.name } : {}),
+      ...(repair ? { repair } : {}),
       invoke: async (input, invocation) =>
-        this.invokeDefinition(definition as FlaryFunctionOptions<any, any, any>, input, {
+        this.invokeCached(state, input, {
           bindings:
             invocation?.bindings === undefined
               ? this.defaultBindings()
@@ -456,7 +731,16 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
           signal: invocation?.signal ?? new AbortController().signal,
           runId: invocation?.runId,
           idempotencyKey: invocation?.idempotencyKey,
+          stepStore: invocation?.stepStore,
           stepCache: invocation?.stepCache ?? new Map(),
+          inbox: invocation?.inbox,
+          progress: invocation?.progress,
+          partial: invocation?.partial,
+          repair: invocation?.repair,
+          cacheHit: invocation?.cacheHit,
+          fallback: invocation?.fallback,
+          guardrail: invocation?.guardrail,
+          usage: invocation?.usage,
         }),
     };
 
@@ -465,7 +749,26 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         const run = await this.startState(state, input);
         return run.result();
       }
-      return state.invoke(input);
+      assertInProcessRun(state);
+      const event = { bindings: this.defaultBindings() };
+      const meter = quotaMeter();
+      const lease = await this.admitQuota(
+        event.bindings,
+        this.options.defaultIdentity,
+        functionHookName(state),
+        `run:${crypto.randomUUID()}`,
+      );
+      return this.settleQuota(event.bindings, lease, meter.charge, (async () => {
+        if (this.options.hooks?.onRunStart) {
+          await this.functionRunStarting(state, event, definition.input.parse(input));
+        }
+        return this.functionRunSettled(
+          state,
+          event,
+          Date.now(),
+          state.invoke(input, { usage: meter.usage }),
+        );
+      })());
     }) as FlaryFunction<TInput, TOutput, TBindings> & {
       [FUNCTION_STATE]?: FunctionState;
     };
@@ -484,12 +787,103 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       input: FlaryInput<TInput>,
       options: FlaryRunOptions = {},
     ) => this.streamState(state, input, options) as AsyncIterable<FlaryEvent<z.output<TOutput>>>;
+    callable.batch = (
+      inputs: readonly FlaryInput<TInput>[],
+      options: FlaryBatchOptions = {},
+    ) => this.startBatch(state, inputs, options) as Promise<
+      FlaryRun<FlaryBatchResult<z.output<TOutput>>>
+    >;
     return callable;
   }
 
+  /**
+   * Delete cached outputs of a function and return how many were removed.
+   * Outputs of older revisions are never served, so a deploy needs no call.
+   */
+  async invalidate(
+    fn: FlaryFunction<any, any, any>,
+    options: FlaryCacheInvalidation = {},
+  ): Promise<number> {
+    const state = this.functionState(fn);
+    const cache = state.definition.cache;
+    if (!cache) {
+      throw new FlaryFunctionError(
+        "function_cache_missing",
+        "The function does not define a cache.",
+        400,
+      );
+    }
+    const functionId = cacheFunctionId(state);
+    if (cache.scope === "tenant" && options.tenantId === undefined) {
+      if (options.input !== undefined) {
+        throw new FlaryFunctionError(
+          "cache_tenant_required",
+          "Invalidating one input of a tenant-scoped cache needs a tenantId.",
+          400,
+        );
+      }
+      return this.resultCache.deletePrefix(
+        `flary:cache:${encodeURIComponent(functionId)}:`,
+      );
+    }
+    const prefix = cachePrefix(functionId, cacheScope(cache, options.tenantId)!);
+    return this.resultCache.deletePrefix(
+      options.input === undefined
+        ? prefix
+        : `${prefix}${cacheInputHash(cache, state.definition.input.parse(options.input))}:`,
+    );
+  }
+
+  /** List the dead letters of a durable function, newest first. */
+  async deadLetters(
+    fn: FlaryFunction<any, any, any>,
+    options: FlaryDeadLetterQuery<TBindings> = {},
+  ): Promise<FlaryDeadLetter[]> {
+    const state = this.functionState(fn);
+    const scope = await this.deadLetterScope(state, options);
+    return scope.service.listDeadLetters!(scope.trusted, {
+      channelId: state.functionId,
+      ...(options.includeReplayed ? { includeReplayed: true } : {}),
+      ...(options.limit !== undefined ? { limit: options.limit } : {}),
+    });
+  }
+
+  /**
+   * Re-admit failed runs of a durable function. Each replay is a new run, and
+   * its dead letter records the new run ID.
+   */
+  async replay(
+    fn: FlaryFunction<any, any, any>,
+    runIds: string | readonly string[],
+    options: FlaryReplayOptions<TBindings> = {},
+  ): Promise<FlaryRun<unknown>[]> {
+    return this.replayDeadLetters(
+      this.functionState(fn),
+      typeof runIds === "string" ? [runIds] : runIds,
+      options,
+    );
+  }
+
+  /** List the callback attempts of a run, oldest first. */
+  async callbackDeliveries(
+    runId: string,
+    options: { readonly bindings?: TBindings } = {},
+  ): Promise<FlaryCallbackDelivery[]> {
+    return this.callbackLog(options.bindings ?? this.defaultBindings()).list(runId);
+  }
+
   /** Define a persistent interactive agent. Flue remains its transcript owner. */
   agent(definition: FlaryAgentOptions<TBindings>): FlaryAgent<TBindings> {
     assertNamespace(definition.name);
+    if (isFlaryPrompt(definition.instructions)) {
+      // Instructions are rendered once per thread, so they have no input.
+      assertPromptInput(
+        definition.instructions,
+        z.object({}).strict(),
+        `agent '${definition.name}'`,
+      );
+      definition = this.withPromptSettings(definition, definition.instructions);
+    }
     validateAgentDefinition(definition);
     const value = {
       kind: "agent" as const,
@@ -499,9 +893,11 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         name: definition.name,
         instructions: typeof definition.instructions === "string"
           ? definition.instructions
-          : definition.instructions
-            ? "dynamic"
-            : undefined,
+          : isFlaryPrompt(definition.instructions)
+            ? promptRevision(definition.instructions)
+            : definition.instructions
+              ? "dynamic"
+              : undefined,
         model: definition.model ?? this.options.model,
         models: definition.models,
         thinking: definition.thinking,
@@ -513,6 +909,9 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
           revision: skill.revision,
         })),
         subagents: Object.keys(definition.subagents ?? {}).sort(),
+        handoffs: definition.handoffs?.map((agent) =>
+          typeof agent === "string" ? agent : agent.name
+        ),
         delegation: definition.delegation,
         compaction: definition.compaction,
         limits: definition.limits,
@@ -521,9 +920,356 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     Object.defineProperty(value, AGENT_STATE, {
       value: { app: this, definition },
     });
+    this.#agents.set(definition.name, value);
     return Object.freeze(value);
   }
 
+  /**
+   * Run the input or output guardrails of an agent on one message. The thread
+   * host records the returned trips in the thread ledger.
+   */
+  async guardAgentMessage(
+    agent: FlaryAgent<TBindings> | string,
+    stage: "input" | "output",
+    text: string,
+    context: Omit<FlaryGuardrailContext<TBindings>, "signal"> & {
+      readonly signal?: AbortSignal;
+    },
+  ): Promise<FlaryGuardrailOutcome> {
+    const definition = typeof agent === "string"
+      ? this.#agents.get(agent)?.definition
+      : agent.definition;
+    const trips: FlaryGuardrailTrip[] = [];
+    try {
+      const guarded = await this.applyGuardrails(
+        definition?.guardrails?.[stage],
+        stage,
+        text,
+        { ...context, signal: context.signal ?? new AbortController().signal },
+        (trip) => trips.push(trip),
+        (replacement) => replacement,
+      );
+      return { text: guarded, trips, blocked: false };
+    } catch (error) {
+      if (error instanceof FlaryFunctionError && error.code === "guardrail_blocked") {
+        return { text, trips, blocked: true };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Admit one durable thread turn: count it against the quotas, run the input
+   * guardrails, and call `onRunStart`. The generated Thread Control host calls
+   * this for every admission, whether it came over HTTP, a realtime socket,
+   * or a schedule. `agentTurnEnded` frees the quota slot again.
+   */
+  async admitAgentTurn(input: {
+    readonly agentId: string;
+    readonly tenantId: string;
+    readonly threadId: string;
+    readonly admissionId: string;
+    readonly actor: {
+      readonly id: string;
+      readonly roles?: readonly string[];
+      readonly scopes?: readonly string[];
+    };
+    readonly message: string;
+    readonly bindings: TBindings;
+  }): Promise<FlaryGuardrailOutcome & { readonly guardsOutput: boolean }> {
+    const agent = this.#agents.get(input.agentId);
+    if (!agent) {
+      return { text: input.message, trips: [], blocked: false, guardsOutput: false };
+    }
+    const identity: FlaryIdentity = {
+      tenantId: input.tenantId,
+      userId: input.actor.id,
+      roles: [...(input.actor.roles ?? [])],
+      scopes: [...(input.actor.scopes ?? [])],
+    };
+    const guardsOutput = Boolean(agent.definition.guardrails?.output?.length);
+    const lease = await this.admitQuota(
+      input.bindings,
+      identity,
+      agent.name,
+      turnLeaseId(input.admissionId),
+    );
+    try {
+      const outcome = await this.guardAgentMessage(agent, "input", input.message, {
+        bindings: input.bindings,
+        identity,
+      });
+      if (outcome.blocked) {
+        await this.releaseQuota(input.bindings, lease);
+        return { ...outcome, guardsOutput };
+      }
+      await this.agentRunStarting(agent, {
+        threadId: input.threadId,
+        message: outcome.text,
+        bindings: input.bindings,
+        identity,
+      });
+      return { ...outcome, guardsOutput };
+    } catch (error) {
+      await this.releaseQuota(input.bindings, lease);
+      throw error;
+    }
+  }
+
+  /**
+   * Call `onRunStart` for one agent message. The thread host calls this after
+   * the input guardrails and before the message is admitted.
+   */
+  async agentRunStarting(
+    agent: FlaryAgent<TBindings> | string,
+    input: {
+      readonly threadId: string;
+      readonly message: string;
+      readonly bindings: TBindings;
+      readonly identity?: FlaryIdentity;
+    },
+  ): Promise<void> {
+    await this.options.hooks?.onRunStart?.({
+      kind: "agent",
+      name: typeof agent === "string" ? agent : agent.name,
+      threadId: input.threadId,
+      bindings: input.bindings,
+      ...(input.identity ? { identity: input.identity } : {}),
+      input: input.message,
+    });
+  }
+
+  /**
+   * Call `onTurnEnd` and then `onRunEnd` for one settled agent turn. The
+   * generated Durable Object host calls this after the turn is projected.
+   */
+  async agentTurnEnded(input: {
+    readonly agentId: string;
+    readonly tenantId?: string;
+    readonly threadId: string;
+    readonly admissionId?: string;
+    readonly status: "completed" | "failed";
+    readonly model?: string;
+    readonly error?: string;
+    readonly durationMs: number;
+    readonly usage?: FlaryQuotaCharge;
+    readonly bindings: TBindings;
+  }): Promise<void> {
+    if (input.tenantId && input.admissionId) {
+      await this.releaseQuota(
+        input.bindings,
+        { tenantId: input.tenantId, leaseId: turnLeaseId(input.admissionId) },
+        input.usage,
+      );
+    }
+    const hooks = this.options.hooks;
+    const event = {
+      kind: "agent" as const,
+      name: input.agentId,
+      threadId: input.threadId,
+      bindings: input.bindings,
+      status: input.status,
+      ...(input.error ? { error: input.error } : {}),
+    };
+    await notifyHook(hooks?.onTurnEnd?.bind(hooks), {
+      ...event,
+      ...(input.model ? { model: input.model } : {}),
+    });
+    await notifyHook(hooks?.onRunEnd?.bind(hooks), {
+      ...event,
+      durationMs: input.durationMs,
+    });
+  }
+
+  /**
+   * Write the title or summary of an agent thread with the agent's summary
+   * model. The thread host decides which fields are due and stores them. The
+   * call counts against the agent's quotas, and its usage is returned so the
+   * host charges it to the thread's limits.
+   */
+  async describeThread(input: {
+    readonly agentId: string;
+    readonly tenantId?: string;
+    readonly threadId: string;
+    readonly fields: readonly ("title" | "summary")[];
+    readonly messages: readonly FlaryThreadTranscriptMessage[];
+    /** The summary to continue. It is absent after a fork or rollback. */
+    readonly summary?: string;
+    readonly bindings: TBindings;
+  }): Promise<FlaryThreadDescription> {
+    const agent = this.#agents.get(input.agentId);
+    const fields = new Set(input.fields);
+    if (!agent?.definition.summary || fields.size === 0 || input.messages.length === 0) {
+      return {};
+    }
+    const output = z.object({
+      ...(fields.has("title") ? { title: z.string().trim().min(1) } : {}),
+      ...(fields.has("summary") ? { summary: z.string().trim().min(1) } : {}),
+    });
+    const name = `${agent.name}.summary`;
+    const prompt = threadDescriptionPrompt(fields, input.messages, input.summary);
+    const lease = input.tenantId
+      ? await this.admitQuota(
+          input.bindings,
+          { tenantId: input.tenantId },
+          agent.name,
+          `describe:${input.threadId}:${crypto.randomUUID()}`,
+        )
+      : undefined;
+    const meter = quotaMeter();
+    const context = this.contextFor({
+      bindings: input.bindings,
+      signal: new AbortController().signal,
+      runId: input.threadId,
+      stepCache: new Map(),
+    });
+    const value = await this.settleQuota(
+      input.bindings,
+      lease,
+      meter.charge,
+      this.runPrompt(
+        {
+          name,
+          model: agent.definition.summary.model ?? agent.definition.model,
+          input: z.unknown(),
+          output,
+          prompt,
+          limits: { steps: 1 },
+        },
+        prompt,
+        context,
+        { usage: meter.usage },
+        { name },
+      ),
+    ).then((text) => output.parse(text) as FlaryThreadDescription);
+    return {
+      ...(value.title ? { title: value.title.slice(0, 120) } : {}),
+      ...(value.summary ? { summary: value.summary.slice(0, 2_000) } : {}),
+      usage: { ...meter.charge },
+    };
+  }
+
+  /**
+   * Read the quota counters that apply to one caller. Pass a function or
+   * agent name to include its own counter.
+   */
+  async quotaUsage(input: {
+    readonly identity: FlaryIdentity;
+    readonly name?: string;
+    readonly bindings?: TBindings;
+  }): Promise<FlaryQuotaUsage[]> {
+    const subjects = this.quotaSubjects(input.identity, input.name);
+    if (subjects.length === 0) return [];
+    return this.quotaStore(input.bindings ?? this.defaultBindings()).usage({
+      tenantId: input.identity.tenantId,
+      subjects,
+    });
+  }
+
+  /**
+   * List the memory records of a caller. Without a scope, these are the
+   * caller's own `user` records.
+   */
+  async memories(input: {
+    readonly identity: FlaryIdentity;
+    readonly scope?: FlaryMemoryScope;
+    readonly bindings?: TBindings;
+  }): Promise<FlaryMemoryRecord[]> {
+    const [owner] = memoryOwners([input.scope ?? "user"], input.identity, this.scopedApplicationId());
+    if (!owner) return [];
+    return this.memoryStore(input.bindings ?? this.defaultBindings()).list(owner);
+  }
+
+  /** Erase one memory record of a caller, or all of them, and return the count. */
+  async forgetMemories(input: {
+    readonly identity: FlaryIdentity;
+    readonly id?: string;
+    readonly scope?: FlaryMemoryScope;
+    readonly bindings?: TBindings;
+  }): Promise<number> {
+    const [owner] = memoryOwners([input.scope ?? "user"], input.identity, this.scopedApplicationId());
+    if (!owner) return 0;
+    const store = this.memoryStore(input.bindings ?? this.defaultBindings());
+    const ids = input.id !== undefined
+      ? [input.id]
+      : (await store.list(owner)).map((record) => record.id);
+    const deleted = await store.delete(owner, input.id);
+    if (deleted > 0 && ids.length > 0) await this.options.memory?.index?.delete(ids);
+    return deleted;
+  }
+
+  /**
+   * Resolve the context of one agent turn. The application's
+   * `resolveTurnContext` is trusted. Memory records that match the message
+   * were written by models, so they are quoted ahead of the message instead.
+   */
+  async agentTurnContext(
+    input: Parameters<NonNullable<FlaryAppOptions<TBindings>["resolveTurnContext"]>>[0],
+  ): Promise<FlaryTurnContext> {
+    const authored = (await this.options.resolveTurnContext?.(input))?.trim();
+    const trusted = authored ? { trusted: authored } : {};
+    const source = agentMemorySource(this.#agents.get(input.agentId));
+    if (!source || source.recall === 0) return trusted;
+    const quoted = memoryQuote(await searchFlaryMemories({
+      store: this.memoryStore(input.bindings),
+      ...(this.options.memory?.index ? { index: this.options.memory.index } : {}),
+      scopes: source.scopes,
+      identity: { tenantId: input.tenantId, userId: input.userId },
+      applicationId: this.scopedApplicationId(),
+      query: input.message,
+      limit: source.recall,
+    }));
+    return { ...trusted, ...(quoted ? { quoted } : {}) };
+  }
+
+  /**
+   * Count one admission against the tenant, user, and name quotas, and hold a
+   * concurrent run slot until the lease is released. It returns undefined
+   * when no quota applies to the caller.
+   */
+  async admitQuota(
+    bindings: TBindings,
+    identity: FlaryIdentity | undefined,
+    name: string,
+    leaseId: string,
+  ): Promise<FlaryQuotaLease | undefined> {
+    const subjects = identity ? this.quotaSubjects(identity, name) : [];
+    if (!identity || subjects.length === 0) return undefined;
+    const decision = await this.quotaStore(bindings).admit({
+      tenantId: identity.tenantId,
+      subjects,
+      leaseId,
+      leaseMs: this.options.quotas?.leaseMs ?? DEFAULT_QUOTA_LEASE_MS,
+    });
+    if (!decision.admitted) {
+      throw new FlaryFunctionError(
+        "quota_exceeded",
+        `The ${decision.scope} quota for ${decision.limit} is exhausted.`,
+        429,
+        {
+          scope: decision.scope,
+          key: decision.key,
+          limit: decision.limit,
+          retryAfterSeconds: decision.retryAfterSeconds,
+        },
+      );
+    }
+    return { tenantId: identity.tenantId, leaseId };
+  }
+
+  /** Free a quota slot and charge the usage of its run or turn. */
+  async releaseQuota(
+    bindings: TBindings,
+    lease: FlaryQuotaLease | undefined,
+    charge?: FlaryQuotaCharge,
+  ): Promise<void> {
+    if (!lease) return;
+    // A lost release only holds the slot until its lease expires.
+    await this.quotaStore(bindings)
+      .release({ ...lease, ...(charge ? { charge } : {}) })
+      .catch(() => undefined);
+  }
+
   /** Define one immutable, lazily discoverable skill revision. */
   skill(input: {
     readonly name: string;
@@ -655,6 +1401,26 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     return Object.freeze({ kind: "sandbox" as const, options: { ...options } });
   }
 
+  /**
+   * Use a compiled `.prompt.md` file as a function prompt or as agent
+   * instructions. The slug is the file path below the prompt directory.
+   */
+  prompt(slug: string, options: FlaryPromptOptions = {}): FlaryPrompt {
+    return promptSource(this.options.prompts, slug, options);
+  }
+
+  /**
+   * Register long-term memory tools. Records outlive threads and are recalled
+   * into the context of each turn.
+   */
+  memory(
+    options: Partial<Omit<FlaryMemorySource, "kind">> = {},
+  ): FlaryMemorySource {
+    const source = memorySource(options);
+    assertNamespace(source.namespace);
+    return source;
+  }
+
   browser(options: FlaryBrowserSource["options"] = {}): FlaryBrowserSource {
     const source: FlaryBrowserSource = {
       kind: "browser" as const,
@@ -682,6 +1448,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       ...(this.options.resolveMcp ? { resolveMcp: this.options.resolveMcp } : {}),
       ...(this.options.resolveOpenApi ? { resolveOpenApi: this.options.resolveOpenApi } : {}),
       ...(this.options.resolveBrowser ? { resolveBrowser: this.options.resolveBrowser } : {}),
+      resolveMemory: (source, input) => this.memoryConnection(source, input),
     });
   }
 
@@ -743,31 +1510,91 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       }),
     );
 
+    router.get(`${prefix}/quota`, async (context) => {
+      const bindings = this.parseBindings(context.env);
+      const identity = await this.authorize(context.req.raw, bindings);
+      if (!identity) {
+        throw new FlaryFunctionError(
+          "unauthorized",
+          "Quota usage needs an authenticated identity.",
+          401,
+        );
+      }
+      const name = context.req.query("function") ?? context.req.query("agent");
+      return context.json({
+        quotas: await this.quotaUsage({ identity, bindings, ...(name ? { name } : {}) }),
+      });
+    });
+
+    const memoryIdentity = async (request: Request, bindings: TBindings) => {
+      const identity = await this.authorize(request, bindings);
+      if (!identity?.userId) {
+        throw new FlaryFunctionError(
+          "unauthorized",
+          "Memory needs an authenticated user.",
+          401,
+        );
+      }
+      return identity;
+    };
+    router.get(`${prefix}/memory`, async (context) => {
+      const bindings = this.parseBindings(context.env);
+      const identity = await memoryIdentity(context.req.raw, bindings);
+      return context.json({ memories: await this.memories({ identity, bindings }) });
+    });
+    router.delete(`${prefix}/memory`, async (context) => {
+      const bindings = this.parseBindings(context.env);
+      const identity = await memoryIdentity(context.req.raw, bindings);
+      return context.json({ deleted: await this.forgetMemories({ identity, bindings }) });
+    });
+    router.delete(`${prefix}/memory/:id`, async (context) => {
+      const bindings = this.parseBindings(context.env);
+      const identity = await memoryIdentity(context.req.raw, bindings);
+      const deleted = await this.forgetMemories({
+        identity,
+        bindings,
+        id: context.req.param("id"),
+      });
+      if (deleted === 0) {
+        throw new FlaryFunctionError("memory_not_found", "The memory was not found.", 404);
+      }
+      return context.json({ deleted });
+    });
+
     router.post(`${prefix}/functions/:name`, async (context) => {
       const state = this.functionState(functions, context.req.param("name"));
       const input = await readJson(context.req.raw);
       const bindings = this.parseBindings(context.env);
       const identity = await this.authorize(context.req.raw, bindings);
-      const output = this.hasDurableRuntime()
-        ? await (
-            await this.startState(state, input, {
-              internal: {
-                bindings,
-                identity,
-                request: context.req.raw,
-                waitUntil: executionWaitUntil(context),
-              },
-            })
-          ).result()
-        : await state.invoke(input, {
+      if (this.hasDurableRuntime()) {
+        const run = await this.startState(state, input, {
+          internal: {
             bindings,
             identity,
             request: context.req.raw,
-            signal: new AbortController().signal,
-            stepCache: new Map(),
-          });
-      return context.json({ output });
-    });
+            waitUntil: executionWaitUntil(context),
+          },
+        });
+        return context.json({ output: await run.result() });
+      }
+      assertInProcessRun(state);
+      const meter = quotaMeter();
+      const lease = await this.admitQuota(
+        bindings,
+        identity,
+        functionHookName(state),
+        `run:${crypto.randomUUID()}`,
+      );
+      const output = await this.settleQuota(bindings, lease, meter.charge, state.invoke(input, {
+        bindings,
+        identity,
+        request: context.req.raw,
+        signal: new AbortController().signal,
+        stepCache: new Map(),
+        usage: meter.usage,
+      }));
+      return context.json({ output });
+    });
 
     router.post(`${prefix}/functions/:name/runs`, async (context) => {
       const state = this.functionState(functions, context.req.param("name"));
@@ -822,6 +1649,33 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       },
     );
 
+    router.get(
+      `${prefix}/functions/:name/runs/:runId/callbacks`,
+      async (context) => {
+        const state = this.functionState(functions, context.req.param("name"));
+        const bindings = this.parseBindings(context.env);
+        const runId = context.req.param("runId");
+        if (this.hasDurableRuntime()) {
+          await this.serviceRunForRequest(state, runId, context.req.raw, bindings);
+        } else {
+          await this.authorize(context.req.raw, bindings);
+          const store = this.runStore as FlaryAppOptions<TBindings>["runStore"] & {
+            get?: (runId: string) => FlaryRun | Promise<FlaryRun | undefined>;
+          };
+          if (!(await store?.get?.(runId))) {
+            throw new FlaryFunctionError(
+              "run_not_found",
+              "The requested Flary run was not found.",
+              404,
+            );
+          }
+        }
+        return context.json({
+          deliveries: await this.callbackDeliveries(runId, { bindings }),
+        });
+      },
+    );
+
     router.post(
       `${prefix}/functions/:name/runs/:runId/input`,
       async (context) => {
@@ -920,6 +1774,76 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       },
     );
 
+    router.get(`${prefix}/functions/:name/runs`, async (context) => {
+      const state = this.functionState(functions, context.req.param("name"));
+      const bindings = this.parseBindings(context.env);
+      const params = new URL(context.req.url).searchParams;
+      params.set("agentId", state.functionId!);
+      const query = parseRunListQuery(params);
+      const scope = await this.durableScope(state, {
+        bindings,
+        identity: await this.authorize(context.req.raw, bindings),
+        request: context.req.raw,
+      });
+      if (!scope.service.list) {
+        throw new FlaryFunctionError(
+          "run_listing_unsupported",
+          "The run service does not list runs.",
+          501,
+        );
+      }
+      return context.json(await scope.service.list(scope.trusted, query));
+    });
+
+    router.get(`${prefix}/functions/:name/dead-letters`, async (context) => {
+      const state = this.functionState(functions, context.req.param("name"));
+      const bindings = this.parseBindings(context.env);
+      const query = z.object({
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+        includeReplayed: z.enum(["true", "false"]).optional(),
+      }).parse({
+        limit: context.req.query("limit"),
+        includeReplayed: context.req.query("includeReplayed"),
+      });
+      const scope = await this.deadLetterScope(state, {
+        bindings,
+        identity: await this.authorize(context.req.raw, bindings),
+        request: context.req.raw,
+      });
+      return context.json({
+        deadLetters: await scope.service.listDeadLetters!(scope.trusted, {
+          channelId: state.functionId,
+          includeReplayed: query.includeReplayed === "true",
+          ...(query.limit !== undefined ? { limit: query.limit } : {}),
+        }),
+      });
+    });
+
+    router.post(
+      `${prefix}/functions/:name/dead-letters/replay`,
+      async (context) => {
+        const state = this.functionState(functions, context.req.param("name"));
+        const bindings = this.parseBindings(context.env);
+        const input = z.object({
+          runIds: z.array(z.string().min(1)).min(1).max(100),
+          revision: z.enum(["original", "current"]).default("original"),
+          force: z.boolean().default(false),
+        }).strict().parse(await readJson(context.req.raw));
+        const runs = await this.replayDeadLetters(state, input.runIds, {
+          bindings,
+          identity: await this.authorize(context.req.raw, bindings),
+          revision: input.revision,
+          force: input.force,
+          request: context.req.raw,
+          waitUntil: executionWaitUntil(context),
+        });
+        return context.json(
+          { runs: runs.map((run) => ({ runId: run.runId, status: run.status })) },
+          202,
+        );
+      },
+    );
+
     router.get(`${prefix}/runs/:runId`, async (context) => {
       if (this.hasDurableRuntime()) {
         throw new FlaryFunctionError(
@@ -1026,10 +1950,9 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
                 500,
               );
             }
+            const bindings = this.parseBindings(env);
             return agentAwareThreadService(
-              resolveThreadService(threadService, {
-                bindings: this.parseBindings(env),
-              }),
+              resolveThreadService(threadService, { bindings }),
               agents,
             );
           },
@@ -1038,13 +1961,22 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     }
 
     router.onError((error, context) => {
-      if (error instanceof FlaryHostError) {
-        return context.json(
-          { error: { type: error.code, message: error.message } },
-          error.status as 400,
-        );
-      }
-      if (error instanceof FlaryFunctionError) {
+      if (error instanceof FlaryHostError || error instanceof FlaryFunctionError) {
+        // A thread turn gate reports its quota error through Thread Control,
+        // which forwards it as a host error with the same details.
+        if (error.code === "quota_exceeded" && isRecord(error.details)) {
+          context.header("retry-after", String(error.details.retryAfterSeconds));
+          return context.json(
+            {
+              error: {
+                type: error.code,
+                message: error.message,
+                details: error.details,
+              },
+            },
+            429,
+          );
+        }
         return context.json(
           { error: { type: error.code, message: error.message } },
           error.status as 400,
@@ -1101,12 +2033,275 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         500,
       );
     }
-    return state.invoke(invocation.input, {
-      bindings: invocation.bindings,
-      signal: invocation.signal ?? new AbortController().signal,
-      runId: invocation.runId,
-      stepStore: await this.defaultStepStore(),
-      stepCache: new Map(),
+    // `onRunStart` ran at admission. The Runtime Durable Object reports the
+    // run end once, after the last attempt settles the run.
+    return this.workflowAttempt(invocation, (stepStore, inbox) =>
+      state.invoke(invocation.input, {
+        bindings: invocation.bindings,
+        signal: invocation.signal ?? new AbortController().signal,
+        runId: invocation.runId,
+        stepStore,
+        stepCache: new Map(),
+        inbox,
+        progress: invocation.progress,
+        repair: invocation.repair,
+        fallback: invocation.fallback,
+        guardrail: invocation.guardrail,
+      }));
+  }
+
+  /**
+   * Run the parent of a durable batch from the generated batch workflow.
+   * Started items and provider polls are journaled, so an attempt that
+   * resumes after a wait continues the same batch.
+   */
+  async invokeBatchFromWorkflow(
+    functions: unknown,
+    invocation: FlaryWorkflowInvocation,
+  ): Promise<unknown> {
+    const batch = BatchWorkflowInputSchema.parse(invocation.input);
+    const state = registeredFunction(functions, batch.functionId);
+    if (!state) {
+      throw new FlaryFunctionError(
+        "function_not_found",
+        `Function '${batch.functionId}' is not registered with this app.`,
+        404,
+      );
+    }
+    const bindings = invocation.bindings as TBindings;
+    const identity = batch.identity as FlaryIdentity | undefined;
+    return this.workflowAttempt(invocation, async (stepStore): Promise<FlaryBatchResult> => {
+      const items: FlaryBatchItem[] = new Array(batch.inputs.length);
+      let completed = 0;
+      let failed = 0;
+      const settle = (item: FlaryBatchItem): void => {
+        items[item.index] = item;
+        if (item.status === "completed") completed += 1;
+        else failed += 1;
+        invocation.progress?.({
+          step: "batch",
+          index: item.index,
+          status: item.status === "completed" ? "succeeded" : "failed",
+          completed,
+          failed,
+          total: batch.inputs.length,
+        });
+      };
+      const meter = quotaMeter();
+      const child: Invocation<TBindings> = {
+        bindings,
+        identity,
+        signal: invocation.signal ?? new AbortController().signal,
+        runId: invocation.runId,
+        stepStore,
+        stepCache: new Map(),
+        usage: meter.usage,
+      };
+      const context = this.contextFor(child);
+      const pause = (poll: number) =>
+        context.sleep(`batch_poll_${poll}`, batch.pollIntervalMs);
+      if (batch.mode === "provider-batch") {
+        const adapter = this.batchAdapter(state, bindings);
+        if (!adapter) {
+          throw new FlaryFunctionError(
+            "provider_batch_unavailable",
+            `Function '${batch.functionId}' no longer supports the provider batch API.`,
+            409,
+          );
+        }
+        const providerBatchId = await this.providerBatch(
+          state,
+          adapter,
+          batch.inputs,
+          child,
+          settle,
+          pause,
+        );
+        // The Runtime Durable Object frees an unreleased lease when the run
+        // fails, so only a settled batch charges its usage here.
+        await this.releaseQuota(bindings, batch.lease, meter.charge);
+        return { mode: "provider-batch", providerBatchId, items };
+      }
+      await this.childBatch(state, batch, child, settle, pause);
+      return { mode: "concurrent", items };
+    });
+  }
+
+  /**
+   * Run one attempt of a generated workflow. A durable wait ends the attempt
+   * with its journal, and the Runtime Durable Object starts a new attempt
+   * when the wait is satisfied.
+   */
+  private async workflowAttempt(
+    invocation: FlaryWorkflowInvocation,
+    attempt: (
+      stepStore: JournalFlaryStepStore,
+      inbox: FlaryReceivedEvent[],
+    ) => Promise<unknown>,
+  ): Promise<unknown> {
+    const stepStore = new JournalFlaryStepStore(
+      invocation.resume?.steps,
+      await this.defaultStepStore(),
+    );
+    const inbox = [...(invocation.resume?.events ?? [])];
+    try {
+      return await attempt(stepStore, inbox);
+    } catch (error) {
+      if (!(error instanceof FlaryRunPausedError)) throw error;
+      return {
+        __flaryWait: {
+          wait: error.wait,
+          steps: stepStore.journal(),
+          events: inbox,
+        },
+      } as PausedWorkflowOutput;
+    }
+  }
+
+  /**
+   * Settle the answer of a durable prompt-function run before the Runtime
+   * Durable Object stores it. Output that fails the schema gets a repair turn
+   * while `output.repair` allows one, and output guardrails run on the
+   * validated output, so only guarded output is persisted.
+   */
+  async settleRunOutput(
+    functions: unknown,
+    input: FlaryRunSettlementInput & { readonly bindings: TBindings },
+  ): Promise<FlaryRunSettlement> {
+    const state = registeredFunction(functions, input.record.request.channelId);
+    const guardrails = state?.definition.guardrails?.output ?? [];
+    if (
+      !state ||
+      state.mode !== "prompt" ||
+      input.record.request.metadata?.flaryBatch !== undefined ||
+      (!state.repair && guardrails.length === 0)
+    ) {
+      return { status: "completed", output: input.output };
+    }
+    const parsed = safeParseDurableOutput(state.definition.output, input.output);
+    // Without a repair policy, the caller reports the schema error.
+    if (!parsed.success && !state.repair) {
+      return { status: "completed", output: input.output };
+    }
+    if (!parsed.success) {
+      const { attempts, model } = state.repair!;
+      if (input.repairs >= attempts) {
+        return {
+          status: "failed",
+          error: {
+            code: "output_validation_failed",
+            message: `The model output failed the function schema after ${input.repairs} repair attempts.`,
+            details: { attempts: input.repairs, issues: parsed.issues.map((issue) => ({ ...issue })) },
+          },
+        };
+      }
+      const repairModel = model ??
+        state.definition.model ??
+        this.options.model ??
+        "openai/gpt-5";
+      return {
+        status: "retry",
+        message: repairPrompt(parsed.issues),
+        ...(model ? { model } : {}),
+        events: [{
+          type: "output.repair",
+          payload: {
+            attempt: input.repairs + 1,
+            maxAttempts: attempts,
+            model: repairModel,
+            issues: parsed.issues.map((issue) => ({ ...issue })),
+          },
+        }],
+      };
+    }
+    const trips: FlaryGuardrailTrip[] = [];
+    const events = () => trips.map((trip) => ({
+      type: "guardrail.tripped" as const,
+      payload: { ...trip },
+    }));
+    try {
+      const output = await this.applyGuardrails(
+        guardrails,
+        "output",
+        parsed.data,
+        {
+          bindings: input.bindings,
+          identity: runIdentity(input.record.trusted),
+          signal: new AbortController().signal,
+        },
+        (trip) => trips.push(trip),
+        (text) => parseGuardrailRewrite(state.definition.output, text),
+      );
+      return { status: "completed", output, events: events() };
+    } catch (error) {
+      return {
+        status: "failed",
+        error: {
+          code: error instanceof FlaryFunctionError ? error.code : "guardrail_failed",
+          message: error instanceof Error ? error.message : String(error),
+        },
+        events: events(),
+      };
+    }
+  }
+
+  /**
+   * Call `onTurnEnd` and `onRunEnd` for a durable function run that reached
+   * its final state. The Runtime Durable Object calls this once per run, so
+   * retried attempts and durable waits do not end the run early.
+   */
+  async functionRunEnded(
+    functions: unknown,
+    input: { readonly record: FlaryRunRecord; readonly bindings: TBindings },
+  ): Promise<void> {
+    const hooks = this.options.hooks;
+    if (!hooks?.onTurnEnd && !hooks?.onRunEnd) return;
+    const { record } = input;
+    // The parent of a batch is not a function run. Its items report their own.
+    if (record.request.metadata?.flaryBatch !== undefined) return;
+    const state = registeredFunction(functions, record.request.channelId);
+    const result = record.result;
+    const event = {
+      kind: "function" as const,
+      name: state ? functionHookName(state) : record.request.channelId,
+      runId: record.runId,
+      bindings: input.bindings,
+      identity: runIdentity(record.trusted),
+      status: result.status === "completed" ? "completed" as const : "failed" as const,
+      ...(result.status === "completed"
+        ? {}
+        : { error: result.error?.message ?? `The run was ${result.status}.` }),
+    };
+    // A prompt run is one Flue agent turn. A cache hit called no model.
+    if (
+      record.request.execution === "agent" &&
+      record.request.metadata?.flaryCacheHit === undefined
+    ) {
+      const model = result.metadata?.model;
+      await notifyHook(hooks.onTurnEnd?.bind(hooks), {
+        ...event,
+        ...(typeof model === "string" ? { model } : {}),
+        ...(result.usage
+          ? {
+              usage: {
+                ...(result.usage.inputTokens !== undefined
+                  ? { inputTokens: result.usage.inputTokens }
+                  : {}),
+                ...(result.usage.outputTokens !== undefined
+                  ? { outputTokens: result.usage.outputTokens }
+                  : {}),
+                ...(result.usage.totalTokens !== undefined
+                  ? { totalTokens: result.usage.totalTokens }
+                  : {}),
+              },
+            }
+          : {}),
+      });
+    }
+    await notifyHook(hooks.onRunEnd?.bind(hooks), {
+      ...event,
+      ...(result.status === "completed" ? { output: result.output } : {}),
+      durationMs: Math.max(0, Date.now() - Date.parse(record.createdAt)),
     });
   }
 
@@ -1148,7 +2343,10 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       code: input.code,
       bindings,
       tools,
-      context,
+      context: withToolHooks(context, this.options.hooks, {
+        kind: "function",
+        name: functionHookName(state),
+      }),
       limits: state.definition.limits,
     });
   }
@@ -1199,7 +2397,11 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       code: input.code,
       bindings: input.bindings,
       tools: state.definition.tools,
-      context,
+      context: withToolHooks(context, this.options.hooks, {
+        kind: "agent",
+        name: state.definition.name,
+        ...threadHookScope(input.runId),
+      }),
       limits: state.definition.limits,
     });
   }
@@ -1402,6 +2604,38 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     return identity;
   }
 
+  private quotaSubjects(identity: FlaryIdentity, name?: string): FlaryQuotaSubject[] {
+    const quotas = this.options.quotas;
+    const subjects: FlaryQuotaSubject[] = [];
+    if (quotas?.tenant) {
+      subjects.push({ scope: "tenant", key: identity.tenantId, limits: quotas.tenant });
+    }
+    if (quotas?.user && identity.userId) {
+      subjects.push({
+        scope: "user",
+        key: `${identity.tenantId}/${identity.userId}`,
+        limits: quotas.user,
+      });
+    }
+    if (quotas?.agent && name) {
+      subjects.push({
+        scope: "agent",
+        key: `${identity.tenantId}/${name}`,
+        limits: quotas.agent,
+      });
+    }
+    return subjects;
+  }
+
+  private quotaStore(bindings: TBindings): FlaryQuotaStore {
+    if (this.options.quotas?.store) return this.options.quotas.store;
+    const namespace = isRecord(bindings) ? bindings.FLARY_RUN_SERVICE : undefined;
+    if (isRecord(namespace) && typeof namespace.idFromName === "function") {
+      return createFlaryDurableQuotaStore({ namespace: namespace as never });
+    }
+    return this.#quotaStore;
+  }
+
   private async startState(
     state: FunctionState,
     input: unknown,
@@ -1418,16 +2652,109 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         ? this.defaultBindings()
         : internal.bindings;
     const identity = internal?.identity ?? this.options.defaultIdentity;
+    const callback = this.callbackTarget(options.callback, bindings);
+    const lease = await this.admitQuota(
+      bindings,
+      identity,
+      functionHookName(state),
+      `run:${options.idempotencyKey ?? options.requestId ?? crypto.randomUUID()}`,
+    );
+    try {
+      return await this.startAdmitted(state, parsedInput, options, {
+        bindings,
+        identity,
+        lease,
+        callback,
+      });
+    } catch (error) {
+      await this.releaseQuota(bindings, lease);
+      throw error;
+    }
+  }
+
+  private async startAdmitted(
+    state: FunctionState,
+    parsedInput: unknown,
+    options: FlaryRunOptions & {
+      readonly internal?: Partial<Invocation<TBindings>>;
+    },
+    admitted: {
+      readonly bindings: TBindings;
+      readonly identity?: FlaryIdentity;
+      readonly lease?: FlaryQuotaLease;
+      readonly callback?: CallbackTarget;
+    },
+  ): Promise<FlaryRun<unknown>> {
+    const { bindings, identity, lease, callback } = admitted;
+    const functionId = state.functionId ?? state.definition.name;
+    const internal = options.internal;
+    const startedAt = Date.now();
+    // Checked before the run starts: an unpriced model fails closed.
+    const pricing = state.definition.limits?.costUsd !== undefined || this.options.quotas
+      ? spendPricing(
+          this.pricing,
+          pricedFunctionModels(state.definition, this.options.model, state.repair),
+          state.definition.limits?.costUsd !== undefined ||
+            quotasLimitSpend(this.options.quotas),
+        )
+      : undefined;
+    await this.functionRunStarting(state, { bindings, identity }, parsedInput);
 
     if (this.hasDurableRuntime()) {
-      const functionId = state.functionId;
-      if (!functionId) {
+      if (!state.functionId) {
         throw new FlaryFunctionError(
           "function_id_missing",
           "A Flue-backed function needs a stable name or must be registered with app.serve().",
           500,
         );
       }
+      const cacheKey = await this.cacheKey(state, parsedInput, identity, bindings);
+      const cached = cacheKey ? await this.cachedOutput(cacheKey.key) : undefined;
+      if (cached) {
+        // A hit is not admitted to Flue. The run service stores it as a
+        // completed run, so it is listed and called back like any other run.
+        await this.releaseQuota(bindings, lease);
+        const trusted = await this.resolveTrustedContext({
+          state,
+          revision: cacheKey!.revision,
+          bindings,
+          identity,
+          request: internal?.request,
+        });
+        const service = this.resolveRunService({
+          bindings,
+          request: internal?.request,
+          waitUntil: internal?.waitUntil,
+        });
+        const handle = await service.create(trusted, CreateRunRequestSchema.parse({
+          requestId: IdentifierSchema.parse(
+            options.requestId ?? `request_${crypto.randomUUID()}`,
+          ),
+          channelId: functionId,
+          input: parsedInput,
+          execution: state.mode === "prompt" ? "agent" : "workflow",
+          ...(options.idempotencyKey
+            ? { idempotencyKey: options.idempotencyKey }
+            : {}),
+          requestedAt: new Date().toISOString(),
+          metadata: ContractJsonObjectSchema.parse({
+            ...(options.metadata ?? {}),
+            flaryFunction: cacheKey!.revision,
+            flaryCacheHit: { ...cached.hit, output: cached.value },
+            ...(callback
+              ? { flaryCallback: { url: callback.url, events: callback.events } }
+              : {}),
+          }),
+        }));
+        return createFlueBackedFlaryRun({
+          service,
+          trusted,
+          runId: handle.runId,
+          initialStatus: handle.status,
+          parseOutput: (value) => parseDurableOutput(state.definition.output, value),
+          cacheHit: cached.hit,
+        });
+      }
       const invocation: Invocation<TBindings> = {
         bindings,
         identity,
@@ -1437,8 +2764,21 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         waitUntil: internal?.waitUntil,
         stepCache: new Map(),
       };
+      // Native functions run their guardrails inside the workflow. A prompt
+      // function is rendered here, so its input guardrails run first.
       const prompt = state.mode === "prompt"
-      ? await this.renderPrompt(state.definition, parsedInput, invocation)
+      ? await this.renderPrompt(
+          state.definition,
+          await this.applyGuardrails(
+            state.definition.guardrails?.input,
+            "input",
+            parsedInput,
+            invocation,
+            undefined,
+            (text) => parseGuardrailRewrite(state.definition.input, text),
+          ),
+          invocation,
+        )
         : undefined;
       const revision = await this.functionRevision(
         state,
@@ -1465,12 +2805,41 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       const metadata = ContractJsonObjectSchema.parse({
         ...(options.metadata ?? {}),
         flaryFunction: revision,
+        ...(state.mode === "prompt"
+          ? {
+              // A dead letter keeps the parsed input, not the rendered prompt.
+              flaryInput: parsedInput,
+              flaryModels: this.functionModels(state.definition),
+            }
+          : {}),
+        ...(state.definition.concurrency
+          ? { flaryConcurrency: concurrencyPolicy(state.definition.concurrency, parsedInput) }
+          : {}),
         ...(state.definition.limits
           ? { flaryLimits: state.definition.limits }
           : {}),
+        ...(pricing
+          ? {
+              flaryPricing: {
+                ...pricing,
+                ...(state.mode === "prompt"
+                  ? {
+                      model: state.definition.model ??
+                        this.options.model ??
+                        "openai/gpt-5",
+                    }
+                  : {}),
+              },
+            }
+          : {}),
         ...(state.definition.delegation
           ? { flaryDelegation: state.definition.delegation }
           : {}),
+        // The Runtime Durable Object releases this slot when the run settles.
+        ...(lease ? { flaryQuota: { ...lease } } : {}),
+        ...(callback
+          ? { flaryCallback: { url: callback.url, events: callback.events } }
+          : {}),
       });
       const request = CreateRunRequestSchema.parse({
         requestId,
@@ -1489,8 +2858,16 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         trusted,
         runId: handle.runId,
         initialStatus: handle.status,
-        parseOutput: (value) =>
-          parseDurableOutput(state.definition.output, value),
+        parseOutput: (value) => {
+          const output = parseDurableOutput(state.definition.output, value);
+          if (cacheKey) {
+            const stored = this.storeOutput(state, cacheKey.key, output);
+            if (internal?.waitUntil) internal.waitUntil(stored);
+            else void stored;
+          }
+          return output;
+        },
+        ...partialOutputOption(state),
       });
     }
 
@@ -1504,24 +2881,205 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       );
     }
 
+    assertInProcessRun(state);
     const runName = state.definition.name ?? "function";
     const id =
       options.idempotencyKey ?? options.requestId ?? makeRunId(runName);
+    // One step cache spans every attempt, so a run resumed after a durable
+    // wait replays completed steps instead of executing them again.
+    const stepCache: Invocation<TBindings>["stepCache"] = new Map();
+    const meter = quotaMeter();
     return this.runStore.create({
       runId: id,
-      execute: (signal) =>
-        state.invoke(parsedInput, {
+      execute: (signal, inbox, reporter) => {
+        const work = state.invoke(parsedInput, {
           bindings,
           identity,
           request: internal?.request,
           signal: options.signal ?? signal,
           runId: id,
           idempotencyKey: options.idempotencyKey,
-          stepCache: new Map(),
+          stepCache,
+          inbox,
+          progress: reporter.progress,
+          partial: reporter.partial,
+          repair: reporter.repair,
+          cacheHit: reporter.cacheHit,
+          fallback: reporter.fallback,
+          guardrail: reporter.guardrail,
+          usage: meter.usage,
+        });
+        return this.sendCallback(
+          callback,
+          { bindings, runId: id, functionId, signal, waitUntil: internal?.waitUntil },
+          this.settleQuota(
+            bindings,
+            lease,
+            meter.charge,
+            this.functionRunSettled(state, { bindings, identity, runId: id }, startedAt, work),
+          ),
+        );
+      },
+    });
+  }
+
+  /**
+   * Check a run callback and find its signing key. The Cloudflare host signs
+   * in the Runtime Durable Object, so it needs the binding.
+   */
+  private callbackTarget(
+    callback: FlaryRunCallback | undefined,
+    bindings: TBindings,
+  ): CallbackTarget | undefined {
+    if (!callback) return undefined;
+    const target = parseRunCallback(callback, {
+      ...(this.options.callbacks?.allowedHosts
+        ? { allowedHosts: this.options.callbacks.allowedHosts }
+        : {}),
+    });
+    const binding = isRecord(bindings) ? bindings.FLARY_CALLBACK_SECRET : undefined;
+    const secret = this.hasDurableRuntime()
+      ? binding
+      : this.options.callbacks?.secret ?? binding;
+    if (typeof secret !== "string" || secret.length === 0) {
+      throw new FlaryFunctionError(
+        "callback_secret_missing",
+        "Run callbacks need the FLARY_CALLBACK_SECRET binding or callbacks.secret.",
+        500,
+      );
+    }
+    return { ...target, secret };
+  }
+
+  /** Send the callback of an in-process run when its work settles or pauses. */
+  private async sendCallback<T>(
+    callback: CallbackTarget | undefined,
+    run: {
+      readonly bindings: TBindings;
+      readonly runId: string;
+      readonly functionId?: string;
+      readonly signal: AbortSignal;
+      readonly waitUntil?: (work: Promise<unknown>) => void;
+    },
+    work: Promise<T>,
+  ): Promise<T> {
+    if (!callback) return work;
+    const send = (
+      event: FlaryCallbackEvent,
+      result: { readonly output?: unknown; readonly error?: unknown },
+    ) => {
+      if (!callback.events.includes(event)) return;
+      const failure = result.error === undefined
+        ? undefined
+        : {
+            code: result.error instanceof FlaryFunctionError
+              ? result.error.code
+              : "run_failed",
+            message: result.error instanceof Error
+              ? result.error.message
+              : String(result.error),
+          };
+      const delivery = deliverFlaryCallback(
+        callbackMessage({
+          url: callback.url,
+          event,
+          runId: run.runId,
+          ...(run.functionId ? { functionId: run.functionId } : {}),
+          ...(event === "completed" ? { output: result.output } : {}),
+          ...(failure ? { error: failure } : {}),
         }),
+        {
+          secret: callback.secret,
+          log: this.callbackLog(run.bindings),
+          ...(this.options.callbacks?.maxAttempts
+            ? { maxAttempts: this.options.callbacks.maxAttempts }
+            : {}),
+          ...(this.options.callbacks?.retryDelaySeconds !== undefined
+            ? { retryDelaySeconds: this.options.callbacks.retryDelaySeconds }
+            : {}),
+          ...(this.options.callbacks?.fetch ? { fetch: this.options.callbacks.fetch } : {}),
+        },
+      ).catch(() => undefined);
+      if (run.waitUntil) run.waitUntil(delivery);
+    };
+    try {
+      const output = await work;
+      send(run.signal.aborted ? "cancelled" : "completed", { output });
+      return output;
+    } catch (error) {
+      send(
+        run.signal.aborted
+          ? "cancelled"
+          : error instanceof FlaryRunPausedError
+            ? "paused"
+            : "failed",
+        { error },
+      );
+      throw error;
+    }
+  }
+
+  private memoryStore(bindings: TBindings): FlaryMemoryStore {
+    if (this.options.memory?.store) return this.options.memory.store;
+    const namespace = isRecord(bindings) ? bindings.FLARY_RUN_SERVICE : undefined;
+    if (isRecord(namespace) && typeof namespace.idFromName === "function") {
+      return createFlaryDurableMemoryStore({ namespace: namespace as never });
+    }
+    return this.#memoryStore;
+  }
+
+  /**
+   * The application ID of `app` memory and prompt rollouts. It belongs to
+   * this application, whoever calls it.
+   */
+  private scopedApplicationId(): string {
+    return this.options.applicationId ?? this.options.name ?? "flary";
+  }
+
+  private memoryConnection(
+    source: FlaryMemorySource,
+    input: { readonly bindings: TBindings; readonly context: FlaryStepContext<TBindings> },
+  ) {
+    return createMemoryConnection(source, {
+      store: this.memoryStore(input.bindings),
+      ...(this.options.memory?.index ? { index: this.options.memory.index } : {}),
+      ...(input.context.identity ? { identity: input.context.identity } : {}),
+      applicationId: this.scopedApplicationId(),
     });
   }
 
+  private callbackLog(bindings: TBindings): FlaryCallbackLog {
+    if (this.options.callbacks?.log) return this.options.callbacks.log;
+    const namespace = isRecord(bindings) ? bindings.FLARY_RUN_SERVICE : undefined;
+    if (
+      this.hasDurableRuntime() &&
+      isRecord(namespace) &&
+      typeof namespace.idFromName === "function"
+    ) {
+      return createFlaryDurableCallbackLog({ namespace: namespace as never });
+    }
+    return this.#callbackLog;
+  }
+
+  /** Release a quota slot when its work settles. A paused run keeps it. */
+  private async settleQuota<T>(
+    bindings: TBindings,
+    lease: FlaryQuotaLease | undefined,
+    charge: FlaryQuotaCharge,
+    work: Promise<T>,
+  ): Promise<T> {
+    try {
+      const value = await work;
+      await this.releaseQuota(bindings, lease, charge);
+      return value;
+    } catch (error) {
+      if (!(error instanceof FlaryRunPausedError)) {
+        await this.releaseQuota(bindings, lease, charge);
+      }
+      throw error;
+    }
+  }
+
   private async renderPrompt(
     definition: FlaryFunctionOptions<any, any, any>,
     input: unknown,
@@ -1534,15 +3092,102 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         500,
       );
     }
-    return typeof definition.prompt === "function"
-      ? definition.prompt(input, this.contextFor(invocation, definition.limits?.steps))
-      : definition.prompt;
+    return this.promptText(
+      definition,
+      input,
+      this.contextFor(invocation, definition.limits?.steps),
+    );
   }
 
-  private async functionRevision(
-    state: FunctionState,
-    prompt: string | undefined,
-    bindings: TBindings,
+  /** Render the prompt of a function for one call. */
+  private async promptText(
+    definition: FlaryFunctionOptions<any, any, any>,
+    input: unknown,
+    context: FlaryStepContext<any>,
+  ): Promise<string> {
+    const prompt = definition.prompt;
+    if (isFlaryPrompt(prompt)) {
+      return renderFlaryPrompt(
+        selectFlaryPrompt(prompt, {
+          ...(context.identity ? { identity: context.identity } : {}),
+          ...(context.runId ? { runId: context.runId } : {}),
+          applicationId: this.scopedApplicationId(),
+        }),
+        input,
+      );
+    }
+    return typeof prompt === "function" ? prompt(input, context) : prompt ?? "";
+  }
+
+  /**
+   * Apply the frontmatter of a prompt to a function or agent. A setting given
+   * in both places must agree, and frontmatter tools pick registry entries.
+   */
+  private withPromptSettings<
+    T extends {
+      readonly model?: string;
+      readonly thinking?: string;
+      readonly tools?: FlaryToolRegistry;
+      readonly limits?: FlaryLimits;
+    },
+  >(definition: T, prompt: FlaryPrompt): T {
+    const settings = promptSettings(prompt.prompt);
+    for (const key of ["model", "thinking"] as const) {
+      if (settings[key] && definition[key] && settings[key] !== definition[key]) {
+        throw new FlaryFunctionError(
+          "prompt_settings_conflict",
+          `Prompt '${prompt.slug}' sets ${key} '${settings[key]}', but the definition sets '${definition[key]}'.`,
+          400,
+        );
+      }
+    }
+    let tools = definition.tools;
+    if (settings.tools.length > 0) {
+      // `docs.search` names a tool of the `docs` entry, which stays whole.
+      const names = [...new Set(settings.tools.map((name) => name.split(".")[0]!))];
+      const missing = names.filter((name) => !tools?.entries[name]);
+      if (missing.length > 0) {
+        throw new FlaryFunctionError(
+          "prompt_tools_missing",
+          `Prompt '${prompt.slug}' uses tools that the definition does not register: ${missing.join(", ")}.`,
+          400,
+        );
+      }
+      tools = this.tools(Object.fromEntries(
+        names.map((name) => [name, definition.tools!.entries[name]!]),
+      ));
+    }
+    return {
+      ...definition,
+      ...(settings.model ? { model: settings.model } : {}),
+      ...(settings.thinking ? { thinking: settings.thinking } : {}),
+      ...(tools ? { tools } : {}),
+      ...(settings.limits ? { limits: { ...settings.limits, ...definition.limits } } : {}),
+    };
+  }
+
+  /**
+   * The model and fallback chain of a durable prompt function. A write
+   * function never changes model after a failed turn.
+   */
+  private functionModels(definition: FlaryFunctionOptions<any, any, any>): {
+    readonly model: string;
+    readonly fallback: readonly string[];
+  } {
+    const specifier = (model: string) =>
+      toFlueModelSpecifier(functionModelSelection(model));
+    return {
+      model: specifier(definition.model ?? this.options.model ?? "openai/gpt-5"),
+      fallback: definition.policy?.operation === "write"
+        ? []
+        : (definition.fallback ?? []).map(specifier),
+    };
+  }
+
+  private async functionRevision(
+    state: FunctionState,
+    prompt: string | undefined,
+    bindings: TBindings,
     identity: FlaryIdentity | undefined,
     invocation: Invocation<TBindings>,
     resolveSources = true,
@@ -1631,7 +3276,9 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
           ? state.definition.run.toString()
           : typeof state.definition.prompt === "function"
             ? state.definition.prompt.toString()
-            : state.definition.prompt,
+            : isFlaryPrompt(state.definition.prompt)
+              ? promptRevision(state.definition.prompt)
+              : state.definition.prompt,
       inputSchemaHash,
       outputSchemaHash,
       toolRegistryRevision,
@@ -1779,9 +3426,164 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       initialStatus: current.status,
       parseOutput: (value) =>
         parseDurableOutput(state.definition.output, value),
+      ...partialOutputOption(state),
+    });
+  }
+
+  /** Resolve the run service and trusted scope of a durable function. */
+  private async durableScope(
+    state: FunctionState,
+    input: DurableScopeInput<TBindings>,
+  ): Promise<DurableScope<TBindings>> {
+    if (!this.hasDurableRuntime()) {
+      throw new FlaryFunctionError(
+        "flue_runtime_missing",
+        "This function does not use the Flue run service.",
+        404,
+      );
+    }
+    const bindings = input.bindings ?? this.defaultBindings();
+    const identity = input.identity ?? this.options.defaultIdentity;
+    const revision = await this.functionRevision(
+      state,
+      undefined,
+      bindings,
+      identity,
+      {
+        bindings,
+        identity,
+        request: input.request,
+        signal: input.request?.signal ?? new AbortController().signal,
+        stepCache: new Map(),
+      },
+      false,
+    );
+    const trusted = await this.resolveTrustedContext({
+      state,
+      revision,
+      bindings,
+      identity,
+      request: input.request,
     });
+    const service = this.resolveRunService({ bindings, request: input.request });
+    return { service, trusted, revision, bindings, identity };
+  }
+
+  private async deadLetterScope(
+    state: FunctionState,
+    input: DurableScopeInput<TBindings>,
+  ): Promise<DurableScope<TBindings>> {
+    const scope = await this.durableScope(state, input);
+    const { service } = scope;
+    if (!service.listDeadLetters || !service.getDeadLetter || !service.replay) {
+      throw new FlaryFunctionError(
+        "dead_letters_unsupported",
+        "The run service does not keep dead letters.",
+        501,
+      );
+    }
+    return scope;
+  }
+
+  private async replayDeadLetters(
+    state: FunctionState,
+    runIds: readonly string[],
+    options: FlaryReplayOptions<TBindings> & {
+      readonly request?: Request;
+      readonly waitUntil?: (work: Promise<unknown>) => void;
+    },
+  ): Promise<FlaryRun<unknown>[]> {
+    const scope = await this.deadLetterScope(state, options);
+    const { service, bindings, identity } = scope;
+    // Every ID is checked before the first replay starts, so an unknown ID
+    // does not leave the batch half replayed.
+    const letters: {
+      readonly runId: string;
+      readonly input: unknown;
+      readonly revision?: FlaryFunctionRevision;
+    }[] = [];
+    for (const runId of runIds) {
+      const letter = await service.getDeadLetter!(scope.trusted, runId);
+      if (letter.channelId !== state.functionId) {
+        throw new FlaryFunctionError(
+          "dead_letter_not_found",
+          "The dead letter was not found.",
+          404,
+        );
+      }
+      if (letter.replayedRunId && !options.force) {
+        throw new FlaryFunctionError(
+          "dead_letter_replayed",
+          `The dead letter was already replayed by run ${letter.replayedRunId}.`,
+          409,
+        );
+      }
+      letters.push({
+        runId,
+        input: letter.input,
+        ...(letter.revision ? { revision: FunctionRevisionSchema.parse(letter.revision) } : {}),
+      });
+    }
+    const runs: FlaryRun<unknown>[] = [];
+    for (const letter of letters) {
+      const runId = letter.runId;
+      if (options.revision === "current") {
+        runs.push(await this.startState(state, letter.input, {
+          metadata: {
+            flaryReplayOf: runId,
+            ...(options.force ? { flaryReplayForce: true } : {}),
+          },
+          internal: {
+            bindings,
+            identity,
+            request: options.request,
+            waitUntil: options.waitUntil,
+          },
+        }));
+        continue;
+      }
+      const requestId = `request_${crypto.randomUUID()}`;
+      const lease = await this.admitQuota(
+        bindings,
+        identity,
+        functionHookName(state),
+        `run:${requestId}`,
+      );
+      try {
+        const handle = await service.replay!(scope.trusted, runId, {
+          requestId,
+          ...(lease ? { metadata: { flaryQuota: { ...lease } } } : {}),
+          ...(options.force ? { force: true } : {}),
+        });
+        // The replay belongs to the failed revision, so it is read with it.
+        const trusted = letter.revision
+          ? await this.resolveTrustedContext({
+              state,
+              revision: letter.revision,
+              bindings,
+              identity,
+              request: options.request,
+              runId: handle.runId,
+            })
+          : scope.trusted;
+        runs.push(createFlueBackedFlaryRun({
+          service,
+          trusted,
+          runId: handle.runId,
+          initialStatus: handle.status,
+          parseOutput: (value) =>
+            parseDurableOutput(state.definition.output, value),
+          ...partialOutputOption(state),
+        }));
+      } catch (error) {
+        await this.releaseQuota(bindings, lease);
+        throw error;
+      }
+    }
+    return runs;
   }
 
+  /** Start a durable run of a function and stream its events. */
   private streamState(
     state: FunctionState,
     input: unknown,
@@ -1794,24 +3596,268 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     })();
   }
 
+  /** Serve a cached output, or invoke the function and cache its output. */
+  private async invokeCached(
+    state: FunctionState,
+    input: unknown,
+    invocation: Invocation<any>,
+  ): Promise<unknown> {
+    const key = state.definition.cache
+      ? (await this.cacheKey(
+          state,
+          state.definition.input.parse(input),
+          invocation.identity ?? this.options.defaultIdentity,
+          invocation.bindings,
+        ))?.key
+      : undefined;
+    if (key) {
+      const cached = await this.cachedOutput(key);
+      if (cached) {
+        invocation.cacheHit?.(cached.hit);
+        return cached.value;
+      }
+    }
+    const value = await this.invokeDefinition(state, input, invocation);
+    if (key) await this.storeOutput(state, key, value);
+    return value;
+  }
+
+  /**
+   * Key one call by function revision, scope, and input hash. Returns
+   * undefined when the function has no cache or the call has no tenant.
+   */
+  private async cacheKey(
+    state: FunctionState,
+    parsedInput: unknown,
+    identity: FlaryIdentity | undefined,
+    bindings: TBindings,
+  ): Promise<{ readonly key: string; readonly revision: FlaryFunctionRevision } | undefined> {
+    const cache = state.definition.cache;
+    if (!cache) return undefined;
+    const scope = cacheScope(cache, identity?.tenantId);
+    if (!scope) return undefined;
+    const functionId = cacheFunctionId(state);
+    const revision = await this.functionRevision(
+      state,
+      undefined,
+      bindings,
+      identity,
+      { bindings, signal: new AbortController().signal, stepCache: new Map() },
+      false,
+    );
+    return {
+      key: `${cachePrefix(functionId, scope)}${cacheInputHash(cache, parsedInput)}:${revision.buildHash}`,
+      revision,
+    };
+  }
+
+  private async cachedOutput(
+    key: string,
+  ): Promise<{ readonly value: unknown; readonly hit: FlaryCacheHit } | undefined> {
+    let entry;
+    try {
+      entry = await this.resultCache.get(key);
+    } catch {
+      // The cache is an optimization. An unavailable store is a miss.
+      return undefined;
+    }
+    if (!entry || Date.parse(entry.expiresAt) <= Date.now()) return undefined;
+    return {
+      value: entry.value,
+      hit: { key, storedAt: entry.storedAt, expiresAt: entry.expiresAt },
+    };
+  }
+
+  private async storeOutput(
+    state: FunctionState,
+    key: string,
+    value: unknown,
+  ): Promise<void> {
+    const storedAt = Date.now();
+    try {
+      await this.resultCache.put(key, {
+        value,
+        storedAt: new Date(storedAt).toISOString(),
+        expiresAt: new Date(
+          storedAt + durationMs(state.definition.cache!.ttl),
+        ).toISOString(),
+      });
+    } catch {
+      // A failed write only costs a later miss; the caller keeps its output.
+    }
+  }
+
   private async invokeDefinition(
-    definition: FlaryFunctionOptions<any, any, any>,
+    state: FunctionState,
     input: unknown,
     invocation: Invocation<any>,
   ): Promise<unknown> {
-    const parsedInput = definition.input.parse(input);
+    const definition = state.definition;
     const context = this.contextFor(invocation, definition.limits?.steps);
+    const parsedInput = await this.applyGuardrails(
+      definition.guardrails?.input,
+      "input",
+      definition.input.parse(input),
+      context,
+      invocation.guardrail,
+      (text) => parseGuardrailRewrite(definition.input, text),
+    );
     let value: unknown;
     if (typeof definition.run === "function") {
       value = await definition.run(parsedInput, context);
     } else {
-      const prompt =
-        typeof definition.prompt === "function"
-          ? await definition.prompt(parsedInput, context)
-          : definition.prompt;
-      value = await this.runPrompt(definition, prompt, context);
+      const prompt = await this.promptText(definition, parsedInput, context);
+      value = await this.runPrompt(definition, prompt, context, invocation, {
+        name: functionHookName(state),
+        ...(state.repair ? { repair: state.repair } : {}),
+      });
+    }
+    return this.applyGuardrails(
+      definition.guardrails?.output,
+      "output",
+      definition.output.parse(value),
+      context,
+      invocation.guardrail,
+      (text) => parseGuardrailRewrite(definition.output, text),
+    );
+  }
+
+  /** Call `onRunStart` before a function run is admitted. */
+  private async functionRunStarting(
+    state: FunctionState,
+    event: Pick<FlaryHookEvent<TBindings>, "bindings" | "identity" | "runId">,
+    input: unknown,
+  ): Promise<void> {
+    await this.options.hooks?.onRunStart?.({
+      kind: "function",
+      name: functionHookName(state),
+      ...event,
+      input,
+    });
+  }
+
+  /** Call `onRunEnd` once the run settles. A paused run has not ended. */
+  private async functionRunSettled<T>(
+    state: FunctionState,
+    event: Pick<FlaryHookEvent<TBindings>, "bindings" | "identity" | "runId">,
+    startedAt: number,
+    work: Promise<T>,
+  ): Promise<T> {
+    const hooks = this.options.hooks;
+    if (!hooks?.onRunEnd) return work;
+    const base = { kind: "function" as const, name: functionHookName(state), ...event };
+    try {
+      const output = await work;
+      await notifyHook(hooks.onRunEnd.bind(hooks), {
+        ...base,
+        status: "completed",
+        output,
+        durationMs: Date.now() - startedAt,
+      });
+      return output;
+    } catch (error) {
+      if (!(error instanceof FlaryRunPausedError)) {
+        await notifyHook(hooks.onRunEnd.bind(hooks), {
+          ...base,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startedAt,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run guardrails in order. A rewrite replaces the value that the next
+   * guardrail sees, and a block ends the call with `guardrail_blocked`.
+   */
+  private async applyGuardrails<T>(
+    guardrails: readonly FlaryGuardrail<any>[] | undefined,
+    stage: "input" | "output",
+    value: T,
+    context: FlaryGuardrailContext<any>,
+    report: ((trip: FlaryGuardrailTrip) => void) | undefined,
+    parseRewrite: (text: string) => T,
+  ): Promise<T> {
+    let current = value;
+    for (const guardrail of guardrails ?? []) {
+      const name = guardrailName(guardrail);
+      const verdict = await this.guardrailVerdict(guardrail, name, {
+        stage,
+        text: typeof current === "string" ? current : JSON.stringify(current) ?? "",
+        value: current,
+      }, context);
+      if (!verdict || verdict.action === "allow") continue;
+      report?.({
+        stage,
+        guardrail: name,
+        action: verdict.action,
+        ...(verdict.reason ? { reason: verdict.reason } : {}),
+      });
+      if (verdict.action === "block") {
+        throw new FlaryFunctionError(
+          "guardrail_blocked",
+          verdict.reason ?? `Guardrail '${name}' blocked the ${stage}.`,
+          stage === "input" ? 400 : 422,
+          { stage, guardrail: name },
+        );
+      }
+      current = parseRewrite(verdict.text!);
+    }
+    return current;
+  }
+
+  private async guardrailVerdict(
+    guardrail: FlaryGuardrail<any>,
+    name: string,
+    input: FlaryGuardrailInput,
+    context: FlaryGuardrailContext<any>,
+  ): Promise<FlaryGuardrailVerdict | undefined> {
+    if (isModerationGuardrail(guardrail)) {
+      const result = await this.moderate(
+        {
+          ...(guardrail.model ? { model: guardrail.model } : {}),
+          input: input.text,
+        },
+        {
+          bindings: context.bindings,
+          identity: context.identity,
+          signal: context.signal,
+        },
+      );
+      const flagged = [...new Set(result.results.flatMap((item) =>
+        Object.entries(item.categories)
+          .filter(([, value]) => value)
+          .map(([category]) => category)
+      ))];
+      const blocked = guardrail.categories
+        ? flagged.some((category) => guardrail.categories!.includes(category))
+        : result.results.some((item) => item.flagged);
+      if (!blocked) return undefined;
+      return {
+        action: "block",
+        reason: flagged.length > 0
+          ? `Moderation flagged the ${input.stage}: ${flagged.join(", ")}.`
+          : `Moderation flagged the ${input.stage}.`,
+      };
+    }
+    // A Flary function is called with the input only. Its output schema is
+    // checked here like the return value of a plain check.
+    const value = await (guardrail as FlaryGuardrailCheck<any>)(input, context);
+    if (value === undefined || value === null) return undefined;
+    const verdict = GuardrailVerdictSchema.safeParse(value);
+    if (
+      !verdict.success ||
+      (verdict.data.action === "rewrite" && verdict.data.text === undefined)
+    ) {
+      throw new FlaryFunctionError(
+        "invalid_guardrail_verdict",
+        `Guardrail '${name}' returned an invalid verdict.`,
+        500,
+      );
     }
-    return definition.output.parse(value);
+    return verdict.data;
   }
 
   private contextFor(
@@ -1824,92 +3870,96 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       signal: invocation.signal,
       runId: invocation.runId,
       idempotencyKey: invocation.idempotencyKey,
-      step: async <TInput, TOutput>(
+      step: <TInput, TOutput>(
         name: string,
         fn: FlaryCallableLike<TInput, TOutput>,
         input: TInput,
+      ) => this.runStep(invocation, name, fn, input, stepLimit),
+      map: async <TItem, TOutput>(
+        name: string,
+        items: readonly TItem[],
+        fn: FlaryCallableLike<TItem, TOutput>,
+        options?: FlaryStepMapOptions,
+      ) => this.fanOut(
+        invocation,
+        name,
+        items.map((input) => ({ fn, input })),
+        options,
+        stepLimit,
+      ) as Promise<TOutput[]>,
+      parallel: async (name, steps, options) =>
+        this.fanOut(invocation, name, steps, options, stepLimit) as never,
+      sleep: async (name, duration) => {
+        const ms = durationMs(duration);
+        const record = await this.durableWait(
+          invocation,
+          name,
+          stableJson({ kind: "sleep", duration }),
+          () => ({ wakeAt: new Date(Date.now() + ms).toISOString() }),
+          stepLimit,
+        );
+        const wakeAt = String(record.wakeAt);
+        if (Date.parse(wakeAt) > Date.now()) {
+          throw new FlaryRunPausedError({ kind: "sleep", name, resumeAt: wakeAt });
+        }
+      },
+      waitForEvent: async <TPayload>(
+        name: string,
+        options: { readonly type: string; readonly timeout?: number | string },
       ) => {
-        if (!isSafeName(name)) {
+        if (typeof options.type !== "string" || options.type.length === 0) {
           throw new FlaryFunctionError(
-            "unsafe_step_name",
-            `Step name '${name}' is not safe.`,
+            "wait_event_type_invalid",
+            `Event wait '${name}' needs a non-empty event type.`,
             400,
           );
         }
-        const target = getFunctionState(fn);
-        if (!target) {
-          throw new FlaryFunctionError(
-            "invalid_step_function",
-            `Step '${name}' must use a Flary function.`,
-            400,
-          );
+        const timeoutMs = options.timeout === undefined
+          ? undefined
+          : durationMs(options.timeout);
+        const inputHash = stableJson({
+          kind: "event",
+          type: options.type,
+          timeout: options.timeout ?? null,
+        });
+        const record = await this.durableWait(
+          invocation,
+          name,
+          inputHash,
+          () => timeoutMs === undefined
+            ? {}
+            : { deadline: new Date(Date.now() + timeoutMs).toISOString() },
+          stepLimit,
+        );
+        if (isRecord(record.event)) {
+          return record.event as unknown as FlaryReceivedEvent<TPayload>;
         }
-        const key = `${invocation.runId ?? "local"}:${name}`;
-        const inputKey = stableJson(input);
-        const prior = invocation.stepCache.get(key);
-        if (prior) {
-          if (prior.input !== inputKey) {
-            throw new FlaryFunctionError(
-              "step_input_changed",
-              `Step '${name}' received different input during replay.`,
-              409,
-            );
-          }
-          return prior.value as Promise<TOutput>;
+        const inbox = invocation.inbox ?? [];
+        const index = inbox.findIndex((event) => event.type === options.type);
+        if (index >= 0) {
+          const [event] = inbox.splice(index, 1);
+          await this.saveDurableWait(invocation, name, inputHash, {
+            ...record,
+            event,
+          });
+          return event as FlaryReceivedEvent<TPayload>;
         }
-        if (stepLimit !== undefined && invocation.stepCache.size >= stepLimit) {
+        const deadline = typeof record.deadline === "string"
+          ? record.deadline
+          : undefined;
+        if (deadline && Date.parse(deadline) <= Date.now()) {
           throw new FlaryFunctionError(
-            "function_step_limit",
-            `The function exceeded its ${stepLimit} step limit.`,
+            "wait_for_event_timeout",
+            `Event wait '${name}' timed out before a '${options.type}' event arrived.`,
             408,
           );
         }
-        const stepStore = invocation.stepStore ?? this.stepStore;
-        if (invocation.runId && stepStore) {
-          const durable = await stepStore.get({
-            runId: invocation.runId,
-            name,
-          });
-          if (durable) {
-            if (durable.inputHash !== inputKey) {
-              throw new FlaryFunctionError(
-                "step_input_changed",
-                `Step '${name}' received different input during replay.`,
-                409,
-              );
-            }
-            const restored = Promise.resolve(
-              target.definition.output.parse(durable.value),
-            ) as Promise<TOutput>;
-            invocation.stepCache.set(key, { input: inputKey, value: restored });
-            return restored;
-          }
-        }
-        const value = target.invoke(input, {
-          bindings: invocation.bindings,
-          identity: invocation.identity,
-          request: invocation.request,
-          signal: invocation.signal,
-          runId: invocation.runId,
-          idempotencyKey: invocation.idempotencyKey
-            ? `${invocation.idempotencyKey}_${name}`
-            : undefined,
-          stepStore: invocation.stepStore,
-          stepCache: invocation.stepCache,
+        throw new FlaryRunPausedError({
+          kind: "event",
+          name,
+          eventType: options.type,
+          ...(deadline ? { resumeAt: deadline } : {}),
         });
-        const persisted = stepStore && invocation.runId
-          ? value.then(async (result) => {
-              await stepStore.put({
-                runId: invocation.runId!,
-                name,
-                inputHash: inputKey,
-                value: result,
-              });
-              return result;
-            })
-          : value;
-        invocation.stepCache.set(key, { input: inputKey, value: persisted });
-        return persisted as Promise<TOutput>;
       },
       log: {
         info: (message, attributes) => log("info", message, attributes),
@@ -1919,11 +3969,726 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     };
   }
 
+  /**
+   * Run or replay one named step. The result is cached for the invocation
+   * and, when the run has a step store, persisted under the step name.
+   */
+  private async runStep<TInput, TOutput>(
+    invocation: Invocation<any>,
+    name: string,
+    fn: FlaryCallableLike<TInput, TOutput>,
+    input: TInput,
+    stepLimit?: number,
+  ): Promise<TOutput> {
+    if (!isSafeName(name)) {
+      throw new FlaryFunctionError(
+        "unsafe_step_name",
+        `Step name '${name}' is not safe.`,
+        400,
+      );
+    }
+    const target = getFunctionState(fn);
+    if (!target) {
+      throw new FlaryFunctionError(
+        "invalid_step_function",
+        `Step '${name}' must use a Flary function.`,
+        400,
+      );
+    }
+    const key = `${invocation.runId ?? "local"}:${name}`;
+    const inputKey = stableJson(input);
+    const prior = invocation.stepCache.get(key);
+    if (prior) {
+      if (prior.input !== inputKey) {
+        throw new FlaryFunctionError(
+          "step_input_changed",
+          `Step '${name}' received different input during replay.`,
+          409,
+        );
+      }
+      return prior.value as Promise<TOutput>;
+    }
+    if (stepLimit !== undefined && invocation.stepCache.size >= stepLimit) {
+      throw new FlaryFunctionError(
+        "function_step_limit",
+        `The function exceeded its ${stepLimit} step limit.`,
+        408,
+      );
+    }
+    const stepStore = invocation.stepStore ?? this.stepStore;
+    if (invocation.runId && stepStore) {
+      const durable = await stepStore.get({
+        runId: invocation.runId,
+        name,
+      });
+      if (durable) {
+        if (durable.inputHash !== inputKey) {
+          throw new FlaryFunctionError(
+            "step_input_changed",
+            `Step '${name}' received different input during replay.`,
+            409,
+          );
+        }
+        const restored = Promise.resolve(
+          target.definition.output.parse(durable.value),
+        ) as Promise<TOutput>;
+        invocation.stepCache.set(key, { input: inputKey, value: restored });
+        return restored;
+      }
+    }
+    const value = target.invoke(input, {
+      bindings: invocation.bindings,
+      identity: invocation.identity,
+      request: invocation.request,
+      signal: invocation.signal,
+      runId: invocation.runId,
+      idempotencyKey: invocation.idempotencyKey
+        ? `${invocation.idempotencyKey}_${name}`
+        : undefined,
+      stepStore: invocation.stepStore,
+      stepCache: invocation.stepCache,
+      inbox: invocation.inbox,
+      progress: invocation.progress,
+      repair: invocation.repair,
+      fallback: invocation.fallback,
+      guardrail: invocation.guardrail,
+      usage: invocation.usage,
+    });
+    const persisted = stepStore && invocation.runId
+      ? value.then(async (result) => {
+          await stepStore.put({
+            runId: invocation.runId!,
+            name,
+            inputHash: inputKey,
+            value: result,
+          });
+          return result;
+        })
+      : value;
+    invocation.stepCache.set(key, { input: inputKey, value: persisted });
+    return persisted as Promise<TOutput>;
+  }
+
+  /**
+   * Start a batch as one parent run. Every input settles as one item, so a
+   * failed item does not fail the batch.
+   */
+  private async startBatch(
+    state: FunctionState,
+    inputs: readonly unknown[],
+    options: FlaryBatchOptions,
+  ): Promise<FlaryRun<FlaryBatchResult>> {
+    const concurrency = options.concurrency ?? DEFAULT_MAP_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new FlaryFunctionError(
+        "invalid_batch_concurrency",
+        "Batch concurrency must be a positive integer.",
+        400,
+      );
+    }
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_BATCH_POLL_MS;
+    if (!Number.isFinite(pollIntervalMs) || pollIntervalMs < 0) {
+      throw new FlaryFunctionError(
+        "invalid_batch_poll_interval",
+        "Batch pollIntervalMs must be a non-negative number.",
+        400,
+      );
+    }
+    // Every input is parsed before the batch is admitted, like a single run.
+    const parsedInputs = inputs.map((input) => state.definition.input.parse(input));
+    if (this.hasDurableRuntime()) {
+      return this.startDurableBatch(state, parsedInputs, options, {
+        concurrency,
+        pollIntervalMs,
+      });
+    }
+    assertInProcessRun(state);
+    const bindings = this.defaultBindings();
+    const identity = this.options.defaultIdentity;
+    const runId = options.idempotencyKey ??
+      makeRunId(`${state.definition.name ?? "function"}_batch`);
+    const lease = await this.admitQuota(
+      bindings,
+      identity,
+      functionHookName(state),
+      `run:${runId}`,
+    );
+    const meter = quotaMeter();
+    try {
+      return await this.runStore.create<FlaryBatchResult>({
+        runId,
+        execute: (signal, _inbox, reporter) => {
+          const items: FlaryBatchItem[] = new Array(parsedInputs.length);
+          let completed = 0;
+          let failed = 0;
+          const settle = (item: FlaryBatchItem): void => {
+            items[item.index] = item;
+            if (item.status === "completed") completed += 1;
+            else failed += 1;
+            reporter.progress({
+              step: "batch",
+              index: item.index,
+              status: item.status === "completed" ? "succeeded" : "failed",
+              completed,
+              failed,
+              total: parsedInputs.length,
+            });
+          };
+          const invocation: Invocation<TBindings> = {
+            bindings,
+            identity,
+            signal: options.signal ?? signal,
+            runId,
+            stepCache: new Map(),
+            usage: meter.usage,
+          };
+          const adapter = options.mode === "concurrent" || parsedInputs.length === 0
+            ? undefined
+            : this.batchAdapter(state, bindings);
+          const work = (async (): Promise<FlaryBatchResult> => {
+            if (adapter) {
+              const providerBatchId = await this.providerBatch(
+                state,
+                adapter,
+                parsedInputs,
+                invocation,
+                settle,
+                () => delay(pollIntervalMs, invocation.signal),
+              );
+              return { mode: "provider-batch", providerBatchId, items };
+            }
+            await this.concurrentBatch(state, parsedInputs, invocation, settle, concurrency);
+            return { mode: "concurrent", items };
+          })();
+          return this.settleQuota(bindings, lease, meter.charge, work);
+        },
+      });
+    } catch (error) {
+      await this.releaseQuota(bindings, lease);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a batch as a durable run of the generated batch workflow. Each
+   * concurrent item is a child run of the function, with its own quota slot,
+   * concurrency key, and dead letter, and the parent waits between polls
+   * with durable sleeps instead of holding an isolate.
+   */
+  private async startDurableBatch(
+    state: FunctionState,
+    inputs: readonly unknown[],
+    options: FlaryBatchOptions,
+    settings: { readonly concurrency: number; readonly pollIntervalMs: number },
+  ): Promise<FlaryRun<FlaryBatchResult>> {
+    const functionId = state.functionId;
+    if (!functionId) {
+      throw new FlaryFunctionError(
+        "function_id_missing",
+        "A Flue-backed function needs a stable name or must be registered with app.serve().",
+        500,
+      );
+    }
+    const bindings = this.defaultBindings();
+    const identity = this.options.defaultIdentity;
+    // The mode is fixed at start, so every attempt of the parent agrees.
+    const mode = options.mode !== "concurrent" &&
+        inputs.length > 0 &&
+        this.batchAdapter(state, bindings)
+      ? "provider-batch" as const
+      : "concurrent" as const;
+    const requestId = `request_${crypto.randomUUID()}`;
+    // Child runs admit their own quota slots. A parent that held one too
+    // could use up a run-count quota its children then wait on.
+    const lease = mode === "provider-batch"
+      ? await this.admitQuota(
+          bindings,
+          identity,
+          functionHookName(state),
+          `run:${options.idempotencyKey ?? requestId}`,
+        )
+      : undefined;
+    try {
+      const { service, trusted, revision } = await this.durableScope(state, {
+        bindings,
+        identity,
+      });
+      const handle = await service.create(trusted, CreateRunRequestSchema.parse({
+        requestId,
+        channelId: functionId,
+        input: {
+          functionId,
+          inputs,
+          mode,
+          ...settings,
+          ...(identity ? { identity } : {}),
+          ...(lease ? { lease } : {}),
+        },
+        execution: "workflow",
+        ...(options.idempotencyKey
+          ? { idempotencyKey: options.idempotencyKey }
+          : {}),
+        requestedAt: new Date().toISOString(),
+        metadata: ContractJsonObjectSchema.parse({
+          flaryFunction: revision,
+          flaryBatch: { mode, size: inputs.length },
+          // The Runtime Durable Object releases this slot when the run settles.
+          ...(lease ? { flaryQuota: { ...lease } } : {}),
+        }),
+      }));
+      return createFlueBackedFlaryRun({
+        service,
+        trusted,
+        runId: handle.runId,
+        initialStatus: handle.status,
+        parseOutput: (value) => parseBatchOutput(state, value),
+      }) as FlaryRun<FlaryBatchResult>;
+    } catch (error) {
+      await this.releaseQuota(bindings, lease);
+      throw error;
+    }
+  }
+
+  /**
+   * The batch adapter of a prompt function. Tool loops, guardrails, and a
+   * custom prompt runner need one call per turn, so they never use it.
+   */
+  private batchAdapter(state: FunctionState, bindings: TBindings): ModelBatchAdapter | undefined {
+    const definition = state.definition;
+    if (
+      state.mode !== "prompt" ||
+      definition.tools ||
+      definition.guardrails ||
+      this.options.prompt
+    ) {
+      return undefined;
+    }
+    const selection = functionModelSelection(
+      definition.model ?? this.options.model ?? "openai/gpt-5",
+    );
+    const adapter = this.resolveAdapter(selection.provider, bindings);
+    return supportsModelBatch(adapter) ? adapter : undefined;
+  }
+
+  /**
+   * Submit one provider batch and wait for it. The batch ID is kept in the
+   * step store, so a retried parent run polls the same batch. `pause` waits
+   * between polls: a timer in process, or a durable sleep in the workflow.
+   */
+  private async providerBatch(
+    state: FunctionState,
+    adapter: ModelBatchAdapter,
+    inputs: readonly unknown[],
+    invocation: Invocation<TBindings>,
+    settle: (item: FlaryBatchItem) => void,
+    pause: (poll: number) => Promise<void>,
+  ): Promise<string> {
+    const definition = state.definition;
+    const runId = invocation.runId!;
+    const signal = invocation.signal;
+    const model = definition.model ?? this.options.model ?? "openai/gpt-5";
+    spendPricing(this.pricing, [model], quotasLimitSpend(this.options.quotas));
+    const selection = functionModelSelection(model);
+    const requests = [];
+    for (const [index, input] of inputs.entries()) {
+      const prompt = await this.renderPrompt(definition, input, invocation);
+      requests.push({
+        customId: `item_${index}`,
+        request: promptModelRequest(definition, selection.model, [
+          { role: "user", content: prompt },
+        ]),
+      });
+    }
+    const inputHash = stableRevision(requests);
+    const stepStore = invocation.stepStore ?? await this.defaultStepStore();
+    const prior = await stepStore?.get({ runId, name: "provider_batch" });
+    if (prior && prior.inputHash !== inputHash) {
+      throw new FlaryFunctionError(
+        "batch_input_changed",
+        `Batch '${runId}' received different input during replay.`,
+        409,
+      );
+    }
+    let batch: ModelBatch = prior
+      ? { id: (prior.value as { batchId: string }).batchId, status: "in_progress" }
+      : await adapter.createBatch(requests, { signal });
+    if (!prior) {
+      await stepStore?.put({
+        runId,
+        name: "provider_batch",
+        inputHash,
+        value: { batchId: batch.id },
+      });
+    }
+    for (let poll = 0; batch.status === "in_progress"; poll += 1) {
+      try {
+        await pause(poll);
+      } catch (error) {
+        // A paused workflow polls the same batch when it resumes.
+        if (!(error instanceof FlaryRunPausedError)) {
+          await adapter.cancelBatch(batch.id).catch(() => undefined);
+        }
+        throw error;
+      }
+      batch = await adapter.getBatch(batch.id, { signal });
+    }
+    const results = new Map(
+      (await adapter.batchResults(batch.id, { signal })).map((result) => [
+        result.customId,
+        result,
+      ]),
+    );
+    for (const index of inputs.keys()) {
+      const childRunId = `${runId}:${index}`;
+      const result = results.get(`item_${index}`);
+      if (!result || "error" in result) {
+        settle({
+          index,
+          runId: childRunId,
+          status: "failed",
+          error: result
+            ? { code: result.error.code, message: result.error.message }
+            : {
+                code: `provider_batch_${batch.status}`,
+                message: `The provider batch ended ${batch.status} without a result for this item.`,
+              },
+        });
+        continue;
+      }
+      const usage = result.response.usage;
+      if (usage) {
+        invocation.usage?.({
+          tokens: usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+          costUsd: priceUsage(this.pricing, model, usage) ?? 0,
+        });
+      }
+      const parsed = safeParseModelOutput(definition.output, result.response.content);
+      settle(
+        parsed.success
+          ? { index, runId: childRunId, status: "completed", output: parsed.data }
+          : {
+              index,
+              runId: childRunId,
+              status: "failed",
+              error: {
+                code: "output_validation_failed",
+                message: "The model output failed the function schema.",
+              },
+            },
+      );
+    }
+    return batch.id;
+  }
+
+  /** Invoke each input as a child run with at most `concurrency` in flight. */
+  private async concurrentBatch(
+    state: FunctionState,
+    inputs: readonly unknown[],
+    invocation: Invocation<TBindings>,
+    settle: (item: FlaryBatchItem) => void,
+    concurrency: number,
+  ): Promise<void> {
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < inputs.length && !invocation.signal.aborted) {
+        const index = next;
+        next += 1;
+        const childRunId = `${invocation.runId}:${index}`;
+        try {
+          const output = await state.invoke(inputs[index], {
+            bindings: invocation.bindings,
+            identity: invocation.identity,
+            signal: invocation.signal,
+            runId: childRunId,
+            usage: invocation.usage,
+          });
+          settle({ index, runId: childRunId, status: "completed", output });
+        } catch (error) {
+          settle({ index, runId: childRunId, status: "failed", error: batchItemError(error) });
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, inputs.length) }, worker),
+    );
+    invocation.signal.throwIfAborted();
+  }
+
+  /**
+   * Start each input as a child run of the function with at most
+   * `concurrency` unsettled, and wait for them with durable sleeps. Started
+   * and settled items are journaled, so a resumed attempt starts no item
+   * twice.
+   */
+  private async childBatch(
+    state: FunctionState,
+    batch: BatchWorkflowInput,
+    invocation: Invocation<TBindings>,
+    settle: (item: FlaryBatchItem) => void,
+    pause: (poll: number) => Promise<void>,
+  ): Promise<void> {
+    const runId = invocation.runId!;
+    const stepStore = invocation.stepStore!;
+    const { service, trusted } = await this.durableScope(state, {
+      bindings: invocation.bindings,
+      identity: invocation.identity,
+    });
+    const started = new Map<number, string>();
+    const pending = new Set<number>();
+    for (const index of batch.inputs.keys()) {
+      const result = await stepStore.get({ runId, name: `batch_result_${index}` });
+      if (result) {
+        settle(result.value as FlaryBatchItem);
+        continue;
+      }
+      const item = await stepStore.get({ runId, name: `batch_item_${index}` });
+      if (item) started.set(index, (item.value as { runId: string }).runId);
+      else pending.add(index);
+    }
+    const finish = async (item: FlaryBatchItem): Promise<void> => {
+      await stepStore.put({
+        runId,
+        name: `batch_result_${item.index}`,
+        inputHash: item.runId,
+        value: item,
+      });
+      started.delete(item.index);
+      settle(item);
+    };
+    for (let poll = 0; ; poll += 1) {
+      for (const [index, childRunId] of started) {
+        const child = await service.get(trusted, childRunId);
+        if (child.status === "completed") {
+          const parsed = safeParseDurableOutput(state.definition.output, child.output);
+          await finish(
+            parsed.success
+              ? { index, runId: childRunId, status: "completed", output: child.output }
+              : {
+                  index,
+                  runId: childRunId,
+                  status: "failed",
+                  error: {
+                    code: "output_validation_failed",
+                    message: "The model output failed the function schema.",
+                  },
+                },
+          );
+        } else if (child.status === "failed" || child.status === "cancelled") {
+          await finish({
+            index,
+            runId: childRunId,
+            status: "failed",
+            error: {
+              code: child.error?.code ?? `run_${child.status}`,
+              message: child.error?.message ?? `The item run was ${child.status}.`,
+            },
+          });
+        }
+      }
+      for (const index of pending) {
+        if (started.size >= batch.concurrency) break;
+        pending.delete(index);
+        try {
+          const child = await this.startState(state, batch.inputs[index], {
+            // A resumed attempt that lost the journal entry finds the same run.
+            idempotencyKey: `${runId}_${index}`,
+            metadata: { flaryBatchParent: runId },
+            internal: {
+              bindings: invocation.bindings,
+              identity: invocation.identity,
+            },
+          });
+          await stepStore.put({
+            runId,
+            name: `batch_item_${index}`,
+            inputHash: String(index),
+            value: { runId: child.runId },
+          });
+          started.set(index, child.runId);
+        } catch (error) {
+          await finish({
+            index,
+            runId: `${runId}_${index}`,
+            status: "failed",
+            error: batchItemError(error),
+          });
+        }
+      }
+      if (started.size === 0 && pending.size === 0) return;
+      await pause(poll);
+    }
+  }
+
+  private async fanOut(
+    invocation: Invocation<any>,
+    name: string,
+    steps: readonly FlaryParallelStep[],
+    options: FlaryStepMapOptions | undefined,
+    stepLimit?: number,
+  ): Promise<unknown[]> {
+    if (!isSafeName(name)) {
+      throw new FlaryFunctionError(
+        "unsafe_step_name",
+        `Step name '${name}' is not safe.`,
+        400,
+      );
+    }
+    const concurrency = options?.concurrency ?? DEFAULT_MAP_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new FlaryFunctionError(
+        "invalid_step_concurrency",
+        `Step '${name}' needs a positive integer concurrency.`,
+        400,
+      );
+    }
+    const results: unknown[] = new Array(steps.length);
+    const failures: { readonly index: number; readonly error: unknown }[] = [];
+    let next = 0;
+    let completed = 0;
+    const worker = async (): Promise<void> => {
+      while (next < steps.length && !invocation.signal.aborted) {
+        const index = next;
+        next += 1;
+        const child = `${name}__${index}`;
+        let status: FlaryStepProgress["status"] = "succeeded";
+        try {
+          results[index] = await this.runStep(
+            invocation,
+            child,
+            steps[index]!.fn,
+            steps[index]!.input,
+            stepLimit,
+          );
+          completed += 1;
+        } catch (error) {
+          // A failed item must not replay its rejection from the cache.
+          invocation.stepCache.delete(`${invocation.runId ?? "local"}:${child}`);
+          failures.push({ index, error });
+          status = "failed";
+        }
+        invocation.progress?.({
+          step: name,
+          index,
+          status,
+          completed,
+          failed: failures.length,
+          total: steps.length,
+        });
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, steps.length) }, worker),
+    );
+    invocation.signal.throwIfAborted();
+    const hard = failures
+      .filter((failure) => !(failure.error instanceof FlaryRunPausedError))
+      .sort((left, right) => left.index - right.index);
+    const first = hard[0];
+    if (first) {
+      const message = first.error instanceof Error
+        ? first.error.message
+        : String(first.error);
+      throw new FlaryFunctionError(
+        "step_items_failed",
+        `${hard.length} of ${steps.length} items in step '${name}' failed. ` +
+          `Item ${first.index}: ${message}`,
+        first.error instanceof FlaryFunctionError ? first.error.status : 500,
+      );
+    }
+    if (failures[0]) throw failures[0].error;
+    return results;
+  }
+
+  /**
+   * Load or create the record for one durable wait. Waits share the step
+   * namespace, so replay detects a changed duration or event type.
+   */
+  private async durableWait(
+    invocation: Invocation<any>,
+    name: string,
+    inputHash: string,
+    initial: () => Record<string, unknown>,
+    stepLimit?: number,
+  ): Promise<Record<string, unknown>> {
+    if (!isSafeName(name)) {
+      throw new FlaryFunctionError(
+        "unsafe_step_name",
+        `Step name '${name}' is not safe.`,
+        400,
+      );
+    }
+    const key = `${invocation.runId ?? "local"}:${name}`;
+    const prior = invocation.stepCache.get(key);
+    if (prior) {
+      if (prior.input !== inputHash) {
+        throw new FlaryFunctionError(
+          "step_input_changed",
+          `Step '${name}' received different input during replay.`,
+          409,
+        );
+      }
+      return objectRecord(await prior.value);
+    }
+    const stepStore = invocation.stepStore ?? this.stepStore;
+    if (invocation.runId && stepStore) {
+      const durable = await stepStore.get({ runId: invocation.runId, name });
+      if (durable) {
+        if (durable.inputHash !== inputHash) {
+          throw new FlaryFunctionError(
+            "step_input_changed",
+            `Step '${name}' received different input during replay.`,
+            409,
+          );
+        }
+        const record = objectRecord(durable.value);
+        invocation.stepCache.set(key, {
+          input: inputHash,
+          value: Promise.resolve(record),
+        });
+        return record;
+      }
+    }
+    if (stepLimit !== undefined && invocation.stepCache.size >= stepLimit) {
+      throw new FlaryFunctionError(
+        "function_step_limit",
+        `The function exceeded its ${stepLimit} step limit.`,
+        408,
+      );
+    }
+    const record = initial();
+    await this.saveDurableWait(invocation, name, inputHash, record);
+    return record;
+  }
+
+  private async saveDurableWait(
+    invocation: Invocation<any>,
+    name: string,
+    inputHash: string,
+    record: Record<string, unknown>,
+  ): Promise<void> {
+    const stepStore = invocation.stepStore ?? this.stepStore;
+    if (invocation.runId && stepStore) {
+      await stepStore.put({
+        runId: invocation.runId,
+        name,
+        inputHash,
+        value: record,
+      });
+    }
+    invocation.stepCache.set(`${invocation.runId ?? "local"}:${name}`, {
+      input: inputHash,
+      value: Promise.resolve(record),
+    });
+  }
+
   private async runPrompt(
     definition: FlaryFunctionOptions<any, any, any>,
     prompt: string,
     context: FlaryStepContext<any>,
+    observers: Pick<Invocation<any>, "partial" | "repair" | "fallback" | "usage"> = {},
+    settings: { readonly name?: string; readonly repair?: FlaryOutputRepair } = {},
   ): Promise<unknown> {
+    const name = settings.name ?? definition.name ?? "function";
     if (this.options.prompt) {
       return this.options.prompt({
         model: definition.model ?? this.options.model ?? "openai/gpt-5",
@@ -1941,10 +4706,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
         500,
       );
     }
-    const model = definition.model ?? this.options.model ?? "openai/gpt-5";
-    const selection = parseFlueModelSpecifier(model);
-    const modelName = selection?.model ?? model;
-    const adapter = this.resolveAdapter(selection?.provider ?? providerFromModel(model), context.bindings);
+    let model = definition.model ?? this.options.model ?? "openai/gpt-5";
     const messages: ProviderMessage[] = [{ role: "user", content: prompt }];
     const executeTool = definition.tools
       ? {
@@ -1963,28 +4725,110 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
       definition.limits?.steps ?? this.options.maxPromptSteps ?? 20,
     );
 
-    for (let step = 0; step < maxSteps; step += 1) {
-      const request: NormalizedModelRequest = {
-        model: modelName,
-        messages,
-        ...(executeTool ? { tools: [executeTool], toolChoice: "auto" as const } : {}),
-        ...(definition.thinking && ReasoningEffortSchema.safeParse(definition.thinking).success
-          ? { reasoningEffort: definition.thinking as NormalizedModelRequest["reasoningEffort"] }
-          : {}),
-        ...(isStringSchema(definition.output)
-          ? { responseFormat: "text" as const }
-          : {
-              responseFormat: {
-                type: "json_object" as const,
-                schema: JsonObjectSchema.parse(z.toJSONSchema(definition.output)),
-              },
-            }),
-      };
-      const response = await adapter.complete(request, {
-        signal: context.signal,
-      });
+    const maxRepairs = settings.repair?.attempts ?? 0;
+    let repairs = 0;
+    const costLimit = definition.limits?.costUsd;
+    const spendLimited = costLimit !== undefined || quotasLimitSpend(this.options.quotas);
+    if (spendLimited) {
+      spendPricing(this.pricing, pricedFunctionModels(definition, this.options.model, settings.repair), true);
+    }
+    let costUsd = 0;
+    const hooks = this.options.hooks;
+    const hookEvent = {
+      kind: "function" as const,
+      name,
+      ...(context.runId ? { runId: context.runId } : {}),
+      bindings: context.bindings,
+      ...(context.identity ? { identity: context.identity } : {}),
+    };
+
+    // Repair turns do not spend the tool step budget.
+    for (let step = 0; step < maxSteps + repairs; step += 1) {
+      const request = promptModelRequest(definition, model, messages, executeTool);
+      let turn: Awaited<ReturnType<typeof this.modelTurn>>;
+      try {
+        turn = await this.modelTurn({
+          operationId: `${context.runId ?? "call"}:turn_${step + 1}`,
+          model,
+          fallback: definition.fallback ?? [],
+          // A write function never changes model after a failed turn.
+          stateChanging: definition.policy?.operation === "write",
+          request,
+          context,
+          text: isStringSchema(definition.output),
+          partial: observers.partial,
+          onFallback: observers.fallback,
+        });
+      } catch (error) {
+        await notifyHook(hooks?.onTurnEnd?.bind(hooks), {
+          ...hookEvent,
+          turn: step + 1,
+          model,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        }, context);
+        throw error;
+      }
+      model = turn.model;
+      const response = turn.response;
+      await notifyHook(hooks?.onTurnEnd?.bind(hooks), {
+        ...hookEvent,
+        turn: step + 1,
+        model,
+        status: "completed",
+        finishReason: response.finishReason,
+        toolCalls: response.toolCalls.length,
+        ...(response.usage ? { usage: response.usage } : {}),
+      }, context);
+      if (response.usage) {
+        const priced = priceUsage(this.pricing, model, response.usage);
+        // A fallback model may have no price. Its turns would be free.
+        if (priced === undefined && spendLimited) spendPricing(this.pricing, [model], true);
+        const turnCost = priced ?? 0;
+        observers.usage?.({
+          tokens: response.usage.totalTokens ??
+            (response.usage.inputTokens ?? 0) + (response.usage.outputTokens ?? 0),
+          costUsd: turnCost,
+        });
+        costUsd += turnCost;
+      }
+      if (costLimit !== undefined && costUsd > costLimit) {
+        throw new FlaryFunctionError(
+          "budget_exceeded",
+          `The function exceeded its cost limit of ${costLimit} USD.`,
+          402,
+          { limitUsd: costLimit, costUsd, pricingVersion: this.pricing.version },
+        );
+      }
       if (response.toolCalls.length === 0) {
-        return parseModelOutput(definition.output, response.content);
+        if (!settings.repair) return parseModelOutput(definition.output, response.content);
+        const parsed = safeParseModelOutput(definition.output, response.content);
+        if (parsed.success) return parsed.data;
+        if (repairs >= maxRepairs) {
+          throw new FlaryFunctionError(
+            "output_validation_failed",
+            repairs > 0
+              ? `The model output failed the function schema after ${repairs} repair attempts.`
+              : "The model output failed the function schema.",
+            502,
+            { attempts: repairs, issues: parsed.issues },
+          );
+        }
+        repairs += 1;
+        if (repairs === 1 && settings.repair.model) {
+          model = settings.repair.model;
+        }
+        observers.repair?.({
+          attempt: repairs,
+          maxAttempts: maxRepairs,
+          model,
+          issues: parsed.issues,
+        });
+        messages.push(
+          { role: "assistant", content: response.content },
+          { role: "user", content: repairPrompt(parsed.issues) },
+        );
+        continue;
       }
       messages.push({
         role: "assistant",
@@ -2011,7 +4855,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
           code: args.code,
           bindings: context.bindings,
           tools: definition.tools,
-          context,
+          context: withToolHooks(context, hooks, { kind: "function", name }),
           limits: definition.limits,
         });
         messages.push({
@@ -2028,6 +4872,74 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
     );
   }
 
+  /**
+   * Run one model turn. A rate-limited or transient failure retries the turn
+   * on the next model of the fallback chain, and later turns keep that model.
+   */
+  private async modelTurn(input: {
+    readonly operationId: string;
+    readonly model: string;
+    readonly fallback: readonly string[];
+    readonly stateChanging: boolean;
+    readonly request: NormalizedModelRequest;
+    readonly context: FlaryStepContext<any>;
+    readonly text: boolean;
+    readonly partial?: (output: unknown) => void;
+    readonly onFallback?: (decision: FlaryModelFallback) => void;
+  }): Promise<{ readonly model: string; readonly response: NormalizedModelResponse }> {
+    const call = (selection: ModelSelection): Promise<NormalizedModelResponse> => {
+      const adapter = this.resolveAdapter(selection.provider, input.context.bindings);
+      const request = { ...input.request, model: selection.model };
+      return input.partial && adapter.supportsStreaming
+        ? streamModelResponse(
+            adapter,
+            request,
+            input.context.signal,
+            input.text,
+            input.partial,
+          )
+        : adapter.complete(request, { signal: input.context.signal });
+    };
+    const primary = functionModelSelection(input.model);
+    if (input.fallback.length === 0) {
+      return { model: input.model, response: await call(primary) };
+    }
+    const chain = input.fallback.map(functionModelSelection);
+    let failureClass: ProviderFailureClass = "unknown";
+    const { value, decision } = await this.#modelRouter.execute({
+      operationId: input.operationId,
+      policy: {
+        strategy: "explicit",
+        allow: [primary],
+        fallback: chain,
+        stateChanging: input.stateChanging,
+      },
+      candidates: [primary, ...chain].map((selection) => ({
+        selection,
+        quality: 0,
+        healthy: true,
+        capabilities: [],
+      })),
+      run: call,
+      isRetryable: (error) => {
+        failureClass = modelFailureClass(error);
+        return failureClass === "rate_limit" || failureClass === "transient";
+      },
+    });
+    if (decision.fallbackIndex === 0) {
+      return { model: input.model, response: value };
+    }
+    input.onFallback?.({
+      decisionId: decision.decisionId,
+      operationId: decision.operationId,
+      from: primary,
+      to: decision.selection,
+      fallbackIndex: decision.fallbackIndex,
+      failureClass,
+    });
+    return { model: toFlueModelSpecifier(decision.selection), response: value };
+  }
+
   private resolveAdapter(provider: string, bindings: unknown): ModelAdapter {
     if (this.options.provider) return this.options.provider;
     const configured = this.options.providers?.get(provider) ?? this.options.providers?.get("openai");
@@ -2113,6 +5025,7 @@ export class FlaryApplication<TBindings extends object = Record<string, unknown>
               storage: input.storage,
             })
           : undefined),
+      resolveMemory: (source, input) => this.memoryConnection(source, input),
     });
     if (cacheKey) this.#defaultCodeExecutors.set(cacheKey, executor);
     return executor;
@@ -2266,6 +5179,8 @@ function agentAwareThreadService(
                 ...(agent.definition.compaction ?? { mode: "auto" }),
               },
               flaryLimits: { ...(agent.definition.limits ?? {}) },
+              ...pricingMetadata(agent),
+              ...summaryMetadata(agent),
             },
           });
         };
@@ -2288,7 +5203,9 @@ function agentAwareThreadService(
             throw new FlaryHostError(404, "agent_not_found", "The agent was not found.");
           }
           const currentBinding = await target.inspect(scope);
-          const current = findAgentInTree(root, currentBinding.agentId);
+          const current = agentTree(root).find((agent) =>
+            agent.name === (currentBinding.activeAgentId ?? currentBinding.agentId)
+          );
           if (!current) {
             throw new FlaryFunctionError(
               "subagent_not_declared",
@@ -2328,6 +5245,7 @@ function agentAwareThreadService(
               flaryDelegation: delegationMetadata(child),
               flaryCompaction: { ...(child.definition.compaction ?? { mode: "auto" }) },
               flaryLimits: { ...(child.definition.limits ?? {}) },
+              ...pricingMetadata(child),
             };
           } else if (action === "send") {
             value.fromThreadId = scope.threadId;
@@ -2362,6 +5280,7 @@ function stableRevision(value: unknown): string {
 
 function validateFunctionDefinition(
   definition: FlaryFunctionOptions<any, any, any>,
+  repair?: FlaryOutputRepair,
 ): void {
   const positiveInteger = (
     value: number | undefined,
@@ -2369,16 +5288,69 @@ function validateFunctionDefinition(
   ): void => {
     if (value !== undefined && (!Number.isSafeInteger(value) || value < 1)) {
       throw new FlaryFunctionError(
-        "invalid_function_limit",
-        `${label} must be a positive integer.`,
+        "invalid_function_limit",
+        `${label} must be a positive integer.`,
+        400,
+      );
+    }
+  };
+  positiveInteger(definition.durable?.maxAttempts, "durable.maxAttempts");
+  positiveInteger(definition.limits?.steps, "limits.steps");
+  positiveInteger(definition.limits?.toolCalls, "limits.toolCalls");
+  positiveInteger(definition.limits?.timeoutMs, "limits.timeoutMs");
+  if (repair) {
+    if (typeof definition.run === "function") {
+      throw new FlaryFunctionError(
+        "invalid_output_repair",
+        "output.repair only applies to prompt functions.",
+        400,
+      );
+    }
+    positiveInteger(repair.attempts, "output.repair.attempts");
+  }
+  validateGuardrails(definition.guardrails);
+  validateConcurrency(definition.concurrency);
+  if (definition.fallback) {
+    if (typeof definition.run === "function") {
+      throw new FlaryFunctionError(
+        "invalid_model_fallback",
+        "fallback only applies to prompt functions.",
+        400,
+      );
+    }
+    if (
+      definition.fallback.length > 16 ||
+      definition.fallback.some((model) => typeof model !== "string" || model.length === 0)
+    ) {
+      throw new FlaryFunctionError(
+        "invalid_model_fallback",
+        "fallback must list at most 16 model names.",
         400,
       );
     }
-  };
-  positiveInteger(definition.durable?.maxAttempts, "durable.maxAttempts");
-  positiveInteger(definition.limits?.steps, "limits.steps");
-  positiveInteger(definition.limits?.toolCalls, "limits.toolCalls");
-  positiveInteger(definition.limits?.timeoutMs, "limits.timeoutMs");
+  }
+  if (definition.cache) {
+    if (definition.cache.scope !== "tenant" && definition.cache.scope !== "app") {
+      throw new FlaryFunctionError(
+        "invalid_function_cache",
+        "cache.scope must be 'tenant' or 'app'.",
+        400,
+      );
+    }
+    let ttl = 0;
+    try {
+      ttl = durationMs(definition.cache.ttl);
+    } catch {
+      // Reported below with the function error code.
+    }
+    if (ttl <= 0) {
+      throw new FlaryFunctionError(
+        "invalid_function_cache",
+        "cache.ttl must be a positive number of milliseconds or a duration string.",
+        400,
+      );
+    }
+  }
   if (
     definition.limits?.costUsd !== undefined &&
     (!Number.isFinite(definition.limits.costUsd) || definition.limits.costUsd <= 0)
@@ -2427,9 +5399,99 @@ function validateFunctionDefinition(
   }
 }
 
+function validateConcurrency(
+  concurrency: FlaryConcurrencyOptions<any> | undefined,
+): void {
+  if (concurrency === undefined) return;
+  const invalid = (message: string) =>
+    new FlaryFunctionError("invalid_function_concurrency", message, 400);
+  if (typeof concurrency.key !== "function") {
+    throw invalid("concurrency.key must be a function of the input.");
+  }
+  if (
+    concurrency.limit !== undefined &&
+    (!Number.isSafeInteger(concurrency.limit) || concurrency.limit < 1)
+  ) {
+    throw invalid("concurrency.limit must be a positive integer.");
+  }
+  if (
+    concurrency.onConflict !== undefined &&
+    !["queue", "reject", "cancel-previous"].includes(concurrency.onConflict)
+  ) {
+    throw invalid("concurrency.onConflict must be 'queue', 'reject', or 'cancel-previous'.");
+  }
+  if (concurrency.debounce !== undefined) {
+    let debounce = 0;
+    try {
+      debounce = durationMs(concurrency.debounce);
+    } catch {
+      // Reported below with the function error code.
+    }
+    if (debounce <= 0) {
+      throw invalid("concurrency.debounce must be a positive duration.");
+    }
+  }
+}
+
+/** The policy a durable run carries to the run service. */
+function concurrencyPolicy(
+  concurrency: FlaryConcurrencyOptions<any>,
+  input: unknown,
+): Record<string, unknown> {
+  const key = concurrency.key(input);
+  if (typeof key !== "string" || key.length === 0 || key.length > 256) {
+    throw new FlaryFunctionError(
+      "invalid_concurrency_key",
+      "concurrency.key must return a string of 1 to 256 characters.",
+      400,
+    );
+  }
+  return {
+    key,
+    limit: concurrency.limit ?? 1,
+    onConflict: concurrency.onConflict ?? "queue",
+    ...(concurrency.debounce !== undefined
+      ? { debounceMs: Math.ceil(durationMs(concurrency.debounce)) }
+      : {}),
+  };
+}
+
+/** Concurrency keys hold across isolates only in the durable run service. */
+function assertInProcessRun(state: FunctionState): void {
+  if (state.definition.concurrency) {
+    throw new FlaryFunctionError(
+      "concurrency_requires_durable_runs",
+      "Function concurrency keys need the durable run service.",
+      501,
+    );
+  }
+}
+
+function validateGuardrails(guardrails: FlaryGuardrails<any> | undefined): void {
+  if (guardrails === undefined) return;
+  for (const stage of ["input", "output"] as const) {
+    const list = guardrails[stage];
+    if (list === undefined) continue;
+    if (
+      !Array.isArray(list) ||
+      list.length > 16 ||
+      list.some((guardrail) =>
+        typeof guardrail !== "function" && !isModerationGuardrail(guardrail)
+      )
+    ) {
+      throw new FlaryFunctionError(
+        "invalid_guardrails",
+        `guardrails.${stage} must list at most 16 functions or app.moderate() checks.`,
+        400,
+      );
+    }
+  }
+}
+
 function validateAgentDefinition(
   definition: FlaryAgentOptions<any>,
 ): void {
+  validateGuardrails(definition.guardrails);
   const positiveInteger = (value: number | undefined, label: string): void => {
     if (value !== undefined && (!Number.isSafeInteger(value) || value < 1)) {
       throw new FlaryFunctionError(
@@ -2448,6 +5510,34 @@ function validateAgentDefinition(
   positiveInteger(definition.limits?.toolCalls, "limits.toolCalls");
   positiveInteger(definition.limits?.timeoutMs, "limits.timeoutMs");
   validateEagerTools(definition.tools, definition.eagerTools);
+  const every = definition.summary?.every;
+  if (every !== undefined && (!Number.isSafeInteger(every) || every < 0)) {
+    throw new FlaryFunctionError(
+      "invalid_agent_summary",
+      "summary.every must be zero or a positive integer.",
+      400,
+    );
+  }
+  if (
+    definition.summary?.model !== undefined &&
+    !parseFlueModelSpecifier(definition.summary.model)
+  ) {
+    throw new FlaryFunctionError(
+      "invalid_agent_summary",
+      "The summary model must use the provider/model form.",
+      400,
+    );
+  }
+  const handoffs = (definition.handoffs ?? []).map((agent) =>
+    typeof agent === "string" ? agent : agent.name
+  );
+  if (new Set(handoffs).size !== handoffs.length || handoffs.includes(definition.name)) {
+    throw new FlaryFunctionError(
+      "invalid_agent_handoffs",
+      "handoffs must name other agents, each at most once.",
+      400,
+    );
+  }
   if (
     definition.delegation?.maxConcurrent !== undefined &&
     definition.delegation.maxTotal !== undefined &&
@@ -2517,6 +5607,27 @@ function validateAgentDefinition(
         );
       }
     }
+    const fallback = definition.models.fallback;
+    if (fallback !== undefined && fallback !== "none") {
+      if (fallback.length > 16) {
+        throw new FlaryFunctionError(
+          "invalid_agent_models",
+          "models.fallback can contain at most 16 models.",
+          400,
+        );
+      }
+      for (const candidate of fallback) {
+        try {
+          ModelSelectionSchema.parse(normalizeModelInput(candidate));
+        } catch {
+          throw new FlaryFunctionError(
+            "invalid_agent_model",
+            "Every fallback model must use the provider/model form.",
+            400,
+          );
+        }
+      }
+    }
     if (definition.models.compactionModel !== undefined) {
       try {
         ModelSelectionSchema.parse(
@@ -2723,16 +5834,126 @@ function providerFromModel(model: string): string {
   return slash > 0 ? model.slice(0, slash) : "openai";
 }
 
+/** Read a function model, where a bare model name means an OpenAI model. */
+/** The model request of one prompt function turn. */
+function promptModelRequest(
+  definition: FlaryFunctionOptions<any, any, any>,
+  model: string,
+  messages: ProviderMessage[],
+  tool?: NonNullable<NormalizedModelRequest["tools"]>[number],
+): NormalizedModelRequest {
+  return {
+    model,
+    messages,
+    ...(tool ? { tools: [tool], toolChoice: "auto" as const } : {}),
+    ...(definition.thinking && ReasoningEffortSchema.safeParse(definition.thinking).success
+      ? { reasoningEffort: definition.thinking as NormalizedModelRequest["reasoningEffort"] }
+      : {}),
+    ...(isStringSchema(definition.output)
+      ? { responseFormat: "text" as const }
+      : {
+          responseFormat: {
+            type: "json_object" as const,
+            schema: JsonObjectSchema.parse(z.toJSONSchema(definition.output)),
+          },
+        }),
+  };
+}
+
+/** The code and message of a failed batch item. */
+function batchItemError(cause: unknown): { code: string; message: string } {
+  if (cause instanceof Error && cause.name === "ProviderAdapterError") {
+    const { code, message } = (cause as Error & { error: { code: string; message: string } }).error;
+    return { code, message };
+  }
+  return {
+    code: cause instanceof FlaryFunctionError ? cause.code : "flary_function_failed",
+    message: cause instanceof Error ? cause.message : "The function failed",
+  };
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+function functionModelSelection(model: string): ModelSelection {
+  return parseFlueModelSpecifier(model) ??
+    ModelSelectionSchema.parse({ provider: providerFromModel(model), model });
+}
+
+/** Classify a failed model turn by the provider status it carries. */
+function modelFailureClass(error: unknown): ProviderFailureClass {
+  if (
+    error instanceof FlaryFunctionError &&
+    typeof error.details?.providerStatus === "number"
+  ) {
+    return classifyHttpFailure({ status: error.details.providerStatus });
+  }
+  return classifyHttpFailure(error);
+}
+
+/**
+ * Stream one model response and report each new best-effort output prefix.
+ * The caller still validates the final response against the output schema.
+ */
+async function streamModelResponse(
+  adapter: ModelAdapter,
+  request: NormalizedModelRequest,
+  signal: AbortSignal,
+  text: boolean,
+  partial: (output: unknown) => void,
+): Promise<NormalizedModelResponse> {
+  let content = "";
+  let reported: string | undefined;
+  for await (const event of adapter.stream(request, { signal })) {
+    if (event.type === "finish") return event.response;
+    if (event.type === "error") {
+      throw new FlaryFunctionError(
+        event.error.code,
+        event.error.message,
+        502,
+        event.error.status === undefined
+          ? undefined
+          : { providerStatus: event.error.status },
+      );
+    }
+    if (event.type !== "text_delta") continue;
+    content += event.delta;
+    const value = text ? content : parsePartialJson(content);
+    if (value === undefined) continue;
+    const key = JSON.stringify(value);
+    if (key === reported) continue;
+    reported = key;
+    partial(value);
+  }
+  throw new FlaryFunctionError(
+    "model_stream_incomplete",
+    "The model stream ended before the response finished.",
+    502,
+  );
+}
+
+/**
+ * Parse model text without repair. Text that is not JSON fails with
+ * `model_output_invalid`, and JSON that fails the schema throws its ZodError.
+ */
 function parseModelOutput(schema: ZodType, content: string): unknown {
   const direct = schema.safeParse(content);
   if (direct.success) return direct.data;
-  const cleaned = content
-    .trim()
-    .replace(/^```(?:json)?\s*/i, "")
-    .replace(/\s*```$/, "");
   let value: unknown;
   try {
-    value = JSON.parse(cleaned) as unknown;
+    value = JSON.parse(withoutCodeFence(content)) as unknown;
   } catch {
     throw new FlaryFunctionError(
       "model_output_invalid",
@@ -2743,6 +5964,134 @@ function parseModelOutput(schema: ZodType, content: string): unknown {
   return schema.parse(value);
 }
 
+function safeParseModelOutput(
+  schema: ZodType,
+  content: string,
+):
+  | { readonly success: true; readonly data: unknown }
+  | { readonly success: false; readonly issues: FlaryOutputIssue[] } {
+  const direct = schema.safeParse(content);
+  if (direct.success) return { success: true, data: direct.data };
+  let value: unknown;
+  try {
+    value = JSON.parse(withoutCodeFence(content)) as unknown;
+  } catch {
+    return {
+      success: false,
+      issues: [{ path: "", message: "The response is not valid JSON." }],
+    };
+  }
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return { success: false, issues: outputIssues(result.error) };
+}
+
+function outputIssues(error: z.ZodError): FlaryOutputIssue[] {
+  return error.issues.slice(0, 100).map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
+
+function withoutCodeFence(content: string): string {
+  return content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+}
+
+/** Follow-up turn that returns schema issues to the model. */
+function repairPrompt(issues: readonly FlaryOutputIssue[]): string {
+  return [
+    "Your previous answer does not match the required output schema.",
+    ...issues.map((issue) =>
+      `- ${issue.path ? `${issue.path}: ` : ""}${issue.message}`
+    ),
+    "Reply again with only the corrected output.",
+  ].join("\n");
+}
+
+/**
+ * Ask for the due title and summary fields. Only the latest messages are
+ * sent, each shortened, so a long thread stays cheap to describe.
+ */
+function threadDescriptionPrompt(
+  fields: ReadonlySet<"title" | "summary">,
+  messages: readonly FlaryThreadTranscriptMessage[],
+  summary: string | undefined,
+): string {
+  return [
+    "Describe the conversation below. Reply with only a JSON object with these fields:",
+    ...(fields.has("title")
+      ? ['- "title": a title of at most eight words, in the language of the user, without quotes.']
+      : []),
+    ...(fields.has("summary")
+      ? ['- "summary": at most three sentences on what the user wants and what has been settled.']
+      : []),
+    ...(summary ? ["", "Summary of the earlier conversation:", summary] : []),
+    "",
+    "Conversation:",
+    ...messages.slice(-40).map((message) =>
+      `${message.role === "user" ? "User" : "Assistant"}: ${message.text.slice(0, 2_000)}`
+    ),
+  ].join("\n");
+}
+
+/** Prompt functions project streamed model text into `partial` events. */
+function partialOutputOption(
+  state: FunctionState,
+): { readonly partialOutput?: "json" | "text" } {
+  if (state.mode !== "prompt") return {};
+  return {
+    partialOutput: isStringSchema(state.definition.output) ? "text" : "json",
+  };
+}
+
+function cacheFunctionId(state: FunctionState): string {
+  const functionId = state.functionId ?? state.definition.name;
+  if (!functionId) {
+    throw new FlaryFunctionError(
+      "function_id_missing",
+      "A cached function needs a stable name or must be registered with app.serve().",
+      500,
+    );
+  }
+  return functionId;
+}
+
+function cacheScope(
+  cache: FlaryCacheOptions<any>,
+  tenantId: string | undefined,
+): string | undefined {
+  if (cache.scope === "app") return "app";
+  return tenantId === undefined
+    ? undefined
+    : `tenant=${encodeURIComponent(tenantId)}`;
+}
+
+function cachePrefix(functionId: string, scope: string): string {
+  return `flary:cache:${encodeURIComponent(functionId)}:${scope}:`;
+}
+
+function cacheInputHash(cache: FlaryCacheOptions<any>, input: unknown): string {
+  return stableHash(cache.key ? cache.key(input) : input);
+}
+
+/** Parse a durable answer like `parseDurableOutput`, returning the issues. */
+function safeParseDurableOutput(
+  schema: ZodType,
+  value: unknown,
+): ReturnType<typeof safeParseModelOutput> {
+  const direct = schema.safeParse(value);
+  if (direct.success) return { success: true, data: direct.data };
+  if (typeof value === "string") return safeParseModelOutput(schema, value);
+  if (isRecord(value) && "data" in value) {
+    const nested = schema.safeParse(value.data);
+    if (nested.success) return { success: true, data: nested.data };
+  }
+  return { success: false, issues: outputIssues(direct.error) };
+}
+
 function parseDurableOutput(schema: ZodType, value: unknown): unknown {
   const direct = schema.safeParse(value);
   if (direct.success) return direct.data;
@@ -2766,6 +6115,149 @@ function stringifyToolResult(value: unknown): string {
   }
 }
 
+/** The function revision a durable run stores in its metadata. */
+const FunctionRevisionSchema = z.object({
+  functionId: z.string().min(1),
+  buildHash: z.string(),
+  promptHash: z.string().optional(),
+  inputSchemaHash: z.string(),
+  outputSchemaHash: z.string(),
+  toolRegistryRevision: z.string().optional(),
+  sourceRevisions: z.record(z.string(), z.string()),
+  model: z.string().optional(),
+  thinking: z.string().optional(),
+  mode: z.string().optional(),
+  connectionGrants: z.array(z.string()),
+}) satisfies z.ZodType<FlaryFunctionRevision>;
+
+const GuardrailVerdictSchema = z.object({
+  action: z.enum(["allow", "block", "rewrite"]),
+  reason: z.string().max(4_096).optional(),
+  text: z.string().optional(),
+});
+
+/** The input of the generated batch workflow, fixed when the batch starts. */
+const BatchWorkflowInputSchema = z.object({
+  functionId: IdentifierSchema,
+  inputs: z.array(z.unknown()),
+  mode: z.enum(["provider-batch", "concurrent"]),
+  concurrency: z.number().int().positive(),
+  pollIntervalMs: z.number().nonnegative(),
+  identity: z.object({ tenantId: z.string() }).passthrough().optional(),
+  lease: z.object({ tenantId: z.string(), leaseId: z.string() }).optional(),
+});
+type BatchWorkflowInput = z.infer<typeof BatchWorkflowInputSchema>;
+
+/** Parse the stored result of a durable batch against the function output. */
+function parseBatchOutput(state: FunctionState, value: unknown): FlaryBatchResult {
+  const result = value as FlaryBatchResult;
+  return {
+    ...result,
+    items: result.items.map((item) =>
+      item.status === "completed"
+        ? { ...item, output: parseDurableOutput(state.definition.output, item.output) }
+        : item
+    ),
+  };
+}
+
+/** Sum the model usage of one run for its quota charge. */
+function quotaMeter(): {
+  readonly charge: { tokens: number; costUsd: number };
+  readonly usage: (turn: FlaryQuotaCharge) => void;
+} {
+  const charge = { tokens: 0, costUsd: 0 };
+  return {
+    charge,
+    usage: (turn) => {
+      charge.tokens += turn.tokens ?? 0;
+      charge.costUsd += turn.costUsd ?? 0;
+    },
+  };
+}
+
+/** The quota lease of one thread turn, named by its admission. */
+function turnLeaseId(admissionId: string): string {
+  return `turn:${admissionId}`;
+}
+
+function functionHookName(state: FunctionState): string {
+  return state.functionId ?? state.definition.name ?? "function";
+}
+
+/** The thread of an agent run, when the run id names one. */
+function threadHookScope(runId: string): { readonly threadId?: string } {
+  try {
+    return { threadId: parseThreadName(runId).threadId };
+  } catch {
+    return {};
+  }
+}
+
+function isModerationGuardrail(
+  guardrail: FlaryGuardrail<any>,
+): guardrail is FlaryModerationGuardrail {
+  return typeof guardrail === "object" && guardrail !== null &&
+    guardrail.kind === "moderation";
+}
+
+function guardrailName(guardrail: FlaryGuardrail<any>): string {
+  if (isModerationGuardrail(guardrail)) return "moderation";
+  const state = getFunctionState(guardrail);
+  if (state) return state.functionId ?? state.definition.name ?? "function";
+  return guardrail.name || "guardrail";
+}
+
+/** Read rewritten text as a string value, or as JSON for structured schemas. */
+function parseGuardrailRewrite(schema: ZodType, text: string): unknown {
+  if (isStringSchema(schema)) return schema.parse(text);
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new FlaryFunctionError(
+      "invalid_guardrail_verdict",
+      "A guardrail rewrite of a structured value must be JSON.",
+      500,
+    );
+  }
+  return schema.parse(value);
+}
+
+/** Find a function of a served module by its stable function id. */
+function registeredFunction(
+  functions: unknown,
+  functionId: string | undefined,
+): FunctionState | undefined {
+  if (!isRecord(functions) || !functionId) return undefined;
+  for (const [exportName, value] of Object.entries(functions)) {
+    const state = getFunctionState(value);
+    if (state && (state.functionId ?? exportName) === functionId) return state;
+  }
+  return undefined;
+}
+
+/** The caller identity a durable run was admitted with. */
+function runIdentity(trusted: TrustedRunContext): FlaryIdentity {
+  return {
+    tenantId: trusted.tenantId,
+    applicationId: trusted.applicationId,
+    ...(trusted.projectId ? { projectId: trusted.projectId } : {}),
+    ...(trusted.identity.kind === "user" ? { userId: trusted.identity.id } : {}),
+    roles: trusted.roles,
+    scopes: trusted.scopes,
+  };
+}
+
+/** Split `output` into its schema and repair policy. */
+function outputOptions<TOutput extends FlarySchema>(
+  output: TOutput | FlaryOutputOptions<TOutput>,
+): FlaryOutputOptions<TOutput> {
+  // A definition without an output schema has no repair policy either.
+  if (output === undefined || "safeParse" in output) return { schema: output as TOutput };
+  return output;
+}
+
 function isStringSchema(schema: ZodType): boolean {
   const definition = (schema as { def?: { type?: unknown } }).def;
   return definition?.type === "string" || schema.safeParse("").success;
@@ -2803,16 +6295,58 @@ function findDeclaredChild(
   return undefined;
 }
 
-function findAgentInTree(
-  root: FlaryAgent<any>,
-  name: string,
-): FlaryAgent<any> | undefined {
-  if (root.name === name) return root;
-  for (const child of Object.values(root.definition.subagents ?? {})) {
-    const match = findAgentInTree(child, name);
-    if (match) return match;
-  }
-  return undefined;
+function agentMemorySource(
+  agent: FlaryAgent<any> | undefined,
+): FlaryMemorySource | undefined {
+  return Object.values(agent?.definition.tools?.entries ?? {}).find(
+    (source): source is FlaryMemorySource =>
+      typeof source !== "function" && source.kind === "memory",
+  );
+}
+
+/** The revision of a prompt: its slug, rollout, and compiled sources. */
+function promptRevision(prompt: FlaryPrompt): string {
+  return stableJson({
+    slug: prompt.slug,
+    rollout: prompt.rollout,
+    sources: promptCandidates(prompt).map((candidate) => candidate.sourceHash),
+  });
+}
+
+/** Resolve the handoff targets of an agent. Names refer to agents of its app. */
+function handoffTargets(agent: FlaryAgent<any>): FlaryAgent<any>[] {
+  return (agent.definition.handoffs ?? []).flatMap((candidate) => {
+    const target = typeof candidate === "string"
+      ? getAgentApp(agent)?.agentNamed(candidate)
+      : candidate;
+    return target ? [target] : [];
+  });
+}
+
+/** Every agent reachable from `root` through subagents and handoffs. */
+function agentTree(root: FlaryAgent<any>): FlaryAgent<any>[] {
+  const seen = new Set<FlaryAgent<any>>();
+  const visit = (agent: FlaryAgent<any>): void => {
+    if (seen.has(agent)) return;
+    seen.add(agent);
+    for (const child of Object.values(agent.definition.subagents ?? {})) visit(child);
+    for (const next of handoffTargets(agent)) visit(next);
+  };
+  visit(root);
+  return [...seen];
+}
+
+function agentThreadTarget(
+  ref: ReturnType<typeof parseThreadName>,
+): FlaryThreadTarget {
+  return {
+    authorization: {
+      organizationId: ref.organizationId,
+      actor: { id: "flary-agent", kind: "service" },
+    },
+    appId: ref.appId,
+    threadId: ref.threadId,
+  };
 }
 
 function resolveAgentModelSelection(
@@ -2866,7 +6400,13 @@ function modelPolicyMetadata(agent: FlaryAgent<any>): Record<string, unknown> &
       normalizeModelInput(candidate)
     ) ?? (selected ? [selected] : []),
     switching: agent.definition.models?.switching ?? "user",
-    fallback: agent.definition.models?.fallback ?? "none",
+    fallback:
+      agent.definition.models?.fallback === undefined ||
+      agent.definition.models.fallback === "none"
+        ? "none"
+        : agent.definition.models.fallback.map((candidate) =>
+            normalizeModelInput(candidate)
+          ),
     ...(agent.definition.models?.compactionModel
       ? {
           compactionModel: normalizeModelInput(
@@ -2888,6 +6428,86 @@ function resolveDefaultAgentModel(agent: FlaryAgent<any>) {
         : parseFlueModelSpecifier("openai/gpt-5");
 }
 
+/**
+ * The prices a thread turn uses for `limits.costUsd` and spend quotas: the
+ * entries of the models the agent may use.
+ */
+function pricingMetadata(agent: FlaryAgent<any>): Record<string, unknown> {
+  const app = getAgentApp(agent);
+  if (agent.definition.limits?.costUsd === undefined && !app?.options.quotas) {
+    return {};
+  }
+  const policy = modelPolicyMetadata(agent);
+  const models = [
+    ...policy.allow,
+    ...(Array.isArray(policy.fallback) ? policy.fallback : []),
+    ...(policy.compactionModel ? [policy.compactionModel] : []),
+  ].map((selection) => {
+    const { provider, model } = selection as { provider: string; model: string };
+    return `${provider}/${model}`;
+  });
+  return {
+    flaryPricing: spendPricing(
+      app?.pricing ?? DEFAULT_MODEL_PRICING,
+      models,
+      agent.definition.limits?.costUsd !== undefined ||
+        quotasLimitSpend(app?.options.quotas),
+    ),
+  };
+}
+
+/** The models a prompt function can call: its model, fallbacks, and repair model. */
+function pricedFunctionModels(
+  definition: FlaryFunctionOptions<any, any, any>,
+  appModel: string | undefined,
+  repair: FlaryOutputRepair | undefined,
+): string[] {
+  return [
+    definition.model ?? appModel ?? "openai/gpt-5",
+    ...(definition.fallback ?? []),
+    ...(repair?.model ? [repair.model] : []),
+  ];
+}
+
+/** True when a quota of the application limits monthly spend. */
+function quotasLimitSpend(quotas: FlaryQuotaOptions | undefined): boolean {
+  return [quotas?.tenant, quotas?.user, quotas?.agent].some(
+    (limits) => limits?.monthlySpendUsd !== undefined,
+  );
+}
+
+/**
+ * The catalog entries of the models a run or thread can use. When spend is
+ * limited, an unpriced model would make its turns free, so it is rejected.
+ */
+function spendPricing(
+  catalog: ModelPricingCatalog,
+  models: readonly string[],
+  required: boolean,
+): ModelPricingCatalog & { readonly required?: true } {
+  const unique = [...new Set(models)];
+  const pricing = selectModelPricing(catalog, unique);
+  const unpriced = unique.filter((model) => pricing.models[model] === undefined);
+  if (required && unpriced.length > 0) {
+    throw new FlaryFunctionError(
+      "model_unpriced",
+      `No price is configured for ${unpriced.join(", ")}. Add it to the pricing option to enforce cost limits and spend quotas.`,
+      500,
+      { models: unpriced },
+    );
+  }
+  return required ? { ...pricing, required: true } : pricing;
+}
+
+/** The summary policy that the thread host reads after each turn. */
+function summaryMetadata(agent: FlaryAgent<any>): Record<string, unknown> {
+  const policy = agent.definition.summary;
+  if (!policy) return {};
+  return {
+    flarySummary: { title: policy.title ?? true, every: policy.every ?? 5 },
+  };
+}
+
 function delegationMetadata(agent: FlaryAgent<any>): Record<string, unknown> {
   return {
     mode: agent.definition.delegation?.mode ?? "explicit",
@@ -0,0 +1,36 @@
+import type { FlaryCacheEntry, FlaryResultCache } from "./types.js";
+
+/**
+ * A process-local result cache for local calls and tests.
+ *
+ * Entries live in one isolate. A production Worker that needs hits across
+ * isolates should supply a KV- or Durable Object-backed `resultCache`.
+ */
+export class InMemoryFlaryResultCache implements FlaryResultCache {
+  readonly #entries = new Map<string, FlaryCacheEntry>();
+
+  async get(key: string): Promise<FlaryCacheEntry | undefined> {
+    const entry = this.#entries.get(key);
+    if (!entry) return undefined;
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+    // Callers own the returned value, so a mutation cannot change the entry.
+    return structuredClone(entry);
+  }
+
+  async put(key: string, entry: FlaryCacheEntry): Promise<void> {
+    this.#entries.set(key, structuredClone(entry));
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of [...this.#entries.keys()]) {
+      if (!key.startsWith(prefix)) continue;
+      this.#entries.delete(key);
+      deleted += 1;
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,315 @@
+import { FlaryFunctionError } from "./errors.js";
+import type {
+  FlaryCallbackDelivery,
+  FlaryCallbackEvent,
+  FlaryCallbackLog,
+  FlaryCallbackPayload,
+  FlaryRunCallback,
+} from "./types.js";
+
+export const FLARY_CALLBACK_EVENTS: readonly FlaryCallbackEvent[] = [
+  "completed",
+  "failed",
+  "paused",
+  "cancelled",
+];
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_DELAY_SECONDS = 10;
+const MAX_RETRY_DELAY_SECONDS = 3_600;
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+/** One callback attempt. A queue carries this body between retries. */
+export interface FlaryCallbackMessage {
+  readonly url: string;
+  readonly attempt: number;
+  readonly payload: FlaryCallbackPayload;
+}
+
+export interface FlaryCallbackAttemptOptions {
+  readonly secret: string;
+  readonly log: FlaryCallbackLog;
+  readonly maxAttempts?: number;
+  readonly retryDelaySeconds?: number;
+  readonly fetch?: typeof fetch;
+}
+
+/**
+ * Check a callback target before its run is admitted. A host on the
+ * allow-list is always accepted, and plain HTTP only reaches an allowed
+ * loopback host. Without a list, any public host is accepted, but never an
+ * address of the local machine or a private network.
+ */
+export function parseRunCallback(
+  callback: FlaryRunCallback,
+  options: { readonly allowedHosts?: readonly string[] } = {},
+): {
+  url: string;
+  events: FlaryCallbackEvent[];
+} {
+  let url: URL;
+  try {
+    url = new URL(callback.url);
+  } catch {
+    throw invalidCallback("The callback URL is not a valid URL.");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const allowed = options.allowedHosts?.some((pattern) => hostMatches(host, pattern));
+  if (options.allowedHosts && !allowed) {
+    throw invalidCallback(`The callback host '${host}' is not allowed.`);
+  }
+  if (!allowed && privateHost(host)) {
+    throw invalidCallback("The callback URL must not target a private address.");
+  }
+  const loopback = host === "localhost" || host === "::1" || host.startsWith("127.");
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && allowed && loopback)) {
+    throw invalidCallback("The callback URL must use HTTPS.");
+  }
+  const events = [...new Set(callback.events ?? FLARY_CALLBACK_EVENTS)];
+  if (events.length === 0 || events.some((event) => !FLARY_CALLBACK_EVENTS.includes(event))) {
+    throw invalidCallback(
+      `Callback events must be some of ${FLARY_CALLBACK_EVENTS.join(", ")}.`,
+    );
+  }
+  return { url: url.toString(), events };
+}
+
+/** The callback event of a run status. Flue calls a paused run `waiting`. */
+export function callbackEventFor(status: string): FlaryCallbackEvent | undefined {
+  if (status === "waiting" || status === "paused") return "paused";
+  return status === "completed" || status === "failed" || status === "cancelled"
+    ? status
+    : undefined;
+}
+
+/** Build the first attempt of one run event. */
+export function callbackMessage(input: {
+  readonly url: string;
+  readonly event: FlaryCallbackEvent;
+  readonly runId: string;
+  readonly functionId?: string;
+  readonly output?: unknown;
+  readonly error?: { readonly code: string; readonly message: string };
+}): FlaryCallbackMessage {
+  return {
+    url: input.url,
+    attempt: 1,
+    payload: {
+      id: `delivery_${crypto.randomUUID()}`,
+      type: `run.${input.event}`,
+      runId: input.runId,
+      ...(input.functionId ? { functionId: input.functionId } : {}),
+      occurredAt: new Date().toISOString(),
+      ...(input.output !== undefined ? { output: input.output } : {}),
+      ...(input.error
+        ? { error: { code: input.error.code, message: input.error.message } }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Sign a callback body. The header value is `t=<unix seconds>,v1=<hex>`,
+ * where the HMAC-SHA256 covers `<t>.<body>`.
+ */
+export async function signFlaryCallback(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1_000),
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Verify a received callback and return its payload. It rejects a wrong
+ * signature and a timestamp outside the tolerance, which stops replays.
+ */
+export async function verifyFlaryCallback(
+  request: Request,
+  secret: string,
+  options: { readonly toleranceSeconds?: number; readonly now?: number } = {},
+): Promise<FlaryCallbackPayload> {
+  const body = await request.text();
+  const fields = new Map(
+    (request.headers.get("flary-signature") ?? "")
+      .split(",")
+      .map((part) => part.trim().split("=", 2) as [string, string | undefined]),
+  );
+  const timestamp = Number(fields.get("t"));
+  const signature = fields.get("v1") ?? "";
+  const now = Math.floor((options.now ?? Date.now()) / 1_000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (
+    !Number.isSafeInteger(timestamp) ||
+    Math.abs(now - timestamp) > tolerance ||
+    !constantTimeEqual(signature, await hmacHex(secret, `${timestamp}.${body}`))
+  ) {
+    throw new FlaryFunctionError(
+      "callback_signature_invalid",
+      "The callback signature is invalid.",
+      401,
+    );
+  }
+  return JSON.parse(body) as FlaryCallbackPayload;
+}
+
+/** Seconds before the retry that follows `attempt`. */
+export function callbackRetryDelay(
+  attempt: number,
+  baseSeconds = DEFAULT_RETRY_DELAY_SECONDS,
+): number {
+  return Math.min(baseSeconds * 2 ** (attempt - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Send one attempt and log it. The result has `retryAfterSeconds` when the
+ * endpoint failed in a way that a later attempt may fix.
+ */
+export async function attemptFlaryCallback(
+  message: FlaryCallbackMessage,
+  options: FlaryCallbackAttemptOptions,
+): Promise<{ readonly retryAfterSeconds?: number }> {
+  const body = JSON.stringify(message.payload);
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+  try {
+    const response = await (options.fetch ?? globalThis.fetch)(message.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "flary-callbacks",
+        "flary-delivery": message.payload.id,
+        "flary-event": message.payload.type,
+        "flary-signature": await signFlaryCallback(options.secret, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    await response.body?.cancel().catch(() => undefined);
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+  const delivered = responseStatus !== undefined && responseStatus >= 200 && responseStatus < 300;
+  // A client error other than a timeout or rate limit will not change.
+  const retryable = !delivered && (
+    responseStatus === undefined ||
+    responseStatus === 408 ||
+    responseStatus === 429 ||
+    responseStatus >= 500
+  );
+  const retryAfterSeconds =
+    retryable && message.attempt < (options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)
+      ? callbackRetryDelay(message.attempt, options.retryDelaySeconds)
+      : undefined;
+  const attemptedAt = Date.now();
+  await options.log.append({
+    deliveryId: message.payload.id,
+    runId: message.payload.runId,
+    event: message.payload.type.slice("run.".length) as FlaryCallbackEvent,
+    url: message.url,
+    attempt: message.attempt,
+    status: delivered ? "delivered" : retryAfterSeconds === undefined ? "failed" : "retrying",
+    ...(responseStatus !== undefined ? { responseStatus } : {}),
+    ...(error ? { error } : {}),
+    attemptedAt: new Date(attemptedAt).toISOString(),
+    ...(retryAfterSeconds !== undefined
+      ? { nextAttemptAt: new Date(attemptedAt + retryAfterSeconds * 1_000).toISOString() }
+      : {}),
+  });
+  return retryAfterSeconds === undefined ? {} : { retryAfterSeconds };
+}
+
+/** Deliver in this isolate and wait between retries. Hosts with a queue retry there. */
+export async function deliverFlaryCallback(
+  message: FlaryCallbackMessage,
+  options: FlaryCallbackAttemptOptions,
+): Promise<void> {
+  let next = message;
+  while (true) {
+    const { retryAfterSeconds } = await attemptFlaryCallback(next, options);
+    if (retryAfterSeconds === undefined) return;
+    await new Promise((resolve) => setTimeout(resolve, retryAfterSeconds * 1_000));
+    next = { ...next, attempt: next.attempt + 1 };
+  }
+}
+
+/** A process-local delivery log for tests and single-isolate development. */
+export class InMemoryFlaryCallbackLog implements FlaryCallbackLog {
+  readonly #deliveries = new Map<string, FlaryCallbackDelivery[]>();
+
+  async append(delivery: FlaryCallbackDelivery): Promise<void> {
+    const deliveries = this.#deliveries.get(delivery.runId) ?? [];
+    deliveries.push({ ...delivery });
+    this.#deliveries.set(delivery.runId, deliveries);
+  }
+
+  async list(runId: string): Promise<FlaryCallbackDelivery[]> {
+    return (this.#deliveries.get(runId) ?? []).map((delivery) => ({ ...delivery }));
+  }
+}
+
+/** Match an exact host, or any subdomain for a `*.` pattern. */
+function hostMatches(host: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  return normalized.startsWith("*.")
+    ? host.endsWith(normalized.slice(1))
+    : host === normalized;
+}
+
+/**
+ * Whether a host names the local machine, a private network, or a reserved
+ * range. `URL` has already turned decimal and hex IPv4 forms into dotted
+ * quads. A public name that resolves to a private address is not caught
+ * here; `allowedHosts` closes that gap.
+ */
+function privateHost(host: string): boolean {
+  if (
+    host === "localhost" ||
+    [".localhost", ".local", ".internal"].some((suffix) => host.endsWith(suffix))
+  ) {
+    return true;
+  }
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(host);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+  if (!host.includes(":")) return false;
+  // Loopback, unspecified, unique local, link local, and IPv4-mapped.
+  return host === "::" || host === "::1" || /^f[cd]/.test(host) ||
+    /^fe[89ab]/.test(host) || host.startsWith("::ffff:");
+}
+
+function invalidCallback(message: string): FlaryFunctionError {
+  return new FlaryFunctionError("invalid_callback", message, 400);
+}
+
+async function hmacHex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(value));
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function constantTimeEqual(left: string, right: string): boolean {
+  let difference = left.length ^ right.length;
+  for (let index = 0; index < right.length; index += 1) {
+    difference |= (left.charCodeAt(index) || 0) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+}
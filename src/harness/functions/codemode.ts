@@ -19,6 +19,7 @@ import type {
   FlaryBrowserSource,
   FlaryMcpConnection,
   FlaryMcpSource,
+  FlaryMemorySource,
   FlaryOpenApiRuntime,
   FlaryOpenApiSource,
   FlaryR2Source,
@@ -34,6 +35,7 @@ import { redactErrorMessage, redactSecrets, redactText } from "../execution/reda
 import { createMcpConnection } from "./mcp.js";
 import { createOpenApiRuntime } from "./openapi.js";
 import { getFunctionState } from "./app.js";
+import { callToolWithHooks } from "./hooks.js";
 import { parseThreadName } from "../storage/scopes.js";
 import { normalizeFlaryCatalogCalls } from "./code-syntax.js";
 import { createR2FileConnection } from "./r2.js";
@@ -107,6 +109,10 @@ export interface FlaryCodemodeExecutorOptions<TBindings = unknown> {
       readonly storage?: unknown;
     },
   ) => FlaryToolConnection | Promise<FlaryToolConnection>;
+  readonly resolveMemory?: (
+    source: FlaryMemorySource,
+    input: { readonly bindings: TBindings; readonly context: FlaryStepContext<TBindings> },
+  ) => FlaryToolConnection | Promise<FlaryToolConnection>;
 }
 
 export class FlaryCodeExecutionError extends Error {
@@ -205,7 +211,7 @@ class FlaryCodemodeExecutor<TBindings> implements CodeExecutor<TBindings> {
       const result = await executor.execute(input.code, [
         {
           name: "tools",
-          fns: localProviders(input.tools, callCounter, false),
+          fns: localProviders(input.tools, callCounter, false, input.context),
         },
       ]);
       if (result.error) {
@@ -893,6 +899,19 @@ async function createSourceConnectors<TBindings>(
         browser,
       ));
     }
+    if (source.kind === "memory" && options.resolveMemory) {
+      const memory = await options.resolveMemory(source, {
+        bindings: input.bindings,
+        context: input.context,
+      });
+      connectors.push(createHostToolConnector(
+        codemode,
+        ctx,
+        options.env,
+        name,
+        memory,
+      ));
+    }
   }
   return connectors;
 }
@@ -1007,7 +1026,18 @@ function localProviders(
   registry: FlaryToolRegistry,
   callCounter: { count: number; max?: number },
   allowWrites: boolean,
+  context?: FlaryStepContext<unknown>,
 ): Record<string, (...args: unknown[]) => Promise<unknown>> {
+  // The context only carries application hooks here. Local calls keep using
+  // the public callable of each function.
+  const invoke = (value: unknown) => {
+    const call = value as { id?: unknown; input?: unknown } | null;
+    return typeof call?.id === "string"
+      ? callToolWithHooks(context, call.id, call.input, (input) =>
+          invokeRegistryTool(registry, { ...call, input }, undefined, callCounter, allowWrites)
+        )
+      : invokeRegistryTool(registry, value, undefined, callCounter, allowWrites);
+  };
   return {
     search: async (query: unknown) => ({
       items: describeRegistry(registry)
@@ -1022,15 +1052,14 @@ function localProviders(
       if (!descriptor) throw new Error(`Tool is not available: ${String(id)}`);
       return descriptor;
     },
-    call: async (...args: unknown[]) =>
-      invokeRegistryTool(registry, normalizeCall(args[0], args[1]), undefined, callCounter, allowWrites),
+    call: async (...args: unknown[]) => invoke(normalizeCall(args[0], args[1])),
     batch: async (...args: unknown[]) => {
       const value = args[0];
       const calls = Array.isArray(value)
         ? value
         : (value as { calls?: unknown })?.calls;
       if (!Array.isArray(calls)) throw new Error("calls must be an array");
-      return Promise.all(calls.map((call) => invokeRegistryTool(registry, normalizeCall(call), undefined, callCounter, allowWrites)));
+      return Promise.all(calls.map((call) => invoke(normalizeCall(call))));
     },
   };
 }
@@ -1082,7 +1111,7 @@ function describeRegistry(registry: FlaryToolRegistry): RegistryDescriptor[] {
           (source.kind === "r2" && source.access !== "read")
             ? "write"
             : "read",
-      requiresApproval: source.kind !== "mcp",
+      requiresApproval: source.kind !== "mcp" && source.kind !== "memory",
       tags: [source.kind],
       capabilities: [],
       ...(source.kind === "workspace" || source.kind === "sandbox" || source.kind === "browser" ||
@@ -1158,8 +1187,23 @@ async function invokeCatalogTool(
     throw new Error("A tool call must be an object");
   }
   const id = (normalized as { id?: unknown }).id;
-  const input = (normalized as { input?: unknown }).input;
   if (typeof id !== "string") throw new Error("A tool call needs an id");
+  return callToolWithHooks(
+    context,
+    id,
+    (normalized as { input?: unknown }).input,
+    (input) => invokeReservedTool(registry, id, input, context, ordinal, sourceTargets),
+  );
+}
+
+async function invokeReservedTool(
+  registry: FlaryToolRegistry,
+  id: string,
+  input: unknown,
+  context: FlaryStepContext<unknown> | undefined,
+  ordinal: number,
+  sourceTargets: ReadonlyMap<string, SourceTarget>,
+): Promise<unknown> {
   const reservation = await reserveInteractiveToolCall(
     context,
     id,
@@ -1177,7 +1221,7 @@ async function invokeCatalogTool(
     if (source) {
       result = await source.connector.executeTool(source.method, input ?? {});
     } else {
-      result = await invokeRegistryTool(registry, normalized, context);
+      result = await invokeRegistryTool(registry, { id, input }, context);
     }
   } catch (error) {
     if (interactiveToolFailureState(operation) === "outcome_unknown") {
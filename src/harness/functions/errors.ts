@@ -0,0 +1,20 @@
+/** Error returned by the function HTTP adapter. */
+export class FlaryFunctionError extends Error {
+  readonly code: string;
+  readonly status: number;
+  /** Machine-readable context, such as the schema issues of invalid output. */
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: string,
+    message: string,
+    status = 500,
+    details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "FlaryFunctionError";
+    this.code = code;
+    this.status = status;
+    if (details) this.details = details;
+  }
+}
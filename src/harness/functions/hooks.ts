@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+import { FlaryFunctionError } from "./errors.js";
+import type {
+  FlaryAppHooks,
+  FlaryHookEvent,
+  FlaryStepContext,
+  FlaryToolCallDecision,
+} from "./types.js";
+
+const TOOL_HOOKS = Symbol("flary.tool.hooks");
+
+interface ToolHooks {
+  readonly hooks: FlaryAppHooks<any>;
+  readonly event: FlaryHookEvent<any>;
+}
+
+const ToolCallDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("allow") }),
+  z.object({ action: z.literal("block"), reason: z.string().optional() }),
+  z.object({ action: z.literal("modify"), input: z.unknown() }),
+]);
+
+/**
+ * Attach the application tool hooks to a step context.
+ *
+ * The code executor only receives the step context, so the hooks travel with
+ * it. The returned context is a copy; the caller's context is unchanged.
+ */
+export function withToolHooks<TContext extends FlaryStepContext<any>>(
+  context: TContext,
+  hooks: FlaryAppHooks<any> | undefined,
+  source: Pick<FlaryHookEvent, "kind" | "name" | "threadId">,
+): TContext {
+  if (!hooks?.beforeToolCall && !hooks?.afterToolCall) return context;
+  const value: ToolHooks = {
+    hooks,
+    event: {
+      ...source,
+      ...(context.runId ? { runId: context.runId } : {}),
+      bindings: context.bindings,
+      ...(context.identity ? { identity: context.identity } : {}),
+    },
+  };
+  return Object.defineProperty({ ...context }, TOOL_HOOKS, { value });
+}
+
+/**
+ * Run one tool call between `beforeToolCall` and `afterToolCall`.
+ *
+ * A blocked call fails with `tool_call_blocked`. A context without hooks
+ * calls the tool directly.
+ */
+export async function callToolWithHooks(
+  context: FlaryStepContext<unknown> | undefined,
+  toolId: string,
+  input: unknown,
+  call: (input: unknown) => Promise<unknown>,
+): Promise<unknown> {
+  const attached = context
+    ? (context as { [TOOL_HOOKS]?: ToolHooks })[TOOL_HOOKS]
+    : undefined;
+  if (!attached) return call(input);
+  const { hooks, event } = attached;
+  let current = input;
+  const decision = await hooks.beforeToolCall?.({ ...event, toolId, input });
+  if (decision !== undefined && decision !== null) {
+    const parsed = ToolCallDecisionSchema.safeParse(decision);
+    if (!parsed.success) {
+      throw new FlaryFunctionError(
+        "invalid_tool_call_decision",
+        `beforeToolCall returned an invalid decision for tool '${toolId}'.`,
+        500,
+      );
+    }
+    const value = parsed.data as FlaryToolCallDecision;
+    if (value.action === "block") {
+      throw new FlaryFunctionError(
+        "tool_call_blocked",
+        value.reason ?? `A hook blocked the call to tool '${toolId}'.`,
+        403,
+        { toolId },
+      );
+    }
+    if (value.action === "modify") current = value.input;
+  }
+  const startedAt = Date.now();
+  try {
+    const output = await call(current);
+    await notifyHook(hooks.afterToolCall?.bind(hooks), {
+      ...event,
+      toolId,
+      input: current,
+      status: "completed",
+      output,
+      durationMs: Date.now() - startedAt,
+    }, context);
+    return output;
+  } catch (error) {
+    await notifyHook(hooks.afterToolCall?.bind(hooks), {
+      ...event,
+      toolId,
+      input: current,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    }, context);
+    throw error;
+  }
+}
+
+/**
+ * Call an observing hook. Its failure is logged and never changes the
+ * outcome of the run, turn, or tool call it observes.
+ */
+export async function notifyHook<TEvent>(
+  hook: ((event: TEvent) => void | Promise<void>) | undefined,
+  event: TEvent,
+  context?: Pick<FlaryStepContext<unknown>, "log">,
+): Promise<void> {
+  if (!hook) return;
+  try {
+    await hook(event);
+  } catch (error) {
+    context?.log.warn("flary.hook_failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
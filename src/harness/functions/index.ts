@@ -1,10 +1,15 @@
 export * from "./types.js";
 export * from "./runs.js";
+export * from "./cache.js";
+export * from "./quotas.js";
+export * from "./callbacks.js";
+export * from "./errors.js";
 export * from "./app.js";
 export * from "./codemode.js";
 export * from "./mcp.js";
 export * from "./openapi.js";
 export * from "./r2.js";
+export * from "./memory.js";
 export * from "./workflow.js";
 export {
   createModelOperations,
@@ -0,0 +1,191 @@
+/**
+ * Parse the longest usable value from a JSON prefix.
+ *
+ * Models stream structured output one token at a time. This parser keeps
+ * every complete member, keeps an open string as its current prefix, and
+ * omits numbers and literals that could still change. It returns `undefined`
+ * until an object or array has started, and for text that can never become
+ * valid JSON.
+ */
+export function parsePartialJson(text: string): unknown {
+  const body = text.trimStart().replace(/^```(?:json)?\s*/i, "");
+  if (body[0] !== "{" && body[0] !== "[") return undefined;
+  try {
+    return new PartialJsonParser(body).value()?.value;
+  } catch {
+    return undefined;
+  }
+}
+
+interface ParsedValue {
+  readonly value: unknown;
+  readonly complete: boolean;
+}
+
+class PartialJsonParser {
+  #index = 0;
+
+  constructor(private readonly text: string) {}
+
+  value(): ParsedValue | undefined {
+    this.skipWhitespace();
+    const char = this.text[this.#index];
+    if (char === undefined) return undefined;
+    if (char === "{") return this.object();
+    if (char === "[") return this.array();
+    if (char === '"') return this.string();
+    if (char === "-" || (char >= "0" && char <= "9")) return this.number();
+    return this.literal();
+  }
+
+  private object(): ParsedValue {
+    const value: Record<string, unknown> = {};
+    this.#index += 1;
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.#index];
+      if (char === undefined) return { value, complete: false };
+      if (char === "}") {
+        this.#index += 1;
+        return { value, complete: true };
+      }
+      if (char !== '"') throw new SyntaxError("Expected an object key");
+      const key = this.string();
+      if (!key.complete) return { value, complete: false };
+      this.skipWhitespace();
+      if (this.text[this.#index] === undefined) return { value, complete: false };
+      if (this.text[this.#index] !== ":") throw new SyntaxError("Expected ':'");
+      this.#index += 1;
+      const member = this.value();
+      if (!member) return { value, complete: false };
+      // Define the member so a `__proto__` key stays plain data.
+      Object.defineProperty(value, key.value as string, {
+        value: member.value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+      if (!member.complete) return { value, complete: false };
+      if (!this.separator("}")) return { value, complete: false };
+      if (this.text[this.#index - 1] === "}") return { value, complete: true };
+    }
+  }
+
+  private array(): ParsedValue {
+    const value: unknown[] = [];
+    this.#index += 1;
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.#index];
+      if (char === undefined) return { value, complete: false };
+      if (char === "]") {
+        this.#index += 1;
+        return { value, complete: true };
+      }
+      const item = this.value();
+      if (!item) return { value, complete: false };
+      value.push(item.value);
+      if (!item.complete) return { value, complete: false };
+      if (!this.separator("]")) return { value, complete: false };
+      if (this.text[this.#index - 1] === "]") return { value, complete: true };
+    }
+  }
+
+  /** Consume `,` or the closing bracket. Returns false at the end of input. */
+  private separator(close: "}" | "]"): boolean {
+    this.skipWhitespace();
+    const char = this.text[this.#index];
+    if (char === undefined) return false;
+    if (char !== "," && char !== close) {
+      throw new SyntaxError(`Expected ',' or '${close}'`);
+    }
+    this.#index += 1;
+    return true;
+  }
+
+  private string(): ParsedValue {
+    let value = "";
+    this.#index += 1;
+    while (this.#index < this.text.length) {
+      const char = this.text[this.#index]!;
+      if (char === '"') {
+        this.#index += 1;
+        return { value, complete: true };
+      }
+      if (char !== "\\") {
+        value += char;
+        this.#index += 1;
+        continue;
+      }
+      const escape = this.text[this.#index + 1];
+      if (escape === undefined) break;
+      if (escape === "u") {
+        const hex = this.text.slice(this.#index + 2, this.#index + 6);
+        if (hex.length < 4) break;
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new SyntaxError("Invalid unicode escape");
+        }
+        value += String.fromCharCode(Number.parseInt(hex, 16));
+        this.#index += 6;
+        continue;
+      }
+      const decoded = ESCAPES[escape];
+      if (decoded === undefined) throw new SyntaxError("Invalid escape");
+      value += decoded;
+      this.#index += 2;
+    }
+    this.#index = this.text.length;
+    return { value, complete: false };
+  }
+
+  private number(): ParsedValue | undefined {
+    const match = /^-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/.exec(
+      this.text.slice(this.#index),
+    );
+    const token = match?.[0] ?? "";
+    this.#index += token.length;
+    // A number at the end of the input can still gain digits.
+    if (this.#index >= this.text.length) return undefined;
+    const value = Number(token);
+    if (!/\d$/.test(token) || !Number.isFinite(value)) {
+      throw new SyntaxError("Invalid number");
+    }
+    return { value, complete: true };
+  }
+
+  private literal(): ParsedValue | undefined {
+    const rest = this.text.slice(this.#index);
+    for (const [token, value] of LITERALS) {
+      if (rest.startsWith(token)) {
+        this.#index += token.length;
+        return { value, complete: true };
+      }
+      if (token.startsWith(rest)) {
+        this.#index = this.text.length;
+        return undefined;
+      }
+    }
+    throw new SyntaxError("Unexpected token");
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.text[this.#index] ?? "")) this.#index += 1;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const LITERALS: readonly (readonly [string, unknown])[] = [
+  ["true", true],
+  ["false", false],
+  ["null", null],
+];
@@ -0,0 +1,289 @@
+import { z } from "zod";
+
+import { PromptRolloutSchema } from "../contracts/prompt-revisions.js";
+import { PromptCompileError } from "../prompts/diagnostics.js";
+import { selectPromptVariant } from "../prompts/rollouts.js";
+import { renderPromptTemplate } from "../prompts/template.js";
+import type { CompiledPrompt, PromptManifest } from "../prompts/types.js";
+import { parseThreadName } from "../storage/scopes.js";
+import { FlaryFunctionError } from "./errors.js";
+import type {
+  FlaryIdentity,
+  FlaryLimits,
+  FlaryPrompt,
+  FlaryPromptOptions,
+} from "./types.js";
+
+type JsonSchemaNode = Record<string, unknown>;
+
+/** Resolve `app.prompt()` from the compiled manifest of the application. */
+export function promptSource(
+  manifest: PromptManifest | undefined,
+  slug: string,
+  options: FlaryPromptOptions = {},
+): FlaryPrompt {
+  if (!manifest) {
+    throw new FlaryFunctionError(
+      "prompt_manifest_missing",
+      "app.prompt() needs a compiled prompt manifest in the `prompts` option of flary().",
+      400,
+    );
+  }
+  const compiled = (name: string): CompiledPrompt => {
+    const found = Object.hasOwn(manifest.prompts, name) ? manifest.prompts[name] : undefined;
+    if (!found) {
+      throw new FlaryFunctionError(
+        "prompt_not_found",
+        `Prompt '${name}' is not in the prompt manifest.`,
+        400,
+      );
+    }
+    return found;
+  };
+  const prompt = compiled(slug);
+  if (!options.rollout) {
+    return Object.freeze({ kind: "prompt" as const, slug, prompt, variants: Object.freeze({}) });
+  }
+  const parsed = PromptRolloutSchema.safeParse(options.rollout);
+  if (!parsed.success) {
+    throw new FlaryFunctionError(
+      "invalid_prompt_rollout",
+      `The rollout of prompt '${slug}' is invalid: ${parsed.error.issues[0]?.message ?? "unknown issue"}.`,
+      400,
+    );
+  }
+  const variants = Object.fromEntries(
+    parsed.data.variants.map((variant) => [variant.id, compiled(variant.revisionId)]),
+  );
+  for (const [id, variant] of Object.entries(variants)) {
+    if (stableSettings(variant) !== stableSettings(prompt)) {
+      throw new FlaryFunctionError(
+        "prompt_variant_mismatch",
+        `Rollout variant '${id}' of prompt '${slug}' has other model, thinking, tools, or limits.`,
+        400,
+      );
+    }
+  }
+  return Object.freeze({
+    kind: "prompt" as const,
+    slug,
+    prompt,
+    rollout: parsed.data,
+    variants: Object.freeze(variants),
+  });
+}
+
+export function isFlaryPrompt(value: unknown): value is FlaryPrompt {
+  return Boolean(value) && typeof value === "object" && (value as { kind?: unknown }).kind === "prompt";
+}
+
+/** Every compiled prompt that a caller may receive. */
+export function promptCandidates(prompt: FlaryPrompt): CompiledPrompt[] {
+  return prompt.rollout ? Object.values(prompt.variants) : [prompt.prompt];
+}
+
+/**
+ * The frontmatter settings of a prompt in Flary terms. `tokens`,
+ * `parallelTools`, and `subagents` limits have no Flary equivalent.
+ */
+export function promptSettings(prompt: CompiledPrompt): {
+  readonly model?: string;
+  readonly thinking?: string;
+  readonly tools: readonly string[];
+  readonly limits?: FlaryLimits;
+} {
+  const limits: FlaryLimits = {
+    ...(prompt.limits?.steps !== undefined ? { steps: prompt.limits.steps } : {}),
+    ...(prompt.limits?.tools !== undefined ? { toolCalls: prompt.limits.tools } : {}),
+    ...(prompt.limits?.costUsd !== undefined ? { costUsd: prompt.limits.costUsd } : {}),
+    ...(prompt.limits?.minutes !== undefined
+      ? { timeoutMs: Math.round(prompt.limits.minutes * 60_000) }
+      : {}),
+  };
+  return {
+    ...(prompt.fixedModel ? { model: prompt.fixedModel } : {}),
+    ...(prompt.thinking !== "inherit" ? { thinking: prompt.thinking } : {}),
+    tools: prompt.tools,
+    ...(Object.keys(limits).length > 0 ? { limits } : {}),
+  };
+}
+
+/**
+ * Check that the function input gives every value that the prompt reads, with
+ * the declared type. A required prompt value must be required by the schema.
+ */
+export function assertPromptInput(
+  prompt: FlaryPrompt,
+  schema: z.ZodType,
+  owner: string,
+): void {
+  let root: JsonSchemaNode;
+  try {
+    root = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JsonSchemaNode;
+  } catch {
+    return;
+  }
+  if (!jsonTypes(root)?.includes("object")) {
+    root = { type: "object", properties: { input: root }, required: ["input"] };
+  }
+  for (const compiled of promptCandidates(prompt)) {
+    for (const definition of Object.values(compiled.inputs)) {
+      let node: JsonSchemaNode | undefined = root;
+      let required = true;
+      for (const segment of definition.path.split(".")) {
+        const next: { node: JsonSchemaNode; required: boolean } | undefined =
+          node ? property(node, segment) : undefined;
+        node = next?.node;
+        required &&= next?.required ?? false;
+      }
+      const mismatch = !node
+        ? "is not in the input"
+        : definition.required && !required
+          ? "is optional in the input"
+          : !typeMatches(definition.type, jsonTypes(node))
+            ? `is not ${definition.type} in the input`
+            : undefined;
+      if (mismatch) {
+        throw new FlaryFunctionError(
+          "prompt_input_mismatch",
+          `Prompt '${compiled.slug}' reads '${definition.path}', which ${mismatch} of ${owner}.`,
+          400,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Choose the compiled prompt of one caller. Without a rollout, this is the
+ * base prompt. A caller without a subject for the rollout scope is assigned
+ * per run.
+ */
+export function selectFlaryPrompt(
+  prompt: FlaryPrompt,
+  caller: {
+    readonly identity?: FlaryIdentity;
+    readonly runId?: string;
+    readonly applicationId: string;
+  },
+): CompiledPrompt {
+  const rollout = prompt.rollout;
+  if (!rollout) return prompt.prompt;
+  const identity = caller.identity;
+  const subject = rollout.scope === "global"
+    ? undefined
+    : rollout.scope === "organization"
+      ? identity?.tenantId
+      : rollout.scope === "user"
+        ? identity?.userId && `${identity.tenantId}/${identity.userId}`
+        : rollout.scope === "project"
+          ? identity?.projectId ?? caller.applicationId
+          : caller.runId;
+  const variant = selectPromptVariant(rollout, {
+    scope: rollout.scope,
+    ...(rollout.scope === "global"
+      ? {}
+      : { subject: subject || caller.runId || crypto.randomUUID() }),
+  });
+  return prompt.variants[variant.id]!;
+}
+
+/** Render a compiled prompt with the values that it declares. */
+export function renderFlaryPrompt(prompt: CompiledPrompt, input: unknown): string {
+  const values = isRecord(input) ? input : { input };
+  const roots = new Set(Object.keys(prompt.inputs).map((path) => path.split(".")[0]!));
+  try {
+    return renderPromptTemplate(
+      prompt.template,
+      Object.fromEntries(Object.entries(values).filter(([key]) => roots.has(key))),
+      prompt.inputs,
+      prompt.path,
+    );
+  } catch (error) {
+    if (error instanceof PromptCompileError) {
+      throw new FlaryFunctionError("invalid_prompt_input", error.message, 400);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render the instructions of an interactive agent. The thread name gives the
+ * tenant and application; an agent has no user while it starts, so a `user`
+ * rollout is assigned per thread.
+ */
+export function agentPromptInstructions(prompt: FlaryPrompt, runId: string): string {
+  let ref: ReturnType<typeof parseThreadName> | undefined;
+  try {
+    ref = parseThreadName(runId);
+  } catch {
+    ref = undefined;
+  }
+  return renderFlaryPrompt(
+    selectFlaryPrompt(prompt, {
+      ...(ref ? { identity: { tenantId: ref.organizationId } } : {}),
+      runId,
+      applicationId: ref?.appId ?? "flary",
+    }),
+    {},
+  );
+}
+
+function stableSettings(prompt: CompiledPrompt): string {
+  const settings = promptSettings(prompt);
+  return JSON.stringify([
+    settings.model,
+    settings.thinking,
+    [...settings.tools].sort(),
+    settings.limits,
+  ]);
+}
+
+function property(
+  node: JsonSchemaNode,
+  key: string,
+): { node: JsonSchemaNode; required: boolean } | undefined {
+  for (const branch of [node, ...branches(node)]) {
+    const properties = branch.properties;
+    if (isRecord(properties) && isRecord(properties[key])) {
+      return {
+        node: properties[key] as JsonSchemaNode,
+        required: Array.isArray(branch.required) && branch.required.includes(key),
+      };
+    }
+  }
+  return undefined;
+}
+
+/** The JSON types a schema node accepts, or undefined when it accepts any. */
+function jsonTypes(node: JsonSchemaNode): string[] | undefined {
+  if (typeof node.type === "string" || Array.isArray(node.type)) {
+    return ([] as unknown[]).concat(node.type).map((type) =>
+      type === "integer" ? "number" : String(type)
+    );
+  }
+  const values = Array.isArray(node.enum) ? node.enum : "const" in node ? [node.const] : undefined;
+  if (values) {
+    return [...new Set(values.map((value) =>
+      value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+    ))];
+  }
+  const nested = branches(node).map(jsonTypes);
+  if (nested.length === 0 || nested.some((types) => types === undefined)) return undefined;
+  return [...new Set(nested.flat() as string[])];
+}
+
+function branches(node: JsonSchemaNode): JsonSchemaNode[] {
+  return [node.anyOf, node.oneOf, node.allOf]
+    .flatMap((list) => (Array.isArray(list) ? list : []))
+    .filter(isRecord);
+}
+
+function typeMatches(declared: string, types: string[] | undefined): boolean {
+  if (declared === "any" || declared === "json" || types === undefined) return true;
+  return types.every((type) => type === declared);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
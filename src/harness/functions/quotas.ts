@@ -0,0 +1,266 @@
+import type {
+  FlaryQuotaCharge,
+  FlaryQuotaDecision,
+  FlaryQuotaLimits,
+  FlaryQuotaStore,
+  FlaryQuotaSubject,
+  FlaryQuotaUsage,
+} from "./types.js";
+
+const MINUTE_MS = 60_000;
+/**
+ * How long a lease record outlives its slot. A run that ends after its lease
+ * expired still charges its usage, and older records are swept.
+ */
+export const QUOTA_LEASE_RETENTION_MS = 24 * 60 * MINUTE_MS;
+// A slot frees when a run ends, which cannot be predicted. Clients retry soon.
+const CONCURRENCY_RETRY_SECONDS = 5;
+
+/**
+ * Synchronous key-value access to quota state. The ledger reads and writes
+ * without awaiting, so one call is atomic in one isolate and in one Durable
+ * Object request.
+ */
+export interface FlaryQuotaTable {
+  read(key: string): unknown;
+  write(key: string, value: unknown): void;
+  remove(key: string): void;
+}
+
+interface QuotaCounter {
+  minute: { window: number; requests: number };
+  day: { window: string; tokens: number };
+  month: { window: string; spendUsd: number };
+  /** Open lease IDs and the time each one expires. */
+  leases: Record<string, number>;
+}
+
+interface QuotaLease {
+  subjects: string[];
+  expiresAt: number;
+}
+
+/** Check every subject and, when all pass, count the request and hold a slot. */
+export function admitQuota(
+  table: FlaryQuotaTable,
+  input: {
+    readonly subjects: readonly FlaryQuotaSubject[];
+    readonly leaseId: string;
+    readonly leaseMs: number;
+  },
+  now = Date.now(),
+): FlaryQuotaDecision {
+  const counters = input.subjects.map((subject) => ({
+    subject,
+    key: subjectKey(subject),
+    counter: current(table, subjectKey(subject), now),
+  }));
+  for (const { subject, counter } of counters) {
+    const exceeded = exceededLimit(subject.limits, counter, input.leaseId, now);
+    if (exceeded) {
+      return {
+        admitted: false,
+        scope: subject.scope,
+        key: subject.key,
+        limit: exceeded,
+        retryAfterSeconds: retryAfterSeconds(exceeded, now),
+      };
+    }
+  }
+  const expiresAt = now + input.leaseMs;
+  for (const { key, counter } of counters) {
+    counter.minute.requests += 1;
+    counter.leases[input.leaseId] = expiresAt;
+    table.write(key, counter);
+  }
+  table.write(leaseKey(input.leaseId), {
+    subjects: counters.map(({ key }) => key),
+    expiresAt,
+  } satisfies QuotaLease);
+  return { admitted: true };
+}
+
+/** Free the slot of a lease and charge its usage to the lease subjects. */
+export function releaseQuota(
+  table: FlaryQuotaTable,
+  input: { readonly leaseId: string; readonly charge?: FlaryQuotaCharge },
+  now = Date.now(),
+): void {
+  const lease = table.read(leaseKey(input.leaseId)) as QuotaLease | undefined;
+  if (!lease) return;
+  const tokens = amount(input.charge?.tokens);
+  const costUsd = amount(input.charge?.costUsd);
+  for (const key of lease.subjects) {
+    const counter = current(table, key, now);
+    delete counter.leases[input.leaseId];
+    counter.day.tokens += tokens;
+    counter.month.spendUsd += costUsd;
+    table.write(key, counter);
+  }
+  table.remove(leaseKey(input.leaseId));
+}
+
+/** Read the used and remaining allowance of each subject. */
+export function readQuotaUsage(
+  table: FlaryQuotaTable,
+  subjects: readonly FlaryQuotaSubject[],
+  now = Date.now(),
+): FlaryQuotaUsage[] {
+  return subjects.map((subject) => {
+    const counter = current(table, subjectKey(subject), now);
+    const used = {
+      requestsPerMinute: counter.minute.requests,
+      concurrentRuns: Object.keys(counter.leases).length,
+      dailyTokens: counter.day.tokens,
+      monthlySpendUsd: counter.month.spendUsd,
+    };
+    const remaining: Partial<Record<keyof FlaryQuotaLimits, number>> = {};
+    for (const name of Object.keys(used) as (keyof FlaryQuotaLimits)[]) {
+      const limit = subject.limits[name];
+      if (limit !== undefined) remaining[name] = Math.max(0, limit - used[name]);
+    }
+    return {
+      scope: subject.scope,
+      key: subject.key,
+      limits: { ...subject.limits },
+      used,
+      remaining,
+      resetsAt: {
+        requestsPerMinute: new Date(nextMinute(now)).toISOString(),
+        dailyTokens: new Date(nextDay(now)).toISOString(),
+        monthlySpendUsd: new Date(nextMonth(now)).toISOString(),
+      },
+    };
+  });
+}
+
+/** A process-local quota store for tests and single-isolate development. */
+export class InMemoryFlaryQuotaStore implements FlaryQuotaStore {
+  readonly #tenants = new Map<string, Map<string, unknown>>();
+
+  async admit(input: Parameters<FlaryQuotaStore["admit"]>[0]): Promise<FlaryQuotaDecision> {
+    this.sweepLeases(input.tenantId);
+    return admitQuota(this.table(input.tenantId), input);
+  }
+
+  async release(input: Parameters<FlaryQuotaStore["release"]>[0]): Promise<void> {
+    releaseQuota(this.table(input.tenantId), input);
+  }
+
+  async usage(input: Parameters<FlaryQuotaStore["usage"]>[0]): Promise<FlaryQuotaUsage[]> {
+    return readQuotaUsage(this.table(input.tenantId), input.subjects);
+  }
+
+  /** Delete lease records that expired longer ago than the retention window. */
+  private sweepLeases(tenantId: string, now = Date.now()): void {
+    const entries = this.#tenants.get(tenantId);
+    for (const [key, value] of entries ?? []) {
+      if (
+        key.startsWith(leaseKey("")) &&
+        (value as QuotaLease).expiresAt < now - QUOTA_LEASE_RETENTION_MS
+      ) {
+        entries!.delete(key);
+      }
+    }
+  }
+
+  private table(tenantId: string): FlaryQuotaTable {
+    let entries = this.#tenants.get(tenantId);
+    if (!entries) {
+      entries = new Map();
+      this.#tenants.set(tenantId, entries);
+    }
+    const values = entries;
+    return {
+      read: (key) => structuredClone(values.get(key)),
+      write: (key, value) => void values.set(key, structuredClone(value)),
+      remove: (key) => void values.delete(key),
+    };
+  }
+}
+
+function current(table: FlaryQuotaTable, key: string, now: number): QuotaCounter {
+  const stored = table.read(key) as QuotaCounter | undefined;
+  const minute = Math.floor(now / MINUTE_MS);
+  const day = new Date(now).toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  const leases = Object.fromEntries(
+    Object.entries(stored?.leases ?? {}).filter(([, expiresAt]) => expiresAt > now),
+  );
+  return {
+    minute: stored?.minute.window === minute
+      ? stored.minute
+      : { window: minute, requests: 0 },
+    day: stored?.day.window === day ? stored.day : { window: day, tokens: 0 },
+    month: stored?.month.window === month
+      ? stored.month
+      : { window: month, spendUsd: 0 },
+    leases,
+  };
+}
+
+function exceededLimit(
+  limits: FlaryQuotaLimits,
+  counter: QuotaCounter,
+  leaseId: string,
+  now: number,
+): keyof FlaryQuotaLimits | undefined {
+  if (
+    limits.requestsPerMinute !== undefined &&
+    counter.minute.requests >= limits.requestsPerMinute
+  ) {
+    return "requestsPerMinute";
+  }
+  const open = Object.entries(counter.leases)
+    .filter(([id, expiresAt]) => id !== leaseId && expiresAt > now).length;
+  if (limits.concurrentRuns !== undefined && open >= limits.concurrentRuns) {
+    return "concurrentRuns";
+  }
+  if (limits.dailyTokens !== undefined && counter.day.tokens >= limits.dailyTokens) {
+    return "dailyTokens";
+  }
+  if (
+    limits.monthlySpendUsd !== undefined &&
+    counter.month.spendUsd >= limits.monthlySpendUsd
+  ) {
+    return "monthlySpendUsd";
+  }
+  return undefined;
+}
+
+function retryAfterSeconds(limit: keyof FlaryQuotaLimits, now: number): number {
+  const resetAt = limit === "requestsPerMinute"
+    ? nextMinute(now)
+    : limit === "dailyTokens"
+      ? nextDay(now)
+      : limit === "monthlySpendUsd"
+        ? nextMonth(now)
+        : now + CONCURRENCY_RETRY_SECONDS * 1_000;
+  return Math.max(1, Math.ceil((resetAt - now) / 1_000));
+}
+
+function nextMinute(now: number): number {
+  return (Math.floor(now / MINUTE_MS) + 1) * MINUTE_MS;
+}
+
+function nextDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function nextMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+function subjectKey(subject: FlaryQuotaSubject): string {
+  return `flary:quota:${subject.scope}:${subject.key}`;
+}
+
+function leaseKey(leaseId: string): string {
+  return `flary:quota-lease:${leaseId}`;
+}
+
+function amount(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
@@ -9,17 +9,52 @@ import type {
   TrustedRunContext,
 } from "../host/runs.js";
 import type {
+  FlaryCacheHit,
   FlaryEvent,
+  FlaryGuardrailTrip,
+  FlaryModelFallback,
+  FlaryOutputRepairAttempt,
+  FlaryReceivedEvent,
   FlaryRun,
   FlaryRunOptions,
+  FlaryRunReporter,
   FlaryRunStorage,
   FlaryRunStore,
+  FlaryRunWait,
+  FlaryStepProgress,
   FlaryStepStorage,
   FlaryStepStore,
 } from "./types.js";
+import { parsePartialJson } from "./partial.js";
 
 type Event<Output> = FlaryEvent<Output>;
 
+/** Completed named steps and durable waits, keyed by step name. */
+export type FlaryStepJournal = Record<
+  string,
+  { readonly inputHash: string; readonly value: unknown }
+>;
+
+/**
+ * Thrown by `context.sleep()` and `context.waitForEvent()` when a run must
+ * pause. Run stores and generated workflows turn it into a `paused` run; it
+ * is never a function failure.
+ */
+export class FlaryRunPausedError extends Error {
+  readonly code = "function_paused";
+  readonly wait: FlaryRunWait;
+
+  constructor(wait: FlaryRunWait) {
+    super(
+      wait.kind === "sleep"
+        ? `The run sleeps in '${wait.name}' until ${wait.resumeAt}.`
+        : `The run waits in '${wait.name}' for a '${wait.eventType}' event.`,
+    );
+    this.name = "FlaryRunPausedError";
+    this.wait = wait;
+  }
+}
+
 /**
  * A small process-local run store for local calls and tests.
  *
@@ -31,7 +66,11 @@ export class InMemoryFlaryFunctionRunStore implements FlaryRunStore {
 
   async create<T>(input: {
     readonly runId: string;
-    readonly execute: (signal: AbortSignal) => Promise<T>;
+    readonly execute: (
+      signal: AbortSignal,
+      inbox: FlaryReceivedEvent[],
+      reporter: FlaryRunReporter,
+    ) => Promise<T>;
   }): Promise<FlaryRun<T>> {
     if (this.#runs.has(input.runId)) {
       return this.#runs.get(input.runId)!.publicRun() as FlaryRun<T>;
@@ -73,7 +112,11 @@ export class DurableObjectFlaryFunctionRunStore implements FlaryRunStore {
 
   async create<T>(input: {
     readonly runId: string;
-    readonly execute: (signal: AbortSignal) => Promise<T>;
+    readonly execute: (
+      signal: AbortSignal,
+      inbox: FlaryReceivedEvent[],
+      reporter: FlaryRunReporter,
+    ) => Promise<T>;
   }): Promise<FlaryRun<T>> {
     const active = this.#active.get(input.runId);
     if (active) return active as FlaryRun<T>;
@@ -147,6 +190,10 @@ export interface FlueBackedFlaryRunOptions<Output> {
   readonly initialStatus?: RunResult["status"];
   readonly parseOutput: (value: unknown) => Output;
   readonly pollMs?: number;
+  /** Parse streamed message text into `partial` events. */
+  readonly partialOutput?: "json" | "text";
+  /** The cache entry that served this run, reported on its `output` event. */
+  readonly cacheHit?: FlaryCacheHit;
 }
 
 /**
@@ -175,9 +222,7 @@ export function createFlueBackedFlaryRun<Output>(
     async result(): Promise<Output> {
       while (true) {
         const value = await read();
-        if (value.status === "completed") {
-          return options.parseOutput(value.output);
-        }
+        if (value.status === "completed") return options.parseOutput(value.output);
         if (value.status === "failed") {
           const error = new Error(value.error?.message ?? "The Flary run failed");
           if (value.error?.code) {
@@ -192,6 +237,8 @@ export function createFlueBackedFlaryRun<Output>(
       }
     },
     async *stream(streamOptions = {}): AsyncIterable<FlaryEvent<Output>> {
+      const messages = new Map<string, string>();
+      let reported: string | undefined;
       for await (const event of options.service.observe(
         options.trusted,
         options.runId,
@@ -200,7 +247,10 @@ export function createFlueBackedFlaryRun<Output>(
           signal: streamOptions.signal ?? new AbortController().signal,
         },
       )) {
-        const mapped = mapServiceEvent(event, options.parseOutput);
+        let mapped = mapServiceEvent(event, options.parseOutput);
+        if (mapped?.type === "output" && options.cacheHit) {
+          mapped = { ...mapped, cache: options.cacheHit };
+        }
         if (mapped) {
           if (mapped.type === "output") status = "completed";
           else if (mapped.type === "failed") status = "failed";
@@ -209,6 +259,24 @@ export function createFlueBackedFlaryRun<Output>(
           else if (mapped.type === "started") status = "running";
           yield mapped;
         }
+        if (options.partialOutput && event.type === "message.delta") {
+          const messageId = event.payload.messageId ?? "message";
+          const text = (messages.get(messageId) ?? "") + event.payload.delta;
+          messages.set(messageId, text);
+          const output = options.partialOutput === "text"
+            ? text
+            : parsePartialJson(text);
+          const key = output === undefined ? undefined : JSON.stringify(output);
+          if (key !== undefined && key !== reported) {
+            reported = key;
+            yield {
+              type: "partial",
+              runId: options.runId,
+              output: output as never,
+              occurredAt: event.occurredAt,
+            };
+          }
+        }
       }
     },
     async cancel(reason?: string): Promise<void> {
@@ -308,14 +376,23 @@ class LocalRun<T> {
   }>();
   readonly #abort = new AbortController();
   readonly #result: Promise<T>;
+  readonly #inbox: FlaryReceivedEvent[] = [];
   #resolveResult!: (value: T) => void;
   #rejectResult!: (error: unknown) => void;
   #status: FlaryRun<T>["status"] = "queued";
+  #wait: FlaryRunWait | undefined;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+  #progressSequence = 0;
+  #cacheHit: FlaryCacheHit | undefined;
   #done = false;
 
   constructor(
     readonly runId: string,
-    private readonly execute: (signal: AbortSignal) => Promise<T>,
+    private readonly execute: (
+      signal: AbortSignal,
+      inbox: FlaryReceivedEvent[],
+      reporter: FlaryRunReporter,
+    ) => Promise<T>,
   ) {
     this.#result = new Promise<T>((resolve, reject) => {
       this.#resolveResult = resolve;
@@ -327,7 +404,43 @@ class LocalRun<T> {
   start(): void {
     this.#status = "running";
     this.emit({ type: "started", runId: this.runId, occurredAt: now() });
-    void this.execute(this.#abort.signal).then(
+    this.attempt();
+  }
+
+  /** Replay the run after its timer fires or a matching event arrives. */
+  private resume(): void {
+    if (this.#done || this.#status !== "paused") return;
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    this.#wait = undefined;
+    this.#status = "running";
+    this.emit({ type: "resumed", runId: this.runId, occurredAt: now() });
+    this.attempt();
+  }
+
+  private attempt(): void {
+    void this.execute(
+      this.#abort.signal,
+      this.#inbox,
+      {
+        progress: (payload) => this.record({ type: "step.progress", payload }),
+        repair: (payload) => this.record({ type: "output.repair", payload }),
+        fallback: (payload) => this.record({ type: "model.fallback", payload }),
+        guardrail: (payload) => this.record({ type: "guardrail.tripped", payload }),
+        cacheHit: (hit) => {
+          this.#cacheHit = hit;
+        },
+        partial: (output) => {
+          if (this.#done) return;
+          this.emit({
+            type: "partial",
+            runId: this.runId,
+            output: output as never,
+            occurredAt: now(),
+          });
+        },
+      },
+    ).then(
       (output) => {
         if (this.#done) return;
         if (this.#abort.signal.aborted) {
@@ -343,6 +456,7 @@ class LocalRun<T> {
           type: "output",
           runId: this.runId,
           output,
+          ...(this.#cacheHit ? { cache: this.#cacheHit } : {}),
           occurredAt: now(),
         });
         this.finish();
@@ -353,6 +467,9 @@ class LocalRun<T> {
           this.#status = "cancelled";
           this.#rejectResult(cause);
           this.emit({ type: "cancelled", runId: this.runId, occurredAt: now() });
+        } else if (cause instanceof FlaryRunPausedError) {
+          this.pause(cause.wait);
+          return;
         } else {
           this.#status = "failed";
           const error = errorInfo(cause);
@@ -364,6 +481,95 @@ class LocalRun<T> {
     );
   }
 
+  /** Wrap a run event in a `progress` event with a local sequence. */
+  private record(
+    event:
+      | { readonly type: "step.progress"; readonly payload: FlaryStepProgress }
+      | {
+          readonly type: "output.repair";
+          readonly payload: FlaryOutputRepairAttempt;
+        }
+      | { readonly type: "model.fallback"; readonly payload: FlaryModelFallback }
+      | { readonly type: "guardrail.tripped"; readonly payload: FlaryGuardrailTrip },
+  ): void {
+    if (this.#done) return;
+    this.#progressSequence += 1;
+    const occurredAt = now();
+    this.emit({
+      type: "progress",
+      runId: this.runId,
+      event: {
+        id: `event_${this.runId}_progress_${this.#progressSequence}`,
+        runId: this.runId,
+        sequence: this.#progressSequence,
+        occurredAt,
+        ...(event.type === "step.progress"
+          ? { type: event.type, payload: { ...event.payload } }
+          : event.type === "guardrail.tripped"
+            ? { type: event.type, payload: { ...event.payload } }
+            : event.type === "model.fallback"
+              ? {
+                  type: event.type,
+                  payload: {
+                    ...event.payload,
+                    from: { ...event.payload.from },
+                    to: { ...event.payload.to },
+                  },
+                }
+              : {
+                  type: event.type,
+                  payload: {
+                    ...event.payload,
+                    issues: event.payload.issues.map((issue) => ({ ...issue })),
+                  },
+                }),
+      },
+      occurredAt,
+    });
+  }
+
+  private pause(wait: FlaryRunWait): void {
+    this.#status = "paused";
+    this.#wait = wait;
+    this.emit({
+      type: "paused",
+      runId: this.runId,
+      reason: wait.kind === "sleep"
+        ? "The function is sleeping."
+        : `The function is waiting for a '${wait.eventType}' event.`,
+      wait,
+      occurredAt: now(),
+    });
+    if (wait.kind === "event" && this.#inbox.some((event) => event.type === wait.eventType)) {
+      queueMicrotask(() => this.resume());
+      return;
+    }
+    if (wait.resumeAt) {
+      // Long waits re-arm after the platform timer limit. The replay pauses
+      // again until the recorded wake time has passed.
+      const delayMs = Math.min(
+        Math.max(0, Date.parse(wait.resumeAt) - Date.now()),
+        MAX_TIMER_MS,
+      );
+      this.#timer = setTimeout(() => this.resume(), delayMs);
+    }
+  }
+
+  private deliver(input: unknown): void {
+    if (this.#done) {
+      throw new Error("A terminal run cannot accept more input.");
+    }
+    const event = parseRunEventInput(input);
+    this.#inbox.push(event);
+    if (
+      this.#status === "paused" &&
+      this.#wait?.kind === "event" &&
+      this.#wait.eventType === event.type
+    ) {
+      this.resume();
+    }
+  }
+
   publicRun(): FlaryRun<T> {
     const thisRun = this;
     return {
@@ -378,6 +584,13 @@ class LocalRun<T> {
       cancel: async (reason?: string) => {
         if (this.#done) return;
         this.#abort.abort(reason ?? "The run was cancelled");
+        if (this.#status === "paused") {
+          clearTimeout(this.#timer);
+          this.#status = "cancelled";
+          this.#rejectResult(this.#abort.signal.reason);
+          this.emit({ type: "cancelled", runId: this.runId, occurredAt: now() });
+          this.finish();
+        }
       },
       approvals: async () => [],
       approve: async () => {
@@ -390,8 +603,8 @@ class LocalRun<T> {
       respond: async () => {
         throw localContinuationError();
       },
-      sendInput: async () => {
-        throw localContinuationError();
+      sendInput: async (input) => {
+        this.deliver(input);
       },
     };
   }
@@ -467,6 +680,9 @@ function restoredRun<T>(snapshot: StoredRunSnapshot): FlaryRun<T> {
   };
 }
 
+/** setTimeout stores its delay as a signed 32-bit integer. */
+const MAX_TIMER_MS = 2_147_483_647;
+
 function isTerminal(status: FlaryRun<unknown>["status"]): boolean {
   return status === "completed" || status === "failed" || status === "cancelled";
 }
@@ -488,6 +704,89 @@ export function runId(prefix = "run"): string {
   return `${prefix}_${crypto.randomUUID().replaceAll("-", "")}`;
 }
 
+/** Parse milliseconds or a duration such as `500ms`, `30s`, `15m`, `2h`, or `7d`. */
+export function durationMs(value: number | string): number {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid Flary duration: ${value}`);
+    }
+    return value;
+  }
+  const match = /^(\d+)(ms|s|m|h|d)$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid Flary duration: ${value}`);
+  const amount = Number(match[1]);
+  const unit = match[2];
+  const multiplier =
+    unit === "ms" ? 1 :
+    unit === "s" ? 1_000 :
+    unit === "m" ? 60_000 :
+    unit === "h" ? 3_600_000 :
+    86_400_000;
+  return amount * multiplier;
+}
+
+/** Validate one event sent to a paused run with `FlaryRun.sendInput`. */
+export function parseRunEventInput(value: unknown): FlaryReceivedEvent {
+  if (!isRecord(value) || typeof value.type !== "string" || value.type.length === 0) {
+    throw new Error("Run events must be objects with a non-empty string type.");
+  }
+  return {
+    type: value.type,
+    payload: value.payload === undefined ? null : jsonValue(value.payload),
+    receivedAt: now(),
+  };
+}
+
+/**
+ * Step store for one generated workflow attempt.
+ *
+ * A resumed run carries its step journal in the workflow envelope, because
+ * each Flue workflow attempt owns a fresh Durable Object. This store serves
+ * that journal first and records every new step, so a later pause can hand
+ * the complete journal back to the Runtime Durable Object.
+ */
+export class JournalFlaryStepStore implements FlaryStepStore {
+  readonly #entries = new Map<string, { inputHash: string; value: unknown }>();
+
+  constructor(
+    journal: FlaryStepJournal = {},
+    private readonly base?: FlaryStepStore,
+  ) {
+    for (const [name, entry] of Object.entries(journal)) {
+      this.#entries.set(name, { inputHash: entry.inputHash, value: entry.value });
+    }
+  }
+
+  async get(input: {
+    readonly runId: string;
+    readonly name: string;
+  }): Promise<{ readonly inputHash: string; readonly value: unknown } | undefined> {
+    return this.#entries.get(input.name) ?? this.base?.get(input);
+  }
+
+  async put(input: {
+    readonly runId: string;
+    readonly name: string;
+    readonly inputHash: string;
+    readonly value: unknown;
+  }): Promise<void> {
+    let value: unknown;
+    try {
+      value = input.value === undefined
+        ? null
+        : JSON.parse(JSON.stringify(input.value)) as unknown;
+    } catch {
+      throw new Error(`Step '${input.name}' returned a non-serializable value.`);
+    }
+    this.#entries.set(input.name, { inputHash: input.inputHash, value });
+    await this.base?.put(input);
+  }
+
+  journal(): FlaryStepJournal {
+    return Object.fromEntries(this.#entries);
+  }
+}
+
 /**
  * Durable Object KV adapter for named steps.
  *
@@ -523,7 +822,9 @@ export class DurableObjectFlaryStepStore implements FlaryStepStore {
     // they can corrupt a durable replay record.
     let value: unknown;
     try {
-      value = JSON.parse(JSON.stringify(input.value)) as unknown;
+      value = input.value === undefined
+        ? null
+        : JSON.parse(JSON.stringify(input.value)) as unknown;
     } catch {
       throw new Error(`Step '${input.name}' returned a non-serializable value.`);
     }
@@ -666,6 +967,7 @@ function mapServiceEvent<Output>(
         ...(event.payload.approvalId
           ? { approvalId: event.payload.approvalId }
           : {}),
+        ...(event.payload.wait ? { wait: event.payload.wait } : {}),
         occurredAt: event.occurredAt,
       };
     case "approval.requested":
@@ -52,6 +52,10 @@ export function coreToolGuidance(
       groups.push(
         `${namespace}: tenant-scoped R2 file list, stat, glob, grep, read, diff, write, edit, move, and delete`
       );
+    } else if (source.kind === "memory") {
+      groups.push(
+        `${namespace}: long-term memory list, search, remember, update, and forget`
+      );
     }
   }
   const eagerLocalToolIds = eagerTools.filter((id) => localToolIds.has(id));
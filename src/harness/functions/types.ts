@@ -2,6 +2,7 @@ import { z } from "zod";
 
 import type {
   ApprovalRequest,
+  DeadLetterRecord,
   RunEvent,
   UserInputAnswerRequest,
   UserInputRecord,
@@ -11,7 +12,11 @@ import type {
   TrustedRunContext,
 } from "../host/runs.js";
 import type { FlaryThreadHostService } from "../host/types.js";
-import type { ModelAdapter, ProviderAdapterRegistry } from "../providers/index.js";
+import type {
+  ModelAdapter,
+  ModelPricingOverrides,
+  ProviderAdapterRegistry,
+} from "../providers/index.js";
 import type { ApprovalContinuation } from "../execution/approval-continuation.js";
 import type { FlaryCodemodeApprovalBridge } from "./codemode.js";
 import type {
@@ -20,6 +25,12 @@ import type {
   ResolvedModelPin,
 } from "../contracts/provider.js";
 import type { ModelOperationHandlers } from "../providers/operations.js";
+import type { RecallIndex } from "../recall/index.js";
+import type { CompiledPrompt, PromptManifest } from "../prompts/types.js";
+import type {
+  PromptRollout,
+  PromptRolloutSchema,
+} from "../contracts/prompt-revisions.js";
 
 export type FlarySchema = z.ZodType;
 
@@ -73,6 +84,36 @@ export interface FlaryStepContext<TBindings = unknown> {
     fn: FlaryCallableLike<TInput, TOutput>,
     input: TInput,
   ): Promise<TOutput>;
+  /**
+   * Run one step per item with bounded concurrency. Each item is recorded as
+   * its own named step, so a replay only runs the items that failed.
+   */
+  map<TItem, TOutput>(
+    name: string,
+    items: readonly TItem[],
+    fn: FlaryCallableLike<TItem, TOutput>,
+    options?: FlaryStepMapOptions,
+  ): Promise<TOutput[]>;
+  /** Run a fixed list of different steps with the same guarantees as `map`. */
+  parallel<const TSteps extends readonly FlaryParallelStep[]>(
+    name: string,
+    steps: TSteps,
+    options?: FlaryStepMapOptions,
+  ): Promise<{ -readonly [K in keyof TSteps]: FlaryParallelOutput<TSteps[K]> }>;
+  /**
+   * Pause the run until the duration elapses. The wake time is recorded in
+   * the step store, so a replay after the timer fires continues past it.
+   */
+  sleep(name: string, duration: number | string): Promise<void>;
+  /**
+   * Pause the run until `FlaryRun.sendInput({ type, payload })` delivers a
+   * matching event. The wait fails with `wait_for_event_timeout` after
+   * `timeout`, when one is given.
+   */
+  waitForEvent<TPayload = unknown>(
+    name: string,
+    options: FlaryWaitForEventOptions,
+  ): Promise<FlaryReceivedEvent<TPayload>>;
   readonly log: {
     info(message: string, attributes?: Record<string, unknown>): void;
     warn(message: string, attributes?: Record<string, unknown>): void;
@@ -80,6 +121,56 @@ export interface FlaryStepContext<TBindings = unknown> {
   };
 }
 
+export interface FlaryStepMapOptions {
+  /** Maximum number of items in flight. Defaults to 8. */
+  readonly concurrency?: number;
+}
+
+export interface FlaryParallelStep<TInput = any, TOutput = any> {
+  readonly fn: FlaryCallableLike<TInput, TOutput>;
+  readonly input: TInput;
+}
+
+export type FlaryParallelOutput<TStep> =
+  TStep extends FlaryParallelStep<any, infer TOutput> ? TOutput : never;
+
+/** One settled item of a `map` or `parallel` step. */
+export interface FlaryStepProgress {
+  readonly step: string;
+  readonly index: number;
+  readonly status: "succeeded" | "failed";
+  readonly completed: number;
+  readonly failed: number;
+  readonly total: number;
+}
+
+export interface FlaryWaitForEventOptions {
+  readonly type: string;
+  /** Milliseconds or a duration such as `30m`, `12h`, or `7d`. */
+  readonly timeout?: number | string;
+}
+
+/** External event sent to a paused run with `FlaryRun.sendInput`. */
+export interface FlaryRunEventInput<TPayload = unknown> {
+  readonly type: string;
+  readonly payload?: TPayload;
+}
+
+export interface FlaryReceivedEvent<TPayload = unknown> {
+  readonly type: string;
+  readonly payload: TPayload;
+  readonly receivedAt: string;
+}
+
+/** Durable wait that holds a run in the `paused` state. */
+export interface FlaryRunWait {
+  readonly kind: "sleep" | "event";
+  readonly name: string;
+  /** Wake time for a sleep, or the timeout of an event wait. */
+  readonly resumeAt?: string;
+  readonly eventType?: string;
+}
+
 export interface FlaryFunctionBaseOptions<
   TInput extends FlarySchema,
   TOutput extends FlarySchema,
@@ -88,7 +179,8 @@ export interface FlaryFunctionBaseOptions<
   readonly name?: string;
   readonly description?: string;
   readonly input: TInput;
-  readonly output: TOutput;
+  /** The output schema, or the schema with a repair policy. */
+  readonly output: TOutput | FlaryOutputOptions<TOutput>;
   readonly model?: string;
   readonly thinking?: string;
   readonly mode?: string;
@@ -99,6 +191,17 @@ export interface FlaryFunctionBaseOptions<
   readonly delegation?: FlaryDelegationPolicy;
   readonly durable?: FlaryDurability;
   readonly limits?: FlaryLimits;
+  /** Reuse validated outputs for identical input. */
+  readonly cache?: FlaryCacheOptions<FlaryOutput<TInput>>;
+  /**
+   * Models tried in order when a prompt turn fails with a rate limit or a
+   * transient provider error. Ignored when `policy.operation` is `write`.
+   */
+  readonly fallback?: readonly string[];
+  /** Checks that run on the parsed input and the validated output. */
+  readonly guardrails?: FlaryGuardrails<TBindings>;
+  /** Limit how many durable runs that share a key run at once. */
+  readonly concurrency?: FlaryConcurrencyOptions<FlaryOutput<TInput>>;
   readonly _bindings?: TBindings;
 }
 
@@ -107,7 +210,10 @@ export interface FlaryPromptFunctionOptions<
   TOutput extends FlarySchema,
   TBindings = unknown,
 > extends FlaryFunctionBaseOptions<TInput, TOutput, TBindings> {
-  readonly prompt: string | ((input: FlaryOutput<TInput>, context: FlaryStepContext<TBindings>) => string | Promise<string>);
+  readonly prompt:
+    | string
+    | FlaryPrompt
+    | ((input: FlaryOutput<TInput>, context: FlaryStepContext<TBindings>) => string | Promise<string>);
   readonly run?: never;
 }
 
@@ -148,23 +254,510 @@ export interface FlaryDelegationPolicy {
   readonly allowPeerMessaging?: boolean;
 }
 
+/**
+ * Serialize the durable runs of one function that touch the same thing, such
+ * as one customer record. Keys are scoped to the tenant.
+ */
+export interface FlaryConcurrencyOptions<TInput = unknown> {
+  readonly key: (input: TInput) => string;
+  /** Runs of one key that may run at once. Defaults to 1. */
+  readonly limit?: number;
+  /**
+   * What a new run does when every slot is taken: wait as `queued`, fail
+   * with `concurrency_limit_reached`, or cancel the runs that hold the key.
+   * Defaults to `queue`.
+   */
+  readonly onConflict?: "queue" | "reject" | "cancel-previous";
+  /**
+   * Hold each run this long before it starts. A newer run of the same key
+   * replaces a held run, so a burst of triggers starts one run. `limit` and
+   * `onConflict` then apply when the hold ends, not when `start()` returns.
+   */
+  readonly debounce?: number | string;
+}
+
 export interface FlaryDurability {
   readonly timeout?: number | string;
   readonly maxAttempts?: number;
 }
 
+export interface FlaryOutputOptions<TOutput extends FlarySchema> {
+  readonly schema: TOutput;
+  /** Ask the model to correct output that fails the schema. */
+  readonly repair?: FlaryOutputRepair;
+}
+
+export interface FlaryOutputRepair {
+  /** Follow-up turns allowed after the first invalid answer. */
+  readonly attempts: number;
+  /** Model for the repair turns. Defaults to the function model. */
+  readonly model?: string;
+}
+
+/** A model turn that moved to the next model of its fallback chain. */
+export interface FlaryModelFallback {
+  readonly decisionId: string;
+  readonly operationId: string;
+  readonly from: ModelSelection;
+  readonly to: ModelSelection;
+  /** One-based position of `to` in the fallback chain. */
+  readonly fallbackIndex: number;
+  /** Recovery class of the failure, such as `rate_limit` or `transient`. */
+  readonly failureClass: string;
+}
+
+export interface FlaryGuardrails<TBindings = unknown> {
+  /** Run in order before the model or `run` sees the input. */
+  readonly input?: readonly FlaryGuardrail<TBindings>[];
+  /** Run in order on the validated output before it is returned. */
+  readonly output?: readonly FlaryGuardrail<TBindings>[];
+}
+
+/**
+ * A plain check, a Flary function with a verdict output, or the built-in
+ * moderation check returned by `app.moderate()`.
+ */
+export type FlaryGuardrail<TBindings = unknown> =
+  | FlaryGuardrailCheck<TBindings>
+  | FlaryCallableLike<FlaryGuardrailInput, FlaryGuardrailVerdict>
+  | FlaryModerationGuardrail;
+
+export type FlaryGuardrailCheck<TBindings = unknown> = (
+  input: FlaryGuardrailInput,
+  context: FlaryGuardrailContext<TBindings>,
+) => FlaryGuardrailVerdict | void | Promise<FlaryGuardrailVerdict | void>;
+
+export interface FlaryGuardrailInput {
+  readonly stage: "input" | "output";
+  /** Text form of `value`. Structured values are JSON. */
+  readonly text: string;
+  /** The parsed function input or output, or the agent message text. */
+  readonly value: unknown;
+}
+
+export interface FlaryGuardrailContext<TBindings = unknown> {
+  readonly bindings: TBindings;
+  readonly identity?: FlaryIdentity;
+  readonly signal: AbortSignal;
+}
+
+/** No verdict, or `allow`, lets the value through unchanged. */
+export interface FlaryGuardrailVerdict {
+  readonly action: "allow" | "block" | "rewrite";
+  readonly reason?: string;
+  /** Replacement text for `rewrite`. Structured values are parsed as JSON. */
+  readonly text?: string;
+}
+
+export interface FlaryModerationGuardrail {
+  readonly kind: "moderation";
+  readonly model?: string;
+  /** Block only these categories. By default any flagged result blocks. */
+  readonly categories?: readonly string[];
+}
+
+/** The result of running agent guardrails on one message. */
+export interface FlaryGuardrailOutcome {
+  /** The message after every rewrite. */
+  readonly text: string;
+  readonly trips: readonly FlaryGuardrailTrip[];
+  readonly blocked: boolean;
+}
+
+/** A guardrail that blocked or rewrote a value. */
+export interface FlaryGuardrailTrip {
+  readonly stage: "input" | "output";
+  readonly guardrail: string;
+  readonly action: "block" | "rewrite";
+  readonly reason?: string;
+}
+
+/**
+ * Application hooks around runs, tool calls, and model turns. Function runs
+ * and durable agent threads call the same hooks.
+ */
+export interface FlaryAppHooks<TBindings = unknown> {
+  /** Called before a run is admitted. Throw to reject the run. */
+  onRunStart?(event: FlaryRunStartEvent<TBindings>): void | Promise<void>;
+  /**
+   * Called before each tool call of the Flary code executor. Return `block`
+   * to fail the call or `modify` to replace its input.
+   */
+  beforeToolCall?(
+    event: FlaryToolCallEvent<TBindings>,
+  ): FlaryToolCallDecision | void | Promise<FlaryToolCallDecision | void>;
+  afterToolCall?(event: FlaryToolResultEvent<TBindings>): void | Promise<void>;
+  onTurnEnd?(event: FlaryTurnEndEvent<TBindings>): void | Promise<void>;
+  onRunEnd?(event: FlaryRunEndEvent<TBindings>): void | Promise<void>;
+}
+
+/** The run a hook was called for. */
+export interface FlaryHookEvent<TBindings = unknown> {
+  readonly kind: "function" | "agent";
+  /** Function name or agent name. */
+  readonly name: string;
+  /** Run id, or the thread id of an agent turn. Direct calls have none. */
+  readonly runId?: string;
+  readonly threadId?: string;
+  readonly bindings: TBindings;
+  readonly identity?: FlaryIdentity;
+}
+
+export interface FlaryRunStartEvent<TBindings = unknown>
+  extends FlaryHookEvent<TBindings> {
+  /** Parsed function input, or the text of an agent message. */
+  readonly input: unknown;
+}
+
+export interface FlaryToolCallEvent<TBindings = unknown>
+  extends FlaryHookEvent<TBindings> {
+  readonly toolId: string;
+  readonly input: unknown;
+}
+
+export type FlaryToolCallDecision =
+  | { readonly action: "allow" }
+  | { readonly action: "block"; readonly reason?: string }
+  | { readonly action: "modify"; readonly input: unknown };
+
+export interface FlaryToolResultEvent<TBindings = unknown>
+  extends FlaryToolCallEvent<TBindings> {
+  readonly status: "completed" | "failed";
+  readonly output?: unknown;
+  readonly error?: string;
+  readonly durationMs: number;
+}
+
+export interface FlaryTurnEndEvent<TBindings = unknown>
+  extends FlaryHookEvent<TBindings> {
+  /** 1-based turn number within a function run. */
+  readonly turn?: number;
+  readonly model?: string;
+  readonly status: "completed" | "failed";
+  readonly finishReason?: string;
+  readonly toolCalls?: number;
+  readonly usage?: {
+    readonly inputTokens?: number;
+    readonly outputTokens?: number;
+    readonly totalTokens?: number;
+  };
+  readonly error?: string;
+}
+
+export interface FlaryRunEndEvent<TBindings = unknown>
+  extends FlaryHookEvent<TBindings> {
+  readonly status: "completed" | "failed";
+  readonly output?: unknown;
+  readonly error?: string;
+  readonly durationMs: number;
+}
+
+/** One schema-repair turn of a prompt function. */
+export interface FlaryOutputRepairAttempt {
+  readonly attempt: number;
+  readonly maxAttempts: number;
+  readonly model: string;
+  readonly issues: readonly FlaryOutputIssue[];
+}
+
+export interface FlaryOutputIssue {
+  /** Dotted path into the output, or an empty string for the whole value. */
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Result caching for one function. Entries are keyed by the function
+ * revision and a canonical hash of the parsed input, so a code, schema, or
+ * model change never serves an older output.
+ */
+export interface FlaryCacheOptions<TInput = unknown> {
+  /** Entry lifetime in milliseconds or as a duration such as `"1h"`. */
+  readonly ttl: number | string;
+  /** Select the part of the input that identifies a result. */
+  readonly key?: (input: TInput) => unknown;
+  /**
+   * `tenant` keeps entries per `identity.tenantId` and skips the cache for
+   * calls without an identity. `app` shares entries across tenants.
+   */
+  readonly scope: "tenant" | "app";
+}
+
+/** One stored function output. */
+export interface FlaryCacheEntry {
+  readonly value: unknown;
+  readonly storedAt: string;
+  readonly expiresAt: string;
+}
+
+/** Reported on the `output` event of a run served from the cache. */
+export interface FlaryCacheHit {
+  readonly key: string;
+  readonly storedAt: string;
+  readonly expiresAt: string;
+}
+
+/** Storage for cached function outputs. */
+export interface FlaryResultCache {
+  get(key: string): Promise<FlaryCacheEntry | undefined>;
+  put(key: string, entry: FlaryCacheEntry): Promise<void>;
+  /** Delete every entry whose key starts with `prefix` and return the count. */
+  deletePrefix(prefix: string): Promise<number>;
+}
+
+export interface FlaryCacheInvalidation {
+  /** Delete only the entry for this input. Defaults to every input. */
+  readonly input?: unknown;
+  /** Tenant of a tenant-scoped cache. Defaults to every tenant. */
+  readonly tenantId?: string;
+}
+
 export interface FlaryLimits {
   readonly steps?: number;
   readonly toolCalls?: number;
+  /**
+   * Spend limit in USD. Provider-reported cost is used when present; other
+   * usage is priced with the application pricing catalog. A run that reaches
+   * the limit stops with `budget_exceeded`.
+   */
   readonly costUsd?: number;
   readonly timeoutMs?: number;
 }
 
+/** Admission limits of one quota subject. Each limit is optional. */
+export interface FlaryQuotaLimits {
+  readonly requestsPerMinute?: number;
+  readonly concurrentRuns?: number;
+  /** Model tokens per UTC day. */
+  readonly dailyTokens?: number;
+  /** Model spend in USD per UTC month. */
+  readonly monthlySpendUsd?: number;
+}
+
+export interface FlaryQuotaOptions {
+  /** Limits shared by every caller of one tenant. */
+  readonly tenant?: FlaryQuotaLimits;
+  /** Limits for each user of a tenant. */
+  readonly user?: FlaryQuotaLimits;
+  /** Limits for each function and agent of a tenant. */
+  readonly agent?: FlaryQuotaLimits;
+  /**
+   * Counter store. Defaults to the Runtime Durable Object when the
+   * `FLARY_RUN_SERVICE` binding exists, and to a process-local map otherwise.
+   */
+  readonly store?: FlaryQuotaStore;
+  /**
+   * How long a concurrent run slot is held when the end of its run is never
+   * reported. Defaults to 15 minutes.
+   */
+  readonly leaseMs?: number;
+}
+
+export type FlaryQuotaScope = "tenant" | "user" | "agent";
+
+/** One counter that an admission is checked against. */
+export interface FlaryQuotaSubject {
+  readonly scope: FlaryQuotaScope;
+  /** `tenantId`, `tenantId/userId`, or `tenantId/name`. */
+  readonly key: string;
+  readonly limits: FlaryQuotaLimits;
+}
+
+export type FlaryQuotaDecision =
+  | { readonly admitted: true }
+  | {
+      readonly admitted: false;
+      readonly scope: FlaryQuotaScope;
+      readonly key: string;
+      readonly limit: keyof FlaryQuotaLimits;
+      readonly retryAfterSeconds: number;
+    };
+
+/** A concurrent run slot held by one admitted run or thread turn. */
+export interface FlaryQuotaLease {
+  readonly tenantId: string;
+  readonly leaseId: string;
+}
+
+/** Usage charged to a quota when a run or turn ends. */
+export interface FlaryQuotaCharge {
+  readonly tokens?: number;
+  readonly costUsd?: number;
+}
+
+type FlaryQuotaCounts = {
+  readonly [K in keyof FlaryQuotaLimits]-?: number;
+};
+
+export interface FlaryQuotaUsage {
+  readonly scope: FlaryQuotaScope;
+  readonly key: string;
+  readonly limits: FlaryQuotaLimits;
+  readonly used: FlaryQuotaCounts;
+  /** Remaining allowance of each configured limit. */
+  readonly remaining: Partial<FlaryQuotaCounts>;
+  /** When each windowed counter starts again. */
+  readonly resetsAt: {
+    readonly requestsPerMinute: string;
+    readonly dailyTokens: string;
+    readonly monthlySpendUsd: string;
+  };
+}
+
+/**
+ * Counters behind `quotas`. Every subject of one call belongs to the same
+ * tenant, so a store may keep one tenant in one Durable Object.
+ */
+export interface FlaryQuotaStore {
+  /** Check every subject and, when all pass, count the request and hold a slot. */
+  admit(input: {
+    readonly tenantId: string;
+    readonly subjects: readonly FlaryQuotaSubject[];
+    readonly leaseId: string;
+    readonly leaseMs: number;
+  }): Promise<FlaryQuotaDecision>;
+  /** Free the slot of a lease and charge its usage. Unknown leases are ignored. */
+  release(input: {
+    readonly tenantId: string;
+    readonly leaseId: string;
+    readonly charge?: FlaryQuotaCharge;
+  }): Promise<void>;
+  usage(input: {
+    readonly tenantId: string;
+    readonly subjects: readonly FlaryQuotaSubject[];
+  }): Promise<FlaryQuotaUsage[]>;
+}
+
+/** The stored input, revision, and error of a function run that failed. */
+export type FlaryDeadLetter = DeadLetterRecord;
+
+export interface FlaryDeadLetterQuery<TBindings = unknown> {
+  readonly identity?: FlaryIdentity;
+  readonly bindings?: TBindings;
+  /** Include dead letters that were already replayed. */
+  readonly includeReplayed?: boolean;
+  /** Defaults to 50, at most 500. */
+  readonly limit?: number;
+}
+
+export interface FlaryReplayOptions<TBindings = unknown> {
+  readonly identity?: FlaryIdentity;
+  readonly bindings?: TBindings;
+  /**
+   * `original` replays the input against the revision that failed.
+   * `current` runs it through the deployed function. Defaults to `original`.
+   */
+  readonly revision?: "original" | "current";
+  /** Replay letters that were already replayed. Without it they are rejected. */
+  readonly force?: boolean;
+}
+
+/** A run state change that can be delivered to a callback URL. */
+export type FlaryCallbackEvent = "completed" | "failed" | "paused" | "cancelled";
+
+export interface FlaryRunCallback {
+  /** HTTPS endpoint. `http` is accepted only for localhost. */
+  readonly url: string;
+  /** Defaults to every event. */
+  readonly events?: readonly FlaryCallbackEvent[];
+}
+
+/** The signed JSON body of one callback request. */
+export interface FlaryCallbackPayload {
+  readonly id: string;
+  readonly type: `run.${FlaryCallbackEvent}`;
+  readonly runId: string;
+  readonly functionId?: string;
+  readonly occurredAt: string;
+  readonly output?: unknown;
+  readonly error?: { readonly code: string; readonly message: string };
+}
+
+/** One attempt to deliver a callback. */
+export interface FlaryCallbackDelivery {
+  readonly deliveryId: string;
+  readonly runId: string;
+  readonly event: FlaryCallbackEvent;
+  readonly url: string;
+  readonly attempt: number;
+  readonly status: "delivered" | "retrying" | "failed";
+  readonly responseStatus?: number;
+  readonly error?: string;
+  readonly attemptedAt: string;
+  readonly nextAttemptAt?: string;
+}
+
+/** Storage for callback delivery logs, read back per run. */
+export interface FlaryCallbackLog {
+  append(delivery: FlaryCallbackDelivery): Promise<void>;
+  list(runId: string): Promise<FlaryCallbackDelivery[]>;
+}
+
+export interface FlaryCallbackOptions {
+  /**
+   * HMAC key of the in-process runtime. The Cloudflare host signs with the
+   * `FLARY_CALLBACK_SECRET` binding.
+   */
+  readonly secret?: string;
+  /**
+   * Hosts that may receive callbacks. A `*.example.com` entry matches its
+   * subdomains. Without a list, any public HTTPS host is accepted.
+   */
+  readonly allowedHosts?: readonly string[];
+  readonly log?: FlaryCallbackLog;
+  /** Attempts per event, including the first. Defaults to 8. */
+  readonly maxAttempts?: number;
+  /** Delay before the first retry. Each retry doubles it. Defaults to 10. */
+  readonly retryDelaySeconds?: number;
+  readonly fetch?: typeof fetch;
+}
+
 export interface FlaryRunOptions {
   readonly requestId?: string;
   readonly idempotencyKey?: string;
   readonly signal?: AbortSignal;
   readonly metadata?: Record<string, unknown>;
+  /** Deliver signed run events to an endpoint instead of holding a stream. */
+  readonly callback?: FlaryRunCallback;
+}
+
+export interface FlaryBatchOptions {
+  /**
+   * `provider-batch` submits a prompt function through the provider batch
+   * API. Providers without one, and native functions, use bounded concurrent
+   * calls, which is also what `concurrent` always does.
+   */
+  readonly mode?: "provider-batch" | "concurrent";
+  /** Calls in flight at once on the concurrent path. Defaults to 8. */
+  readonly concurrency?: number;
+  /** Delay between provider batch status checks. Defaults to 30 seconds. */
+  readonly pollIntervalMs?: number;
+  /** Parent run ID. A retried batch with the same key reuses its provider batch. */
+  readonly idempotencyKey?: string;
+  readonly signal?: AbortSignal;
+}
+
+/** The settled result of one batch input, in input order. */
+export type FlaryBatchItem<Output = unknown> =
+  | {
+      readonly index: number;
+      readonly runId: string;
+      readonly status: "completed";
+      readonly output: Output;
+    }
+  | {
+      readonly index: number;
+      readonly runId: string;
+      readonly status: "failed";
+      readonly error: { readonly code: string; readonly message: string };
+    };
+
+/** Output of a batch parent run. A failed item does not fail the parent. */
+export interface FlaryBatchResult<Output = unknown> {
+  readonly mode: "provider-batch" | "concurrent";
+  /** Provider batch ID when the provider batch API was used. */
+  readonly providerBatchId?: string;
+  readonly items: readonly FlaryBatchItem<Output>[];
 }
 
 export interface FlaryApprovalDecisionOptions {
@@ -177,16 +770,33 @@ export interface FlarySendInputOptions {
   readonly metadata?: Record<string, unknown>;
 }
 
+/** Output shape while a model is still streaming it. */
+export type FlaryDeepPartial<T> = T extends readonly (infer Item)[]
+  ? FlaryDeepPartial<Item>[]
+  : T extends object
+    ? { [Key in keyof T]?: FlaryDeepPartial<T[Key]> }
+    : T;
+
 export type FlaryEvent<Output = unknown> =
   | {
-      readonly type: "queued" | "started";
+      /** `resumed` follows a `paused` event once a sleep or event wait ends. */
+      readonly type: "queued" | "started" | "resumed";
       readonly runId: string;
       readonly occurredAt: string;
     }
+  | {
+      /** Best-effort prefix of a streamed prompt output. Not yet validated. */
+      readonly type: "partial";
+      readonly runId: string;
+      readonly output: FlaryDeepPartial<Output>;
+      readonly occurredAt: string;
+    }
   | {
       readonly type: "output";
       readonly runId: string;
       readonly output: Output;
+      /** Present when the output was served from the function cache. */
+      readonly cache?: FlaryCacheHit;
       readonly occurredAt: string;
     }
   | {
@@ -205,6 +815,7 @@ export type FlaryEvent<Output = unknown> =
       readonly runId: string;
       readonly reason: string;
       readonly approvalId?: string;
+      readonly wait?: FlaryRunWait;
       readonly occurredAt: string;
     }
   | {
@@ -260,6 +871,11 @@ export interface FlaryFunction<
     input: FlaryInput<TInput>,
     options?: FlaryRunOptions,
   ): AsyncIterable<FlaryEvent<FlaryOutput<TOutput>>>;
+  /** Run many inputs as one parent run with a result per item. */
+  batch(
+    inputs: readonly FlaryInput<TInput>[],
+    options?: FlaryBatchOptions,
+  ): Promise<FlaryRun<FlaryBatchResult<FlaryOutput<TOutput>>>>;
 }
 
 export interface FlarySkill {
@@ -278,12 +894,40 @@ export interface FlaryCompactionPolicy {
   readonly thresholdTokens?: number;
 }
 
+/** Generated title and rolling summary of each thread of an agent. */
+export interface FlaryThreadSummaryPolicy {
+  /** Model that writes titles and summaries. A small, cheap model is enough. */
+  readonly model?: string;
+  /** Title the thread after its first exchange. Defaults to true. */
+  readonly title?: boolean;
+  /** Refresh the summary after every this many turns. Defaults to 5; 0 turns it off. */
+  readonly every?: number;
+}
+
+/** One user or assistant message of a thread, as text. */
+export interface FlaryThreadTranscriptMessage {
+  readonly role: "user" | "assistant";
+  readonly text: string;
+}
+
+/** A generated thread title, summary, or both. */
+export interface FlaryThreadDescription {
+  readonly title?: string;
+  readonly summary?: string;
+  /** Model usage of the call, charged to the thread's limits. */
+  readonly usage?: FlaryQuotaCharge;
+}
+
 /** Provider switching policy for one persistent agent. */
 export interface FlaryModelPolicy {
   /** Exact allow-list. A selected model must match provider and model. */
   readonly allow: readonly ModelInput[];
   readonly switching?: "user" | "disabled";
-  readonly fallback?: "none";
+  /**
+   * Models tried in order when a turn fails with a rate limit or a transient
+   * provider error before it called a tool.
+   */
+  readonly fallback?: "none" | readonly ModelInput[];
   readonly compactionModel?: ModelInput;
 }
 
@@ -305,7 +949,7 @@ export type FlaryAgentInstructions<TBindings = unknown> =
 export interface FlaryAgentOptions<TBindings = unknown> {
   readonly name: string;
   readonly description?: string;
-  readonly instructions?: FlaryAgentInstructions<TBindings>;
+  readonly instructions?: FlaryAgentInstructions<TBindings> | FlaryPrompt;
   readonly model?: string;
   readonly models?: FlaryModelPolicy;
   readonly thinking?: string;
@@ -318,8 +962,17 @@ export interface FlaryAgentOptions<TBindings = unknown> {
   readonly eagerTools?: readonly string[];
   readonly skills?: readonly FlarySkill[];
   readonly subagents?: Readonly<Record<string, FlaryAgent<any>>>;
+  /**
+   * Agents that may take over this thread from its next turn. A string names
+   * another agent of the same app, so two agents can hand off to each other.
+   */
+  readonly handoffs?: readonly (FlaryAgent<any> | string)[];
   readonly delegation?: FlaryDelegationPolicy;
   readonly compaction?: FlaryCompactionPolicy;
+  /** Generate thread titles and summaries, stored on the thread metadata. */
+  readonly summary?: FlaryThreadSummaryPolicy;
+  /** Checks on user messages before admission and on completed answers. */
+  readonly guardrails?: FlaryGuardrails<TBindings>;
   readonly limits?: FlaryLimits;
   readonly _bindings?: TBindings;
 }
@@ -389,6 +1042,92 @@ export interface FlaryR2Source {
   readonly access?: "read" | "read-write";
 }
 
+/**
+ * Who can see a memory record. A `user` record belongs to one user of one
+ * tenant, a `tenant` record to every user of a tenant, and an `app` record to
+ * the whole application.
+ */
+export type FlaryMemoryScope = "user" | "tenant" | "app";
+
+/** Long-term memory that an agent reads and writes across threads. */
+export interface FlaryMemorySource {
+  readonly kind: "memory";
+  readonly namespace: string;
+  /** Scopes the agent reads. Defaults to `user`. */
+  readonly scopes: readonly FlaryMemoryScope[];
+  /** Scopes the agent may write. Defaults to `user` when it is read. */
+  readonly write: readonly FlaryMemoryScope[];
+  /** Records added to the context of each turn. `0` turns recall off. */
+  readonly recall: number;
+}
+
+/** The partition that owns memory records, such as one user of a tenant. */
+export interface FlaryMemoryOwner {
+  readonly scope: FlaryMemoryScope;
+  readonly key: string;
+}
+
+export interface FlaryMemoryRecord {
+  readonly id: string;
+  readonly scope: FlaryMemoryScope;
+  /** Key of the owner partition. */
+  readonly owner: string;
+  readonly content: string;
+  readonly tags?: readonly string[];
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/** Storage for memory records, one owner partition at a time. */
+export interface FlaryMemoryStore {
+  list(owner: FlaryMemoryOwner): Promise<FlaryMemoryRecord[]>;
+  put(record: FlaryMemoryRecord): Promise<void>;
+  /** Delete one record, or every record of the owner, and return the count. */
+  delete(owner: FlaryMemoryOwner, id?: string): Promise<number>;
+}
+
+export interface FlaryMemoryOptions {
+  /**
+   * Record store. Defaults to the Runtime Durable Object when the
+   * `FLARY_RUN_SERVICE` binding exists, and to a process-local map otherwise.
+   */
+  readonly store?: FlaryMemoryStore;
+  /** Search index for recall. Without one, records are ranked by shared words. */
+  readonly index?: RecallIndex;
+}
+
+/**
+ * The context of one agent turn. `trusted` reaches the model as trusted turn
+ * context. `quoted` is untrusted text, such as recalled memory, that goes
+ * ahead of the user message as a quote.
+ */
+export interface FlaryTurnContext {
+  readonly trusted?: string;
+  readonly quoted?: string;
+}
+
+/**
+ * A compiled `.prompt.md` file returned by `app.prompt()`. Its frontmatter
+ * sets the model, thinking, tools, and limits of the function or agent.
+ */
+export interface FlaryPrompt {
+  readonly kind: "prompt";
+  readonly slug: string;
+  readonly prompt: CompiledPrompt;
+  readonly rollout?: PromptRollout;
+  /** The compiled prompt of each rollout variant, by variant ID. */
+  readonly variants: Readonly<Record<string, CompiledPrompt>>;
+}
+
+export interface FlaryPromptOptions {
+  /**
+   * Split callers between prompts of the manifest. The `revisionId` of each
+   * variant is a prompt slug. Every variant must share the frontmatter
+   * settings of the base prompt.
+   */
+  readonly rollout?: z.input<typeof PromptRolloutSchema>;
+}
+
 export interface FlarySandboxSource {
   readonly kind: "sandbox";
   readonly options: Record<string, unknown>;
@@ -479,7 +1218,8 @@ export type FlaryToolSource =
   | FlaryWorkspaceSource
   | FlaryR2Source
   | FlarySandboxSource
-  | FlaryBrowserSource;
+  | FlaryBrowserSource
+  | FlaryMemorySource;
 
 export interface FlaryToolRegistry {
   readonly kind: "tools";
@@ -663,8 +1403,28 @@ export interface FlaryAppOptions<TBindings = unknown> {
   readonly runStorage?: FlaryRunStorage;
   /** Optional Durable Object-backed named-step store. */
   readonly stepStore?: FlaryStepStore;
+  /** Store for functions with `cache`. Defaults to a process-local map. */
+  readonly resultCache?: FlaryResultCache;
   /** Maximum provider turns for a prompt-backed function. */
   readonly maxPromptSteps?: number;
+  /** Hooks around runs, tool calls, and model turns. */
+  readonly hooks?: FlaryAppHooks<TBindings>;
+  /**
+   * Model prices used for `limits.costUsd`. Listed models replace the
+   * entries of the default catalog.
+   */
+  readonly pricing?: ModelPricingOverrides;
+  /** Per-tenant, per-user, and per-agent admission quotas. */
+  readonly quotas?: FlaryQuotaOptions;
+  /** Signing and retry settings of run callbacks. */
+  readonly callbacks?: FlaryCallbackOptions;
+  /** Storage and search for `app.memory()` records. */
+  readonly memory?: FlaryMemoryOptions;
+  /**
+   * Compiled `.prompt.md` files for `app.prompt()`. Build the manifest with
+   * `buildPromptManifestFromDirectory()`.
+   */
+  readonly prompts?: PromptManifest;
 }
 
 export interface FlaryCodeExecutor<TBindings = unknown> {
@@ -693,10 +1453,34 @@ export interface FlaryRunStore {
   get?(runId: string): FlaryRun | Promise<FlaryRun | undefined> | undefined;
   create<T>(input: {
     readonly runId: string;
-    readonly execute: (signal: AbortSignal) => Promise<T>;
+    /**
+     * Execute or replay the run. `inbox` holds events sent to a paused run
+     * that no durable wait has claimed yet.
+     */
+    readonly execute: (
+      signal: AbortSignal,
+      inbox: FlaryReceivedEvent[],
+      reporter: FlaryRunReporter,
+    ) => Promise<T>;
   }): Promise<FlaryRun<T>>;
 }
 
+/** Intermediate results a run store forwards to `FlaryRun.stream()`. */
+export interface FlaryRunReporter {
+  /** One settled `map` or `parallel` item. */
+  progress(progress: FlaryStepProgress): void;
+  /** A best-effort prefix of the run's prompt output. */
+  partial(output: unknown): void;
+  /** A prompt output failed its schema and the model was asked to repair it. */
+  repair(attempt: FlaryOutputRepairAttempt): void;
+  /** The run output came from the function cache. */
+  cacheHit(hit: FlaryCacheHit): void;
+  /** A model turn failed and moved to the next model of its fallback chain. */
+  fallback(decision: FlaryModelFallback): void;
+  /** A guardrail blocked or rewrote the run input or output. */
+  guardrail(trip: FlaryGuardrailTrip): void;
+}
+
 /** Durable storage for parsed named-step results. */
 export interface FlaryStepStore {
   get(input: {
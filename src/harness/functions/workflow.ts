@@ -20,6 +20,8 @@ import { normalizeModelInput } from "../contracts/provider.js";
 import { toFlueModelSpecifier } from "../providers/resolver.js";
 import { parseThreadName } from "../storage/scopes.js";
 import { getAgentState, getFunctionState } from "./app.js";
+import { durationMs } from "./runs.js";
+import { agentPromptInstructions, isFlaryPrompt } from "./prompts.js";
 import type { FlaryAgent, FlaryFunction } from "./types.js";
 import {
   ApprovalDecisionSchema,
@@ -50,6 +52,18 @@ const WorkflowEnvelopeSchema = v.object({
   __flary: v.object({
     runId: v.string(),
     revisionId: v.optional(v.string()),
+    /** Step journal and undelivered events for a run resumed after a wait. */
+    resume: v.optional(v.object({
+      steps: v.record(
+        v.string(),
+        v.object({ inputHash: v.string(), value: v.unknown() }),
+      ),
+      events: v.array(v.object({
+        type: v.string(),
+        payload: v.unknown(),
+        receivedAt: v.string(),
+      })),
+    })),
   }),
   input: v.unknown(),
 });
@@ -130,7 +144,7 @@ export function defineFlaryFunctionWorkflow(
   return defineWorkflow({
     agent,
     input: WorkflowEnvelopeSchema,
-    async run({ harness, input }) {
+    async run({ harness, input, log }) {
       const runtimeHarness = harness as typeof harness & {
         readonly env?: unknown;
       };
@@ -140,6 +154,58 @@ export function defineFlaryFunctionWorkflow(
           bindings:
             runtimeHarness.env ?? state.app.options.defaultBindings,
           runId: input.__flary.runId,
+          ...(input.__flary.resume ? { resume: input.__flary.resume } : {}),
+          // Flue streams log records to the run observer, which projects
+          // these into `step.progress`, `output.repair`, and
+          // `model.fallback` events.
+          progress: (progress) =>
+            log.info("flary.step.progress", { flaryStepProgress: progress }),
+          repair: (attempt) =>
+            log.info("flary.output.repair", { flaryOutputRepair: attempt }),
+          fallback: (decision) =>
+            log.info("flary.model.fallback", { flaryModelFallback: decision }),
+          guardrail: (trip) =>
+            log.info("flary.guardrail", { flaryGuardrail: trip }),
+        }),
+      );
+    },
+  });
+}
+
+/**
+ * Compile the workflow that runs the parent of every durable `fn.batch()`.
+ * The parent calls no model itself. It starts the items as runs of their
+ * function, or submits them as one provider batch, and sleeps between polls.
+ */
+export function defineFlaryBatchWorkflow(
+  functions: Readonly<Record<string, unknown>>,
+): WorkflowDefinition {
+  const app = Object.values(functions)
+    .map((value) => getFunctionState(value)?.app)
+    .find((value) => value !== undefined);
+  if (!app) {
+    throw new Error("The batch workflow needs at least one Flary function");
+  }
+  const agent = defineAgent(async (): Promise<AgentRuntimeConfig> => ({
+    model: app.options.model ?? "openai/gpt-5",
+    instructions: "Run the items of a Flary batch.",
+    durability: { maxAttempts: 10, timeoutMs: functionTimeoutMs(undefined, undefined) },
+  }));
+  return defineWorkflow({
+    agent,
+    input: WorkflowEnvelopeSchema,
+    async run({ harness, input, log }) {
+      const runtimeHarness = harness as typeof harness & {
+        readonly env?: unknown;
+      };
+      return toJson(
+        await app.invokeBatchFromWorkflow(functions, {
+          input: input.input,
+          bindings: runtimeHarness.env ?? app.options.defaultBindings,
+          runId: input.__flary.runId,
+          ...(input.__flary.resume ? { resume: input.__flary.resume } : {}),
+          progress: (progress) =>
+            log.info("flary.step.progress", { flaryStepProgress: progress }),
         }),
       );
     },
@@ -224,16 +290,21 @@ export function defineFlaryInteractiveAgent(
       bindings: env,
       runId: id,
     });
-    const active = interactiveAgentForRun(value, id);
+    const active = await rootState.app.handoffAgentForRun(value, {
+      bindings: env,
+      runId: id,
+    }) ?? interactiveAgentForRun(value, id);
     const state = getAgentState(active)!;
     const definition = state.definition;
-    const authoredInstructions = typeof definition.instructions === "function"
-      ? await definition.instructions({
-          bindings: env,
-          runId: id,
-          agentId: definition.name,
-        })
-      : definition.instructions;
+    const authoredInstructions = isFlaryPrompt(definition.instructions)
+      ? agentPromptInstructions(definition.instructions, id)
+      : typeof definition.instructions === "function"
+        ? await definition.instructions({
+            bindings: env,
+            runId: id,
+            agentId: definition.name,
+          })
+        : definition.instructions;
     const model = definition.model ??
       (definition.models?.allow[0]
         ? toFlueModelSpecifier(normalizeModelInput(definition.models.allow[0]))
@@ -265,6 +336,7 @@ export function defineFlaryInteractiveAgent(
           })]
         : []),
       ...coordinationTools,
+      ...interactiveHandoffTools(active, env, id),
     ];
     return {
       model,
@@ -419,6 +491,42 @@ function interactiveCoordinationTools(
   ];
 }
 
+function interactiveHandoffTools(
+  active: FlaryAgent<any>,
+  env: unknown,
+  runId: string,
+) {
+  const handoffs = active.definition.handoffs ?? [];
+  if (handoffs.length === 0) return [];
+  const state = getAgentState(active)!;
+  const help = handoffs.map((candidate) => {
+    const agent = typeof candidate === "string"
+      ? state.app.agentNamed(candidate)
+      : candidate;
+    const name = typeof candidate === "string" ? candidate : candidate.name;
+    return `${name}: ${agent?.definition.description ?? name}`;
+  }).join("; ");
+  return [
+    defineTool({
+      name: "handoff",
+      description: `Hand this conversation to another agent from the next turn. Available agents: ${help}`,
+      input: v.object({ agent: v.string(), reason: v.optional(v.string()) }),
+      async run({ input }) {
+        const binding = await state.app.agentHandoff(active, {
+          bindings: env,
+          runId,
+          agent: input.agent,
+          ...(input.reason ? { reason: input.reason } : {}),
+        });
+        return toJson({
+          activeAgentId: binding.activeAgentId,
+          model: binding.defaultModel,
+        });
+      },
+    }),
+  ];
+}
+
 function interactiveAgentInstructions(
   value: FlaryAgent<any>,
   authoredInstructions?: string,
@@ -441,6 +549,9 @@ function interactiveAgentInstructions(
       : Object.keys(definition.subagents ?? {}).length > 0
         ? "You can start durable child agents, send messages to related agents, and wait for their results. Each child can use its own provider and model."
         : "",
+    definition.handoffs?.length
+      ? "Use the handoff tool when another agent should own the conversation. Tell the user, then end your turn; the other agent answers from the next message."
+      : "",
   ].filter(Boolean).join("\n\n");
 }
 
@@ -704,25 +815,11 @@ function functionTimeoutMs(
   const parsed = typeof durable === "number"
     ? durable
     : typeof durable === "string"
-      ? parseDuration(durable)
+      ? durationMs(durable)
       : 3_600_000;
   return limit === undefined ? parsed : Math.min(parsed, limit);
 }
 
-function parseDuration(value: string): number {
-  const match = /^(\d+)(ms|s|m|h|d)$/.exec(value.trim());
-  if (!match) throw new Error(`Invalid Flary duration: ${value}`);
-  const amount = Number(match[1]);
-  const unit = match[2];
-  const multiplier =
-    unit === "ms" ? 1 :
-    unit === "s" ? 1_000 :
-    unit === "m" ? 60_000 :
-    unit === "h" ? 3_600_000 :
-    86_400_000;
-  return amount * multiplier;
-}
-
 function toJson(value: unknown): any {
   if (value === undefined) return null;
   return JSON.parse(JSON.stringify(value));
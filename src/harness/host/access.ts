@@ -0,0 +1,51 @@
+import type {
+  ThreadBinding,
+  ThreadCollaboratorRole,
+} from "../contracts/threads.js";
+import { FlaryHostError } from "./errors.js";
+import type { FlaryHostAuthorization } from "./types.js";
+
+/**
+ * What a caller does with a thread. `own` covers deletion, archive, and the
+ * management of collaborators and share links.
+ */
+export type FlaryThreadAccess = "view" | "comment" | "participate" | "own";
+
+const grantedAccess: Record<ThreadCollaboratorRole, readonly FlaryThreadAccess[]> = {
+  viewer: ["view"],
+  commenter: ["view", "comment"],
+  participant: ["view", "comment", "participate"],
+};
+
+/**
+ * Whether a caller may use a thread. Only user identities are restricted: a
+ * thread that a user created belongs to that user and its collaborators,
+ * while services and threads created by services stay open to the tenant.
+ */
+export function threadAccessAllowed(
+  binding: Pick<ThreadBinding, "createdBy" | "collaborators">,
+  authorization: Pick<FlaryHostAuthorization, "actor">,
+  access: FlaryThreadAccess,
+): boolean {
+  const actor = authorization.actor;
+  if (actor.kind !== "user" || binding.createdBy.kind !== "user") return true;
+  if (binding.createdBy.id === actor.id) return true;
+  const grant = binding.collaborators?.find((entry) => entry.actor.id === actor.id);
+  return grant !== undefined && grantedAccess[grant.role].includes(access);
+}
+
+export function assertThreadAccess(
+  binding: Pick<ThreadBinding, "createdBy" | "collaborators">,
+  authorization: Pick<FlaryHostAuthorization, "actor">,
+  access: FlaryThreadAccess,
+): void {
+  if (threadAccessAllowed(binding, authorization, access)) return;
+  const visible = threadAccessAllowed(binding, authorization, "view");
+  throw new FlaryHostError(
+    visible ? 403 : 404,
+    visible ? "thread_access_denied" : "thread_not_found",
+    visible
+      ? `This thread does not allow you to ${access}`
+      : "The thread was not found",
+  );
+}
@@ -26,9 +26,23 @@ import {
   ThreadPinRequestSchema,
   ThreadReadRequestSchema,
   ThreadRecordListRequestSchema,
+  ThreadTranscriptRequestSchema,
   ThreadRenameRequestSchema,
   ThreadRollbackRequestSchema,
   ThreadRestoreRequestSchema,
+  ThreadListQuerySchema,
+  ThreadListResponseSchema,
+  ThreadMetadataUpdateRequestSchema,
+  ThreadSearchRequestSchema,
+  ThreadSearchResponseSchema,
+  ThreadCollaboratorGrantRequestSchema,
+  ThreadCommentRequestSchema,
+  ThreadCommentSchema,
+  ThreadShareLinkCreateRequestSchema,
+  ThreadShareLinkCreateResponseSchema,
+  ThreadShareLinkSchema,
+  ThreadSharedConversationSchema,
+  type ThreadListQuery,
 } from "../contracts/threads.js";
 import { ThreadOperationalStateSchema } from "../contracts/runtime.js";
 import {
@@ -44,6 +58,7 @@ import {
   RecallDocumentSchema,
   RecallSearchResponseSchema,
 } from "../contracts/recall.js";
+import { assertThreadAccess, type FlaryThreadAccess } from "./access.js";
 import { FlaryHostError, featureUnavailable } from "./errors.js";
 import {
   FlaryHostAuthorizationSchema,
@@ -105,15 +120,24 @@ export function createFlaryHostRouter<TBindings extends object>(
     return { authorization, appId };
   };
 
+  /**
+   * Authorize a thread route. Reads need `view` and other methods need
+   * `participate` unless the route asks for more; `null` skips the check.
+   */
   const targetFor = async (
     request: Request,
     env: TBindings,
     appId: string,
     threadId: string,
-  ): Promise<FlaryThreadTarget> => ({
-    ...(await scopeFor(request, env, appId)),
-    threadId,
-  });
+    access: FlaryThreadAccess | null = request.method === "GET" ? "view" : "participate",
+  ): Promise<FlaryThreadTarget> => {
+    const target = { ...(await scopeFor(request, env, appId)), threadId };
+    const service = serviceFor(env);
+    if (access && service.threadAccess && target.authorization.actor.kind === "user") {
+      assertThreadAccess(await service.threadAccess(target), target.authorization, access);
+    }
+    return target;
+  };
 
   router.onError((error, context) => {
     if (error instanceof FlaryHostError) {
@@ -317,9 +341,31 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
     );
-    return context.json({
-      threads: await serviceFor(context.env).list(scope),
+    const service = serviceFor(context.env);
+    if (!service.listPage) {
+      return context.json({ threads: await service.list(scope) });
+    }
+    const query = parseThreadListQuery(new URL(context.req.url).searchParams);
+    return context.json(
+      ThreadListResponseSchema.parse(await service.listPage(scope, query)),
+    );
+  });
+
+  router.get("/apps/:appId/threads/search", async (context) => {
+    const scope = await scopeFor(
+      context.req.raw,
+      context.env,
+      context.req.param("appId"),
+    );
+    const service = serviceFor(context.env);
+    if (!service.search) throw featureUnavailable("Thread search");
+    const input = ThreadSearchRequestSchema.parse({
+      query: context.req.query("q"),
+      limit: context.req.query("limit") ?? undefined,
     });
+    return context.json(
+      ThreadSearchResponseSchema.parse(await service.search(scope, input)),
+    );
   });
 
   router.post("/apps/:appId/threads", async (context) => {
@@ -379,6 +425,7 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
       context.req.param("threadId"),
+      "own",
     );
     return context.json({
       ok: true,
@@ -389,6 +436,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.post("/apps/:appId/threads/:threadId/unarchive", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.unarchive) throw featureUnavailable("Thread unarchive");
@@ -398,6 +446,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.post("/apps/:appId/threads/:threadId/rename", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.rename) throw featureUnavailable("Thread rename");
@@ -405,9 +454,132 @@ export function createFlaryHostRouter<TBindings extends object>(
     return context.json({ ok: true, binding: await service.rename(target, input) });
   });
 
+  router.post("/apps/:appId/threads/:threadId/metadata", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.updateMetadata) throw featureUnavailable("Thread metadata");
+    const input = ThreadMetadataUpdateRequestSchema.parse(await context.req.json());
+    return context.json({ ok: true, binding: await service.updateMetadata(target, input) });
+  });
+
+  router.post("/apps/:appId/threads/:threadId/collaborators", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.grantAccess) throw featureUnavailable("Thread collaborators");
+    const input = ThreadCollaboratorGrantRequestSchema.parse(await context.req.json());
+    return context.json({ ok: true, binding: await service.grantAccess(target, input) });
+  });
+
+  router.delete("/apps/:appId/threads/:threadId/collaborators/:actorId", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.revokeAccess) throw featureUnavailable("Thread collaborators");
+    return context.json({
+      ok: true,
+      binding: await service.revokeAccess(target, context.req.param("actorId")),
+    });
+  });
+
+  router.post("/apps/:appId/threads/:threadId/comments", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "comment",
+    );
+    const service = serviceFor(context.env);
+    if (!service.comment) throw featureUnavailable("Thread comments");
+    const input = ThreadCommentRequestSchema.parse(await context.req.json());
+    return context.json(
+      { comment: ThreadCommentSchema.parse(await service.comment(target, input)) },
+      201,
+    );
+  });
+
+  router.get("/apps/:appId/threads/:threadId/comments", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+    );
+    const service = serviceFor(context.env);
+    if (!service.comments) throw featureUnavailable("Thread comments");
+    const input = ThreadRecordListRequestSchema.parse({
+      after: context.req.query("after"),
+      limit: context.req.query("limit"),
+    });
+    return context.json({
+      comments: (await service.comments(target, input)).map((comment) =>
+        ThreadCommentSchema.parse(comment)
+      ),
+    });
+  });
+
+  router.post("/apps/:appId/threads/:threadId/share-links", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.createShareLink) throw featureUnavailable("Share links");
+    const input = ThreadShareLinkCreateRequestSchema.parse(
+      await context.req.json().catch(() => ({})),
+    );
+    return context.json(
+      ThreadShareLinkCreateResponseSchema.parse(
+        await service.createShareLink(target, input, context.req.url),
+      ),
+      201,
+    );
+  });
+
+  router.get("/apps/:appId/threads/:threadId/share-links", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.shareLinks) throw featureUnavailable("Share links");
+    return context.json({
+      links: (await service.shareLinks(target)).map((link) => ThreadShareLinkSchema.parse(link)),
+    });
+  });
+
+  router.delete("/apps/:appId/threads/:threadId/share-links/:linkId", async (context) => {
+    const target = await targetFor(
+      context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
+    );
+    const service = serviceFor(context.env);
+    if (!service.revokeShareLink) throw featureUnavailable("Share links");
+    return context.json({
+      link: ThreadShareLinkSchema.parse(
+        await service.revokeShareLink(target, context.req.param("linkId")),
+      ),
+    });
+  });
+
+  router.get("/apps/:appId/shared/:token", async (context) => {
+    const service = serviceFor(context.env);
+    if (!service.sharedConversation) throw featureUnavailable("Share links");
+    return context.json(
+      ThreadSharedConversationSchema.parse(
+        await service.sharedConversation(context.req.param("appId"), context.req.param("token")),
+      ),
+      200,
+      { "cache-control": "private, no-store" },
+    );
+  });
+
   router.post("/apps/:appId/threads/:threadId/pin", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.pin) throw featureUnavailable("Thread pin");
@@ -418,6 +590,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.post("/apps/:appId/threads/:threadId/read", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "view",
     );
     const service = serviceFor(context.env);
     if (!service.markRead) throw featureUnavailable("Thread unread state");
@@ -428,6 +601,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.delete("/apps/:appId/threads/:threadId", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.delete) throw featureUnavailable("Thread deletion");
@@ -441,6 +615,7 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
       context.req.param("threadId"),
+      null,
     );
     const service = serviceFor(context.env);
     if (!service.deletion) throw featureUnavailable("Thread deletion status");
@@ -453,6 +628,7 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
       context.req.param("threadId"),
+      "view",
     );
     const input = ThreadForkRequestSchema.parse(await context.req.json());
     const binding = await serviceFor(context.env).fork(target, input);
@@ -465,6 +641,7 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
       context.req.param("threadId"),
+      "view",
     );
     const service = serviceFor(context.env);
     if (!service.realtimeTicket) throw featureUnavailable("Thread realtime");
@@ -500,6 +677,7 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.env,
       context.req.param("appId"),
       context.req.param("threadId"),
+      "participate",
     );
     const service = serviceFor(context.env);
     if (!service.terminalConnect) throw featureUnavailable("Sandbox terminal");
@@ -662,7 +840,9 @@ export function createFlaryHostRouter<TBindings extends object>(
       context.req.param("threadId"),
     );
     const authorizedAt = performance.now();
-    const input = ThreadMessageRequestSchema.parse(await context.req.json());
+    const input = ThreadMessageRequestSchema.parse(
+      withAuthor(await context.req.json(), target),
+    );
     const admission = FlaryThreadAdmissionSchema.parse(
       await serviceFor(context.env).submit(target, input),
     );
@@ -785,7 +965,7 @@ export function createFlaryHostRouter<TBindings extends object>(
     );
     const service = serviceFor(context.env);
     if (!service.edit) throw featureUnavailable("Message replacement");
-    const input = ThreadEditRequestSchema.parse(await context.req.json());
+    const input = ThreadEditRequestSchema.parse(withAuthor(await context.req.json(), target));
     return context.json(
       FlaryThreadAdmissionSchema.parse(await service.edit(target, input)),
       202,
@@ -827,6 +1007,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.post("/apps/:appId/threads/:threadId/restore", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.restore) throw featureUnavailable("Thread restore");
@@ -837,10 +1018,32 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.get("/apps/:appId/threads/:threadId/export", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
-    if (!service.exportSession) throw featureUnavailable("Thread export");
-    return context.json({ archive: await service.exportSession(target) });
+    const format = context.req.query("format") ?? "archive";
+    if (format === "archive") {
+      if (!service.exportSession) throw featureUnavailable("Thread export");
+      return context.json({ archive: await service.exportSession(target) });
+    }
+    if (!service.exportTranscript) throw featureUnavailable("Thread transcript export");
+    const input = ThreadTranscriptRequestSchema.parse({
+      format,
+      reasoning: context.req.query("reasoning") === "true",
+      redact: context.req.query("redact") === "true",
+    });
+    const transcript = await service.exportTranscript(target, input);
+    if (transcript.format === "markdown" || transcript.format === "html") {
+      const markdown = transcript.format === "markdown";
+      return new Response(transcript.text, {
+        headers: {
+          "content-type": markdown ? "text/markdown; charset=utf-8" : "text/html; charset=utf-8",
+          "content-disposition":
+            `attachment; filename="${target.threadId}.${markdown ? "md" : "html"}"`,
+        },
+      });
+    }
+    return context.json(transcript);
   });
 
   router.post("/apps/:appId/threads/:threadId/goal", async (context) => {
@@ -893,6 +1096,7 @@ export function createFlaryHostRouter<TBindings extends object>(
   router.get("/apps/:appId/threads/:threadId/audit/export", async (context) => {
     const target = await targetFor(
       context.req.raw, context.env, context.req.param("appId"), context.req.param("threadId"),
+      "own",
     );
     const service = serviceFor(context.env);
     if (!service.auditExport) throw featureUnavailable("Thread audit export");
@@ -1125,3 +1329,40 @@ function assertWorkspaceScope(
     );
   }
 }
+
+/** A user always writes as themselves; a service may name the author. */
+function withAuthor(body: unknown, target: FlaryThreadTarget): unknown {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return body;
+  const actor = target.authorization.actor;
+  return actor.kind === "user" || !("author" in body)
+    ? { ...body, author: actor }
+    : body;
+}
+
+/**
+ * Read thread list filters from a query string. `status` and `tag` may repeat
+ * or hold a comma list, and `metadata.<key>=<value>` filters one metadata key.
+ */
+function parseThreadListQuery(params: URLSearchParams): ThreadListQuery {
+  const list = (name: string) =>
+    params.getAll(name).flatMap((value) => value.split(",")).filter(Boolean);
+  const status = list("status");
+  const tags = list("tag");
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of params) {
+    if (name.startsWith("metadata.")) metadata[name.slice(9)] = value;
+  }
+  const query: Record<string, unknown> = {};
+  for (const name of ["agentId", "updatedAfter", "updatedBefore", "cursor"]) {
+    const value = params.get(name);
+    if (value) query[name] = value;
+  }
+  const limit = params.get("limit");
+  return ThreadListQuerySchema.parse({
+    ...query,
+    ...(status.length > 0 ? { status } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    ...(limit ? { limit: Number(limit) } : {}),
+  });
+}
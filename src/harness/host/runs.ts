@@ -10,6 +10,8 @@ import {
   RunEventSchema,
   RunHandleSchema,
   RunInputSchema,
+  RunListPageSchema,
+  RunListQuerySchema,
   RunResultSchema,
   UserInputAnswerRequestSchema,
   UserInputRecordSchema,
@@ -17,9 +19,15 @@ import {
   type ApprovalRequest,
   type CancelRunRequest,
   type CreateRunRequest,
+  type DeadLetterQueryInput,
+  type DeadLetterRecord,
+  type JsonObject,
   type RunEvent,
   type RunHandle,
   type RunInput,
+  type RunListPage,
+  type RunListQuery,
+  type RunListQueryInput,
   type RunResult,
   type UserInputAnswerRequest,
   type UserInputRecord,
@@ -120,6 +128,38 @@ export interface FlaryRunService {
     requestId: string,
     input: UserInputAnswerRequest,
   ): Promise<RunResult>;
+  /** List runs of the caller's tenant application, newest first. */
+  list?(
+    context: TrustedRunContext,
+    query?: RunListQueryInput,
+  ): Promise<RunListPage>;
+  /** List failed runs of the caller's scope whose input was kept, newest first. */
+  listDeadLetters?(
+    context: TrustedRunContext,
+    query?: DeadLetterQueryInput,
+  ): Promise<DeadLetterRecord[]>;
+  /** Read one dead letter after the service validates ownership. */
+  getDeadLetter?(
+    context: TrustedRunContext,
+    runId: string,
+  ): Promise<DeadLetterRecord>;
+  /**
+   * Re-admit a dead-lettered run with its stored request and revision. A
+   * caller that wants a newer revision creates the run itself with the
+   * `flaryReplayOf` metadata key instead. A letter that was already replayed
+   * is rejected unless `force` is set, or `flaryReplayForce` on create.
+   */
+  replay?(
+    context: TrustedRunContext,
+    runId: string,
+    options?: {
+      readonly requestId?: string;
+      /** Merged over the stored metadata, for example a new quota lease. */
+      readonly metadata?: JsonObject;
+      /** Replay a letter that was already replayed. */
+      readonly force?: boolean;
+    },
+  ): Promise<RunHandle>;
 }
 
 export interface CreateFlaryRunRouterOptions<TBindings extends object> {
@@ -216,6 +256,14 @@ export function createFlaryRunRouter<TBindings extends object>(
     return context.json(handle, 202);
   });
 
+  router.get("/runs", async (context) => {
+    const trusted = await contextFor(context.req.raw, context.env);
+    const service = serviceFor(context.env, executionFor(context));
+    if (!service.list) throw featureUnavailable("Run listing");
+    const query = parseRunListQuery(new URL(context.req.url).searchParams);
+    return context.json(RunListPageSchema.parse(await service.list(trusted, query)));
+  });
+
   router.get("/runs/:runId", async (context) => {
     const runId = IdentifierSchema.parse(context.req.param("runId"));
     const trusted = await contextFor(context.req.raw, context.env, runId);
@@ -379,6 +427,38 @@ export function createFlaryRunRouter<TBindings extends object>(
   return router;
 }
 
+/**
+ * Read list filters from a query string. `status` may repeat or hold a comma
+ * list, and `metadata.<key>=<value>` filters one metadata key.
+ */
+export function parseRunListQuery(params: URLSearchParams): RunListQuery {
+  const status = params.getAll("status").flatMap((value) => value.split(","))
+    .filter(Boolean);
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of params) {
+    if (name.startsWith("metadata.")) metadata[name.slice(9)] = value;
+  }
+  const query: Record<string, unknown> = {};
+  for (const name of [
+    "agentId",
+    "revisionId",
+    "userId",
+    "createdAfter",
+    "createdBefore",
+    "cursor",
+  ]) {
+    const value = params.get(name);
+    if (value) query[name] = value;
+  }
+  const limit = params.get("limit");
+  return RunListQuerySchema.parse({
+    ...query,
+    ...(status.length > 0 ? { status } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    ...(limit ? { limit: Number(limit) } : {}),
+  });
+}
+
 function parseSequence(value: string | undefined): number {
   if (value === undefined || value === "") return 0;
   const sequence = Number(value);
@@ -30,6 +30,7 @@ import {
   ThreadRestoreRequestSchema,
   ThreadMessageRequestSchema,
   ThreadModelSetRequestSchema,
+  ThreadHandoffRequestSchema,
   type ThreadBinding,
   type ThreadDeletion,
   type ThreadCreateRequest,
@@ -46,7 +47,22 @@ import {
   type ThreadPortableArchive,
   type ThreadMessageRequest,
   type ThreadModelSetRequest,
+  type ThreadHandoffRequest,
   type ThreadRestoreRequest,
+  type ThreadListQueryInput,
+  type ThreadListResponse,
+  type ThreadMetadataUpdateRequest,
+  type ThreadSearchRequest,
+  type ThreadSearchResponse,
+  type ThreadCollaboratorGrantRequest,
+  type ThreadComment,
+  type ThreadCommentRequest,
+  type ThreadShareLink,
+  type ThreadShareLinkCreateRequest,
+  type ThreadShareLinkCreateResponse,
+  type ThreadSharedConversation,
+  type ThreadTranscript,
+  type ThreadTranscriptRequest,
 } from "../contracts/threads.js";
 import {
   UserInputAnswerRequestSchema,
@@ -178,6 +194,14 @@ export interface FlaryProviderOAuthHostService {
   disconnect(scope: FlaryThreadScope, connectionId: string): Promise<void>;
 }
 
+/** A guardrail that blocked or rewrote one thread message. */
+export interface FlaryThreadGuardrailRecord {
+  readonly stage: "input" | "output";
+  readonly guardrail: string;
+  readonly action: "block" | "rewrite";
+  readonly reason?: string;
+}
+
 /**
  * Product-owned persistence and execution adapter for the open-source host.
  *
@@ -190,7 +214,56 @@ export interface FlaryThreadHostService {
     scope: FlaryThreadScope,
     input: z.output<typeof ThreadCreateRequestSchema>,
   ): Promise<ThreadBinding>;
+  /** One page of the threads of a scope that pass the list filters. */
+  listPage?(
+    scope: FlaryThreadScope,
+    query: ThreadListQueryInput,
+  ): Promise<ThreadListResponse>;
+  /** Search titles, messages, and tool results across the threads of a scope. */
+  search?(
+    scope: FlaryThreadScope,
+    input: ThreadSearchRequest,
+  ): Promise<ThreadSearchResponse>;
   inspect(target: FlaryThreadTarget): Promise<ThreadBinding>;
+  /**
+   * The creator and collaborators of a thread. The router reads them before
+   * each thread route; without this hook, every caller of the tenant may use
+   * every thread.
+   */
+  threadAccess?(
+    target: FlaryThreadTarget,
+  ): Promise<Pick<ThreadBinding, "createdBy" | "collaborators">>;
+  grantAccess?(
+    target: FlaryThreadTarget,
+    input: ThreadCollaboratorGrantRequest,
+  ): Promise<ThreadBinding>;
+  revokeAccess?(
+    target: FlaryThreadTarget,
+    actorId: string,
+  ): Promise<ThreadBinding>;
+  comment?(
+    target: FlaryThreadTarget,
+    input: ThreadCommentRequest,
+  ): Promise<ThreadComment>;
+  comments?(
+    target: FlaryThreadTarget,
+    input: ThreadRecordListRequest,
+  ): Promise<ThreadComment[]>;
+  createShareLink?(
+    target: FlaryThreadTarget,
+    input: ThreadShareLinkCreateRequest,
+    requestUrl: string,
+  ): Promise<ThreadShareLinkCreateResponse>;
+  shareLinks?(target: FlaryThreadTarget): Promise<ThreadShareLink[]>;
+  revokeShareLink?(
+    target: FlaryThreadTarget,
+    linkId: string,
+  ): Promise<ThreadShareLink>;
+  /** The read-only conversation behind a share link token. No caller is authorized. */
+  sharedConversation?(
+    appId: string,
+    token: string,
+  ): Promise<ThreadSharedConversation>;
   realtimeTicket?(
     target: FlaryThreadTarget,
     input: RealtimeTicketRequest,
@@ -217,6 +290,11 @@ export interface FlaryThreadHostService {
     target: FlaryThreadTarget,
     input: ThreadRenameRequest,
   ): Promise<ThreadBinding>;
+  /** Merge caller metadata into the thread and replace its tags. */
+  updateMetadata?(
+    target: FlaryThreadTarget,
+    input: ThreadMetadataUpdateRequest,
+  ): Promise<ThreadBinding>;
   pin?(
     target: FlaryThreadTarget,
     input: ThreadPinRequest,
@@ -249,6 +327,11 @@ export interface FlaryThreadHostService {
     input: ThreadModelSetRequest,
   ): Promise<unknown>;
   modelHistory?(target: FlaryThreadTarget): Promise<readonly unknown[]>;
+  /** Move the thread to another agent from its next turn. */
+  handoff?(
+    target: FlaryThreadTarget,
+    input: ThreadHandoffRequest,
+  ): Promise<ThreadBinding>;
   submit(
     target: FlaryThreadTarget,
     input: ThreadMessageRequest,
@@ -288,6 +371,10 @@ export interface FlaryThreadHostService {
     input: ThreadRestoreRequest,
   ): Promise<unknown>;
   exportSession?(target: FlaryThreadTarget): Promise<ThreadPortableArchive>;
+  exportTranscript?(
+    target: FlaryThreadTarget,
+    input: ThreadTranscriptRequest,
+  ): Promise<ThreadTranscript>;
   setGoal?(
     target: FlaryThreadTarget,
     input: ThreadGoalRequest,
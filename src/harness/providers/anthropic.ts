@@ -10,7 +10,13 @@ import {
   type ProviderError,
   type ProviderUsage,
 } from "./contracts.js";
-import type { ModelAdapter, ProviderRequestOptions } from "./types.js";
+import type {
+  ModelBatch,
+  ModelBatchAdapter,
+  ModelBatchRequest,
+  ModelBatchResult,
+  ProviderRequestOptions,
+} from "./types.js";
 import {
   asNonNegativeInteger,
   asRecord,
@@ -18,6 +24,7 @@ import {
   contentToText,
   createProviderError,
   joinUrl,
+  parseJsonLines,
   parseJsonObject,
   parseServerSentEvents,
   providerErrorFromResponse,
@@ -37,10 +44,11 @@ export interface AnthropicMessagesAdapterOptions {
   readonly fetch?: typeof fetch;
 }
 
-export class AnthropicMessagesAdapter implements ModelAdapter {
+export class AnthropicMessagesAdapter implements ModelBatchAdapter {
   readonly id: string;
   readonly provider = "anthropic" as const;
   readonly supportsStreaming = true;
+  readonly supportsBatch = true;
 
   private readonly baseUrl: string;
   private readonly apiKey?: string;
@@ -308,6 +316,112 @@ export class AnthropicMessagesAdapter implements ModelAdapter {
     }
   }
 
+  /** Submit requests to the Message Batches API. */
+  async createBatch(
+    requests: readonly ModelBatchRequest[],
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    const body = {
+      requests: requests.map((item) => {
+        const params = this.toRequestBody(ModelRequestSchema.parse(item.request), false);
+        delete params.stream;
+        return { custom_id: item.customId, params };
+      }),
+    };
+    return this.fromBatch(
+      await this.batchCall("/messages/batches", options, {
+        method: "POST",
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  async getBatch(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    return this.fromBatch(
+      await this.batchCall(`/messages/batches/${encodeURIComponent(batchId)}`, options)
+    );
+  }
+
+  async cancelBatch(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    return this.fromBatch(
+      await this.batchCall(
+        `/messages/batches/${encodeURIComponent(batchId)}/cancel`,
+        options,
+        { method: "POST" }
+      )
+    );
+  }
+
+  async batchResults(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatchResult[]> {
+    const text = await this.batchCall(
+      `/messages/batches/${encodeURIComponent(batchId)}/results`,
+      options,
+      {},
+      true
+    );
+    return parseJsonLines(text as string).map((line) => {
+      const root = asRecord(line);
+      const customId = asString(root.custom_id);
+      const result = asRecord(root.result);
+      const type = asString(result.type);
+      if (type === "succeeded") {
+        const message = asRecord(result.message);
+        return { customId, response: this.fromResponse(message, asString(message.model)) };
+      }
+      const failure = type === "errored"
+        ? asRecord(result.error).error ?? result.error
+        : {
+            code: `batch_request_${type || "failed"}`,
+            message: `The batch request was ${type || "not completed"}.`,
+          };
+      return { customId, error: createProviderError(this.id, failure).error };
+    });
+  }
+
+  private async batchCall(
+    path: string,
+    options: ProviderRequestOptions,
+    init: RequestInit = {},
+    text = false
+  ): Promise<unknown> {
+    const signalState = requestSignal(options);
+    try {
+      const response = await this.fetchImpl(joinUrl(this.baseUrl, path), {
+        ...init,
+        headers: this.headersFor(
+          options.headers,
+          text ? "application/x-jsonl" : "application/json"
+        ),
+        signal: signalState.signal,
+      });
+      if (!response.ok) throw await providerErrorFromResponse(this.id, response);
+      return text ? await response.text() : ((await response.json()) as unknown);
+    } catch (error) {
+      throw this.normalizeError(error);
+    } finally {
+      signalState.cleanup();
+    }
+  }
+
+  private fromBatch(payload: unknown): ModelBatch {
+    const root = asRecord(payload);
+    const status = asString(root.processing_status);
+    return {
+      id: asString(root.id),
+      // Failed requests of an ended batch are reported one by one.
+      status: status === "ended" ? "completed" : "in_progress",
+    };
+  }
+
   private headersFor(extra: HeadersInit | undefined, accept: string): Headers {
     const headers = new Headers(this.headers);
     headers.set("content-type", "application/json");
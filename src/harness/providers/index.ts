@@ -12,3 +12,4 @@ export * from "./types.js";
 export * from "./utils.js";
 export * from "./operations.js";
 export * from "./routing.js";
+export * from "./pricing.js";
@@ -11,14 +11,22 @@ import {
   type ProviderUsage,
 } from "./contracts.js";
 import type { ProviderKind } from "../contracts/provider.js";
-import type { ModelAdapter, ProviderRequestOptions } from "./types.js";
+import type {
+  ModelBatch,
+  ModelBatchAdapter,
+  ModelBatchRequest,
+  ModelBatchResult,
+  ProviderRequestOptions,
+} from "./types.js";
 import {
   asNonNegativeInteger,
+  asNumber,
   asRecord,
   asString,
   contentToText,
   createProviderError,
   joinUrl,
+  parseJsonLines,
   parseJsonObject,
   parseServerSentEvents,
   providerErrorFromResponse,
@@ -35,12 +43,18 @@ export interface OpenAICompatibleAdapterOptions {
   readonly path?: string;
   readonly headers?: HeadersInit;
   readonly fetch?: typeof fetch;
+  /**
+   * Whether the endpoint serves the OpenAI Batch API. Defaults to true for
+   * the `openai` provider only, because most compatible gateways do not.
+   */
+  readonly batch?: boolean;
 }
 
-export class OpenAICompatibleAdapter implements ModelAdapter {
+export class OpenAICompatibleAdapter implements ModelBatchAdapter {
   readonly id: string;
   readonly provider: ProviderKind;
   readonly supportsStreaming = true;
+  readonly supportsBatch: boolean;
 
   private readonly baseUrl: string;
   private readonly apiKey?: string;
@@ -56,6 +70,7 @@ export class OpenAICompatibleAdapter implements ModelAdapter {
     this.path = options.path ?? "/chat/completions";
     this.headers = options.headers;
     this.fetchImpl = options.fetch ?? fetch;
+    this.supportsBatch = options.batch ?? this.provider === "openai";
   }
 
   async complete(
@@ -259,6 +274,135 @@ export class OpenAICompatibleAdapter implements ModelAdapter {
     }
   }
 
+  /** Upload the requests as a JSONL file and create a Batch API job. */
+  async createBatch(
+    requests: readonly ModelBatchRequest[],
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    const endpoint = new URL(joinUrl(this.baseUrl, this.path)).pathname;
+    const lines = requests.map((item) => {
+      const body = this.toRequestBody(ModelRequestSchema.parse(item.request), false);
+      delete body.stream;
+      return JSON.stringify({ custom_id: item.customId, method: "POST", url: endpoint, body });
+    });
+    const form = new FormData();
+    form.set("purpose", "batch");
+    form.set(
+      "file",
+      new Blob([`${lines.join("\n")}\n`], { type: "application/jsonl" }),
+      "batch.jsonl"
+    );
+    const file = asRecord(
+      await this.batchCall("/files", options, { method: "POST", body: form })
+    );
+    return this.fromBatch(
+      await this.batchCall("/batches", options, {
+        method: "POST",
+        body: JSON.stringify({
+          input_file_id: asString(file.id),
+          endpoint,
+          completion_window: "24h",
+        }),
+      })
+    );
+  }
+
+  async getBatch(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    return this.fromBatch(
+      await this.batchCall(`/batches/${encodeURIComponent(batchId)}`, options)
+    );
+  }
+
+  async cancelBatch(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatch> {
+    return this.fromBatch(
+      await this.batchCall(`/batches/${encodeURIComponent(batchId)}/cancel`, options, {
+        method: "POST",
+      })
+    );
+  }
+
+  /** Read the output file and the error file of a finished batch. */
+  async batchResults(
+    batchId: string,
+    options: ProviderRequestOptions = {}
+  ): Promise<ModelBatchResult[]> {
+    const batch = asRecord(
+      await this.batchCall(`/batches/${encodeURIComponent(batchId)}`, options)
+    );
+    const results: ModelBatchResult[] = [];
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (typeof fileId !== "string" || fileId.length === 0) continue;
+      const text = await this.batchCall(
+        `/files/${encodeURIComponent(fileId)}/content`,
+        options,
+        {},
+        true
+      );
+      for (const line of parseJsonLines(text as string)) {
+        const root = asRecord(line);
+        const customId = asString(root.custom_id);
+        const response = asRecord(root.response);
+        const status = asNumber(response.status_code);
+        if (status !== undefined && status >= 200 && status < 300) {
+          const body = asRecord(response.body);
+          results.push({ customId, response: this.fromResponse(body, asString(body.model)) });
+          continue;
+        }
+        results.push({
+          customId,
+          error: createProviderError(this.id, root.error ?? response.body, status).error,
+        });
+      }
+    }
+    return results;
+  }
+
+  private async batchCall(
+    path: string,
+    options: ProviderRequestOptions,
+    init: RequestInit = {},
+    text = false
+  ): Promise<unknown> {
+    const signalState = requestSignal(options);
+    try {
+      const headers = this.headersFor(options.headers, "application/json");
+      // The runtime sets the multipart boundary of a file upload.
+      if (init.body instanceof FormData) headers.delete("content-type");
+      const response = await this.fetchImpl(joinUrl(this.baseUrl, path), {
+        ...init,
+        headers,
+        signal: signalState.signal,
+      });
+      if (!response.ok) throw await providerErrorFromResponse(this.id, response);
+      return text ? await response.text() : ((await response.json()) as unknown);
+    } catch (error) {
+      throw this.normalizeError(error);
+    } finally {
+      signalState.cleanup();
+    }
+  }
+
+  private fromBatch(payload: unknown): ModelBatch {
+    const root = asRecord(payload);
+    const status = asString(root.status);
+    return {
+      id: asString(root.id),
+      status:
+        status === "completed" ||
+        status === "failed" ||
+        status === "expired" ||
+        status === "cancelled"
+          ? status
+          : "in_progress",
+    };
+  }
+
   private headersFor(extra: HeadersInit | undefined, accept: string): Headers {
     const headers = new Headers(this.headers);
     headers.set("content-type", "application/json");
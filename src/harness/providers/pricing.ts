@@ -0,0 +1,142 @@
+import { z } from "zod";
+
+import type { KnownMicroUnitCost } from "../contracts/telemetry.js";
+
+/** USD prices for one million tokens of one model. */
+export const ModelPriceSchema = z.object({
+  input: z.number().finite().nonnegative(),
+  output: z.number().finite().nonnegative(),
+  /** Price of input tokens read from the provider cache. Defaults to `input`. */
+  cachedInput: z.number().finite().nonnegative().optional(),
+  /** Price of reasoning tokens. Defaults to `output`. */
+  reasoning: z.number().finite().nonnegative().optional(),
+}).strict();
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+/**
+ * A versioned price list keyed by `provider/model`. The version is stored
+ * with priced usage, so a later price change never rewrites an old cost.
+ */
+export const ModelPricingCatalogSchema = z.object({
+  version: z.string().trim().min(1).max(64),
+  models: z.record(z.string().min(3).max(256), ModelPriceSchema),
+}).strict();
+export type ModelPricingCatalog = z.infer<typeof ModelPricingCatalogSchema>;
+
+/** Application overrides. Listed models replace the default entry. */
+export interface ModelPricingOverrides {
+  readonly version?: string;
+  readonly models?: Readonly<Record<string, ModelPrice>>;
+}
+
+/** Public list prices of common models when this catalog version was cut. */
+export const DEFAULT_MODEL_PRICING: ModelPricingCatalog = Object.freeze({
+  version: "2026-10-01",
+  models: Object.freeze({
+    "openai/gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+    "openai/gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+    "openai/gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+    "anthropic/claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5 },
+    "anthropic/claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+    "anthropic/claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+  }),
+});
+
+/**
+ * Token counts in the shape shared by provider, run, and telemetry usage.
+ * Cached and reasoning tokens are part of `inputTokens` and `outputTokens`.
+ */
+export interface PricedTokenUsage {
+  readonly inputTokens?: number;
+  readonly outputTokens?: number;
+  readonly cachedInputTokens?: number;
+  readonly cache?: {
+    readonly readTokens?: number;
+    readonly readInputTokens?: number;
+  };
+  readonly reasoning?: { readonly tokens?: number };
+}
+
+/** Merge application overrides into a catalog and validate the result. */
+export function extendModelPricing(
+  base: ModelPricingCatalog,
+  overrides: ModelPricingOverrides = {},
+): ModelPricingCatalog {
+  const catalog = ModelPricingCatalogSchema.parse({
+    version: overrides.version ??
+      (overrides.models ? `${base.version}+app` : base.version),
+    models: { ...base.models, ...(overrides.models ?? {}) },
+  });
+  return Object.freeze({ ...catalog, models: Object.freeze(catalog.models) });
+}
+
+/** Find the price of `provider/model`, ignoring a `:variant` suffix. */
+export function modelPrice(
+  catalog: ModelPricingCatalog,
+  model: string | { readonly provider: string; readonly model: string },
+): ModelPrice | undefined {
+  const key = typeof model === "string"
+    ? model
+    : `${model.provider}/${model.model}`;
+  return catalog.models[key] ?? catalog.models[key.replace(/:[^/:]+$/, "")];
+}
+
+/**
+ * The entries of a catalog that price `models`, for storing with a run or a
+ * thread. Models without a price are left out.
+ */
+export function selectModelPricing(
+  catalog: ModelPricingCatalog,
+  models: readonly string[],
+): ModelPricingCatalog {
+  const entries = models.flatMap((model) => {
+    const price = modelPrice(catalog, model);
+    return price ? [[model, price] as const] : [];
+  });
+  return { version: catalog.version, models: Object.fromEntries(entries) };
+}
+
+/**
+ * Convert token usage into USD. The result is undefined when the catalog has
+ * no price for the model, so callers can keep the cost unknown.
+ */
+export function priceUsage(
+  catalog: ModelPricingCatalog,
+  model: string | { readonly provider: string; readonly model: string },
+  usage: PricedTokenUsage,
+): number | undefined {
+  const price = modelPrice(catalog, model);
+  if (!price) return undefined;
+  const input = count(usage.inputTokens);
+  const output = count(usage.outputTokens);
+  const cached = Math.min(
+    input,
+    count(
+      usage.cachedInputTokens ??
+        usage.cache?.readTokens ??
+        usage.cache?.readInputTokens,
+    ),
+  );
+  const reasoning = Math.min(output, count(usage.reasoning?.tokens));
+  const total =
+    (input - cached) * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    (output - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output);
+  return total / 1_000_000;
+}
+
+/** Express a USD amount as the telemetry micro-unit cost. */
+export function usdMicroUnitCost(costUsd: number): KnownMicroUnitCost {
+  return {
+    state: "known",
+    microUnits: Math.max(0, Math.round(costUsd * 1_000_000)),
+    unit: "USD",
+  };
+}
+
+function count(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : 0;
+}
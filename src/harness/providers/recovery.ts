@@ -257,6 +257,29 @@ export function classifyHttpFailure(
   return "unknown";
 }
 
+/**
+ * Classify a provider failure that only survived as text, such as the error
+ * message of a Flue turn.
+ */
+export function classifyProviderFailureMessage(
+  message: string,
+): ProviderFailureClass {
+  if (/\b(?:unauthori[sz]ed|forbidden|invalid api key|401|403)\b/i.test(message)) {
+    return "authentication";
+  }
+  if (/\b(?:rate.?limit(?:ed)?|too many requests|quota|429)\b/i.test(message)) {
+    return "rate_limit";
+  }
+  if (
+    /\b(?:overloaded|unavailable|timed? ?out|timeout|bad gateway|internal server error|5\d\d)\b/i
+      .test(message)
+  ) {
+    return "transient";
+  }
+  if (/\babort(?:ed)?\b/i.test(message)) return "cancelled";
+  return "unknown";
+}
+
 function checkpointForEvent(
   checkpoint: ProviderRecoveryCheckpoint,
   event: ModelStreamEvent,
@@ -3,6 +3,7 @@ import type {
   ModelRequest,
   ModelResponse,
   ModelStreamEvent,
+  ProviderError,
 } from "./contracts.js";
 
 export interface ProviderRequestOptions {
@@ -15,6 +16,8 @@ export interface ModelAdapter {
   readonly id: string;
   readonly provider: ProviderKind;
   readonly supportsStreaming: boolean;
+  /** True when the adapter also implements `ModelBatchAdapter`. */
+  readonly supportsBatch?: boolean;
 
   complete(
     request: ModelRequest,
@@ -27,6 +30,38 @@ export interface ModelAdapter {
   ): AsyncIterable<ModelStreamEvent>;
 }
 
+export interface ModelBatchRequest {
+  /** Caller key that matches each result to its request. */
+  readonly customId: string;
+  readonly request: ModelRequest;
+}
+
+export interface ModelBatch {
+  readonly id: string;
+  readonly status: "in_progress" | "completed" | "failed" | "cancelled" | "expired";
+}
+
+export type ModelBatchResult =
+  | { readonly customId: string; readonly response: ModelResponse }
+  | { readonly customId: string; readonly error: ProviderError };
+
+/**
+ * Asynchronous batch endpoint of a provider. Results come back in any order
+ * and are matched by `customId`.
+ */
+export interface ModelBatchAdapter extends ModelAdapter {
+  createBatch(
+    requests: readonly ModelBatchRequest[],
+    options?: ProviderRequestOptions
+  ): Promise<ModelBatch>;
+  getBatch(batchId: string, options?: ProviderRequestOptions): Promise<ModelBatch>;
+  batchResults(
+    batchId: string,
+    options?: ProviderRequestOptions
+  ): Promise<ModelBatchResult[]>;
+  cancelBatch(batchId: string, options?: ProviderRequestOptions): Promise<ModelBatch>;
+}
+
 export interface ProviderAdapterRegistryOptions {
   readonly adapters?: readonly ModelAdapter[];
 }
@@ -3,7 +3,11 @@ import {
   type ProviderError,
 } from "./contracts.js";
 import { JsonObjectSchema } from "../contracts/common.js";
-import type { ProviderRequestOptions } from "./types.js";
+import type {
+  ModelAdapter,
+  ModelBatchAdapter,
+  ProviderRequestOptions,
+} from "./types.js";
 
 export class ProviderAdapterError extends Error {
   readonly error: ProviderError;
@@ -108,6 +112,20 @@ export async function providerErrorFromResponse(
   return createProviderError(provider, payload, response.status);
 }
 
+export function supportsModelBatch(adapter: ModelAdapter): adapter is ModelBatchAdapter {
+  return adapter.supportsBatch === true &&
+    typeof (adapter as Partial<ModelBatchAdapter>).createBatch === "function";
+}
+
+/** Parse a JSON Lines body, such as a provider batch result file. */
+export function parseJsonLines(text: string): unknown[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as unknown);
+}
+
 export function requestSignal(options: ProviderRequestOptions): {
   signal?: AbortSignal;
   cleanup: () => void;
@@ -33,6 +33,7 @@ export const SessionRecordTypeSchema = z.enum([
   "turn.aborted",
   "turn.settings",
   "model.changed",
+  "agent.handoff",
   "provider.segment.started",
   "provider.segment.completed",
   "provider.compatibility",
@@ -77,6 +78,8 @@ export const SessionRecordTypeSchema = z.enum([
   "schedule.updated",
   "schedule.run",
   "terminal",
+  "guardrail.tripped",
+  "thread.comment",
   "codex.opaque",
 ]);
 export type SessionRecordType = z.infer<typeof SessionRecordTypeSchema>;
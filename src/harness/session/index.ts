@@ -8,3 +8,5 @@ export * from "./projector.js";
 export * from "./r2-archive.js";
 export * from "./provider-history.js";
 export * from "./canonical-r2-archive.js";
+export * from "./transcript.js";
+export * from "./transcript-import.js";
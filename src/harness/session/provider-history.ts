@@ -21,6 +21,11 @@ export const CanonicalHistoryItemSchema = z.discriminatedUnion("kind", [
     text: z.string(),
     producer: z.object({ provider: z.string().min(1), model: z.string().min(1) }).strict().optional(),
   }).strict(),
+  z.object({
+    kind: z.literal("reasoning"),
+    id: z.string().min(1),
+    text: z.string(),
+  }).strict(),
   z.object({
     kind: z.literal("tool-call"),
     id: z.string().min(1),
@@ -103,6 +108,8 @@ export function toProviderHistory(
       output.push({ role: "assistant", content: item.text });
       continue;
     }
+    // Reasoning belongs to the model that wrote it and is never replayed.
+    if (item.kind === "reasoning") continue;
     if (item.kind === "tool-call") {
       if (capabilities.supportsTools === false) {
         output.push({ role: "assistant", content: `[Tool call: ${item.toolId}]` });
@@ -132,6 +139,75 @@ export function toProviderHistory(
   return output;
 }
 
+/**
+ * Read the canonical history out of a materialized conversation. A user
+ * message becomes one item with its files as attachments. Each text,
+ * reasoning, and tool part of an assistant message becomes its own item.
+ */
+export function conversationHistory(conversation: unknown): CanonicalHistoryItem[] {
+  const snapshot = objectValue(conversation);
+  const messages = Array.isArray(snapshot.messages) ? snapshot.messages.map(objectValue) : [];
+  return messages.flatMap((message, index): CanonicalHistoryItem[] => {
+    if (message.role !== "user" && message.role !== "assistant") return [];
+    const messageId = typeof message.id === "string" && message.id ? message.id : `message_${index + 1}`;
+    const parts = Array.isArray(message.parts) ? message.parts.map(objectValue) : [];
+    if (message.role === "user") {
+      const attachments = parts.flatMap((part, partIndex) => {
+        if (part.type !== "file") return [];
+        const id = stringValue(part.filename) ?? stringValue(part.id) ?? `${messageId}_file_${partIndex + 1}`;
+        return [{
+          id,
+          mimeType: stringValue(part.mediaType) ?? "application/octet-stream",
+          storageKey: stringValue(part.url) ?? id,
+        }];
+      });
+      const text = parts
+        .filter((part) => part.type === "text" && typeof part.text === "string")
+        .map((part) => part.text as string)
+        .join("\n\n");
+      return text.trim() || attachments.length > 0
+        ? [{ kind: "user", id: messageId, text, attachments }]
+        : [];
+    }
+    return parts.flatMap((part, partIndex): CanonicalHistoryItem[] => {
+      const id = `${messageId}_${partIndex + 1}`;
+      if ((part.type === "text" || part.type === "reasoning") && typeof part.text === "string") {
+        if (!part.text.trim()) return [];
+        return [part.type === "text"
+          ? { kind: "assistant", id, text: part.text }
+          : { kind: "reasoning", id, text: part.text }];
+      }
+      if (part.type !== "dynamic-tool" || typeof part.toolCallId !== "string") return [];
+      const toolId = stringValue(part.toolName) ?? "tool";
+      const input = objectValue(part.input);
+      const call: CanonicalHistoryItem = { kind: "tool-call", id: part.toolCallId, toolId, input };
+      if (part.state === "output-available") {
+        return [call, { kind: "tool-result", id: part.toolCallId, toolId, output: part.output }];
+      }
+      if (part.state === "output-error") {
+        return [call, {
+          kind: "tool-result",
+          id: part.toolCallId,
+          toolId,
+          output: null,
+          error: String(part.errorText ?? ""),
+        }];
+      }
+      return [call];
+    });
+  });
+}
+
+function objectValue(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
 function safeJson(value: unknown): string {
   try {
     return JSON.stringify(value) ?? "null";
@@ -0,0 +1,365 @@
+import type { JsonObject, JsonValue } from "../contracts/common.js";
+import {
+  ThreadTranscriptRequestSchema,
+  type AnthropicMessage,
+  type OpenAIChatMessage,
+  type ThreadTranscript,
+  type ThreadTranscriptRequest,
+} from "../contracts/threads.js";
+import { redactSecrets, redactText } from "../execution/redaction.js";
+import type { SessionRecord } from "./contracts.js";
+import type { CanonicalHistoryItem } from "./provider-history.js";
+
+export interface ThreadTranscriptSource {
+  readonly threadId: string;
+  readonly title?: string;
+  /** The canonical history of the thread, in order. */
+  readonly history: readonly CanonicalHistoryItem[];
+  /** Ledger records. Approval records are shown on their tool calls. */
+  readonly records?: readonly Pick<SessionRecord, "recordType" | "publicPayload" | "toolCallId">[];
+}
+
+type TranscriptPart =
+  | { readonly type: "text"; readonly text: string }
+  | { readonly type: "reasoning"; readonly text: string }
+  | { readonly type: "file"; readonly name: string }
+  | {
+    readonly type: "tool";
+    readonly id: string;
+    readonly name: string;
+    readonly status: "running" | "completed" | "failed";
+    readonly input: unknown;
+    readonly output?: unknown;
+    readonly error?: string;
+    readonly approval?: TranscriptApproval;
+  };
+
+interface TranscriptMessage {
+  readonly role: "user" | "assistant";
+  readonly parts: readonly TranscriptPart[];
+}
+
+interface TranscriptApproval {
+  readonly status: string;
+  readonly reason?: string;
+}
+
+/**
+ * Render the thread history for people or for another model API. Provider
+ * formats leave out reasoning, files, and tool calls without a result, which
+ * those APIs do not accept from another source.
+ */
+export function renderThreadTranscript(
+  source: ThreadTranscriptSource,
+  requestInput: ThreadTranscriptRequest,
+): ThreadTranscript {
+  const request = ThreadTranscriptRequestSchema.parse(requestInput);
+  const messages = transcriptMessages(source, request.redact);
+  const title = source.title ?? `Thread ${source.threadId}`;
+  switch (request.format) {
+    case "markdown":
+      return { format: "markdown", text: markdown(title, messages, request.reasoning) };
+    case "html":
+      return { format: "html", text: html(title, messages, request.reasoning) };
+    case "openai-messages":
+      return { format: "openai-messages", messages: openAIMessages(messages) };
+    case "anthropic-messages":
+      return { format: "anthropic-messages", messages: anthropicMessages(messages) };
+  }
+}
+
+/**
+ * Group the history into user and assistant messages. A tool call and its
+ * result become one tool part. Compaction and rollback markers are not shown.
+ */
+function transcriptMessages(
+  source: ThreadTranscriptSource,
+  redact: boolean,
+): TranscriptMessage[] {
+  const approvals = approvalsByToolCall(source.records ?? []);
+  const payload = (value: unknown) => (redact ? redactSecrets(value) : value);
+  const results = new Map<string, Extract<CanonicalHistoryItem, { kind: "tool-result" }>>();
+  for (const item of source.history) {
+    if (item.kind === "tool-result") results.set(item.id, item);
+  }
+  const messages: Array<{ role: "user" | "assistant"; parts: TranscriptPart[] }> = [];
+  const push = (role: "user" | "assistant", part: TranscriptPart) => {
+    const last = messages.at(-1);
+    if (last?.role === role) last.parts.push(part);
+    else messages.push({ role, parts: [part] });
+  };
+  for (const item of source.history) {
+    if (item.kind === "user") {
+      if (item.text.trim()) push("user", { type: "text", text: item.text });
+      for (const attachment of item.attachments) push("user", { type: "file", name: attachment.id });
+    } else if (item.kind === "assistant" || item.kind === "reasoning") {
+      if (item.text.trim()) {
+        push("assistant", { type: item.kind === "assistant" ? "text" : "reasoning", text: item.text });
+      }
+    } else if (item.kind === "tool-call") {
+      const result = results.get(item.id);
+      const approval = approvals.get(item.id);
+      push("assistant", {
+        type: "tool",
+        id: item.id,
+        name: item.toolId,
+        status: !result ? "running" : result.error !== undefined ? "failed" : "completed",
+        input: payload(item.input),
+        ...(result && result.error === undefined ? { output: payload(result.output) } : {}),
+        ...(result?.error !== undefined
+          ? { error: redact ? redactText(result.error) : result.error }
+          : {}),
+        ...(approval ? { approval } : {}),
+      });
+    }
+  }
+  return messages;
+}
+
+function approvalsByToolCall(
+  records: NonNullable<ThreadTranscriptSource["records"]>,
+): Map<string, TranscriptApproval> {
+  const toolCalls = new Map<string, string>();
+  const approvals = new Map<string, TranscriptApproval>();
+  for (const record of records) {
+    const payload = objectValue(record.publicPayload);
+    const request = objectValue(payload.request);
+    const decision = objectValue(payload.decision);
+    const approvalId = stringValue(payload.approvalId) ??
+      stringValue(request.id) ??
+      stringValue(decision.requestId);
+    if (record.recordType === "approval.requested") {
+      const toolCallId = record.toolCallId ?? stringValue(request.toolCallId);
+      if (!toolCallId) continue;
+      if (approvalId) toolCalls.set(approvalId, toolCallId);
+      const reason = stringValue(request.reason) ?? stringValue(payload.reason);
+      approvals.set(toolCallId, { status: "requested", ...(reason ? { reason } : {}) });
+    } else if (record.recordType === "approval.resolved") {
+      const toolCallId = record.toolCallId ?? (approvalId ? toolCalls.get(approvalId) : undefined);
+      if (!toolCallId) continue;
+      const status = stringValue(decision.status) ??
+        stringValue(payload.status) ??
+        (typeof payload.approved === "boolean"
+          ? payload.approved ? "approved" : "rejected"
+          : "resolved");
+      const reason = stringValue(decision.comment) ?? approvals.get(toolCallId)?.reason;
+      approvals.set(toolCallId, { status, ...(reason ? { reason } : {}) });
+    }
+  }
+  return approvals;
+}
+
+function markdown(
+  title: string,
+  messages: readonly TranscriptMessage[],
+  reasoning: boolean,
+): string {
+  const blocks = [`# ${title}`];
+  for (const message of messages) {
+    blocks.push(`## ${message.role === "user" ? "User" : "Assistant"}`);
+    for (const part of message.parts) {
+      if (part.type === "text") {
+        blocks.push(part.text.trim());
+      } else if (part.type === "reasoning") {
+        if (reasoning) {
+          blocks.push(["> **Reasoning**", ...part.text.trim().split("\n")].join("\n> "));
+        }
+      } else if (part.type === "file") {
+        blocks.push(`_Attachment: ${part.name}_`);
+      } else {
+        const lines = [`**Tool \`${part.name}\`** (${part.status})`, fenced(part.input)];
+        if (part.approval) lines.push(`Approval: ${approvalText(part.approval)}`);
+        if (part.output !== undefined) lines.push("Output:", fenced(part.output));
+        if (part.error !== undefined) lines.push(`Error: ${part.error}`);
+        blocks.push(lines.join("\n\n"));
+      }
+    }
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
+
+function html(
+  title: string,
+  messages: readonly TranscriptMessage[],
+  reasoning: boolean,
+): string {
+  const articles = messages.map((message) => {
+    const body = message.parts.map((part) => {
+      if (part.type === "text") return `<div class="text">${escapeHtml(part.text.trim())}</div>`;
+      if (part.type === "reasoning") {
+        return reasoning
+          ? `<details class="reasoning"><summary>Reasoning</summary><div class="text">${escapeHtml(part.text.trim())}</div></details>`
+          : "";
+      }
+      if (part.type === "file") return `<p class="file">Attachment: ${escapeHtml(part.name)}</p>`;
+      return [
+        `<details class="tool ${part.status}"><summary>Tool <code>${escapeHtml(part.name)}</code> (${part.status})</summary>`,
+        `<pre>${escapeHtml(pretty(part.input))}</pre>`,
+        part.approval ? `<p>Approval: ${escapeHtml(approvalText(part.approval))}</p>` : "",
+        part.output !== undefined ? `<p>Output:</p><pre>${escapeHtml(pretty(part.output))}</pre>` : "",
+        part.error !== undefined ? `<p>Error: ${escapeHtml(part.error)}</p>` : "",
+        "</details>",
+      ].join("");
+    }).join("\n");
+    const role = message.role === "user" ? "User" : "Assistant";
+    return `<article class="${message.role}">\n<h2>${role}</h2>\n${body}\n</article>`;
+  });
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem}.text{white-space:pre-wrap}pre{overflow-x:auto;background:#f5f5f5;padding:.5rem}</style>",
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...articles,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function openAIMessages(messages: readonly TranscriptMessage[]): OpenAIChatMessage[] {
+  const output: OpenAIChatMessage[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      const text = textOf(message.parts);
+      if (text) output.push({ role: "user", content: text });
+      continue;
+    }
+    let text: string[] = [];
+    let tools: Extract<TranscriptPart, { type: "tool" }>[] = [];
+    const flush = () => {
+      if (text.length === 0 && tools.length === 0) return;
+      output.push({
+        role: "assistant",
+        content: text.length > 0 ? text.join("\n\n") : null,
+        ...(tools.length > 0
+          ? {
+              tool_calls: tools.map((tool) => ({
+                id: tool.id,
+                type: "function" as const,
+                function: { name: tool.name, arguments: safeJson(tool.input) },
+              })),
+            }
+          : {}),
+      });
+      for (const tool of tools) {
+        output.push({ role: "tool", tool_call_id: tool.id, content: toolResult(tool) });
+      }
+      text = [];
+      tools = [];
+    };
+    for (const part of message.parts) {
+      if (part.type === "text") {
+        if (tools.length > 0) flush();
+        text.push(part.text);
+      } else if (part.type === "tool" && part.status !== "running") {
+        tools.push(part);
+      }
+    }
+    flush();
+  }
+  return output;
+}
+
+function anthropicMessages(messages: readonly TranscriptMessage[]): AnthropicMessage[] {
+  const output: AnthropicMessage[] = [];
+  const push = (
+    role: AnthropicMessage["role"],
+    block: AnthropicMessage["content"][number],
+  ) => {
+    const last = output.at(-1);
+    if (last?.role === role) {
+      last.content.push(block);
+    } else {
+      output.push({ role, content: [block] });
+    }
+  };
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (part.type === "text") {
+        push(message.role, { type: "text", text: part.text });
+      } else if (part.type === "tool" && part.status !== "running") {
+        push("assistant", {
+          type: "tool_use",
+          id: part.id,
+          name: part.name,
+          input: jsonObject(part.input),
+        });
+        push("user", {
+          type: "tool_result",
+          tool_use_id: part.id,
+          content: toolResult(part),
+          ...(part.status === "failed" ? { is_error: true as const } : {}),
+        });
+      }
+    }
+  }
+  return output;
+}
+
+function textOf(parts: readonly TranscriptPart[]): string {
+  return parts.flatMap((part) =>
+    part.type === "text"
+      ? [part.text]
+      : part.type === "file"
+        ? [`[Attachment: ${part.name}]`]
+        : []
+  ).join("\n\n");
+}
+
+function toolResult(tool: Extract<TranscriptPart, { type: "tool" }>): string {
+  if (tool.error !== undefined) return tool.error;
+  return typeof tool.output === "string" ? tool.output : safeJson(tool.output);
+}
+
+function approvalText(approval: TranscriptApproval): string {
+  return approval.reason ? `${approval.status} (${approval.reason})` : approval.status;
+}
+
+function fenced(value: unknown): string {
+  const text = pretty(value);
+  const fence = "`".repeat(Math.max(3, ...[...text.matchAll(/`+/g)].map((run) => run[0].length + 1)));
+  return `${fence}${typeof value === "string" ? "" : "json"}\n${text}\n${fence}`;
+}
+
+function pretty(value: unknown): string {
+  return typeof value === "string" ? value : safeJson(value, 2);
+}
+
+function safeJson(value: unknown, indent?: number): string {
+  try {
+    return JSON.stringify(value ?? null, null, indent) ?? "null";
+  } catch {
+    return "[unserializable value]";
+  }
+}
+
+function jsonObject(value: unknown): JsonObject {
+  const parsed = JSON.parse(safeJson(value)) as unknown;
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+    ? parsed as JsonObject
+    : { input: parsed as JsonValue };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function objectValue(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
@@ -7,6 +7,11 @@ import {
   type TraceId,
 } from "../contracts/telemetry.js";
 import { MicroUnitCostSchema } from "../contracts/telemetry.js";
+import {
+  priceUsage,
+  usdMicroUnitCost,
+  type ModelPricingCatalog,
+} from "../providers/pricing.js";
 
 export interface TelemetryReadOptions {
   traceId?: TraceId;
@@ -32,6 +37,13 @@ export interface TelemetryAggregate {
   readonly cacheReadTokens: number;
   readonly cacheWriteTokens: number;
   readonly cost: ReturnType<typeof MicroUnitCostSchema.parse>;
+  /** Known USD cost of the run. */
+  readonly costUsd?: number;
+}
+
+export interface InMemoryTelemetryStoreOptions {
+  /** Prices model events that report tokens but no cost. */
+  readonly pricing?: ModelPricingCatalog;
 }
 
 export interface TelemetryStore {
@@ -97,6 +109,8 @@ export class InMemoryTelemetryStore implements TelemetryStore {
   private readonly ids = new Set<string>();
   private nextSequence = 1;
 
+  constructor(private readonly options: InMemoryTelemetryStoreOptions = {}) {}
+
   async append(eventInput: TelemetryEvent): Promise<StoredTelemetryEvent> {
     const [entry] = await this.appendMany([eventInput]);
     return entry;
@@ -196,7 +210,8 @@ export class InMemoryTelemetryStore implements TelemetryStore {
           if (key === "cacheWriteTokens") cacheWriteTokens += value;
         });
       }
-      const reportedCost = entry.event.payload.cost ?? usage?.cost;
+      const reportedCost = entry.event.payload.cost ?? usage?.cost ??
+        this.priceModelEvent(entry.event.payload);
       if (reportedCost) {
         hasCost = true;
         if (reportedCost.state === "known") {
@@ -236,9 +251,25 @@ export class InMemoryTelemetryStore implements TelemetryStore {
       cacheReadTokens,
       cacheWriteTokens,
       cost: MicroUnitCostSchema.parse(cost),
+      ...(cost.state === "known" && cost.unit === "USD"
+        ? { costUsd: cost.microUnits / 1_000_000 }
+        : {}),
     };
   }
 
+  private priceModelEvent(
+    payload: Extract<TelemetryEvent, { type: "model" }>["payload"],
+  ): ReturnType<typeof usdMicroUnitCost> | undefined {
+    const pricing = this.options.pricing;
+    if (!pricing || !payload.usage) return undefined;
+    const model = payload.provider
+      ? `${payload.provider.id}/${payload.model.id}`
+      : payload.model.id;
+    const costUsd = priceUsage(pricing, model, payload.usage) ??
+      priceUsage(pricing, payload.model.id, payload.usage);
+    return costUsd === undefined ? undefined : usdMicroUnitCost(costUsd);
+  }
+
   async *replay(
     options: TelemetryReadOptions = {}
   ): AsyncIterable<StoredTelemetryEvent> {
@@ -3,6 +3,7 @@ import {
   getFunctionState,
 } from "./harness/functions/app.js";
 import type { FlaryToolRegistry } from "./harness/functions/types.js";
+import { FLARY_BATCH_WORKFLOW } from "./harness/flue/service.js";
 import { execFileSync } from "node:child_process";
 import fs from "node:fs";
 import { parse as parseJsonc } from "jsonc-parser";
@@ -112,6 +113,8 @@ interface FlaryVitePlugin {
 }
 
 const VIRTUAL_PREFIX = "\0flary:function:";
+const BATCH_WORKFLOW_ID = "\0flary:batch";
+const BATCH_WORKFLOW_CLASS = `Flue${pascalCaseName(FLARY_BATCH_WORKFLOW)}Workflow`;
 
 /**
  * Small Vite integration for function manifests.
@@ -188,17 +191,33 @@ export function flary(options: FlaryVitePluginOptions = {}): {
         if (!entry.state && !entry.agentState && !entry.mode) {
           throw new Error(`Flary export '${entry.name}' is not registered`);
         }
+        if (entry.name === FLARY_BATCH_WORKFLOW) {
+          throw new Error(`Flary reserves the name '${FLARY_BATCH_WORKFLOW}' for its batch workflow`);
+        }
         this.emitFile({
           type: "chunk",
           id: `${VIRTUAL_PREFIX}${entry.name}`,
           fileName: entry.runtimeFile,
         });
       }
+      if (functionEntries().some(({ state }) => state)) {
+        this.emitFile({
+          type: "chunk",
+          id: BATCH_WORKFLOW_ID,
+          fileName: `flary/workflows/${FLARY_BATCH_WORKFLOW}.js`,
+        });
+      }
     },
     resolveId(id) {
-      return id.startsWith(VIRTUAL_PREFIX) ? id : undefined;
+      return id.startsWith(VIRTUAL_PREFIX) || id === BATCH_WORKFLOW_ID ? id : undefined;
     },
     load(id) {
+      if (id === BATCH_WORKFLOW_ID) {
+        return batchWorkflowSource(JSON.stringify(path.resolve(
+          resolvedRoot,
+          options.functionsEntry ?? "src/index.ts",
+        ))).join("\n");
+      }
       if (!id.startsWith(VIRTUAL_PREFIX)) return undefined;
       const name = id.slice(VIRTUAL_PREFIX.length);
       const entry = functionEntries().find((item) => item.name === name);
@@ -286,9 +305,12 @@ export function flary(options: FlaryVitePluginOptions = {}): {
       const needsBrowser = sourceKinds.includes("browser");
       const needsSandbox = sourceKinds.includes("sandbox");
       if (needsSandbox) ensureSandboxDockerfile(resolvedRoot);
-      const runtimeClasses = functions.map(({ name, mode }) =>
-        mode === "run" ? `Flue${pascalCaseName(name)}Workflow` : `Flue${pascalCaseName(name)}Agent`,
-      );
+      const runtimeClasses = [
+        ...functions.map(({ name, mode }) =>
+          mode === "run" ? `Flue${pascalCaseName(name)}Workflow` : `Flue${pascalCaseName(name)}Agent`,
+        ),
+        ...(entries.some(({ state }) => state) ? [BATCH_WORKFLOW_CLASS] : []),
+      ];
       const migrationClasses = [
         "FlaryRuntime",
         "FlaryThreadControl",
@@ -521,6 +543,7 @@ function mergeWranglerConfig(
   const authoredQueues = isRecord(base.queues) ? base.queues : {};
   const queueName = `${resourcePrefix}-session-projection`;
   const purgeQueueName = `${resourcePrefix}-thread-purge`;
+  const callbackQueueName = `${resourcePrefix}-run-callbacks`;
   const queueProducers = Array.isArray(authoredQueues.producers)
     ? authoredQueues.producers.filter(isRecord).map((value) => ({ ...value }))
     : [];
@@ -536,6 +559,12 @@ function mergeWranglerConfig(
       queue: purgeQueueName,
     });
   }
+  if (!queueProducers.some((value) => value.binding === "FLARY_CALLBACK_QUEUE")) {
+    queueProducers.push({
+      binding: "FLARY_CALLBACK_QUEUE",
+      queue: callbackQueueName,
+    });
+  }
   const queueConsumers = Array.isArray(authoredQueues.consumers)
     ? authoredQueues.consumers.filter(isRecord).map((value) => ({ ...value }))
     : [];
@@ -560,6 +589,17 @@ function mergeWranglerConfig(
       dead_letter_queue: `${purgeQueueName}-dead-letter`,
     });
   }
+  if (!queueConsumers.some((value) => value.queue === callbackQueueName)) {
+    queueConsumers.push({
+      queue: callbackQueueName,
+      // Callback retries are new messages with a delay, so a queue retry
+      // only covers a failure to log or re-send the attempt.
+      max_batch_size: 10,
+      max_batch_timeout: 1,
+      max_retries: 3,
+      dead_letter_queue: `${callbackQueueName}-dead-letter`,
+    });
+  }
   const {
     exports: _authoredExports,
     migrations: _authoredMigrations,
@@ -699,7 +739,12 @@ function generateFlueRuntime(input: {
         `Flary function '${entry.name}' must use a lower-kebab-case name for Cloudflare Durable Object bindings.`,
       );
     }
+    if (entry.name === FLARY_BATCH_WORKFLOW) {
+      throw new Error(`Flary reserves the name '${FLARY_BATCH_WORKFLOW}' for its batch workflow`);
+    }
   }
+  // Every app with a function gets the workflow that runs durable batches.
+  const hasBatchWorkflow = input.functions.some(({ mode }) => mode !== "interactive");
 
   const authoredWrangler = readWranglerConfig(input.root);
   const lifecycle = durableObjectLifecycle(authoredWrangler);
@@ -734,6 +779,12 @@ function generateFlueRuntime(input: {
     ].join("\n");
     writeGeneratedFile(path.join(directory, `${entry.name}.ts`), source);
   }
+  if (hasBatchWorkflow) {
+    writeGeneratedFile(
+      path.join(workflowsRoot, `${FLARY_BATCH_WORKFLOW}.ts`),
+      [GENERATED_MARKER, ...batchWorkflowSource(generatedImport), ""].join("\n"),
+    );
+  }
   writeGeneratedFile(
     path.join(generatedRoot, "app.ts"),
     generatedAppSource(input),
@@ -766,7 +817,10 @@ function generateFlueRuntime(input: {
   }
 
   patchGeneratedWorkflowRecovery(input.root);
-  patchGeneratedFlueInternalRoutes(input.root, input.functions);
+  patchGeneratedFlueInternalRoutes(input.root, [
+    ...input.functions,
+    ...(hasBatchWorkflow ? [{ name: FLARY_BATCH_WORKFLOW, mode: "run" as const }] : []),
+  ]);
   patchGeneratedCodemodeRuntimeExport(input.root);
   patchGeneratedAuthoredWorkerExports(input.root, input.workerEntry);
   patchGeneratedCloudflareDurableObjectState(input.root);
@@ -787,9 +841,12 @@ function generateFlueRuntime(input: {
             ? authoredWrangler.exports
             : {},
         };
-    const runtimeClasses = input.functions.map(({ name, mode }) =>
-      mode === "run" ? `Flue${pascalCaseName(name)}Workflow` : `Flue${pascalCaseName(name)}Agent`,
-    );
+    const runtimeClasses = [
+      ...input.functions.map(({ name, mode }) =>
+        mode === "run" ? `Flue${pascalCaseName(name)}Workflow` : `Flue${pascalCaseName(name)}Agent`,
+      ),
+      ...(hasBatchWorkflow ? [BATCH_WORKFLOW_CLASS] : []),
+    ];
     const migrationClasses = [
       "FlaryRuntime",
       "FlaryThreadControl",
@@ -969,6 +1026,17 @@ function patchGeneratedFlueInternalRoutes(
 
 const GENERATED_MARKER = "// @generated by flary/vite; do not edit";
 
+/** The module of the batch workflow. It has no function of its own to route. */
+function batchWorkflowSource(functionsImport: string): string[] {
+  return [
+    `import { functions } from ${functionsImport};`,
+    'import { defineFlaryBatchWorkflow, flaryInternalRoute } from "flary/functions";',
+    "export default defineFlaryBatchWorkflow(functions);",
+    "export const route = flaryInternalRoute();",
+    "export const runs = flaryInternalRoute();",
+  ];
+}
+
 function prepareGeneratedDirectory(directory: string): void {
   if (fs.existsSync(directory)) {
     const entries = fs.readdirSync(directory, { withFileTypes: true });
@@ -1022,7 +1090,7 @@ function generatedCloudflareSource(input: {
     `import { functions } from ${JSON.stringify(relativeImport(path.join(input.root, ".flue"), input.functionsEntry))};`,
     `import authoredWorker from ${JSON.stringify(relativeImport(path.join(input.root, ".flue"), input.workerEntry))};`,
     'import { getAgentApp, getFunctionApp } from "flary/functions";',
-    'import { createCloudflareFlueGateway, createFlaryCodemodeApprovalHooks, handleFlaryDurableRunObjectRequest, handleFlarySessionProjectionQueue, handleFlaryThreadPurgeQueue, handleFlaryThreadControlAlarm, handleFlaryThreadControlObjectRequest, handleFlaryThreadControlWebSocketClose, handleFlaryThreadControlWebSocketMessage, handleFlaryWorkspaceObjectRequest } from "flary/cloudflare";',
+    'import { createCloudflareFlueGateway, createFlaryCodemodeApprovalHooks, handleFlaryDurableRunObjectRequest, handleFlaryRunCallbackQueue, handleFlarySessionProjectionQueue, handleFlaryThreadPurgeQueue, handleFlaryThreadControlAlarm, handleFlaryThreadControlObjectRequest, handleFlaryThreadControlWebSocketClose, handleFlaryThreadControlWebSocketMessage, handleFlaryWorkspaceObjectRequest } from "flary/cloudflare";',
     'export { Sandbox } from "@cloudflare/sandbox";',
     'export { CodemodeRuntime } from "@cloudflare/codemode";',
     "",
@@ -1031,6 +1099,16 @@ function generatedCloudflareSource(input: {
     'if (!userApp) throw new Error("Flary Vite needs exports created by one flary() application");',
     "const customWorker = authoredWorker as any;",
     "const { fetch: _authoredFetch, queue: _authoredQueue, ...authoredHandlers } = customWorker ?? {};",
+    "const gateAgentTurn = (input: Parameters<typeof userApp.admitAgentTurn>[0]) =>",
+    "  userApp.admitAgentTurn(input);",
+    "const guardAgentOutput = (input: { readonly bindings: Record<string, unknown>; readonly agentId: string; readonly text: string }) =>",
+    "  userApp.guardAgentMessage(input.agentId, \"output\", input.text, { bindings: input.bindings });",
+    "const agentTurnEnded = (input: { readonly bindings: Record<string, unknown>; readonly agentId: string; readonly tenantId: string; readonly threadId: string; readonly admissionId?: string; readonly status: \"completed\" | \"failed\"; readonly model?: string; readonly error?: string; readonly durationMs: number; readonly usage: { readonly tokens: number; readonly costUsd: number } }) =>",
+    "  userApp.agentTurnEnded(input);",
+    "const describeThread = (input: Parameters<typeof userApp.describeThread>[0]) =>",
+    "  userApp.describeThread(input);",
+    "const resolveTurnContext = (input: Parameters<typeof userApp.agentTurnContext>[0]) =>",
+    "  userApp.agentTurnContext(input);",
     "",
     "export class FlaryRuntime extends DurableObject {",
     "  async fetch(request: Request): Promise<Response> {",
@@ -1042,6 +1120,8 @@ function generatedCloudflareSource(input: {
     "      options: {",
     "        createGateway: (bindings) => createCloudflareFlueGateway(bindings, { token: typeof bindings.FLARY_INTERNAL_TOKEN === \"string\" ? bindings.FLARY_INTERNAL_TOKEN : undefined }),",
     "        createApprovalHooks: (bindings, repository) => createFlaryCodemodeApprovalHooks(bindings, { repository })!(bindings, repository),",
+    "        settleOutput: (bindings, settled) => userApp.settleRunOutput(functions, { ...settled, bindings }),",
+    "        runEnded: (bindings, record) => userApp.functionRunEnded(functions, { record, bindings }),",
     "      },",
     "    });",
     "  }",
@@ -1065,6 +1145,10 @@ function generatedCloudflareSource(input: {
     "      env: this.env as Record<string, unknown>,",
     "      execution: { waitUntil: (work) => this.ctx.waitUntil(work) },",
     "      webSockets: { acceptWebSocket: (socket, tags) => this.ctx.acceptWebSocket(socket as WebSocket, tags), getWebSockets: (tag) => this.ctx.getWebSockets(tag) },",
+    "      gateTurn: gateAgentTurn,",
+    "      guardOutput: guardAgentOutput,",
+    "      turnEnded: agentTurnEnded,",
+    "      describeThread,",
     "      request,",
     "    });",
     "  }",
@@ -1074,6 +1158,10 @@ function generatedCloudflareSource(input: {
     "      env: this.env as Record<string, unknown>,",
     "      execution: { waitUntil: (work) => this.ctx.waitUntil(work) },",
     "      webSockets: { acceptWebSocket: (socket, tags) => this.ctx.acceptWebSocket(socket as WebSocket, tags), getWebSockets: (tag) => this.ctx.getWebSockets(tag) },",
+    "      gateTurn: gateAgentTurn,",
+    "      guardOutput: guardAgentOutput,",
+    "      turnEnded: agentTurnEnded,",
+    "      describeThread,",
     "    });",
     "  }",
     "  async webSocketMessage(socket: WebSocket, message: string | ArrayBuffer): Promise<void> {",
@@ -1085,14 +1173,18 @@ function generatedCloudflareSource(input: {
     "      execution: { waitUntil: (work) => this.ctx.waitUntil(work) },",
     "      webSockets: { acceptWebSocket: (socket, tags) => this.ctx.acceptWebSocket(socket as WebSocket, tags), getWebSockets: (tag) => this.ctx.getWebSockets(tag) },",
     "      resolveModel: userApp.options.resolveModel,",
-    "      resolveTurnContext: userApp.options.resolveTurnContext,",
+    "      resolveTurnContext,",
+    "      gateTurn: gateAgentTurn,",
+    "      guardOutput: guardAgentOutput,",
+    "      turnEnded: agentTurnEnded,",
+    "      describeThread,",
     "    });",
     "  }",
     "  webSocketClose(socket: WebSocket, code: number, reason: string): void {",
-    "    handleFlaryThreadControlWebSocketClose({ socket, code, reason });",
+    "    handleFlaryThreadControlWebSocketClose({ socket, code, reason, webSockets: { acceptWebSocket: (socket, tags) => this.ctx.acceptWebSocket(socket as WebSocket, tags), getWebSockets: (tag) => this.ctx.getWebSockets(tag) } });",
     "  }",
     "  webSocketError(socket: WebSocket): void {",
-    "    handleFlaryThreadControlWebSocketClose({ socket, code: 1011, reason: \"socket error\" });",
+    "    handleFlaryThreadControlWebSocketClose({ socket, code: 1011, reason: \"socket error\", webSockets: { acceptWebSocket: (socket, tags) => this.ctx.acceptWebSocket(socket as WebSocket, tags), getWebSockets: (tag) => this.ctx.getWebSockets(tag) } });",
     "  }",
     "}",
     "",
@@ -1100,7 +1192,8 @@ function generatedCloudflareSource(input: {
     "  ...authoredHandlers,",
     "  async queue(batch, env, ctx) {",
     `    if (batch.queue === ${JSON.stringify(queueNames.purge)}) return handleFlaryThreadPurgeQueue({ messages: batch.messages, env });`,
-    `    if (batch.queue === ${JSON.stringify(queueNames.projection)}) return handleFlarySessionProjectionQueue({ messages: batch.messages, env, resolveModel: userApp.options.resolveModel, resolveTurnContext: userApp.options.resolveTurnContext });`,
+    `    if (batch.queue === ${JSON.stringify(queueNames.callbacks)}) return handleFlaryRunCallbackQueue({ messages: batch.messages, env });`,
+    `    if (batch.queue === ${JSON.stringify(queueNames.projection)}) return handleFlarySessionProjectionQueue({ messages: batch.messages, env, resolveModel: userApp.options.resolveModel, resolveTurnContext });`,
     "    if (typeof _authoredQueue === \"function\") return _authoredQueue.call(customWorker, batch, env, ctx);",
     "  },",
     "};",
@@ -1120,10 +1213,12 @@ function generatedAppSource(input: {
     `import { functions } from ${JSON.stringify(relativeImport(path.join(input.root, ".flue"), input.functionsEntry))};`,
     `import authoredWorker from ${JSON.stringify(relativeImport(path.join(input.root, ".flue"), input.workerEntry))};`,
     'import { getAgentApp, getFunctionApp } from "flary/functions";',
-    'import { createCloudflareThreadService, createFlaryDurableRunService, handleFlarySessionProjectionQueue, handleFlaryThreadPurgeQueue } from "flary/cloudflare";',
+    'import { createCloudflareThreadService, createFlaryDurableRunService, handleFlaryRunCallbackQueue, handleFlarySessionProjectionQueue, handleFlaryThreadPurgeQueue } from "flary/cloudflare";',
     "const firstExport = Object.values(functions)[0];",
     "const userApp = getFunctionApp(firstExport) ?? getAgentApp(firstExport);",
     'if (!userApp) throw new Error("Flary Vite needs exports created by one flary() application");',
+    "const resolveTurnContext = (input: Parameters<typeof userApp.agentTurnContext>[0]) =>",
+    "  userApp.agentTurnContext(input);",
     "",
     "userApp.attachRunService(({ bindings }) => {",
     "  const namespace = bindings.FLARY_RUN_SERVICE;",
@@ -1134,7 +1229,7 @@ function generatedAppSource(input: {
     "  createCloudflareThreadService({",
     "    env: bindings as Record<string, unknown>,",
     "    resolveModel: userApp.options.resolveModel,",
-    "    resolveTurnContext: userApp.options.resolveTurnContext,",
+    "    resolveTurnContext,",
     "  }),",
     ");",
     "const handler = userApp.serve(functions);",
@@ -1151,7 +1246,8 @@ function generatedAppSource(input: {
     "  },",
     "  async queue(batch, env, ctx) {",
     `    if (batch.queue === ${JSON.stringify(queueNames.purge)}) await handleFlaryThreadPurgeQueue({ messages: batch.messages, env });`,
-    `    else if (batch.queue === ${JSON.stringify(queueNames.projection)}) await handleFlarySessionProjectionQueue({ messages: batch.messages, env, resolveModel: userApp.options.resolveModel, resolveTurnContext: userApp.options.resolveTurnContext });`,
+    `    else if (batch.queue === ${JSON.stringify(queueNames.callbacks)}) await handleFlaryRunCallbackQueue({ messages: batch.messages, env });`,
+    `    else if (batch.queue === ${JSON.stringify(queueNames.projection)}) await handleFlarySessionProjectionQueue({ messages: batch.messages, env, resolveModel: userApp.options.resolveModel, resolveTurnContext });`,
     "    if (typeof customWorker?.queue === \"function\") await customWorker.queue(batch, env, ctx);",
     "  },",
     "  scheduled: typeof customWorker?.scheduled === \"function\"",
@@ -1170,6 +1266,7 @@ function normalizeApiPrefix(value = "/api"): string {
 function flaryQueueNames(base: Record<string, any>): {
   projection: string;
   purge: string;
+  callbacks: string;
 } {
   const resourcePrefix =
     typeof base.name === "string" && base.name.length > 0
@@ -1193,6 +1290,10 @@ function flaryQueueNames(base: Record<string, any>): {
       "FLARY_THREAD_PURGE_QUEUE",
       `${resourcePrefix}-thread-purge`,
     ),
+    callbacks: queueFor(
+      "FLARY_CALLBACK_QUEUE",
+      `${resourcePrefix}-run-callbacks`,
+    ),
   };
 }
 
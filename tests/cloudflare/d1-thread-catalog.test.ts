@@ -4,13 +4,24 @@ import { DatabaseSync } from "node:sqlite";
 
 import { D1ThreadCatalog } from "../../src/harness/cloudflare/index.ts";
 
-test("D1 thread catalog lists only the requested tenant and agent", async () => {
-  const database = new DatabaseSync(":memory:");
-  const catalog = new D1ThreadCatalog({
+function sqliteCatalog(database = new DatabaseSync(":memory:")): D1ThreadCatalog {
+  return new D1ThreadCatalog({
     async exec(query) {
       database.exec(query);
       return {};
     },
+    async batch(statements: { run(): Promise<unknown> }[]) {
+      database.exec("BEGIN");
+      try {
+        const results = [];
+        for (const statement of statements) results.push(await statement.run());
+        database.exec("COMMIT");
+        return results;
+      } catch (error) {
+        database.exec("ROLLBACK");
+        throw error;
+      }
+    },
     prepare(query) {
       let bindings: unknown[] = [];
       return {
@@ -33,31 +44,37 @@ test("D1 thread catalog lists only the requested tenant and agent", async () =>
       };
     },
   });
-  const binding = (tenant: string, threadId: string) => ({
-    thread: {
-      organizationId: tenant,
-      appId: "coder",
-      agentId: "coder",
-      threadId,
-    },
-    workspace: {
-      organizationId: tenant,
-      appId: "coder",
-      projectId: "project",
-      workspaceId: "workspace",
-      branch: "main",
-    },
+}
+
+const binding = (tenant: string, threadId: string, title?: string) => ({
+  thread: {
+    organizationId: tenant,
+    appId: "coder",
     agentId: "coder",
-    persona: "default",
-    defaultMode: "build" as const,
-    defaultModel: { provider: "openai", model: "gpt-5" },
-    defaultThinkingLevel: "high" as const,
-    connectionIds: [],
-    createdBy: { id: "user", kind: "user" as const },
-    status: "active" as const,
-    createdAt: "2026-01-01T00:00:00.000Z",
-    updatedAt: "2026-01-01T00:00:00.000Z",
-  });
+    threadId,
+  },
+  workspace: {
+    organizationId: tenant,
+    appId: "coder",
+    projectId: "project",
+    workspaceId: "workspace",
+    branch: "main",
+  },
+  agentId: "coder",
+  persona: "default",
+  defaultMode: "build" as const,
+  defaultModel: { provider: "openai", model: "gpt-5" },
+  defaultThinkingLevel: "high" as const,
+  connectionIds: [],
+  createdBy: { id: "user", kind: "user" as const },
+  status: "active" as const,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...(title ? { metadata: { title } } : {}),
+});
+
+test("D1 thread catalog lists only the requested tenant and agent", async () => {
+  const catalog = sqliteCatalog();
   await catalog.put(binding("tenant-a", "thread-a"));
   await catalog.put(binding("tenant-b", "thread-b"));
 
@@ -86,3 +103,153 @@ test("D1 thread catalog lists only the requested tenant and agent", async () =>
     "thread-a",
   );
 });
+
+test("D1 thread search returns each visible thread once with anchored snippets", async () => {
+  const catalog = sqliteCatalog();
+  await catalog.put(binding("tenant-a", "thread-a", "Invoice questions"));
+  await catalog.put(binding("tenant-a", "thread-b"));
+  await catalog.put(binding("tenant-b", "thread-c"));
+  const owner = (tenantId: string, threadId: string) => ({
+    tenantId,
+    applicationId: "coder",
+    threadId,
+  });
+  await catalog.replaceSearchEntries(owner("tenant-a", "thread-a"), [
+    { kind: "title", content: "Invoice questions" },
+    { kind: "message", content: "Why was my invoice charged twice?", messageId: "msg_1", turnId: "turn_1" },
+    { kind: "tool", content: "billing.lookup: invoice INV-7 refunded", messageId: "msg_2", turnId: "turn_1" },
+    { kind: "message", content: "The second invoice was refunded.", messageId: "msg_2", turnId: "turn_1" },
+  ]);
+  await catalog.replaceSearchEntries(owner("tenant-a", "thread-b"), [
+    { kind: "message", content: "Draft an invoicing policy", messageId: "msg_3", turnId: "turn_2" },
+  ]);
+  await catalog.replaceSearchEntries(owner("tenant-b", "thread-c"), [
+    { kind: "message", content: "Another tenant's invoice", messageId: "msg_4" },
+  ]);
+
+  const results = await catalog.search({
+    tenantId: "tenant-a",
+    applicationId: "coder",
+    query: "invoic",
+    limit: 10,
+  });
+  assert.deepEqual(results.map((result) => result.threadId).sort(), ["thread-a", "thread-b"]);
+  const first = results.find((result) => result.threadId === "thread-a")!;
+  assert.equal(first.title, "Invoice questions");
+  assert.equal(first.hits.length, 3);
+  assert.ok(first.hits.every((hit) => hit.snippet.includes("**")));
+  assert.deepEqual(
+    (await catalog.search({
+      tenantId: "tenant-a",
+      applicationId: "coder",
+      query: "refunded INV-7",
+      limit: 10,
+    })).map((result) => result.hits.map(({ kind, turnId }) => ({ kind, turnId }))),
+    [[{ kind: "tool", turnId: "turn_1" }]],
+  );
+
+  await catalog.replaceSearchEntries(owner("tenant-a", "thread-a"), [
+    { kind: "title", content: "Invoice questions" },
+  ]);
+  assert.deepEqual(
+    await catalog.search({ tenantId: "tenant-a", applicationId: "coder", query: "twice", limit: 10 }),
+    [],
+  );
+  await catalog.delete(owner("tenant-a", "thread-b"));
+  assert.deepEqual(
+    (await catalog.search({ tenantId: "tenant-a", applicationId: "coder", query: "policy", limit: 10 })),
+    [],
+  );
+  assert.deepEqual(
+    await catalog.search({ tenantId: "tenant-a", applicationId: "coder", query: "\"*", limit: 10 }),
+    [],
+  );
+});
+
+test("D1 thread catalog filters by tags, metadata, status, and time and pages by cursor", async () => {
+  const catalog = sqliteCatalog();
+  const thread = (
+    threadId: string,
+    updatedAt: string,
+    extra: { tags?: string[]; metadata?: Record<string, unknown>; status?: "archived" } = {},
+  ) => catalog.put({ ...binding("tenant-a", threadId), updatedAt, ...extra });
+  await thread("thread-1", "2026-03-01T00:00:00.000Z", {
+    tags: ["billing", "vip"],
+    metadata: { customerId: "cus_1", ticketId: 42, flaryModelPolicy: "x" },
+  });
+  await thread("thread-2", "2026-03-02T00:00:00.000Z", {
+    tags: ["billing"],
+    metadata: { customerId: "cus_1" },
+  });
+  await thread("thread-3", "2026-03-02T00:00:00.000Z", {
+    tags: ["billing"],
+    metadata: { customerId: "cus_1" },
+    status: "archived",
+  });
+  await thread("thread-4", "2026-03-03T00:00:00.000Z", { metadata: { customerId: "cus_2" } });
+  await catalog.put({ ...binding("tenant-b", "thread-5"), tags: ["billing"] });
+  const page = (query: Parameters<D1ThreadCatalog["listPage"]>[0]["query"]) =>
+    catalog.listPage({ tenantId: "tenant-a", applicationId: "coder", query });
+  const ids = async (query: Partial<Parameters<typeof page>[0]>) =>
+    (await page({ limit: 50, ...query })).threads.map((row) => row.thread.threadId);
+
+  assert.deepEqual(await ids({ tags: ["billing"] }), ["thread-2", "thread-3", "thread-1"]);
+  assert.deepEqual(await ids({ tags: ["billing", "vip"] }), ["thread-1"]);
+  assert.deepEqual(
+    await ids({ tags: ["billing"], metadata: { customerId: "cus_1" }, status: ["active"] }),
+    ["thread-2", "thread-1"],
+  );
+  assert.deepEqual(await ids({ metadata: { ticketId: "42" } }), ["thread-1"]);
+  assert.deepEqual(await ids({ metadata: { flaryModelPolicy: "x" } }), []);
+  assert.deepEqual(
+    await ids({ updatedBefore: "2026-03-03T00:00:00.000Z", updatedAfter: "2026-03-02T00:00:00.000Z" }),
+    ["thread-2", "thread-3"],
+  );
+
+  const first = await page({ limit: 2 });
+  assert.deepEqual(first.threads.map((row) => row.thread.threadId), ["thread-4", "thread-2"]);
+  const second = await page({ limit: 2, cursor: first.nextCursor! });
+  assert.deepEqual(second.threads.map((row) => row.thread.threadId), ["thread-3", "thread-1"]);
+  assert.equal(second.nextCursor, undefined);
+  await assert.rejects(page({ limit: 2, cursor: "not-a-cursor" }), { code: "invalid_thread_cursor" });
+
+  await thread("thread-1", "2026-03-04T00:00:00.000Z", { tags: ["vip"], metadata: { customerId: "cus_3" } });
+  assert.deepEqual(await ids({ tags: ["billing"] }), ["thread-2", "thread-3"]);
+  assert.deepEqual(await ids({ metadata: { customerId: "cus_3" } }), ["thread-1"]);
+  await catalog.delete({ tenantId: "tenant-a", applicationId: "coder", threadId: "thread-2" });
+  assert.deepEqual(await ids({ tags: ["billing"] }), ["thread-3"]);
+});
+
+test("D1 thread catalog backfills filter rows for threads cataloged before the filter tables", async () => {
+  const database = new DatabaseSync(":memory:");
+  await sqliteCatalog(database).put({
+    ...binding("tenant-a", "thread-old"),
+    tags: ["billing"],
+    metadata: { customerId: "cus_1" },
+    collaborators: [{
+      actor: { id: "teammate", kind: "user" },
+      role: "viewer",
+      grantedBy: { id: "user", kind: "user" },
+      grantedAt: "2026-01-01T00:00:00.000Z",
+    }],
+  });
+  for (const table of [
+    "flary_thread_tags",
+    "flary_thread_metadata",
+    "flary_thread_access",
+    "flary_thread_catalog_backfills",
+  ]) database.exec(`DELETE FROM ${table}`);
+
+  const catalog = sqliteCatalog(database);
+  const ids = async (query: Partial<Parameters<D1ThreadCatalog["listPage"]>[0]["query"]>, viewerId?: string) =>
+    (await catalog.listPage({
+      tenantId: "tenant-a",
+      applicationId: "coder",
+      query: { limit: 50, ...query },
+      ...(viewerId ? { viewerId } : {}),
+    })).threads.map((row) => row.thread.threadId);
+  assert.deepEqual(await ids({ tags: ["billing"] }), ["thread-old"]);
+  assert.deepEqual(await ids({ metadata: { customerId: "cus_1" } }), ["thread-old"]);
+  assert.deepEqual(await ids({}, "teammate"), ["thread-old"]);
+  assert.deepEqual(await ids({}, "stranger"), []);
+});
@@ -10,6 +10,16 @@ import {
   type FlaryDurableObjectNamespace,
   type FlaryDurableObjectState,
 } from "../../src/harness/cloudflare/function-host.ts";
+import {
+  SqliteFlaryQuotaStore,
+  createFlaryDurableQuotaStore,
+} from "../../src/harness/cloudflare/quota-store.ts";
+import { createFlaryDurableMemoryStore } from "../../src/harness/cloudflare/memory-store.ts";
+import {
+  createFlaryDurableCallbackLog,
+  handleFlaryRunCallbackQueue,
+} from "../../src/harness/cloudflare/callbacks.ts";
+import { verifyFlaryCallback } from "../../src/harness/functions/callbacks.ts";
 import type { FlueAgentGateway } from "../../src/harness/flue/service.ts";
 import type { FlaryRunRecord } from "../../src/harness/flue/service.ts";
 import type { ApprovalDecision } from "../../src/harness/contracts/index.ts";
@@ -163,6 +173,307 @@ test("Worker-side durable run service calls the Runtime Durable Object", async (
   assert.equal((await service.get(tenantOne, handle.runId)).runId, handle.runId);
 });
 
+test("Runtime Durable Object keeps tenant quotas and frees the slot of a settled run", async () => {
+  const objects = new Map<string, ReturnType<typeof sqlStore>>();
+  const pending: Promise<void>[] = [];
+  const namespace: FlaryDurableObjectNamespace = {
+    idFromName: (name) => ({ toString: () => name }),
+    get: (id) => ({
+      fetch: (request) => {
+        const name = id.toString();
+        if (!objects.has(name)) objects.set(name, sqlStore());
+        return handleFlaryDurableRunObjectRequest({
+          state: { storage: { sql: objects.get(name) } },
+          env: { FLARY_RUN_SERVICE: namespace },
+          request,
+          options: {
+            createGateway: () => gateway(),
+            schedule: (_state, work) => {
+              pending.push(work);
+            },
+          },
+        });
+      },
+    }),
+  };
+  const quotas = createFlaryDurableQuotaStore({ namespace });
+  const subjects = [
+    { scope: "tenant" as const, key: "tenant_1", limits: { concurrentRuns: 1 } },
+  ];
+
+  assert.deepEqual(
+    await quotas.admit({ tenantId: "tenant_1", subjects, leaseId: "run:a", leaseMs: 60_000 }),
+    { admitted: true },
+  );
+  assert.deepEqual(
+    await quotas.admit({ tenantId: "tenant_1", subjects, leaseId: "run:b", leaseMs: 60_000 }),
+    {
+      admitted: false,
+      scope: "tenant",
+      key: "tenant_1",
+      limit: "concurrentRuns",
+      retryAfterSeconds: 5,
+    },
+  );
+  assert.ok(objects.has("quota:tenant_1"));
+
+  const service = createFlaryDurableRunService({ namespace });
+  await service.create(tenantOne, {
+    requestId: "request_quota",
+    channelId: "support",
+    execution: "agent",
+    input: "hello",
+    requestedAt: new Date().toISOString(),
+    metadata: { flaryQuota: { tenantId: "tenant_1", leaseId: "run:a" } },
+  });
+  await Promise.all(pending);
+
+  const [usage] = await quotas.usage({ tenantId: "tenant_1", subjects });
+  assert.equal(usage?.used.concurrentRuns, 0);
+  assert.equal(usage?.used.requestsPerMinute, 1);
+  assert.deepEqual(
+    await quotas.admit({ tenantId: "tenant_1", subjects, leaseId: "run:b", leaseMs: 60_000 }),
+    { admitted: true },
+  );
+
+  const invalid = await namespace.get(namespace.idFromName("quota:tenant_1")).fetch(
+    new Request("https://flary.internal/rpc/quotaAdmit", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ tenantId: "tenant_1", subjects: "all", leaseId: "run:c" }),
+    }),
+  );
+  assert.equal(invalid.status, 400);
+  assert.equal(
+    ((await invalid.json()) as { error: { code: string } }).error.code,
+    "invalid_runtime_request",
+  );
+});
+
+test("Runtime quota store sweeps lease records long after they expired", async () => {
+  const sql = sqlStore();
+  const store = new SqliteFlaryQuotaStore(sql);
+  const day = 24 * 60 * 60_000;
+  const expired = [
+    ["run:old", Date.now() - 2 * day],
+    ["run:recent", Date.now() - 60_000],
+  ] as const;
+  for (const [leaseId, expiresAt] of expired) {
+    sql.exec(
+      "INSERT INTO flary_quota_state (key, value_json) VALUES (?, ?)",
+      `flary:quota-lease:${leaseId}`,
+      JSON.stringify({ subjects: [], expiresAt }),
+    );
+  }
+  await store.admit({
+    tenantId: "tenant_1",
+    subjects: [{ scope: "tenant", key: "tenant_1", limits: {} }],
+    leaseId: "run:new",
+    leaseMs: 60_000,
+  });
+  const leases = sql.exec<{ key: string }>(
+    "SELECT key FROM flary_quota_state WHERE key LIKE 'flary:quota-lease:%' ORDER BY key",
+  ).toArray().map((row) => row.key);
+  // A run that outlived its lease still charges its usage within a day.
+  assert.deepEqual(leases, ["flary:quota-lease:run:new", "flary:quota-lease:run:recent"]);
+});
+
+test("Runtime Durable Object keeps the memory records of one owner together", async () => {
+  const objects = new Map<string, ReturnType<typeof sqlStore>>();
+  const namespace: FlaryDurableObjectNamespace = {
+    idFromName: (name) => ({ toString: () => name }),
+    get: (id) => ({
+      fetch: (request) => {
+        const name = id.toString();
+        if (!objects.has(name)) objects.set(name, sqlStore());
+        return handleFlaryDurableRunObjectRequest({
+          state: { storage: { sql: objects.get(name) } },
+          env: { FLARY_RUN_SERVICE: namespace },
+          request,
+          options: { createGateway: () => gateway() },
+        });
+      },
+    }),
+  };
+  const memories = createFlaryDurableMemoryStore({ namespace });
+  const owner = { scope: "user" as const, key: "tenant_1/ada" };
+  const record = {
+    id: "mem_1",
+    scope: "user" as const,
+    owner: "tenant_1/ada",
+    content: "Prefers invoices in euros.",
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt: "2026-10-01T00:00:00.000Z",
+  };
+  await memories.put(record);
+  await memories.put({ ...record, content: "Prefers invoices in francs." });
+  await memories.put({ ...record, id: "mem_2", createdAt: "2026-10-02T00:00:00.000Z" });
+
+  assert.deepEqual(
+    (await memories.list(owner)).map(({ id, content }) => [id, content]),
+    [["mem_1", "Prefers invoices in francs."], ["mem_2", "Prefers invoices in euros."]],
+  );
+  assert.deepEqual([...objects.keys()], ["memory:user:tenant_1/ada"]);
+  assert.equal(await memories.delete(owner, "mem_1"), 1);
+  assert.equal(await memories.delete(owner, "mem_1"), 0);
+  assert.equal(await memories.delete(owner), 1);
+  assert.deepEqual(await memories.list(owner), []);
+
+  const malformed = await namespace.get(namespace.idFromName("memory:user:tenant_1/ada")).fetch(
+    new Request("https://flary.internal/rpc/memoryPut", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ record: { ...record, scope: "global", content: "" } }),
+    }),
+  );
+  assert.equal(malformed.status, 400);
+  assert.equal((await malformed.json() as { error: { code: string } }).error.code, "invalid_runtime_request");
+  await assert.rejects(memories.list({ scope: "user", key: "" }), /memory request failed \(400\)/);
+  assert.deepEqual(await memories.list(owner), []);
+});
+
+test("Runtime Durable Object queues the signed callback of a settled run", async () => {
+  const sql = sqlStore();
+  const pending: Promise<void>[] = [];
+  const queued: { body: unknown; delaySeconds?: number }[] = [];
+  const env: Record<string, unknown> = {
+    FLARY_CALLBACK_SECRET: "callback-secret",
+    FLARY_CALLBACK_QUEUE: {
+      async send(body: unknown, options?: { delaySeconds?: number }) {
+        queued.push({ body, ...options });
+      },
+    },
+  };
+  const namespace: FlaryDurableObjectNamespace = {
+    idFromName: (name) => ({ toString: () => name }),
+    get: () => ({
+      fetch: (request) =>
+        handleFlaryDurableRunObjectRequest({
+          state: { storage: { sql } },
+          env,
+          request,
+          options: {
+            createGateway: () => gateway(),
+            schedule: (_state, work) => {
+              pending.push(work);
+            },
+          },
+        }),
+    }),
+  };
+  env.FLARY_RUN_SERVICE = namespace;
+  const handle = await createFlaryDurableRunService({ namespace }).create(tenantOne, {
+    requestId: "request_callback",
+    channelId: "support",
+    execution: "agent",
+    input: "hello",
+    requestedAt: new Date().toISOString(),
+    metadata: {
+      flaryCallback: { url: "https://hooks.example.com/runs", events: ["completed"] },
+    },
+  });
+  await Promise.all(pending);
+  assert.equal(queued.length, 1);
+
+  const received: Request[] = [];
+  let status = 503;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (url, init) => {
+    received.push(new Request(url, init));
+    return new Response(null, { status });
+  };
+  const deliver = async () => {
+    const message = queued.shift()!;
+    let acked = false;
+    await handleFlaryRunCallbackQueue({
+      messages: [{ body: message.body, ack: () => { acked = true; }, retry: () => {} }],
+      env,
+    });
+    assert.ok(acked);
+  };
+  try {
+    await deliver();
+    assert.equal(queued[0]?.delaySeconds, 10);
+    status = 204;
+    await deliver();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  assert.equal(queued.length, 0);
+  const payload = await verifyFlaryCallback(received[1]!, "callback-secret");
+  assert.equal(payload.type, "run.completed");
+  assert.equal(payload.runId, handle.runId);
+  assert.deepEqual(
+    (await createFlaryDurableCallbackLog({ namespace }).list(handle.runId))
+      .map((delivery) => [delivery.attempt, delivery.status]),
+    [[1, "retrying"], [2, "delivered"]],
+  );
+});
+
+test("Runtime Durable Object sends a callback without a queue outside the run write", async () => {
+  const sql = sqlStore();
+  const pending: Promise<void>[] = [];
+  const env: Record<string, unknown> = { FLARY_CALLBACK_SECRET: "callback-secret" };
+  const namespace: FlaryDurableObjectNamespace = {
+    idFromName: (name) => ({ toString: () => name }),
+    get: () => ({
+      fetch: (request) =>
+        handleFlaryDurableRunObjectRequest({
+          state: { storage: { sql } },
+          env,
+          request,
+          options: {
+            createGateway: () => gateway(),
+            schedule: (_state, work) => {
+              pending.push(work);
+            },
+          },
+        }),
+    }),
+  };
+  env.FLARY_RUN_SERVICE = namespace;
+  let release!: () => void;
+  const answered = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => {
+    await answered;
+    return new Response(null, { status: 204 });
+  };
+  try {
+    const service = createFlaryDurableRunService({ namespace });
+    const handle = await service.create(tenantOne, {
+      requestId: "request_callback_inline",
+      channelId: "support",
+      execution: "agent",
+      input: "hello",
+      requestedAt: new Date().toISOString(),
+      metadata: {
+        flaryCallback: { url: "https://hooks.example.com/runs", events: ["completed"] },
+      },
+    });
+    // The run work ends while the endpoint has not answered yet.
+    const drive = pending[0]!.then(() => "settled");
+    const stalled = new Promise((resolve) => setTimeout(resolve, 1_000, "stalled"));
+    assert.equal(await Promise.race([drive, stalled]), "settled");
+    assert.equal((await service.get(tenantOne, handle.runId)).status, "completed");
+    const log = createFlaryDurableCallbackLog({ namespace });
+    assert.deepEqual(await log.list(handle.runId), []);
+
+    release();
+    for (let settled = 0; settled < pending.length; settled = pending.length) {
+      await Promise.all(pending);
+    }
+    assert.deepEqual(
+      (await log.list(handle.runId)).map((delivery) => [delivery.attempt, delivery.status]),
+      [[1, "delivered"]],
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
 test("Runtime Durable Object approval hooks use the owning agent route", async () => {
   const token = "i".repeat(32);
   let receivedDecision: ApprovalDecision | undefined;
@@ -179,3 +179,210 @@ test("Durable Object SQLite keeps user-input requests across restart and workflo
   assert.equal(answered.response?.answers.Branch, "main");
   assert.equal((await restarted.listUserInput("run_user_input"))[0]?.response?.canceled, false);
 });
+
+test("Durable Object SQLite keeps dead letters and replays them once", async () => {
+  const sql = sqlStore();
+  let sends = 0;
+  const gateway: FlueAgentGateway = {
+    async send() {
+      sends += 1;
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_dead_${sends}`,
+      };
+    },
+    async wait() {
+      if (sends === 1) {
+        // Flue reports the attempts a submission used when it gives up.
+        throw Object.assign(new Error("The upstream model is unavailable"), {
+          meta: { attemptCount: 3, maxAttempts: 3 },
+        });
+      }
+      return { answer: "done" };
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  let runs = 0;
+  const service = createFlueRunService({
+    repository: new SqliteFlaryRunRepository(sql),
+    gateway,
+    createRunId: () => `run_dead_${++runs}`,
+    pollMs: 1,
+  });
+  const settled = async (runId: string, status: string) => {
+    const deadline = Date.now() + 1_000;
+    let result = await service.get(tenantOne, runId);
+    while (result.status !== status && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      result = await service.get(tenantOne, runId);
+    }
+    assert.equal(result.status, status);
+  };
+  const failed = await service.create(tenantOne, {
+    requestId: "request_dead",
+    channelId: "support",
+    execution: "agent",
+    input: "Summarize the ticket",
+    idempotencyKey: "ticket_1",
+    requestedAt: new Date().toISOString(),
+    metadata: { flaryInput: { ticketId: "1" } },
+  });
+  await settled(failed.runId, "failed");
+
+  const [letter] = await service.listDeadLetters!(tenantOne);
+  assert.equal(letter?.runId, failed.runId);
+  assert.deepEqual(letter?.input, { ticketId: "1" });
+  assert.equal(letter?.attempts, 3);
+  assert.equal(letter?.error.message, "The upstream model is unavailable");
+  assert.deepEqual(
+    await service.listDeadLetters!({ ...tenantOne, tenantId: "tenant_2" }),
+    [],
+  );
+  await assert.rejects(
+    service.replay!({ ...tenantOne, tenantId: "tenant_2" }, failed.runId),
+    (error: unknown) => (error as { code?: string }).code === "dead_letter_not_found",
+  );
+
+  const replayed = await service.replay!(tenantOne, failed.runId);
+  assert.notEqual(replayed.runId, failed.runId);
+  await settled(replayed.runId, "completed");
+  assert.equal(
+    (await new SqliteFlaryRunRepository(sql).getDeadLetter(failed.runId))?.replayedRunId,
+    replayed.runId,
+  );
+  assert.deepEqual(await service.listDeadLetters!(tenantOne), []);
+  assert.equal(
+    (await service.listDeadLetters!(tenantOne, { includeReplayed: true })).length,
+    1,
+  );
+});
+
+test("Durable Object SQLite indexes runs for filtered, paged listing", async () => {
+  const sql = sqlStore();
+  const gateway: FlueAgentGateway = {
+    async send() {
+      return { streamUrl: "https://example.com/stream", offset: "0", submissionId: "s" };
+    },
+    async wait() {
+      return { answer: "done" };
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  let runs = 0;
+  const service = createFlueRunService({
+    repository: new SqliteFlaryRunRepository(sql),
+    gateway,
+    createRunId: () => `run_list_${++runs}`,
+    pollMs: 1,
+  });
+  for (const agentId of ["support", "support", "billing"]) {
+    await service.create({ ...tenantOne, agentId }, {
+      requestId: `request_list_${runs + 1}`,
+      channelId: agentId,
+      execution: "agent",
+      input: "test",
+      metadata: { source: agentId === "billing" ? "email" : "chat" },
+    });
+  }
+  const deadline = Date.now() + 1_000;
+  let completed = await service.list!(tenantOne, { status: ["completed"] });
+  while (completed.runs.length < 3 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    completed = await service.list!(tenantOne, { status: ["completed"] });
+  }
+  assert.equal(completed.runs.length, 3);
+
+  const restarted = new SqliteFlaryRunRepository(sql);
+  const chat = await restarted.list(tenantOne, {
+    agentId: "support",
+    metadata: { source: "chat" },
+    limit: 1,
+  });
+  assert.equal(chat.runs.length, 1);
+  assert.equal(chat.runs[0]?.agentId, "support");
+  const rest = await restarted.list(tenantOne, {
+    agentId: "support",
+    metadata: { source: "chat" },
+    limit: 1,
+    cursor: chat.nextCursor,
+  });
+  assert.equal(rest.runs.length, 1);
+  assert.notEqual(rest.runs[0]?.runId, chat.runs[0]?.runId);
+  assert.equal(rest.nextCursor, undefined);
+  assert.deepEqual(
+    (await restarted.list({ ...tenantOne, tenantId: "tenant_2" }, { limit: 20 })).runs,
+    [],
+  );
+
+  // Runs stored before the list index existed are indexed on the next start.
+  sql.exec("DROP TABLE flary_function_run_index");
+  const upgraded = new SqliteFlaryRunRepository(sql);
+  const backfilled = await upgraded.list(tenantOne, { status: ["completed"], limit: 20 });
+  assert.deepEqual(
+    backfilled.runs.map((run) => run.runId).sort(),
+    completed.runs.map((run) => run.runId).sort(),
+  );
+});
+
+test("Durable Object SQLite holds a concurrency slot until the run settles", async () => {
+  const sql = sqlStore();
+  const answers: (() => void)[] = [];
+  const gateway: FlueAgentGateway = {
+    async send() {
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${answers.length + 1}`,
+      };
+    },
+    wait() {
+      return new Promise((resolve) => answers.push(() => resolve({ answer: "done" })));
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  let runs = 0;
+  const service = createFlueRunService({
+    repository: new SqliteFlaryRunRepository(sql),
+    gateway,
+    createRunId: () => `run_slot_${++runs}`,
+    pollMs: 1,
+  });
+  const request = (requestId: string) => ({
+    requestId,
+    channelId: "support",
+    execution: "agent" as const,
+    input: "sync",
+    metadata: {
+      flaryConcurrency: { key: "cus_1", limit: 1, onConflict: "queue" },
+    },
+  });
+  const first = await service.create(tenantOne, request("request_slot_1"));
+  const second = await service.create(tenantOne, request("request_slot_2"));
+  assert.equal(first.status, "running");
+  assert.equal(second.status, "queued");
+
+  const restarted = new SqliteFlaryRunRepository(sql);
+  assert.deepEqual(
+    (await restarted.concurrencyRuns(tenantOne, "cus_1")).map((run) => run.runId),
+    [first.runId, second.runId],
+  );
+  answers[0]!();
+  const deadline = Date.now() + 1_000;
+  while ((await service.get(tenantOne, second.runId)).status === "queued" && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  assert.equal((await service.get(tenantOne, first.runId)).status, "completed");
+  assert.equal((await service.get(tenantOne, second.runId)).status, "running");
+  assert.deepEqual(
+    (await restarted.concurrencyRuns(tenantOne, "cus_1")).map((run) => run.runId),
+    [second.runId],
+  );
+  answers[1]!();
+});
@@ -189,6 +189,133 @@ test("Flue run service aborts and records a function limit failure", async () =>
   assert.equal(aborted, 1);
 });
 
+test("Flue run service prices tokens and stops a run over its budget", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  let aborted = 0;
+  const expensiveGateway: FlueAgentGateway = {
+    async send() {
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "offset_budget",
+        submissionId: "submission_budget",
+      };
+    },
+    async wait(_admission, onEvent) {
+      await onEvent({
+        type: "message-completed",
+        conversationId: "conversation_budget",
+        messageId: "message_1",
+        // The provider reported tokens but no cost.
+        usage: {
+          input: 8_000,
+          output: 2_000,
+          cacheRead: 0,
+          cacheWrite: 0,
+          totalTokens: 10_000,
+          cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+        },
+        position: { batch: 1, index: 0 },
+      });
+      return { answer: "unreachable" };
+    },
+    async abort() {
+      aborted += 1;
+      return { aborted: true };
+    },
+  };
+  const service = createFlueRunService({
+    repository,
+    gateway: expensiveGateway,
+    createRunId: () => "run_budget",
+    pollMs: 1,
+  });
+  const run = await service.create(trusted, {
+    requestId: "request_budget",
+    channelId: "channel_budget",
+    execution: "agent",
+    input: "budget",
+    metadata: {
+      flaryLimits: { costUsd: 0.01 },
+      flaryPricing: {
+        version: "2026-10-01",
+        model: "openai/gpt-5",
+        models: { "openai/gpt-5": { input: 1.25, output: 10 } },
+      },
+    },
+  });
+  const deadline = Date.now() + 1_000;
+  let result = await service.get(trusted, run.runId);
+  while (result.status !== "failed" && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    result = await service.get(trusted, run.runId);
+  }
+  assert.equal(result.status, "failed");
+  assert.equal(result.error?.code, "budget_exceeded");
+  assert.equal(aborted, 1);
+});
+
+test("Flue run service fails a spend-limited run whose model has no price", async () => {
+  let aborted = 0;
+  const service = createFlueRunService({
+    repository: new InMemoryFlaryRunRepository(),
+    gateway: {
+      async send() {
+        return {
+          streamUrl: "https://example.com/stream",
+          offset: "offset_unpriced",
+          submissionId: "submission_unpriced",
+        };
+      },
+      async wait(_admission, onEvent) {
+        await onEvent({
+          type: "message-completed",
+          conversationId: "conversation_unpriced",
+          messageId: "message_1",
+          usage: {
+            input: 100,
+            output: 10,
+            cacheRead: 0,
+            cacheWrite: 0,
+            totalTokens: 110,
+            cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+          },
+          position: { batch: 1, index: 0 },
+        });
+        return { answer: "unreachable" };
+      },
+      async abort() {
+        aborted += 1;
+        return { aborted: true };
+      },
+    },
+    createRunId: () => "run_unpriced",
+    pollMs: 1,
+  });
+  const run = await service.create(trusted, {
+    requestId: "request_unpriced",
+    channelId: "channel_unpriced",
+    execution: "agent",
+    input: "unpriced",
+    metadata: {
+      flaryPricing: {
+        version: "2026-10-01",
+        model: "custom/unpriced",
+        models: {},
+        required: true,
+      },
+    },
+  });
+  const deadline = Date.now() + 1_000;
+  let result = await service.get(trusted, run.runId);
+  while (result.status !== "failed" && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    result = await service.get(trusted, run.runId);
+  }
+  assert.equal(result.status, "failed");
+  assert.equal(result.error?.code, "model_unpriced");
+  assert.equal(aborted, 1);
+});
+
 test("Flue run service enforces subagent delegation limits", async () => {
   const repository = new InMemoryFlaryRunRepository();
   let aborted = 0;
@@ -227,6 +227,83 @@ test("durable subagents use their own provider and the root runtime binding", as
   });
 });
 
+test("a handoff moves the thread to another agent from its next turn", async () => {
+  let current = binding();
+  const handoffs: Array<{ target: FlaryThreadTarget; input: Record<string, unknown> }> = [];
+  const service: FlaryThreadHostService = {
+    async list() { return [current]; },
+    async create() { return current; },
+    async inspect() { return current; },
+    async archive() { return current; },
+    async fork() { return current; },
+    async setMode() { return current; },
+    async setConnections() { return current; },
+    async submit() {
+      return { streamUrl: "https://local/stream", offset: "1", submissionId: "submission" };
+    },
+    async handoff(target, input) {
+      handoffs.push({ target, input: { ...input } });
+      current = { ...current, activeAgentId: input.agentId };
+      return current;
+    },
+    async listApprovals() { return []; },
+    async decideApproval() {},
+  };
+  const app = flary({
+    model: "anthropic/claude-sonnet",
+    defaultIdentity: { tenantId: "tenant", userId: "user" },
+    threadService: service,
+  });
+  const coder = app.agent({
+    name: "coder",
+    instructions: "Write the code.",
+    handoffs: ["billing"],
+  });
+  const billing = app.agent({
+    name: "billing",
+    description: "Answers invoice questions.",
+    model: "openai/gpt-5-mini",
+    instructions: "Answer billing questions.",
+    handoffs: [coder],
+  });
+  assert.throws(
+    () => app.agent({ name: "loop", handoffs: ["loop"] }),
+    /handoffs must name other agents/,
+  );
+  const runtime = defineFlaryInteractiveAgent(coder) as unknown as {
+    initialize(input: { env: object; id: string }): Promise<{
+      model: string;
+      instructions: string;
+      tools: Array<{ name: string; description: string; run(input: { input: any }): Promise<unknown> }>;
+    }>;
+  };
+  const id = "tenant:coder:coder:thread_1";
+
+  const before = await runtime.initialize({ env: {}, id });
+  assert.equal(before.model, "anthropic/claude-sonnet");
+  const handoff = before.tools.find((tool) => tool.name === "handoff");
+  assert.ok(handoff);
+  assert.match(handoff.description, /billing: Answers invoice questions\./);
+  await handoff.run({ input: { agent: "billing", reason: "Invoice question." } });
+  assert.equal(handoffs[0]?.target.threadId, "thread_1");
+  assert.equal(handoffs[0]?.input.agentId, "billing");
+  assert.equal(handoffs[0]?.input.reason, "Invoice question.");
+  assert.deepEqual(handoffs[0]?.input.model, { provider: "openai", model: "gpt-5-mini" });
+  assert.equal(
+    (handoffs[0]?.input.metadata as Record<string, unknown>).flaryAgentRevision,
+    billing.revision,
+  );
+  await assert.rejects(
+    handoff.run({ input: { agent: "reviewer" } }),
+    /not declared by 'coder'/,
+  );
+
+  const after = await runtime.initialize({ env: {}, id });
+  assert.equal(after.model, "openai/gpt-5-mini");
+  assert.match(after.instructions, /Answer billing questions\./);
+  assert.ok(after.tools.some((tool) => tool.name === "handoff"));
+});
+
 test("interactive agents prepare trusted thread providers before model resolution", async () => {
   const prepared: string[] = [];
   const app = flary({
@@ -345,3 +422,90 @@ test("durable agent tools restore admitted roles and scopes", async () => {
     branch: "main",
   });
 });
+
+test("thread summaries use the summary model and ask only for due fields", async () => {
+  let stored = binding();
+  const service: FlaryThreadHostService = {
+    async list() { return [stored]; },
+    async create(_scope, input) {
+      stored = { ...binding(), metadata: input.metadata };
+      return stored;
+    },
+    async inspect() { return stored; },
+    async archive() { return stored; },
+    async fork() { return stored; },
+    async setMode() { return stored; },
+    async setConnections() { return stored; },
+    async submit() {
+      return { streamUrl: "https://local/stream", offset: "1", submissionId: "submission" };
+    },
+    async listApprovals() { return []; },
+    async decideApproval() {},
+  };
+  const prompts: Array<{ model: string; prompt: string }> = [];
+  const app = flary({
+    model: "openai/gpt-5",
+    defaultIdentity: { tenantId: "tenant", userId: "user" },
+    threadService: service,
+    prompt: async ({ model, prompt, output }) => {
+      prompts.push({ model, prompt });
+      return output.parse({ title: "  Refund for invoice 42 ", summary: "The user wants a refund." });
+    },
+  });
+  const coder = app.agent({
+    name: "coder",
+    summary: { model: "openai/gpt-5-mini", every: 3 },
+  });
+  assert.throws(
+    () => app.agent({ name: "bad", summary: { every: -1 } }),
+    { code: "invalid_agent_summary" },
+  );
+  const worker = app.serve({ coder }, { prefix: "/api/flary" });
+  const created = await worker.request("http://local/api/flary/apps/coder/threads", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ threadId: "thread_1", workspace: binding().workspace }),
+  });
+  assert.equal(created.status, 201);
+  assert.deepEqual(stored.metadata?.flarySummary, { title: true, every: 3 });
+
+  const messages = [
+    { role: "user" as const, text: "Can I get a refund for invoice 42?" },
+    { role: "assistant" as const, text: "Yes, I started the refund." },
+  ];
+  assert.deepEqual(
+    await app.describeThread({
+      agentId: "coder",
+      threadId: "thread_1",
+      fields: ["title"],
+      messages,
+      bindings: undefined,
+    }),
+    { title: "Refund for invoice 42", usage: { tokens: 0, costUsd: 0 } },
+  );
+  assert.equal(prompts[0]?.model, "openai/gpt-5-mini");
+  assert.match(prompts[0]!.prompt, /"title"/);
+  assert.doesNotMatch(prompts[0]!.prompt, /"summary"/);
+  assert.match(prompts[0]!.prompt, /User: Can I get a refund for invoice 42\?/);
+
+  await app.describeThread({
+    agentId: "coder",
+    threadId: "thread_1",
+    fields: ["summary"],
+    messages,
+    summary: "The user asked about invoices.",
+    bindings: undefined,
+  });
+  assert.match(prompts[1]!.prompt, /Summary of the earlier conversation:\nThe user asked about invoices\./);
+  assert.deepEqual(
+    await app.describeThread({
+      agentId: "missing",
+      threadId: "thread_1",
+      fields: ["title"],
+      messages,
+      bindings: undefined,
+    }),
+    {},
+  );
+  assert.equal(prompts.length, 2);
+});
@@ -0,0 +1,244 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  FLARY_BATCH_WORKFLOW,
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary } from "../../src/harness/functions/index.ts";
+import {
+  AnthropicMessagesAdapter,
+  OpenAICompatibleAdapter,
+} from "../../src/harness/providers/index.ts";
+import { createFakeBatchServer } from "../providers/fake-batch-server.ts";
+
+const input = z.object({ topic: z.string() });
+const output = z.object({ title: z.string() });
+
+function respond(body: Record<string, unknown>): string {
+  const text = JSON.stringify(body.messages);
+  // One answer breaks the output schema, so its item must fail alone.
+  return text.includes("moons") ? JSON.stringify({ heading: "Moons" }) : '{"title":"Tides"}';
+}
+
+test("provider-batch runs one parent run through the OpenAI batch API", async () => {
+  const server = createFakeBatchServer({ respond });
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    model: "openai/gpt-5",
+    provider: new OpenAICompatibleAdapter({
+      baseUrl: "https://api.openai.test/v1",
+      fetch: server.fetch,
+    }),
+  });
+  const title = app.fn({
+    name: "title",
+    input,
+    output,
+    prompt: ({ topic }) => `Title an essay about ${topic}`,
+  });
+
+  const run = await title.batch(
+    [{ topic: "tides" }, { topic: "moons" }],
+    { mode: "provider-batch", pollIntervalMs: 0, idempotencyKey: "batch_1" },
+  );
+  const progress: unknown[] = [];
+  for await (const event of run.stream()) {
+    if (event.type === "progress") progress.push(event.event);
+  }
+  const result = await run.result();
+
+  assert.equal(run.runId, "batch_1");
+  assert.equal(result.mode, "provider-batch");
+  assert.match(result.providerBatchId ?? "", /^batch_/);
+  assert.deepEqual(result.items[0], {
+    index: 0,
+    runId: "batch_1:0",
+    status: "completed",
+    output: { title: "Tides" },
+  });
+  assert.equal(result.items[1]?.status, "failed");
+  assert.equal(
+    result.items[1]?.status === "failed" && result.items[1].error.code,
+    "output_validation_failed",
+  );
+  assert.equal(server.submitted.length, 1);
+  assert.equal(server.submitted[0]?.length, 2);
+  assert.equal(server.direct.length, 0);
+  assert.equal(progress.length, 2);
+  await assert.rejects(title.batch([{ topic: 1 } as never]));
+});
+
+test("provider-batch uses the Anthropic Message Batches API", async () => {
+  const server = createFakeBatchServer({ respond, pendingPolls: 2 });
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    model: "anthropic/claude-sonnet-4-5",
+    provider: new AnthropicMessagesAdapter({
+      baseUrl: "https://api.anthropic.test/v1",
+      fetch: server.fetch,
+    }),
+  });
+  const title = app.fn({
+    name: "title",
+    input,
+    output,
+    prompt: ({ topic }) => `Title an essay about ${topic}`,
+  });
+
+  const result = await (await title.batch(
+    [{ topic: "tides" }, { topic: "waves" }],
+    { mode: "provider-batch", pollIntervalMs: 0 },
+  )).result();
+
+  assert.equal(result.mode, "provider-batch");
+  assert.deepEqual(result.items.map((item) => item.status), ["completed", "completed"]);
+  assert.equal(server.submitted[0]?.[0]?.model, "claude-sonnet-4-5");
+  assert.equal(server.calls.filter((call) => call.startsWith("GET /messages/batches/")).length, 4);
+});
+
+test("providers without a batch API fall back to bounded concurrent calls", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    model: "custom/writer",
+    provider: {
+      id: "test-provider",
+      provider: "custom",
+      supportsStreaming: false,
+      async *stream() {
+        throw new Error("The test adapter does not stream");
+      },
+      async complete(request) {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        const text = JSON.stringify(request.messages);
+        if (text.includes("storms")) throw new Error("The provider is unavailable.");
+        return {
+          id: "response",
+          model: request.model,
+          content: '{"title":"Essay"}',
+          toolCalls: [],
+          finishReason: "stop",
+        };
+      },
+    },
+  });
+  const title = app.fn({
+    name: "title",
+    input,
+    output,
+    prompt: ({ topic }) => `Title an essay about ${topic}`,
+  });
+
+  const result = await (await title.batch(
+    ["tides", "moons", "storms", "waves", "reefs"].map((topic) => ({ topic })),
+    { mode: "provider-batch", concurrency: 2 },
+  )).result();
+
+  assert.equal(result.mode, "concurrent");
+  assert.equal(result.providerBatchId, undefined);
+  assert.equal(peak, 2);
+  assert.deepEqual(
+    result.items.map((item) => item.status),
+    ["completed", "completed", "failed", "completed", "completed"],
+  );
+  assert.equal(
+    result.items[2]?.status === "failed" && result.items[2].error.message,
+    "The provider is unavailable.",
+  );
+  await assert.rejects(
+    title.batch([{ topic: "tides" }], { concurrency: 0 }),
+    (error: unknown) => (error as { code?: string }).code === "invalid_batch_concurrency",
+  );
+});
+
+test("a durable batch runs its items as child runs of the batch workflow", async () => {
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: { tenantId: "tenant_1", userId: "user_1", roles: ["owner"] },
+  });
+  let active = 0;
+  let peak = 0;
+  const double = app.fn({
+    name: "double",
+    input: z.object({ value: z.number() }),
+    output: z.number(),
+    run: async ({ value }) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+      if (value === 3) throw new Error("Three is not allowed.");
+      return value * 2;
+    },
+  });
+  const functions = { double };
+  const admitted: { name: string; envelope: { __flary: Record<string, unknown>; input: unknown } }[] = [];
+  const gateway: FlueAgentGateway = {
+    async send() {
+      throw new Error("A batch must not use agent admission");
+    },
+    async wait() {
+      throw new Error("A batch must not use agent waiting");
+    },
+    async abort() {
+      return { aborted: true };
+    },
+    async invokeWorkflow(name, input) {
+      admitted.push({ name, envelope: input as (typeof admitted)[number]["envelope"] });
+      return {
+        streamUrl: `https://example.com/runs/workflow_${admitted.length}`,
+        offset: "-1",
+        submissionId: `workflow_${admitted.length}`,
+      };
+    },
+    async waitWorkflow(admission) {
+      const index = Number(admission.submissionId.replace("workflow_", ""));
+      const { name, envelope } = admitted[index - 1]!;
+      const invocation = {
+        input: envelope.input,
+        runId: String(envelope.__flary.runId),
+        bindings: {},
+        ...(envelope.__flary.resume
+          ? { resume: envelope.__flary.resume as never }
+          : {}),
+      };
+      return name === FLARY_BATCH_WORKFLOW
+        ? app.invokeBatchFromWorkflow(functions, invocation)
+        : app.invokeFromWorkflow(double, invocation);
+    },
+  };
+  const repository = new InMemoryFlaryRunRepository();
+  app.attachRunService(createFlueRunService({ repository, gateway, pollMs: 1 }));
+
+  const run = await double.batch(
+    [1, 2, 3].map((value) => ({ value })),
+    { concurrency: 2, pollIntervalMs: 5 },
+  );
+  const result = await run.result();
+
+  assert.equal(result.mode, "concurrent");
+  assert.deepEqual(
+    result.items.map((item) => item.status === "completed" ? item.output : item.error.message),
+    [2, 4, "Three is not allowed."],
+  );
+  assert.equal(peak, 2);
+  // The parent ran in the batch workflow and paused between status checks.
+  const parents = admitted.filter(({ name }) => name === FLARY_BATCH_WORKFLOW);
+  assert.ok(parents.length > 1);
+  assert.ok(parents.every(({ envelope }) => envelope.__flary.runId === run.runId));
+  // Each item is a run of its own, started once.
+  const children = admitted.filter(({ name }) => name === "double");
+  assert.equal(children.length, 3);
+  assert.deepEqual(
+    children.map(({ envelope }) => envelope.__flary.runId).sort(),
+    result.items.map((item) => item.runId).sort(),
+  );
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+} from "../../src/harness/flue/service.ts";
+import { flary } from "../../src/harness/functions/index.ts";
+import type { ModelAdapter } from "../../src/harness/providers/index.ts";
+
+function toolLoop(): ModelAdapter {
+  let calls = 0;
+  return {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: false,
+    async *stream() {
+      throw new Error("The test adapter does not stream");
+    },
+    async complete(request) {
+      calls += 1;
+      return {
+        id: `response-${calls}`,
+        model: request.model,
+        content: "",
+        toolCalls: [{ id: `call-${calls}`, name: "execute", arguments: { code: "lookup" } }],
+        finishReason: "tool_call",
+        usage: { inputTokens: 100_000, outputTokens: 10_000 },
+      };
+    },
+  };
+}
+
+test("a prompt function stops with budget_exceeded at its cost limit", async () => {
+  const seen: number[] = [];
+  const app = flary({
+    provider: toolLoop(),
+    model: "custom/researcher",
+    runs: { mode: "ephemeral" },
+    // 100k input and 10k output tokens cost $0.30 per turn.
+    pricing: { models: { "custom/researcher": { input: 2, output: 10 } } },
+    code: {
+      execute: async () => {
+        seen.push(seen.length + 1);
+        return "more";
+      },
+    },
+  });
+  const lookup = app.fn({
+    input: z.object({ query: z.string() }),
+    output: z.string(),
+    run: ({ query }) => query,
+  });
+  const research = app.fn({
+    input: z.object({ question: z.string() }),
+    output: z.string(),
+    tools: app.tools({ lookup }),
+    limits: { costUsd: 0.5 },
+    prompt: ({ question }) => question,
+  });
+
+  assert.equal(app.pricing.version, "2026-10-01+app");
+  await assert.rejects(research({ question: "why?" }), (error: unknown) => {
+    const failure = error as { code?: string; status?: number; details?: unknown };
+    assert.equal(failure.code, "budget_exceeded");
+    assert.equal(failure.status, 402);
+    assert.deepEqual(failure.details, {
+      limitUsd: 0.5,
+      costUsd: 0.6,
+      pricingVersion: "2026-10-01+app",
+    });
+    return true;
+  });
+  // The second turn crossed the limit before its tool call ran.
+  assert.deepEqual(seen, [1]);
+});
+
+test("spend limits fail closed for unpriced models and store only usable prices", async () => {
+  let calls = 0;
+  const provider = toolLoop();
+  const app = flary({
+    provider: { ...provider, complete: (request) => (calls += 1, provider.complete(request)) },
+    model: "custom/unpriced",
+    runs: { mode: "ephemeral" },
+  });
+  const research = app.fn({
+    input: z.object({ question: z.string() }),
+    output: z.string(),
+    limits: { costUsd: 0.5 },
+    prompt: ({ question }) => question,
+  });
+  await assert.rejects(research({ question: "why?" }), (error: unknown) => {
+    const failure = error as { code?: string; details?: unknown };
+    assert.equal(failure.code, "model_unpriced");
+    assert.deepEqual(failure.details, { models: ["custom/unpriced"] });
+    return true;
+  });
+  assert.equal(calls, 0);
+
+  const repository = new InMemoryFlaryRunRepository();
+  const durable = flary({
+    applicationId: "test_app",
+    defaultIdentity: {
+      tenantId: "tenant_1",
+      userId: "user_1",
+      applicationId: "test_app",
+      roles: ["owner"],
+      scopes: ["functions.run"],
+    },
+  });
+  const summarize = durable.fn({
+    name: "summarize",
+    input: z.object({ text: z.string() }),
+    output: z.string(),
+    model: "openai/gpt-5-mini",
+    fallback: ["openai/gpt-5-nano"],
+    limits: { costUsd: 0.5 },
+    prompt: ({ text }) => text,
+  });
+  durable.attachRunService(createFlueRunService({
+    repository,
+    gateway: {
+      async send() {
+        return { streamUrl: "https://example.com/stream", offset: "0", submissionId: "submission_1" };
+      },
+      async wait() {
+        return "short";
+      },
+      async abort() {
+        return { aborted: true };
+      },
+    },
+    pollMs: 1,
+  }));
+  const run = await summarize.start({ text: "long" });
+  assert.equal(await run.result(), "short");
+  const pricing = (await repository.get(run.runId))?.request.metadata?.flaryPricing as {
+    models: Record<string, unknown>;
+    required?: boolean;
+  };
+  assert.deepEqual(Object.keys(pricing.models), ["openai/gpt-5-mini", "openai/gpt-5-nano"]);
+  assert.equal(pricing.required, true);
+});
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+
+const identity = {
+  tenantId: "tenant_1",
+  userId: "user_1",
+  applicationId: "test_app",
+  roles: ["owner"],
+  scopes: ["functions.run"],
+} as const;
+
+function classifier(scope: "tenant" | "app") {
+  const app = flary({ runs: { mode: "ephemeral" }, defaultIdentity: identity });
+  let calls = 0;
+  const classify = app.fn({
+    name: "classify",
+    input: z.object({ text: z.string(), requestId: z.string().optional() }),
+    output: z.object({ label: z.string(), call: z.number() }),
+    cache: { ttl: "1h", key: ({ text }) => text, scope },
+    run: ({ text }) => {
+      calls += 1;
+      return { label: text.length > 5 ? "long" : "short", call: calls };
+    },
+  });
+  return { app, classify, calls: () => calls };
+}
+
+test("cached functions reuse validated output for the same input", async () => {
+  const { classify, calls } = classifier("tenant");
+
+  assert.deepEqual(await classify({ text: "hello" }), { label: "short", call: 1 });
+  assert.deepEqual(
+    await classify({ text: "hello", requestId: "a" }),
+    { label: "short", call: 1 },
+  );
+  assert.deepEqual(await classify({ text: "goodbye" }), { label: "long", call: 2 });
+  assert.equal(calls(), 2);
+
+  const events: FlaryEvent<unknown>[] = [];
+  for await (const event of classify.stream({ text: "hello" })) events.push(event);
+  const output = events.find((event) => event.type === "output");
+  assert.match(
+    output?.type === "output" ? output.cache?.key ?? "" : "",
+    /^flary:cache:classify:tenant=tenant_1:/,
+  );
+  assert.equal(calls(), 2);
+});
+
+test("durable cache hits are stored as completed runs", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  let sent = 0;
+  const gateway: FlueAgentGateway = {
+    async send() {
+      sent += 1;
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent}`,
+      };
+    },
+    async wait() {
+      return '{"label": "short"}';
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: identity,
+    runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+  });
+  const classify = app.fn({
+    name: "classify",
+    input: z.object({ text: z.string() }),
+    output: z.object({ label: z.string() }),
+    prompt: ({ text }) => `Classify: ${text}`,
+    cache: { ttl: "1h", scope: "tenant" },
+  });
+
+  assert.deepEqual(await classify({ text: "hello" }), { label: "short" });
+  const run = await classify.start({ text: "hello" });
+  const events: FlaryEvent<unknown>[] = [];
+  for await (const event of run.stream()) events.push(event);
+
+  assert.equal(sent, 1);
+  const output = events.find((event) => event.type === "output");
+  assert.match(
+    output?.type === "output" ? output.cache?.key ?? "" : "",
+    /^flary:cache:classify:tenant=tenant_1:/,
+  );
+  const stored = await repository.get(run.runId);
+  assert.equal(stored?.result.status, "completed");
+  assert.deepEqual(stored?.result.output, { label: "short" });
+});
+
+test("tenant-scoped caches skip calls without an identity", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  let calls = 0;
+  const count = app.fn({
+    name: "count",
+    input: z.object({}),
+    output: z.number(),
+    cache: { ttl: 60_000, scope: "tenant" },
+    run: () => ++calls,
+  });
+
+  await count({});
+  await count({});
+  assert.equal(calls, 2);
+});
+
+test("invalidate removes one input or every entry of a function", async () => {
+  const { app, classify, calls } = classifier("app");
+  await classify({ text: "hello" });
+  await classify({ text: "goodbye" });
+
+  assert.equal(await app.invalidate(classify, { input: { text: "hello" } }), 1);
+  await classify({ text: "hello" });
+  await classify({ text: "goodbye" });
+  assert.equal(calls(), 3);
+
+  assert.equal(await app.invalidate(classify), 2);
+  await classify({ text: "goodbye" });
+  assert.equal(calls(), 4);
+});
+
+test("cache options are validated when the function is defined", () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  assert.throws(
+    () =>
+      app.fn({
+        input: z.object({}),
+        output: z.string(),
+        cache: { ttl: "soon", scope: "app" },
+        run: () => "done",
+      }),
+    (error: unknown) =>
+      (error as { code?: string }).code === "invalid_function_cache",
+  );
+});
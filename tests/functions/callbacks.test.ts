@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import { flary, verifyFlaryCallback } from "../../src/harness/functions/index.ts";
+import type { FlaryCallbackDelivery } from "../../src/harness/functions/index.ts";
+
+async function settled(
+  list: () => Promise<FlaryCallbackDelivery[]>,
+): Promise<FlaryCallbackDelivery[]> {
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    const deliveries = await list();
+    if (deliveries.some((delivery) => delivery.status !== "retrying")) return deliveries;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return list();
+}
+
+test("a run callback is signed, retried, and logged per attempt", async () => {
+  const received: Request[] = [];
+  const statuses = [500, 200];
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    callbacks: {
+      secret: "callback-secret",
+      retryDelaySeconds: 0,
+      fetch: async (url, init) => {
+        received.push(new Request(url, init));
+        return new Response(null, { status: statuses.shift() ?? 200 });
+      },
+    },
+  });
+  const greet = app.fn({
+    name: "greet",
+    input: z.object({ name: z.string() }),
+    output: z.string(),
+    run: ({ name }) => `Hello ${name}`,
+  });
+
+  const run = await greet.start(
+    { name: "Ada" },
+    { callback: { url: "https://hooks.example.com/runs", events: ["completed"] } },
+  );
+  assert.equal(await run.result(), "Hello Ada");
+  const deliveries = await settled(() => app.callbackDeliveries(run.runId));
+  assert.deepEqual(
+    deliveries.map((delivery) => [delivery.attempt, delivery.status, delivery.responseStatus]),
+    [[1, "retrying", 500], [2, "delivered", 200]],
+  );
+  assert.equal(received[0]?.headers.get("flary-delivery"), received[1]?.headers.get("flary-delivery"));
+
+  const payload = await verifyFlaryCallback(received[1]!.clone(), "callback-secret");
+  assert.equal(payload.type, "run.completed");
+  assert.equal(payload.runId, run.runId);
+  assert.equal(payload.functionId, "greet");
+  assert.equal(payload.output, "Hello Ada");
+  await assert.rejects(verifyFlaryCallback(received[1]!.clone(), "other-secret"), {
+    code: "callback_signature_invalid",
+  });
+  await assert.rejects(
+    verifyFlaryCallback(received[1]!.clone(), "callback-secret", {
+      now: Date.now() + 600_000,
+    }),
+    { code: "callback_signature_invalid" },
+  );
+
+  const worker = app.serve({ greet });
+  const listed = await worker.request(`http://local/functions/greet/runs/${run.runId}/callbacks`);
+  assert.equal(listed.status, 200);
+  assert.equal(((await listed.json()) as { deliveries: unknown[] }).deliveries.length, 2);
+});
+
+test("a run callback needs an HTTPS target and a signing secret", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  const greet = app.fn({
+    name: "greet",
+    input: z.object({}),
+    output: z.string(),
+    run: () => "hi",
+  });
+  await assert.rejects(
+    greet.start({}, { callback: { url: "http://hooks.example.com/runs" } }),
+    { code: "invalid_callback", status: 400 },
+  );
+  await assert.rejects(
+    greet.start({}, { callback: { url: "https://hooks.example.com/runs" } }),
+    { code: "callback_secret_missing", status: 500 },
+  );
+});
+
+test("a run callback rejects private addresses and hosts off the allow-list", async () => {
+  const open = flary({ runs: { mode: "ephemeral" }, callbacks: { secret: "s" } });
+  const greet = open.fn({
+    name: "greet",
+    input: z.object({}),
+    output: z.string(),
+    run: () => "hi",
+  });
+  for (const url of [
+    "https://localhost/runs",
+    "https://10.0.0.8/runs",
+    "https://0x7f.1/runs",
+    "https://169.254.169.254/latest",
+    "https://[fd00::1]/runs",
+    "https://[::ffff:192.168.0.1]/runs",
+    "https://metadata.internal/runs",
+  ]) {
+    await assert.rejects(greet.start({}, { callback: { url } }), {
+      code: "invalid_callback",
+    }, url);
+  }
+
+  const listed = flary({
+    runs: { mode: "ephemeral" },
+    callbacks: {
+      secret: "s",
+      allowedHosts: ["hooks.example.com", "*.example.net", "localhost"],
+      fetch: async () => new Response(null, { status: 204 }),
+    },
+  });
+  const hello = listed.fn({
+    name: "hello",
+    input: z.object({}),
+    output: z.string(),
+    run: () => "hi",
+  });
+  await assert.rejects(
+    hello.start({}, { callback: { url: "https://other.example.com/runs" } }),
+    { code: "invalid_callback" },
+  );
+  for (const url of [
+    "https://hooks.example.com/runs",
+    "https://a.example.net/runs",
+    "http://localhost:8787/runs",
+  ]) {
+    assert.equal(await (await hello.start({}, { callback: { url } })).result(), "hi");
+  }
+});
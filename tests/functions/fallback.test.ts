@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+import {
+  ProviderAdapterError,
+  type ModelAdapter,
+} from "../../src/harness/providers/index.ts";
+
+function failingAdapter(failures: Record<string, number>): {
+  readonly adapter: ModelAdapter;
+  readonly models: string[];
+} {
+  const models: string[] = [];
+  const adapter: ModelAdapter = {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: false,
+    async *stream() {
+      throw new Error("The test adapter does not stream");
+    },
+    async complete(request) {
+      models.push(request.model);
+      const status = failures[request.model];
+      if (status !== undefined) {
+        throw new ProviderAdapterError({
+          code: "provider_failed",
+          message: `The provider returned ${status}`,
+          status,
+        });
+      }
+      return {
+        id: `response-${models.length}`,
+        model: request.model,
+        content: `{"answer": "from ${request.model}"}`,
+        toolCalls: [],
+        finishReason: "stop",
+      };
+    },
+  };
+  return { adapter, models };
+}
+
+const Answer = z.object({ answer: z.string() });
+
+test("a rate-limited prompt function answers from its fallback model", async () => {
+  const { adapter, models } = failingAdapter({ primary: 429, backup: 503 });
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const answer = app.fn({
+    name: "answer",
+    input: z.object({ question: z.string() }),
+    output: Answer,
+    model: "custom/primary",
+    fallback: ["custom/backup", "custom/last"],
+    prompt: ({ question }) => question,
+  });
+
+  const events: FlaryEvent<z.infer<typeof Answer>>[] = [];
+  for await (const event of answer.stream({ question: "Ready?" })) {
+    events.push(event);
+  }
+  const output = events.find((event) => event.type === "output");
+  assert.deepEqual(output?.type === "output" ? output.output : undefined, {
+    answer: "from last",
+  });
+  assert.deepEqual(models, ["primary", "backup", "last"]);
+  const fallbacks = events.flatMap((event) =>
+    event.type === "progress" && event.event.type === "model.fallback"
+      ? [event.event.payload]
+      : []
+  );
+  assert.equal(fallbacks.length, 1);
+  assert.deepEqual(fallbacks[0]!.from, { provider: "custom", model: "primary" });
+  assert.deepEqual(fallbacks[0]!.to, { provider: "custom", model: "last" });
+  assert.equal(fallbacks[0]!.fallbackIndex, 2);
+  assert.equal(fallbacks[0]!.failureClass, "rate_limit");
+});
+
+test("invalid requests and write functions do not fall back", async () => {
+  const { adapter, models } = failingAdapter({ primary: 400, broken: 429 });
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const answer = app.fn({
+    input: z.object({ question: z.string() }),
+    output: Answer,
+    model: "custom/primary",
+    fallback: ["custom/backup"],
+    prompt: ({ question }) => question,
+  });
+  const write = app.fn({
+    input: z.object({ question: z.string() }),
+    output: Answer,
+    model: "custom/broken",
+    fallback: ["custom/backup"],
+    policy: { operation: "write" },
+    prompt: ({ question }) => question,
+  });
+
+  await assert.rejects(answer({ question: "Ready?" }), /returned 400/);
+  await assert.rejects(write({ question: "Ready?" }), /returned 429/);
+  assert.deepEqual(models, ["primary", "broken"]);
+});
+
+test("a durable prompt run resubmits its turn on the fallback model", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  const sent: { message: string; model?: string }[] = [];
+  const gateway: FlueAgentGateway = {
+    async send(_agent, _instance, message, options = {}) {
+      sent.push({ message, ...(options.model ? { model: options.model } : {}) });
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent.length}`,
+      };
+    },
+    async wait() {
+      if (sent.length === 1) throw new Error("429 Too Many Requests");
+      return '{"answer": "from the fallback"}';
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: {
+      tenantId: "tenant_1",
+      userId: "user_1",
+      applicationId: "test_app",
+      roles: ["owner"],
+      scopes: ["functions.run"],
+    },
+    runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+  });
+  const answer = app.fn({
+    name: "answer",
+    input: z.object({ question: z.string() }),
+    output: z.object({ answer: z.string() }),
+    model: "custom/primary",
+    fallback: ["custom/backup"],
+    prompt: ({ question }) => question,
+  });
+
+  const run = await answer.start({ question: "Why?" });
+  assert.deepEqual(await run.result(), { answer: "from the fallback" });
+  assert.deepEqual(sent.map((entry) => entry.model), [undefined, "custom/backup"]);
+  assert.equal(sent[1]!.message, sent[0]!.message);
+  const stored = await repository.get(run.runId);
+  assert.equal(stored?.result.metadata?.model, "custom/backup");
+  const events = await repository.events(run.runId, 0);
+  const fallback = events.find((event) => event.type === "model.fallback");
+  assert.deepEqual(
+    fallback?.type === "model.fallback" ? fallback.payload.to : undefined,
+    { provider: "custom", model: "backup" },
+  );
+});
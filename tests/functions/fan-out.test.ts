@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  flary,
+  type FlaryEvent,
+  type FlaryStepStore,
+} from "../../src/harness/functions/index.ts";
+
+class MemoryStepStore implements FlaryStepStore {
+  readonly records = new Map<string, { inputHash: string; value: unknown }>();
+
+  async get(input: { readonly runId: string; readonly name: string }) {
+    return this.records.get(`${input.runId}:${input.name}`);
+  }
+
+  async put(input: {
+    readonly runId: string;
+    readonly name: string;
+    readonly inputHash: string;
+    readonly value: unknown;
+  }) {
+    this.records.set(`${input.runId}:${input.name}`, {
+      inputHash: input.inputHash,
+      value: input.value,
+    });
+  }
+}
+
+test("map bounds concurrency and keeps item order", async () => {
+  const app = flary({ runtime: "local" });
+  let active = 0;
+  let peak = 0;
+  const square = app.fn({
+    input: z.number(),
+    output: z.number(),
+    run: async (value) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+      return value * value;
+    },
+  });
+  const squares = app.fn({
+    input: z.object({ values: z.array(z.number()) }),
+    output: z.array(z.number()),
+    run: ({ values }, context) =>
+      context.map("square", values, square, { concurrency: 2 }),
+  });
+
+  assert.deepEqual(await squares({ values: [1, 2, 3, 4, 5] }), [1, 4, 9, 16, 25]);
+  assert.equal(peak, 2);
+});
+
+test("map replays completed items and retries only failed ones", async () => {
+  const stepStore = new MemoryStepStore();
+  const calls: number[] = [];
+  // A second app over the same step store stands in for a restarted host.
+  const host = (failing: boolean) => {
+    const app = flary({ runtime: "local", stepStore });
+    const ingest = app.fn({
+      input: z.number(),
+      output: z.string(),
+      run: (value) => {
+        calls.push(value);
+        if (value === 2 && failing) throw new Error("temporary outage");
+        return `doc_${value}`;
+      },
+    });
+    return app.fn({
+      name: "batch",
+      input: z.object({ values: z.array(z.number()) }),
+      output: z.array(z.string()),
+      run: ({ values }, context) => context.map("ingest", values, ingest),
+    });
+  };
+
+  const first = await host(true).start(
+    { values: [1, 2, 3] },
+    { requestId: "run_batch" },
+  );
+  await assert.rejects(
+    first.result(),
+    (error: unknown) =>
+      (error as { code?: string }).code === "step_items_failed" &&
+      (error as Error).message.includes("Item 1: temporary outage"),
+  );
+  assert.deepEqual([...stepStore.records.keys()].sort(), [
+    "run_batch:ingest__0",
+    "run_batch:ingest__2",
+  ]);
+
+  calls.length = 0;
+  const replay = await host(false).start(
+    { values: [1, 2, 3] },
+    { requestId: "run_batch" },
+  );
+  assert.deepEqual(await replay.result(), ["doc_1", "doc_2", "doc_3"]);
+  assert.deepEqual(calls, [2]);
+});
+
+test("parallel runs different steps and streams progress", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  const upper = app.fn({
+    input: z.string(),
+    output: z.string(),
+    run: (value) => value.toUpperCase(),
+  });
+  const length = app.fn({
+    input: z.string(),
+    output: z.number(),
+    run: (value) => value.length,
+  });
+  const describe = app.fn({
+    name: "describe",
+    input: z.object({ text: z.string() }),
+    output: z.object({ upper: z.string(), length: z.number() }),
+    run: async ({ text }, context) => {
+      const [upperText, size] = await context.parallel("describe", [
+        { fn: upper, input: text },
+        { fn: length, input: text },
+      ]);
+      return { upper: upperText, length: size };
+    },
+  });
+
+  const run = await describe.start({ text: "flary" });
+  const events: FlaryEvent<unknown>[] = [];
+  for await (const event of run.stream()) events.push(event);
+  assert.deepEqual(await run.result(), { upper: "FLARY", length: 5 });
+  const progress = events.flatMap((event) =>
+    event.type === "progress" && event.event.type === "step.progress"
+      ? [event.event.payload]
+      : []
+  );
+  assert.deepEqual(progress.map((item) => item.completed), [1, 2]);
+  assert.ok(progress.every((item) => item.step === "describe" && item.total === 2));
+});
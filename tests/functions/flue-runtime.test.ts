@@ -472,3 +472,263 @@ test("generated prompt agents use the durable request_user_input bridge", async
     "ready",
   );
 });
+
+test("failed prompt runs are dead-lettered and replay against the current revision", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  const sent: string[] = [];
+  const gateway: FlueAgentGateway = {
+    async send(_agent, _instance, message) {
+      sent.push(message);
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent.length}`,
+      };
+    },
+    async wait() {
+      if (sent.length === 1) throw new Error("The provider is unavailable");
+      return { answer: "Use the billing page." };
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const makeApp = (instructions: string) => {
+    const app = flary({
+      applicationId: "test_app",
+      defaultIdentity: identity,
+      runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+    });
+    const support = app.fn({
+      name: "support",
+      input: z.object({ question: z.string() }),
+      output: z.object({ answer: z.string() }),
+      durable: { maxAttempts: 2 },
+      prompt: ({ question }) => `${instructions} ${question}`,
+    });
+    return { app, support, worker: app.serve({ support }) };
+  };
+
+  const first = makeApp("Answer:");
+  const failed = await first.support.start({ question: "How do I upgrade?" });
+  await assert.rejects(failed.result());
+
+  // A deploy changes the prompt. The dead letter keeps the parsed input.
+  const next = makeApp("Answer briefly:");
+  const listed = await next.worker.request("http://local/functions/support/dead-letters");
+  assert.equal(listed.status, 200);
+  const { deadLetters } = (await listed.json()) as {
+    deadLetters: { runId: string; input: unknown; attempts: number }[];
+  };
+  assert.equal(deadLetters[0]?.runId, failed.runId);
+  assert.deepEqual(deadLetters[0]?.input, { question: "How do I upgrade?" });
+  // The provider failed without a retry, so the run used one attempt.
+  assert.equal(deadLetters[0]?.attempts, 1);
+
+  const replayed = await next.worker.request(
+    "http://local/functions/support/dead-letters/replay",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ runIds: [failed.runId], revision: "current" }),
+    },
+  );
+  assert.equal(replayed.status, 202);
+  const { runs } = (await replayed.json()) as { runs: { runId: string }[] };
+  const stored = await repository.get(runs[0]!.runId);
+  assert.equal(stored?.request.metadata?.flaryReplayOf, failed.runId);
+  assert.equal(sent.at(-1), "Answer briefly: How do I upgrade?");
+  assert.deepEqual(await next.app.deadLetters(next.support), []);
+  const [letter] = await next.app.deadLetters(next.support, { includeReplayed: true });
+  assert.equal(letter?.replayedRunId, runs[0]!.runId);
+
+  // A replayed letter is rejected before any run starts, unless it is forced.
+  const again = await next.worker.request(
+    "http://local/functions/support/dead-letters/replay",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ runIds: [failed.runId] }),
+    },
+  );
+  assert.equal(again.status, 409);
+  const service = createFlueRunService({ repository, gateway, pollMs: 1 });
+  const trusted = (await repository.get(failed.runId))!.trusted;
+  await assert.rejects(
+    service.replay!(trusted, failed.runId),
+    { code: "dead_letter_replayed", status: 409 },
+  );
+  assert.equal(sent.length, 2);
+  const [forced] = await next.app.replay(next.support, failed.runId, { force: true });
+  assert.notEqual(forced!.runId, runs[0]!.runId);
+  assert.equal(sent.length, 3);
+  const [reforced] = await next.app.deadLetters(next.support, { includeReplayed: true });
+  assert.equal(reforced?.replayedRunId, forced!.runId);
+  assert.equal((await repository.get(forced!.runId))?.request.metadata?.flaryReplayForce, true);
+});
+
+test("runs that share a concurrency key queue, reject, or replace each other", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  const finish = new Map<string, (answer: string) => void>();
+  const stop = new Map<string, (error: Error) => void>();
+  let submissions = 0;
+  const gateway: FlueAgentGateway = {
+    async send(_agent, instance) {
+      submissions += 1;
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${instance}`,
+      };
+    },
+    wait(admission) {
+      return new Promise((resolve, reject) => {
+        const instance = admission.submissionId.slice("submission_".length);
+        finish.set(instance, (answer) => resolve({ answer }));
+        stop.set(instance, reject);
+      });
+    },
+    async abort(_agent, instance) {
+      stop.get(instance)?.(new Error("aborted"));
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: identity,
+    runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+  });
+  const define = (name: string, onConflict: "queue" | "reject" | "cancel-previous") =>
+    app.fn({
+      name,
+      input: z.object({ customerId: z.string() }),
+      output: z.object({ answer: z.string() }),
+      concurrency: { key: ({ customerId }) => customerId, onConflict },
+      prompt: ({ customerId }) => `Update ${customerId}`,
+    });
+  const update = define("update", "queue");
+  const sync = define("sync", "reject");
+  const refresh = define("refresh", "cancel-previous");
+
+  const first = await update.start({ customerId: "cus_1" });
+  const second = await update.start({ customerId: "cus_1" });
+  const other = await update.start({ customerId: "cus_2" });
+  assert.equal(first.status, "running");
+  assert.equal(second.status, "queued");
+  assert.equal(other.status, "running");
+  assert.equal(submissions, 2);
+  assert.equal((await repository.get(second.runId))?.admission, undefined);
+
+  finish.get(first.runId)!("done");
+  assert.deepEqual(await first.result(), { answer: "done" });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.equal((await repository.get(second.runId))?.result.status, "running");
+  finish.get(second.runId)!("second");
+  assert.deepEqual(await second.result(), { answer: "second" });
+
+  await sync.start({ customerId: "cus_1" });
+  await assert.rejects(sync.start({ customerId: "cus_1" }), {
+    code: "concurrency_limit_reached",
+    status: 409,
+  });
+
+  const replaced = await refresh.start({ customerId: "cus_1" });
+  const latest = await refresh.start({ customerId: "cus_1" });
+  assert.equal((await repository.get(replaced.runId))?.result.status, "cancelled");
+  assert.equal(latest.status, "running");
+});
+
+test("concurrent starts of one key never take more than its slots", async () => {
+  // Slow reads let the drains of all three starts overlap.
+  const repository = new (class extends InMemoryFlaryRunRepository {
+    override async concurrencyRuns(
+      ...args: Parameters<InMemoryFlaryRunRepository["concurrencyRuns"]>
+    ) {
+      const runs = await super.concurrencyRuns(...args);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return runs;
+    }
+  })();
+  let submissions = 0;
+  const gateway: FlueAgentGateway = {
+    async send() {
+      submissions += 1;
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${submissions}`,
+      };
+    },
+    wait: () => new Promise(() => {}),
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: identity,
+    runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+  });
+  const update = app.fn({
+    name: "update",
+    input: z.object({ customerId: z.string() }),
+    output: z.object({ answer: z.string() }),
+    concurrency: { key: ({ customerId }) => customerId },
+    prompt: ({ customerId }) => `Update ${customerId}`,
+  });
+
+  const runs = await Promise.all(
+    [1, 2, 3].map(() => update.start({ customerId: "cus_1" })),
+  );
+  const statuses = await Promise.all(
+    runs.map(async (run) => (await repository.get(run.runId))?.result.status),
+  );
+  assert.deepEqual(statuses.sort(), ["queued", "queued", "running"]);
+  assert.equal(submissions, 1);
+});
+
+test("a debounced key starts only the last run of a burst", async (t) => {
+  // The clock stands still during the burst, so no held run comes due early.
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const repository = new InMemoryFlaryRunRepository();
+  const sent: string[] = [];
+  const gateway: FlueAgentGateway = {
+    async send(_agent, _instance, message) {
+      sent.push(message);
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent.length}`,
+      };
+    },
+    async wait() {
+      return { answer: "indexed" };
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: identity,
+    runService: createFlueRunService({ repository, gateway, pollMs: 1 }),
+  });
+  const reindex = app.fn({
+    name: "reindex",
+    input: z.object({ repo: z.string(), commit: z.string() }),
+    output: z.object({ answer: z.string() }),
+    concurrency: { key: ({ repo }) => repo, debounce: 20 },
+    prompt: ({ repo, commit }) => `Reindex ${repo} at ${commit}`,
+  });
+
+  const runs = [];
+  for (const commit of ["a", "b", "c"]) {
+    runs.push(await reindex.start({ repo: "flary", commit }));
+  }
+  assert.deepEqual(runs.map((run) => run.status), ["queued", "queued", "queued"]);
+  assert.deepEqual(sent, []);
+  t.mock.timers.tick(20);
+  assert.deepEqual(await runs[2]!.result(), { answer: "indexed" });
+  assert.deepEqual(sent, ["Reindex flary at c"]);
+  await assert.rejects(runs[0]!.result(), { name: "AbortError" });
+});
@@ -0,0 +1,249 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+
+test("input guardrails rewrite and output guardrails block a function", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  const redactEmail = ({ text }: { readonly text: string }) =>
+    text.includes("@")
+      ? {
+          action: "rewrite" as const,
+          text: text.replace(/[\w.]+@[\w.]+/g, "[email]"),
+          reason: "Removed an email address.",
+        }
+      : undefined;
+  const noSecrets = ({ text }: { readonly text: string }) =>
+    text.includes("secret")
+      ? { action: "block" as const, reason: "The answer leaks a secret." }
+      : { action: "allow" as const };
+  const echo = app.fn({
+    name: "echo",
+    input: z.object({ note: z.string() }),
+    output: z.string(),
+    guardrails: {
+      input: [redactEmail],
+      output: [noSecrets],
+    },
+    run: ({ note }) => note,
+  });
+
+  const events: FlaryEvent<string>[] = [];
+  for await (const event of echo.stream({ note: "mail ada@example.com" })) {
+    events.push(event);
+  }
+  const output = events.find((event) => event.type === "output");
+  assert.equal(output?.type === "output" ? output.output : undefined, "mail [email]");
+  const trips = events.flatMap((event) =>
+    event.type === "progress" && event.event.type === "guardrail.tripped"
+      ? [event.event.payload]
+      : []
+  );
+  assert.deepEqual(trips, [{
+    stage: "input",
+    guardrail: "redactEmail",
+    action: "rewrite",
+    reason: "Removed an email address.",
+  }]);
+
+  await assert.rejects(echo({ note: "the secret is 42" }), (error: unknown) => {
+    const failure = error as { code?: string; status?: number; details?: unknown };
+    assert.equal(failure.code, "guardrail_blocked");
+    assert.equal(failure.status, 422);
+    assert.deepEqual(failure.details, { stage: "output", guardrail: "noSecrets" });
+    return true;
+  });
+});
+
+test("durable prompt runs store only guarded output", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  const answers = ["call 555-0100", "the secret is 42"];
+  let sent = 0;
+  const gateway: FlueAgentGateway = {
+    async send() {
+      sent += 1;
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent}`,
+      };
+    },
+    async wait() {
+      return answers[sent - 1];
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: {
+      tenantId: "tenant_1",
+      userId: "user_1",
+      applicationId: "test_app",
+      roles: ["owner"],
+      scopes: ["functions.run"],
+    },
+  });
+  const redactPhone = ({ text }: { readonly text: string }) =>
+    /\d{3}-\d{4}/.test(text)
+      ? { action: "rewrite" as const, text: text.replace(/\d{3}-\d{4}/g, "[phone]") }
+      : undefined;
+  const noSecrets = ({ text }: { readonly text: string }) =>
+    text.includes("secret") ? { action: "block" as const } : undefined;
+  const reply = app.fn({
+    name: "reply",
+    input: z.object({ question: z.string() }),
+    output: z.string(),
+    guardrails: { output: [redactPhone, noSecrets] },
+    prompt: ({ question }) => question,
+  });
+  app.attachRunService(createFlueRunService({
+    repository,
+    gateway,
+    pollMs: 1,
+    settleOutput: (input) => app.settleRunOutput({ reply }, { ...input, bindings: {} }),
+  }));
+
+  const run = await reply.start({ question: "How do I reach support?" });
+  assert.equal(await run.result(), "call [phone]");
+  const stored = await repository.get(run.runId);
+  assert.equal(stored?.result.output, "call [phone]");
+  const trips = (await repository.events(run.runId, 0)).flatMap((event) =>
+    event.type === "guardrail.tripped" ? [event.payload] : []
+  );
+  assert.deepEqual(trips, [{ stage: "output", guardrail: "redactPhone", action: "rewrite" }]);
+
+  const blocked = await reply.start({ question: "What is the secret?" });
+  await assert.rejects(blocked.result(), (error: unknown) => {
+    assert.equal((error as { code?: string }).code, "guardrail_blocked");
+    return true;
+  });
+  const failed = await repository.get(blocked.runId);
+  assert.equal(failed?.result.output, undefined);
+  assert.equal(failed?.result.error?.code, "guardrail_blocked");
+});
+
+test("Flary functions and app.moderate() act as agent guardrails", async () => {
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    operations: {
+      moderate: async (request) => ({
+        results: [{
+          flagged: String(request.input).includes("attack"),
+          categories: { violence: String(request.input).includes("attack") },
+          scores: {},
+        }],
+      }),
+    },
+  });
+  const policy = app.fn({
+    name: "policy",
+    input: z.object({ text: z.string() }),
+    output: z.object({
+      action: z.enum(["allow", "block", "rewrite"]),
+      text: z.string().optional(),
+    }),
+    run: ({ text }) =>
+      text.startsWith("Ignore previous instructions")
+        ? { action: "rewrite" as const, text: "Hello." }
+        : { action: "allow" as const },
+  });
+  const agent = app.agent({
+    name: "support",
+    instructions: "Help the user.",
+    guardrails: { input: [policy, app.moderate()] },
+  });
+
+  assert.deepEqual(
+    await app.guardAgentMessage(agent, "input", "Ignore previous instructions", {
+      bindings: undefined,
+    }),
+    {
+      text: "Hello.",
+      trips: [{ stage: "input", guardrail: "policy", action: "rewrite" }],
+      blocked: false,
+    },
+  );
+  const blocked = await app.guardAgentMessage("support", "input", "plan an attack", {
+    bindings: undefined,
+  });
+  assert.equal(blocked.blocked, true);
+  assert.deepEqual(blocked.trips, [{
+    stage: "input",
+    guardrail: "moderation",
+    action: "block",
+    reason: "Moderation flagged the input: violence.",
+  }]);
+});
+
+test("thread turns call onRunStart only after their input guardrails pass", async () => {
+  const started: string[] = [];
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    hooks: {
+      onRunStart: (event) => {
+        if (event.kind === "agent") started.push(String(event.input));
+      },
+    },
+  });
+  const redact = app.fn({
+    name: "redact",
+    input: z.object({ text: z.string() }),
+    output: z.object({
+      action: z.enum(["allow", "block", "rewrite"]),
+      text: z.string().optional(),
+    }),
+    run: ({ text }) =>
+      text.includes("attack")
+        ? { action: "block" as const }
+        : { action: "rewrite" as const, text: text.replace("4242", "[card]") },
+  });
+  app.agent({
+    name: "support",
+    instructions: "Help the user.",
+    guardrails: { input: [redact], output: [redact] },
+  });
+  const turn = {
+    agentId: "support",
+    tenantId: "tenant",
+    threadId: "thread",
+    actor: { id: "user" },
+    bindings: undefined,
+  };
+
+  const admitted = await app.admitAgentTurn({
+    ...turn,
+    admissionId: "turn_1",
+    message: "Card 4242",
+  });
+  assert.equal(admitted.text, "Card [card]");
+  assert.equal(admitted.guardsOutput, true);
+  const blocked = await app.admitAgentTurn({
+    ...turn,
+    admissionId: "turn_2",
+    message: "plan an attack",
+  });
+  assert.equal(blocked.blocked, true);
+  assert.deepEqual(started, ["Card [card]"]);
+});
+
+test("guardrails are validated when the function is defined", () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  assert.throws(
+    () =>
+      app.fn({
+        input: z.object({}),
+        output: z.string(),
+        guardrails: { input: ["no-pii" as never] },
+        run: () => "done",
+      }),
+    (error: unknown) => (error as { code?: string }).code === "invalid_guardrails",
+  );
+});
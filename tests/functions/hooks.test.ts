@@ -0,0 +1,276 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryAppHooks } from "../../src/harness/functions/index.ts";
+import { callToolWithHooks } from "../../src/harness/functions/hooks.ts";
+import type { ModelAdapter } from "../../src/harness/providers/index.ts";
+
+function toolThenAnswer(): ModelAdapter {
+  let calls = 0;
+  return {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: false,
+    async *stream() {
+      throw new Error("The test adapter does not stream");
+    },
+    async complete(request) {
+      calls += 1;
+      return calls === 1
+        ? {
+            id: "response-1",
+            model: request.model,
+            content: "",
+            toolCalls: [{ id: "call-1", name: "execute", arguments: { code: "lookup" } }],
+            finishReason: "tool_call",
+          }
+        : {
+            id: "response-2",
+            model: request.model,
+            content: JSON.stringify({ answer: "done" }),
+            toolCalls: [],
+            finishReason: "stop",
+            usage: { inputTokens: 12, outputTokens: 3 },
+          };
+    },
+  };
+}
+
+function supportApp(hooks: FlaryAppHooks) {
+  const app = flary({
+    provider: toolThenAnswer(),
+    runs: { mode: "ephemeral" },
+    hooks,
+    // The host bridge stands in for the Dynamic Worker, which routes every
+    // catalog call through the same hook runner.
+    code: {
+      execute: ({ context }) =>
+        callToolWithHooks(context, "lookup", { query: "x" }, async (input) => ({
+          found: input,
+        })),
+    },
+  });
+  const lookup = app.fn({
+    input: z.object({ query: z.string() }),
+    output: z.string(),
+    run: ({ query }) => query,
+  });
+  const support = app.fn({
+    name: "support",
+    input: z.object({ question: z.string() }),
+    output: z.object({ answer: z.string() }),
+    tools: app.tools({ lookup }),
+    prompt: ({ question }) => question,
+  });
+  return { app, support };
+}
+
+test("function runs call run, tool, and turn hooks in order", async () => {
+  const seen: string[] = [];
+  let toolOutput: unknown;
+  const { support } = supportApp({
+    onRunStart: (event) => {
+      seen.push(`run.start:${event.kind}:${event.name}:${JSON.stringify(event.input)}`);
+    },
+    beforeToolCall: (event) => {
+      seen.push(`tool.before:${event.toolId}:${event.name}`);
+      return { action: "modify", input: { query: "y" } };
+    },
+    afterToolCall: (event) => {
+      seen.push(`tool.after:${event.status}`);
+      toolOutput = event.output;
+    },
+    onTurnEnd: (event) => {
+      seen.push(`turn.end:${event.turn}:${event.finishReason}:${event.toolCalls}`);
+    },
+    onRunEnd: (event) => {
+      seen.push(`run.end:${event.status}:${JSON.stringify(event.output)}`);
+    },
+  });
+
+  const run = await support.start({ question: "where?" });
+  assert.deepEqual(await run.result(), { answer: "done" });
+  assert.deepEqual(seen, [
+    'run.start:function:support:{"question":"where?"}',
+    "turn.end:1:tool_call:1",
+    "tool.before:lookup:support",
+    "tool.after:completed",
+    "turn.end:2:stop:0",
+    'run.end:completed:{"answer":"done"}',
+  ]);
+  assert.deepEqual(toolOutput, { found: { query: "y" } });
+});
+
+test("hooks can veto a tool call or reject a run", async () => {
+  const blocked = supportApp({
+    beforeToolCall: () => ({ action: "block", reason: "lookups are paused" }),
+  });
+  await assert.rejects(blocked.support({ question: "where?" }), (error: unknown) => {
+    const failure = error as { code?: string; status?: number; message?: string };
+    assert.equal(failure.code, "tool_call_blocked");
+    assert.equal(failure.status, 403);
+    assert.equal(failure.message, "lookups are paused");
+    return true;
+  });
+
+  let ended = false;
+  const rejected = supportApp({
+    onRunStart: () => {
+      throw new Error("over quota");
+    },
+    onRunEnd: () => {
+      ended = true;
+    },
+  });
+  await assert.rejects(rejected.support({ question: "where?" }), /over quota/);
+  assert.equal(ended, false);
+});
+
+test("a failing observer hook does not fail the run", async () => {
+  const { support } = supportApp({
+    onTurnEnd: () => {
+      throw new Error("metrics are down");
+    },
+  });
+  assert.deepEqual(await support({ question: "where?" }), { answer: "done" });
+});
+
+test("settled agent turns report turn and run hooks", async () => {
+  const seen: unknown[] = [];
+  const app = flary({
+    hooks: {
+      onTurnEnd: (event) => seen.push(["turn", event.kind, event.name, event.model]),
+      onRunEnd: (event) => seen.push(["run", event.status, event.threadId, event.durationMs]),
+    },
+  });
+  await app.agentTurnEnded({
+    agentId: "support",
+    threadId: "thread_1",
+    status: "completed",
+    model: "openai/gpt-5",
+    durationMs: 40,
+    bindings: {},
+  });
+  assert.deepEqual(seen, [
+    ["turn", "agent", "support", "openai/gpt-5"],
+    ["run", "completed", "thread_1", 40],
+  ]);
+});
+
+test("durable runs end once, after their last attempt settles", async () => {
+  const seen: string[] = [];
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: {
+      tenantId: "tenant_1",
+      userId: "user_1",
+      applicationId: "test_app",
+      roles: ["owner"],
+      scopes: ["functions.run"],
+    },
+    hooks: {
+      onRunStart: (event) => seen.push(`run.start:${event.name}`),
+      onTurnEnd: (event) => seen.push(`turn.end:${event.name}:${event.usage?.totalTokens}`),
+      onRunEnd: (event) =>
+        seen.push(`run.end:${event.name}:${event.status}:${JSON.stringify(event.output)}`),
+    },
+  });
+  const review = app.fn({
+    name: "review",
+    input: z.object({ topic: z.string() }),
+    output: z.string(),
+    run: async ({ topic }, context) => {
+      const decision = await context.waitForEvent<{ approved: boolean }>(
+        "approval",
+        { type: "review.decided" },
+      );
+      return `${topic}:${decision.payload.approved}`;
+    },
+  });
+  const reply = app.fn({
+    name: "reply",
+    input: z.object({ question: z.string() }),
+    output: z.string(),
+    prompt: ({ question }) => question,
+  });
+  const workflows: { __flary: Record<string, unknown>; input: unknown }[] = [];
+  const gateway: FlueAgentGateway = {
+    async send() {
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: "submission_1",
+      };
+    },
+    async wait(_admission, onEvent) {
+      await onEvent({
+        type: "message-completed",
+        conversationId: "conversation_1",
+        messageId: "message_1",
+        usage: {
+          input: 4,
+          output: 2,
+          cacheRead: 0,
+          cacheWrite: 0,
+          totalTokens: 6,
+          cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+        },
+        position: { batch: 1, index: 0 },
+      });
+      return "answered";
+    },
+    async abort() {
+      return { aborted: true };
+    },
+    async invokeWorkflow(_name, input) {
+      workflows.push(input as (typeof workflows)[number]);
+      return {
+        streamUrl: `https://example.com/runs/workflow_${workflows.length}`,
+        offset: "-1",
+        submissionId: `workflow_${workflows.length}`,
+      };
+    },
+    async waitWorkflow(admission) {
+      const envelope = workflows[Number(admission.submissionId.replace("workflow_", "")) - 1]!;
+      return app.invokeFromWorkflow(review, {
+        input: envelope.input,
+        runId: String(envelope.__flary.runId),
+        bindings: {},
+        ...(envelope.__flary.resume
+          ? { resume: envelope.__flary.resume as never }
+          : {}),
+      });
+    },
+  };
+  app.attachRunService(createFlueRunService({
+    repository: new InMemoryFlaryRunRepository(),
+    gateway,
+    pollMs: 1,
+    runEnded: (record) => app.functionRunEnded({ review, reply }, { record, bindings: {} }),
+  }));
+
+  const paused = await review.start({ topic: "billing" });
+  for await (const event of paused.stream()) {
+    if (event.type === "paused") break;
+  }
+  assert.deepEqual(seen, ["run.start:review"]);
+  await paused.sendInput({ type: "review.decided", payload: { approved: true } });
+  assert.equal(await paused.result(), "billing:true");
+  assert.equal(workflows.length, 2);
+
+  const answered = await reply.start({ question: "Why?" });
+  assert.equal(await answered.result(), "answered");
+  assert.deepEqual(seen, [
+    "run.start:review",
+    'run.end:review:completed:"billing:true"',
+    "run.start:reply",
+    "turn.end:reply:6",
+    'run.end:reply:completed:"answered"',
+  ]);
+});
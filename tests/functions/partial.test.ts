@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+import { parsePartialJson } from "../../src/harness/functions/partial.ts";
+import type { ModelAdapter } from "../../src/harness/providers/index.ts";
+
+test("partial JSON keeps complete members and open strings", () => {
+  assert.equal(parsePartialJson("Sure, here"), undefined);
+  assert.deepEqual(parsePartialJson('```json\n{"title": "Rel'), { title: "Rel" });
+  assert.deepEqual(parsePartialJson('{"title": "Release", "count": 12'), {
+    title: "Release",
+  });
+  assert.deepEqual(parsePartialJson('{"done": tr'), {});
+  assert.deepEqual(parsePartialJson('{"tags": ["a", "b"], "n": 3, "x": nu'), {
+    tags: ["a", "b"],
+    n: 3,
+  });
+  assert.deepEqual(parsePartialJson('{"quote": "say \\"hi\\u00'), {
+    quote: 'say "hi',
+  });
+  assert.equal(parsePartialJson('{"a": }'), undefined);
+  assert.equal(
+    Object.getPrototypeOf(parsePartialJson('{"__proto__": {"x": 1}}')),
+    Object.prototype,
+  );
+});
+
+test("prompt function streams partial output before the validated result", async () => {
+  const chunks = ['{"title": "Rel', 'ease notes", "items": ["fix', 'ed login"]}'];
+  const adapter: ModelAdapter = {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: true,
+    async *stream(request) {
+      yield { type: "start", responseId: "response-1", model: request.model };
+      for (const delta of chunks) {
+        yield { type: "text_delta", responseId: "response-1", delta };
+      }
+      yield {
+        type: "finish",
+        responseId: "response-1",
+        response: {
+          id: "response-1",
+          model: request.model,
+          content: chunks.join(""),
+          toolCalls: [],
+          finishReason: "stop",
+        },
+      };
+    },
+    async complete() {
+      throw new Error("A streamed run must not use complete()");
+    },
+  };
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const summarize = app.fn({
+    name: "summarize",
+    input: z.object({ text: z.string() }),
+    output: z.object({ title: z.string(), items: z.array(z.string()) }),
+    prompt: ({ text }) => `Summarize: ${text}`,
+  });
+
+  const events: FlaryEvent<{ title: string; items: string[] }>[] = [];
+  for await (const event of summarize.stream({ text: "changelog" })) {
+    events.push(event);
+  }
+  assert.deepEqual(
+    events.flatMap((event) => event.type === "partial" ? [event.output] : []),
+    [
+      { title: "Rel" },
+      { title: "Release notes", items: ["fix"] },
+      { title: "Release notes", items: ["fixed login"] },
+    ],
+  );
+  const output = events.find((event) => event.type === "output");
+  assert.deepEqual(output?.type === "output" ? output.output : undefined, {
+    title: "Release notes",
+    items: ["fixed login"],
+  });
+});
@@ -0,0 +1,221 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { flary, z } from "../../src/harness/functions/index.ts";
+import { buildPromptManifest } from "../../src/harness/prompts/manifest.ts";
+
+const manifest = await buildPromptManifest(
+  [
+    {
+      path: "/repo/prompts/support/answer.prompt.md",
+      content: `---
+model: anthropic/claude-sonnet
+thinking: high
+tools: [docs.search]
+input:
+  customer.name: string
+  question: string
+limits:
+  steps: 4
+  minutes: 2
+---
+Answer {{customer.name}}: {{question}}`,
+    },
+    {
+      path: "/repo/prompts/support/answer-short.prompt.md",
+      content: `---
+model: anthropic/claude-sonnet
+thinking: high
+tools: [docs.search]
+limits:
+  steps: 4
+  minutes: 2
+---
+Answer {{customer.name}} in one line: {{question}}`,
+    },
+    {
+      path: "/repo/prompts/support/agent.prompt.md",
+      content: `---
+model: openai/gpt-5-mini
+---
+Help the customer politely.`,
+    },
+  ],
+  { rootDir: "/repo/prompts" },
+);
+
+test("a manifest prompt renders the function input and sets its model and limits", async () => {
+  const seen: { model: string; prompt: string }[] = [];
+  const app = flary({
+    model: "openai/gpt-5",
+    prompts: manifest,
+    prompt: async ({ model, prompt }) => {
+      seen.push({ model, prompt });
+      return "ok";
+    },
+  });
+  const docs = app.fn({
+    name: "docs",
+    input: z.object({ query: z.string() }),
+    output: z.string(),
+    run: ({ query }) => query,
+  });
+  const billing = app.fn({
+    name: "billing",
+    input: z.object({ id: z.string() }),
+    output: z.string(),
+    run: ({ id }) => id,
+  });
+  const answer = app.fn({
+    name: "answer",
+    input: z.object({
+      customer: z.object({ name: z.string(), plan: z.string() }),
+      question: z.string(),
+    }),
+    output: z.string(),
+    tools: app.tools({ docs, billing }),
+    limits: { steps: 2 },
+    prompt: app.prompt("support/answer"),
+  });
+
+  assert.equal(answer.definition.model, "anthropic/claude-sonnet");
+  assert.equal(answer.definition.thinking, "high");
+  assert.deepEqual(answer.definition.tools?.names, ["docs"]);
+  assert.deepEqual(answer.definition.limits, { steps: 2, timeoutMs: 120_000 });
+  assert.equal(
+    await answer({ customer: { name: "Ada", plan: "pro" }, question: "How do I upgrade?" }),
+    "ok",
+  );
+  assert.deepEqual(seen, [
+    { model: "anthropic/claude-sonnet", prompt: "Answer Ada: How do I upgrade?" },
+  ]);
+  assert.throws(() => app.prompt("support/missing"), { code: "prompt_not_found" });
+  assert.throws(
+    () => app.fn({
+      input: z.object({ customer: z.object({ name: z.string() }), question: z.string() }),
+      output: z.string(),
+      model: "openai/gpt-5",
+      tools: app.tools({ docs }),
+      prompt: app.prompt("support/answer"),
+    }),
+    { code: "prompt_settings_conflict" },
+  );
+  assert.throws(
+    () => app.fn({
+      input: z.object({ customer: z.object({ name: z.string() }), question: z.string() }),
+      output: z.string(),
+      tools: app.tools({ billing }),
+      prompt: app.prompt("support/answer"),
+    }),
+    { code: "prompt_tools_missing" },
+  );
+});
+
+test("the declared prompt input must match the function input schema", () => {
+  const app = flary({ prompts: manifest });
+  const tools = app.tools({
+    docs: app.fn({
+      name: "docs",
+      input: z.object({ query: z.string() }),
+      output: z.string(),
+      run: ({ query }) => query,
+    }),
+  });
+  for (const [input, message] of [
+    [z.object({ question: z.string() }), /'customer\.name', which is not in the input/],
+    [
+      z.object({ customer: z.object({ name: z.string() }).optional(), question: z.string() }),
+      /'customer\.name', which is optional in the input/,
+    ],
+    [
+      z.object({ customer: z.object({ name: z.number() }), question: z.string() }),
+      /'customer\.name', which is not string in the input/,
+    ],
+  ] as const) {
+    assert.throws(
+      () => app.fn({ input, output: z.string(), tools, prompt: app.prompt("support/answer") }),
+      (error: Error & { code?: string }) =>
+        error.code === "prompt_input_mismatch" && message.test(error.message),
+    );
+  }
+  assert.throws(
+    () => app.agent({ name: "support", instructions: app.prompt("support/answer") }),
+    { code: "prompt_input_mismatch" },
+  );
+});
+
+test("a rollout assigns each user a stable prompt variant", async () => {
+  const prompts: string[] = [];
+  const app = flary({
+    runtime: "local",
+    auth: ({ request }) => ({ tenantId: "tenant_1", userId: request!.headers.get("x-user")! }),
+    prompts: manifest,
+    prompt: async ({ prompt }) => {
+      prompts.push(prompt);
+      return "ok";
+    },
+  });
+  const rollout = {
+    rolloutId: "short_answers",
+    scope: "user" as const,
+    variants: [
+      { id: "control", revisionId: "support/answer", allocationBasisPoints: 5_000 },
+      { id: "short", revisionId: "support/answer-short", allocationBasisPoints: 5_000 },
+    ],
+  };
+  const answer = app.fn({
+    name: "answer",
+    input: z.object({ customer: z.object({ name: z.string() }), question: z.string() }),
+    output: z.string(),
+    tools: app.tools({
+      docs: app.fn({
+        name: "docs",
+        input: z.object({ query: z.string() }),
+        output: z.string(),
+        run: ({ query }) => query,
+      }),
+    }),
+    prompt: app.prompt("support/answer", { rollout }),
+  });
+  const worker = app.serve({ answer });
+  const call = async (user: string) => {
+    const response = await worker.request("http://local/functions/answer", {
+      method: "POST",
+      headers: { "x-user": user },
+      body: JSON.stringify({ customer: { name: "Ada" }, question: "Hi?" }),
+    });
+    assert.equal(response.status, 200);
+  };
+  const variants = new Map<string, string>();
+  for (let user = 0; user < 20; user += 1) {
+    await call(`user_${user}`);
+    await call(`user_${user}`);
+    const [first, second] = prompts.splice(0);
+    assert.equal(first, second);
+    variants.set(`user_${user}`, first!);
+  }
+  assert.deepEqual(
+    new Set(variants.values()),
+    new Set(["Answer Ada: Hi?", "Answer Ada in one line: Hi?"]),
+  );
+  assert.throws(
+    () => app.prompt("support/answer", {
+      rollout: {
+        ...rollout,
+        variants: [
+          { id: "control", revisionId: "support/answer", allocationBasisPoints: 5_000 },
+          { id: "agent", revisionId: "support/agent", allocationBasisPoints: 5_000 },
+        ],
+      },
+    }),
+    { code: "prompt_variant_mismatch" },
+  );
+});
+
+test("agent instructions from a prompt set the agent model and revision", () => {
+  const app = flary({ prompts: manifest });
+  const support = app.agent({ name: "support", instructions: app.prompt("support/agent") });
+  assert.equal(support.definition.model, "openai/gpt-5-mini");
+  const plain = flary().agent({ name: "support", instructions: "Help the customer politely." });
+  assert.notEqual(support.revision, plain.revision);
+});
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import { flary } from "../../src/harness/functions/index.ts";
+import type { ModelAdapter } from "../../src/harness/providers/index.ts";
+
+function answering(totalTokens: number): ModelAdapter {
+  return {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: false,
+    async *stream() {
+      throw new Error("The test adapter does not stream");
+    },
+    async complete(request) {
+      return {
+        id: "response",
+        model: request.model,
+        content: "ok",
+        toolCalls: [],
+        finishReason: "stop",
+        usage: { inputTokens: totalTokens / 2, outputTokens: totalTokens / 2, totalTokens },
+      };
+    },
+  };
+}
+
+test("requests per minute return a structured 429 and the usage endpoint", async () => {
+  const app = flary({
+    runtime: "local",
+    auth: ({ request }) => ({
+      tenantId: "tenant_1",
+      userId: request!.headers.get("x-user") ?? "anonymous",
+    }),
+    quotas: { user: { requestsPerMinute: 2 } },
+  });
+  const greet = app.fn({
+    input: z.object({ name: z.string() }),
+    output: z.string(),
+    run: ({ name }) => `Hello ${name}`,
+  });
+  const worker = app.serve({ greet });
+  const call = (user: string) =>
+    worker.request("http://local/functions/greet", {
+      method: "POST",
+      headers: { "x-user": user },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+
+  assert.equal((await call("ada")).status, 200);
+  assert.equal((await call("ada")).status, 200);
+  const limited = await call("ada");
+  assert.equal(limited.status, 429);
+  const retryAfter = Number(limited.headers.get("retry-after"));
+  assert.ok(retryAfter >= 1 && retryAfter <= 60);
+  assert.deepEqual(await limited.json(), {
+    error: {
+      type: "quota_exceeded",
+      message: "The user quota for requestsPerMinute is exhausted.",
+      details: {
+        scope: "user",
+        key: "tenant_1/ada",
+        limit: "requestsPerMinute",
+        retryAfterSeconds: retryAfter,
+      },
+    },
+  });
+  // Another user of the same tenant keeps its own counter.
+  assert.equal((await call("grace")).status, 200);
+
+  const usage = await worker.request("http://local/quota", {
+    headers: { "x-user": "ada" },
+  });
+  assert.equal(usage.status, 200);
+  const [user] = ((await usage.json()) as {
+    quotas: { scope: string; used: { requestsPerMinute: number }; remaining: unknown }[];
+  }).quotas;
+  assert.equal(user?.scope, "user");
+  assert.equal(user?.used.requestsPerMinute, 2);
+  assert.deepEqual(user?.remaining, { requestsPerMinute: 0 });
+});
+
+test("a run holds a concurrent slot until it settles and charges its tokens", async () => {
+  let open!: () => void;
+  const gate = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  const identity = { tenantId: "tenant_1", userId: "user_1" };
+  const app = flary({
+    runs: { mode: "ephemeral" },
+    provider: answering(100),
+    model: "custom/writer",
+    defaultIdentity: identity,
+    quotas: { agent: { concurrentRuns: 1, dailyTokens: 150 } },
+  });
+  const slow = app.fn({
+    name: "slow",
+    input: z.object({}),
+    output: z.string(),
+    run: async () => {
+      await gate;
+      return "done";
+    },
+  });
+  const write = app.fn({
+    name: "write",
+    input: z.object({ topic: z.string() }),
+    output: z.string(),
+    prompt: ({ topic }) => `Write about ${topic}`,
+  });
+
+  const running = await slow.start({});
+  await assert.rejects(slow.start({}), (error: unknown) => {
+    const failure = error as { code?: string; status?: number; details?: Record<string, unknown> };
+    assert.equal(failure.code, "quota_exceeded");
+    assert.equal(failure.status, 429);
+    assert.equal(failure.details?.limit, "concurrentRuns");
+    assert.equal(failure.details?.retryAfterSeconds, 5);
+    return true;
+  });
+  open();
+  assert.equal(await running.result(), "done");
+  assert.equal(await (await slow.start({})).result(), "done");
+
+  assert.equal(await write({ topic: "tides" }), "ok");
+  assert.equal(await write({ topic: "moons" }), "ok");
+  await assert.rejects(write({ topic: "stars" }), (error: unknown) => {
+    assert.equal((error as { details?: Record<string, unknown> }).details?.limit, "dailyTokens");
+    return true;
+  });
+  const [usage] = await app.quotaUsage({ identity, name: "write" });
+  assert.equal(usage?.key, "tenant_1/write");
+  assert.equal(usage?.used.dailyTokens, 200);
+  assert.equal(usage?.used.concurrentRuns, 0);
+});
+
+test("a thread turn holds its slot until the turn observer releases it", async () => {
+  const app = flary({
+    model: "openai/gpt-5",
+    defaultIdentity: { tenantId: "tenant", userId: "user" },
+    quotas: { tenant: { concurrentRuns: 1 } },
+  });
+  app.agent({ name: "coder", instructions: "Work on the repository." });
+  const admit = (admissionId: string) =>
+    app.admitAgentTurn({
+      agentId: "coder",
+      tenantId: "tenant",
+      threadId: "thread_1",
+      admissionId,
+      actor: { id: "user" },
+      message: "Next step.",
+      bindings: {},
+    });
+
+  assert.equal((await admit("turn_1")).blocked, false);
+  await assert.rejects(
+    admit("turn_2"),
+    (error: any) =>
+      error.code === "quota_exceeded" && error.details.retryAfterSeconds === 5,
+  );
+
+  await app.agentTurnEnded({
+    agentId: "coder",
+    tenantId: "tenant",
+    threadId: "thread_1",
+    admissionId: "turn_1",
+    status: "completed",
+    durationMs: 10,
+    usage: { tokens: 40, costUsd: 0 },
+    bindings: {},
+  });
+  assert.equal((await admit("turn_3")).blocked, false);
+  const [tenant] = await app.quotaUsage({ identity: { tenantId: "tenant" } });
+  assert.equal(tenant?.used.dailyTokens, 40);
+});
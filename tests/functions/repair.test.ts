@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+import type {
+  ModelAdapter,
+  NormalizedModelRequest,
+} from "../../src/harness/providers/index.ts";
+
+function scriptedAdapter(responses: readonly string[]): {
+  readonly adapter: ModelAdapter;
+  readonly requests: NormalizedModelRequest[];
+} {
+  const requests: NormalizedModelRequest[] = [];
+  const adapter: ModelAdapter = {
+    id: "test-provider",
+    provider: "custom",
+    supportsStreaming: false,
+    async *stream() {
+      throw new Error("The test adapter does not stream");
+    },
+    async complete(request) {
+      requests.push(request);
+      const content = responses[requests.length - 1];
+      if (content === undefined) throw new Error("No scripted response left");
+      return {
+        id: `response-${requests.length}`,
+        model: request.model,
+        content,
+        toolCalls: [],
+        finishReason: "stop",
+      };
+    },
+  };
+  return { adapter, requests };
+}
+
+const Summary = z.object({ title: z.string(), count: z.number() });
+
+test("prompt function repairs output that fails its schema", async () => {
+  const { adapter, requests } = scriptedAdapter([
+    '{"title": "Release"}',
+    '{"title": "Release", "count": 2}',
+  ]);
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const summarize = app.fn({
+    name: "summarize",
+    input: z.object({ text: z.string() }),
+    output: { schema: Summary, repair: { attempts: 2, model: "custom/repair-model" } },
+    prompt: ({ text }) => `Summarize: ${text}`,
+  });
+
+  const events: FlaryEvent<z.infer<typeof Summary>>[] = [];
+  for await (const event of summarize.stream({ text: "changelog" })) {
+    events.push(event);
+  }
+  const output = events.find((event) => event.type === "output");
+  assert.deepEqual(output?.type === "output" ? output.output : undefined, {
+    title: "Release",
+    count: 2,
+  });
+  const repairs = events.flatMap((event) =>
+    event.type === "progress" && event.event.type === "output.repair"
+      ? [event.event.payload]
+      : []
+  );
+  assert.deepEqual(repairs, [{
+    attempt: 1,
+    maxAttempts: 2,
+    model: "custom/repair-model",
+    issues: [{ path: "count", message: repairs[0]!.issues[0]!.message }],
+  }]);
+  assert.equal(requests.length, 2);
+  assert.equal(requests[1]!.model, "repair-model");
+  const followUp = requests[1]!.messages.at(-1);
+  assert.equal(followUp?.role, "user");
+  assert.match(String(followUp?.content), /^Your previous answer does not match/);
+});
+
+test("prompt function fails with the schema issues once repairs run out", async () => {
+  const { adapter, requests } = scriptedAdapter(["not json", "still not json"]);
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const summarize = app.fn({
+    input: z.object({ text: z.string() }),
+    output: { schema: Summary, repair: { attempts: 1 } },
+    prompt: ({ text }) => `Summarize: ${text}`,
+  });
+
+  await assert.rejects(summarize({ text: "changelog" }), (error: unknown) => {
+    const failure = error as {
+      code?: string;
+      status?: number;
+      details?: { attempts: number; issues: unknown[] };
+    };
+    assert.equal(failure.code, "output_validation_failed");
+    assert.equal(failure.status, 502);
+    assert.deepEqual(failure.details, {
+      attempts: 1,
+      issues: [{ path: "", message: "The response is not valid JSON." }],
+    });
+    return true;
+  });
+  assert.equal(requests.length, 2);
+});
+
+test("without a repair policy invalid output keeps its schema error", async () => {
+  const { adapter } = scriptedAdapter(['{"title": "Release"}']);
+  const app = flary({ provider: adapter, runs: { mode: "ephemeral" } });
+  const summarize = app.fn({
+    input: z.object({ text: z.string() }),
+    output: Summary,
+    prompt: ({ text }) => `Summarize: ${text}`,
+  });
+
+  await assert.rejects(summarize({ text: "changelog" }), z.ZodError);
+});
+
+test("durable prompt functions repair output before the run stores it", async () => {
+  const repository = new InMemoryFlaryRunRepository();
+  const sent: { message: string; model?: string }[] = [];
+  const answers = ['{"title": "Release"}', '{"title": "Release", "count": 2}'];
+  const gateway: FlueAgentGateway = {
+    async send(_agent, _instance, message, options = {}) {
+      sent.push({ message, ...(options.model ? { model: options.model } : {}) });
+      return {
+        streamUrl: "https://example.com/stream",
+        offset: "0",
+        submissionId: `submission_${sent.length}`,
+      };
+    },
+    async wait() {
+      return answers[sent.length - 1];
+    },
+    async abort() {
+      return { aborted: true };
+    },
+  };
+  const app = flary({
+    applicationId: "test_app",
+    defaultIdentity: {
+      tenantId: "tenant_1",
+      userId: "user_1",
+      applicationId: "test_app",
+      roles: ["owner"],
+      scopes: ["functions.run"],
+    },
+  });
+  const summarize = app.fn({
+    name: "summarize",
+    input: z.object({ text: z.string() }),
+    output: { schema: Summary, repair: { attempts: 1, model: "openai/gpt-5-mini" } },
+    prompt: ({ text }) => `Summarize: ${text}`,
+  });
+  app.attachRunService(createFlueRunService({
+    repository,
+    gateway,
+    pollMs: 1,
+    settleOutput: (input) => app.settleRunOutput({ summarize }, { ...input, bindings: {} }),
+  }));
+
+  const run = await summarize.start({ text: "changelog" });
+  assert.deepEqual(await run.result(), { title: "Release", count: 2 });
+  assert.equal(sent.length, 2);
+  assert.equal(sent[1]!.model, "openai/gpt-5-mini");
+  assert.match(sent[1]!.message, /^Your previous answer does not match/);
+  const stored = await repository.get(run.runId);
+  assert.deepEqual(stored?.result.output, { title: "Release", count: 2 });
+  const events = await repository.events(run.runId, 0);
+  const repair = events.find((event) => event.type === "output.repair");
+  assert.equal(repair?.type === "output.repair" ? repair.payload.attempt : undefined, 1);
+
+  answers.splice(0, answers.length, "not json", "still not json");
+  sent.length = 0;
+  const failing = await summarize.start({ text: "changelog" });
+  await assert.rejects(failing.result());
+  const failed = await repository.get(failing.runId);
+  assert.equal(failed?.result.error?.code, "output_validation_failed");
+  assert.equal(sent.length, 2);
+});
+
+test("repair is rejected on run functions", () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  assert.throws(
+    () =>
+      app.fn({
+        input: z.object({}),
+        output: { schema: z.string(), repair: { attempts: 1 } },
+        run: () => "done",
+      } as never),
+    (error: unknown) =>
+      (error as { code?: string }).code === "invalid_output_repair",
+  );
+});
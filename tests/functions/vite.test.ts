@@ -36,7 +36,11 @@ test("the Vite plugin emits populated Flue runtime entries", () => {
 
   assert.deepEqual(
     chunks.map(({ fileName }) => fileName).sort(),
-    ["flary/agents/support.js", "flary/workflows/native.js"],
+    [
+      "flary/agents/support.js",
+      "flary/workflows/flary-batch.js",
+      "flary/workflows/native.js",
+    ],
   );
   const supportId = chunks.find(({ fileName }) =>
     fileName.includes("support")
@@ -45,6 +49,10 @@ test("the Vite plugin emits populated Flue runtime entries", () => {
   const source = plugin.load?.(supportId) ?? "";
   assert.match(source, /defineFlaryFunctionAgent/);
   assert.match(source, /flaryInternalRoute/);
+  const batchId = chunks.find(({ fileName }) =>
+    fileName.includes("flary-batch")
+  )!.id;
+  assert.match(plugin.load?.(batchId) ?? "", /defineFlaryBatchWorkflow\(functions\)/);
 
   const assets = new Map<string, string>();
   plugin.generateBundle.call({
@@ -76,6 +84,7 @@ test("the Vite plugin emits populated Flue runtime entries", () => {
   };
   assert.ok(wrangler.exports?.FlaryRuntime);
   assert.ok(wrangler.exports?.FlaryWorkspace);
+  assert.ok(wrangler.exports?.FlueFlaryBatchWorkflow);
   assert.ok(
     (wrangler as any).durable_objects.bindings.some(
       (binding: { name: string }) => binding.name === "FLARY_WORKSPACE",
@@ -379,13 +388,18 @@ test("the Vite plugin generates Flue Durable Object entry and bindings", (t) =>
   assert.match(authoredHost, /authoredResponse\.status !== 404/);
   assert.match(authoredHost, /attachThreadService/);
   assert.match(authoredHost, /resolveModel: userApp\.options\.resolveModel/);
-  assert.match(authoredHost, /resolveTurnContext: userApp\.options\.resolveTurnContext/);
-  assert.match(authoredHost, /handleFlarySessionProjectionQueue\(\{ messages: batch\.messages, env, resolveModel: userApp\.options\.resolveModel, resolveTurnContext: userApp\.options\.resolveTurnContext \}\)/);
+  assert.match(authoredHost, /const resolveTurnContext = \(input: Parameters<typeof userApp\.agentTurnContext>\[0\]\) =>\n  userApp\.agentTurnContext\(input\);/);
+  assert.match(authoredHost, /createCloudflareThreadService\(\{[\s\S]*?resolveTurnContext,\n/);
+  assert.match(authoredHost, /handleFlarySessionProjectionQueue\(\{ messages: batch\.messages, env, resolveModel: userApp\.options\.resolveModel, resolveTurnContext \}\)/);
   assert.match(authoredHost, /\.serve\(functions\)/);
   assert.match(authoredHost, /const apiPrefix = "\/custom-api"/);
   assert.doesNotMatch(authoredHost, /flueApp|\/api\/flue/);
   assert.match(authoredHost, /batch\.queue === "flary-thread-purge"/);
   assert.match(authoredHost, /batch\.queue === "flary-session-projection"/);
+  assert.match(
+    authoredHost,
+    /batch\.queue === "flary-run-callbacks"\) await handleFlaryRunCallbackQueue/,
+  );
   assert.doesNotMatch(authoredHost, /batch\.queue\?\.includes/);
   const cloudflareHost = fs.readFileSync(path.join(root, ".flue/cloudflare.ts"), "utf8");
   assert.match(cloudflareHost, /export \{ CodemodeRuntime \} from "@cloudflare\/codemode"/);
@@ -396,7 +410,13 @@ test("the Vite plugin generates Flue Durable Object entry and bindings", (t) =>
   assert.match(cloudflareHost, /fetch: _authoredFetch, queue: _authoredQueue, \.\.\.authoredHandlers/);
   assert.match(cloudflareHost, /\.\.\.authoredHandlers/);
   assert.match(cloudflareHost, /_authoredQueue\.call\(customWorker, batch, env, ctx\)/);
-  assert.match(cloudflareHost, /handleFlarySessionProjectionQueue\(\{ messages: batch\.messages, env, resolveModel: userApp\.options\.resolveModel, resolveTurnContext: userApp\.options\.resolveTurnContext \}\)/);
+  assert.match(cloudflareHost, /userApp\.agentTurnContext\(input\)/);
+  assert.match(cloudflareHost, /userApp\.describeThread\(input\)/);
+  assert.match(
+    cloudflareHost,
+    /handleFlaryThreadControlObjectRequest\(\{[\s\S]*?describeThread,\n/,
+  );
+  assert.match(cloudflareHost, /handleFlarySessionProjectionQueue\(\{ messages: batch\.messages, env, resolveModel: userApp\.options\.resolveModel, resolveTurnContext \}\)/);
   assert.match(
     cloudflareHost,
     /async alarm\(\): Promise<void> \{[\s\S]*?handleFlaryThreadControlAlarm\(\{[\s\S]*?webSockets:/,
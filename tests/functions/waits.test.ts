@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+  type FlueAgentGateway,
+} from "../../src/harness/flue/service.ts";
+import { flary, type FlaryEvent } from "../../src/harness/functions/index.ts";
+
+const identity = {
+  tenantId: "tenant_1",
+  userId: "user_1",
+  applicationId: "test_app",
+  roles: ["owner"],
+  scopes: ["functions.run"],
+} as const;
+
+test("waitForEvent pauses a run until sendInput delivers the event", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  let drafts = 0;
+  const draft = app.fn({
+    input: z.object({ topic: z.string() }),
+    output: z.string(),
+    run: ({ topic }) => {
+      drafts += 1;
+      return `Draft about ${topic}`;
+    },
+  });
+  const review = app.fn({
+    name: "review",
+    input: z.object({ topic: z.string() }),
+    output: z.object({ text: z.string(), approved: z.boolean() }),
+    run: async ({ topic }, context) => {
+      const text = await context.step("draft", draft, { topic });
+      const decision = await context.waitForEvent<{ approved: boolean }>(
+        "approval",
+        { type: "review.decided" },
+      );
+      return { text, approved: decision.payload.approved };
+    },
+  });
+
+  const run = await review.start({ topic: "billing" });
+  const events: FlaryEvent<unknown>[] = [];
+  const observed = (async () => {
+    for await (const event of run.stream()) events.push(event);
+  })();
+  await waitFor(() => run.status === "paused");
+  const paused = events.find((event) => event.type === "paused");
+  assert.deepEqual(paused?.type === "paused" ? paused.wait : undefined, {
+    kind: "event",
+    name: "approval",
+    eventType: "review.decided",
+  });
+
+  await run.sendInput({ type: "review.decided", payload: { approved: true } });
+  assert.deepEqual(await run.result(), {
+    text: "Draft about billing",
+    approved: true,
+  });
+  await observed;
+  assert.equal(drafts, 1);
+  assert.deepEqual(
+    events.map((event) => event.type).filter((type) => type !== "progress"),
+    ["queued", "started", "paused", "resumed", "output"],
+  );
+});
+
+test("sleep resumes a run after the duration and replays earlier steps", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  let calls = 0;
+  const count = app.fn({
+    input: z.object({}),
+    output: z.number(),
+    run: () => {
+      calls += 1;
+      return calls;
+    },
+  });
+  const delayed = app.fn({
+    name: "delayed",
+    input: z.object({}),
+    output: z.number(),
+    run: async (_input, context) => {
+      const value = await context.step("count", count, {});
+      await context.sleep("cooldown", "20ms");
+      return value;
+    },
+  });
+
+  const run = await delayed.start({});
+  assert.equal(await run.result(), 1);
+  assert.equal(calls, 1);
+});
+
+test("waitForEvent fails the run when its timeout passes", async () => {
+  const app = flary({ runs: { mode: "ephemeral" } });
+  const waiting = app.fn({
+    name: "waiting",
+    input: z.object({}),
+    output: z.string(),
+    run: async (_input, context) => {
+      await context.waitForEvent("reply", { type: "reply", timeout: 10 });
+      return "replied";
+    },
+  });
+
+  const run = await waiting.start({});
+  await assert.rejects(
+    run.result(),
+    (error: unknown) =>
+      (error as { code?: string }).code === "wait_for_event_timeout",
+  );
+});
+
+test("paused workflow runs store their journal and resume on a matching event", async () => {
+  const app = flary({ applicationId: "test_app", defaultIdentity: identity });
+  let drafts = 0;
+  const draft = app.fn({
+    input: z.object({ topic: z.string() }),
+    output: z.string(),
+    run: ({ topic }) => {
+      drafts += 1;
+      return `Draft about ${topic}`;
+    },
+  });
+  const review = app.fn({
+    name: "review",
+    input: z.object({ topic: z.string() }),
+    output: z.object({ text: z.string(), approved: z.boolean() }),
+    run: async ({ topic }, context) => {
+      const text = await context.step("draft", draft, { topic });
+      const decision = await context.waitForEvent<{ approved: boolean }>(
+        "approval",
+        { type: "review.decided" },
+      );
+      return { text, approved: decision.payload.approved };
+    },
+  });
+
+  const admitted: { __flary: Record<string, unknown>; input: unknown }[] = [];
+  const gateway: FlueAgentGateway = {
+    async send() {
+      throw new Error("A native function must not use agent admission");
+    },
+    async wait() {
+      throw new Error("A native function must not use agent waiting");
+    },
+    async abort() {
+      return { aborted: true };
+    },
+    async invokeWorkflow(_name, input) {
+      admitted.push(input as (typeof admitted)[number]);
+      return {
+        streamUrl: `https://example.com/runs/workflow_${admitted.length}`,
+        offset: "-1",
+        submissionId: `workflow_${admitted.length}`,
+      };
+    },
+    async waitWorkflow(admission) {
+      const index = Number(admission.submissionId.replace("workflow_", ""));
+      const envelope = admitted[index - 1]!;
+      return app.invokeFromWorkflow(review, {
+        input: envelope.input,
+        runId: String(envelope.__flary.runId),
+        bindings: {},
+        ...(envelope.__flary.resume
+          ? { resume: envelope.__flary.resume as never }
+          : {}),
+      });
+    },
+  };
+  app.attachRunService(createFlueRunService({
+    repository: new InMemoryFlaryRunRepository(),
+    gateway,
+    createRunId: () => "run_review_1",
+    pollMs: 1,
+  }));
+
+  const run = await review.start({ topic: "billing" });
+  for await (const event of run.stream()) {
+    if (event.type === "paused") break;
+  }
+  assert.equal(run.status, "paused");
+  await assert.rejects(
+    run.sendInput("approve"),
+    (error: unknown) =>
+      (error as { code?: string }).code === "invalid_run_event",
+  );
+  await run.sendInput({ type: "review.decided", payload: { approved: true } });
+  assert.deepEqual(await run.result(), {
+    text: "Draft about billing",
+    approved: true,
+  });
+  assert.equal(admitted.length, 2);
+  assert.equal(drafts, 1);
+  assert.deepEqual(
+    (admitted[1]!.__flary.resume as { events: { type: string }[] }).events
+      .map((event) => event.type),
+    ["review.decided"],
+  );
+});
+
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+): Promise<void> {
+  for (let attempt = 0; attempt < 200; attempt += 1) {
+    if (await condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error("The condition was not met in time");
+}
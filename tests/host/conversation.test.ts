@@ -40,6 +40,41 @@ test("message admission exposes safe server timing", async () => {
   );
 });
 
+test("message admission names the calling user as the author", async () => {
+  const authors: unknown[] = [];
+  const service = {
+    async submit(_target, input) {
+      authors.push(input.author);
+      return { streamUrl: "/flue", offset: "0", submissionId: "submission_author" };
+    },
+  } as Pick<FlaryThreadHostService, "submit"> as FlaryThreadHostService;
+  const router = createFlaryHostRouter<object>({
+    authorize: ({ request }) => {
+      const user = request.headers.get("x-user")!;
+      return {
+        organizationId: "tenant_1",
+        actor: { id: user, kind: user === "worker" ? "service" : "user" },
+      };
+    },
+    service,
+  });
+  const send = (user: string, body: Record<string, unknown>) =>
+    router.request("/apps/docs/threads/thread_1/messages", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-user": user },
+      body: JSON.stringify({ message: "Hello", ...body }),
+    });
+
+  await send("ada", { author: { id: "grace", kind: "user" } });
+  await send("worker", { author: { id: "grace", kind: "user" } });
+  await send("worker", {});
+  assert.deepEqual(authors, [
+    { id: "ada", kind: "user" },
+    { id: "grace", kind: "user" },
+    { id: "worker", kind: "service" },
+  ]);
+});
+
 test("the host reads a conversation only after tenant authorization", async () => {
   const calls: string[] = [];
   const service = {
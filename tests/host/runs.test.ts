@@ -6,6 +6,11 @@ import {
   type FlaryRunService,
   type TrustedRunContext,
 } from "../../src/harness/host/runs.js";
+import { createFlaryRunClient } from "../../src/harness/client/runs.js";
+import {
+  InMemoryFlaryRunRepository,
+  createFlueRunService,
+} from "../../src/harness/flue/service.js";
 import type {
   CancelRunRequest,
   CreateRunRequest,
@@ -147,3 +152,63 @@ test("run event replay accepts Last-Event-ID and emits normalized SSE", async ()
   assert.match(body, /id: 8/);
   assert.match(body, /event: message\.delta/);
 });
+
+test("run list filters the tenant's runs and pages with a cursor", async () => {
+  let next = 0;
+  const service = createFlueRunService({
+    repository: new InMemoryFlaryRunRepository(),
+    gateway: {
+      async send() {
+        return { streamUrl: "https://example.com/stream", offset: "0", submissionId: "s" };
+      },
+      async wait() {
+        return new Promise(() => undefined);
+      },
+      async abort() {
+        return { aborted: true };
+      },
+    },
+    createRunId: () => `run_${++next}`,
+  });
+  for (const [agentId, plan] of [["research", "pro"], ["research", "free"], ["triage", "pro"]]) {
+    await service.create({ ...trusted, agentId }, {
+      requestId: `request_${agentId}_${plan}`,
+      channelId: agentId!,
+      input: "Hello",
+      metadata: { plan: plan!, flaryFunction: { functionId: agentId! } },
+    });
+  }
+  await service.create({ ...trusted, tenantId: "tenant_other" }, {
+    requestId: "request_other",
+    channelId: "research",
+    input: "Hello",
+  });
+  const router = createFlaryRunRouter<object>({
+    resolveContext: () => trusted,
+    service,
+  });
+  const client = createFlaryRunClient({
+    baseUrl: "http://local",
+    fetch: (input, init) => router.request(String(input).slice("http://local".length), init),
+  });
+
+  const all = await client.list({ status: ["queued", "running"] });
+  assert.deepEqual(all.runs.map((run) => run.runId).sort(), ["run_1", "run_2", "run_3"]);
+  assert.deepEqual(all.runs.find((run) => run.runId === "run_1")?.metadata, { plan: "pro" });
+
+  const pro = await client.list({ agentId: "research", metadata: { plan: "pro" } });
+  assert.deepEqual(pro.runs.map((run) => run.runId), ["run_1"]);
+
+  const first = await client.list({ limit: 2 });
+  assert.equal(first.runs.length, 2);
+  const second = await client.list({ limit: 2, cursor: first.nextCursor });
+  assert.equal(second.runs.length, 1);
+  assert.equal(second.nextCursor, undefined);
+  assert.equal(
+    new Set([...first.runs, ...second.runs].map((run) => run.runId)).size,
+    3,
+  );
+
+  const invalid = await router.request("/runs?status=paused");
+  assert.equal(invalid.status, 400);
+});
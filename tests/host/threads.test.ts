@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createFlaryHostRouter,
+  type FlaryThreadHostService,
+} from "../../src/harness/host/index.js";
+
+test("the host router reads thread list filters and edits thread metadata", async () => {
+  const queries: unknown[] = [];
+  const updates: unknown[] = [];
+  const service = {
+    async listPage(_scope, query) {
+      queries.push(query);
+      return { threads: [], nextCursor: "next" };
+    },
+    async updateMetadata(_target, input) {
+      updates.push(input);
+      return undefined as never;
+    },
+  } as Pick<FlaryThreadHostService, "listPage" | "updateMetadata"> as FlaryThreadHostService;
+  const router = createFlaryHostRouter<object>({
+    authorize: () => ({
+      organizationId: "tenant_1",
+      actor: { id: "user_1", kind: "user", version: "1" },
+    }),
+    service,
+  });
+
+  const listed = await router.request(
+    "/apps/crm/threads?tag=billing&tag=vip&metadata.customerId=cus_1" +
+      "&status=active&updatedBefore=2026-03-01T00:00:00.000Z&limit=10&cursor=abc",
+  );
+  assert.equal(listed.status, 200);
+  assert.deepEqual(await listed.json(), { threads: [], nextCursor: "next" });
+  assert.deepEqual(queries, [{
+    tags: ["billing", "vip"],
+    metadata: { customerId: "cus_1" },
+    status: ["active"],
+    updatedBefore: "2026-03-01T00:00:00.000Z",
+    cursor: "abc",
+    limit: 10,
+  }]);
+
+  const edit = (body: unknown) =>
+    router.request("/apps/crm/threads/thread_1/metadata", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  assert.equal(
+    (await edit({ metadata: { ticketId: "T-7", customerId: null }, tags: ["billing", "billing"] }))
+      .status,
+    200,
+  );
+  assert.deepEqual(updates, [{
+    metadata: { ticketId: "T-7", customerId: null },
+    tags: ["billing"],
+  }]);
+  assert.equal((await edit({ metadata: { flaryAdmittedRoles: ["admin"] } })).status, 400);
+  assert.equal((await edit({})).status, 400);
+  assert.equal(updates.length, 1);
+});
+
+test("the host router checks collaborator roles before thread routes", async () => {
+  const calls: string[] = [];
+  const service = {
+    async threadAccess() {
+      return {
+        createdBy: { id: "ada", kind: "user" },
+        collaborators: [{
+          actor: { id: "grace", kind: "user" },
+          role: "viewer",
+          grantedBy: { id: "ada", kind: "user" },
+          grantedAt: "2026-03-01T00:00:00.000Z",
+        }],
+      };
+    },
+    async inspect(target) {
+      calls.push(`inspect:${target.authorization.actor.id}`);
+      return undefined as never;
+    },
+    async comment(target) {
+      calls.push(`comment:${target.authorization.actor.id}`);
+      return {
+        id: "comment_1",
+        text: "Looks good",
+        author: target.authorization.actor,
+        createdAt: "2026-03-01T00:00:00.000Z",
+      };
+    },
+    async sharedConversation(appId, token) {
+      calls.push(`shared:${appId}:${token}`);
+      return { threadId: "thread_1", messages: [] };
+    },
+    async realtimeTicket(target) {
+      calls.push(`realtime:${target.authorization.actor.id}`);
+      return { url: "wss://app.test/realtime?ticket=t", expiresAt: "2026-03-01T00:01:00.000Z" };
+    },
+  } as Pick<
+    FlaryThreadHostService,
+    "threadAccess" | "inspect" | "comment" | "sharedConversation" | "realtimeTicket"
+  > as FlaryThreadHostService;
+  const router = createFlaryHostRouter<object>({
+    authorize: ({ request }) => {
+      const user = request.headers.get("x-user");
+      if (!user) throw new Error("The shared route must not authorize");
+      return {
+        organizationId: "tenant_1",
+        actor: { id: user, kind: user === "worker" ? "service" : "user" },
+      };
+    },
+    service,
+  });
+  const request = (user: string, path: string, init: RequestInit = {}) =>
+    router.request(`/apps/crm/threads/thread_1${path}`, {
+      ...init,
+      headers: { "x-user": user, "content-type": "application/json" },
+    });
+  const comment = { method: "POST", body: JSON.stringify({ text: "Looks good" }) };
+
+  assert.equal((await request("grace", "")).status, 200);
+  const denied = await request("grace", "/comments", comment);
+  assert.equal(denied.status, 403);
+  assert.equal(
+    ((await denied.json()) as { error: { type: string } }).error.type,
+    "thread_access_denied",
+  );
+  assert.equal((await request("ada", "/comments", comment)).status, 201);
+  assert.equal((await request("worker", "/comments", comment)).status, 201);
+  assert.equal((await request("grace", "/realtime-ticket", { method: "POST", body: "{}" })).status, 200);
+  assert.equal((await request("mallory", "")).status, 404);
+  assert.equal((await request("grace", "/collaborators", {
+    method: "POST",
+    body: JSON.stringify({ actorId: "grace", role: "participant" }),
+  })).status, 403);
+
+  const shared = await router.request("/apps/crm/shared/token_1");
+  assert.equal(shared.status, 200);
+  assert.equal(shared.headers.get("cache-control"), "private, no-store");
+  assert.deepEqual(calls, [
+    "inspect:grace",
+    "comment:ada",
+    "comment:worker",
+    "realtime:grace",
+    "shared:crm:token_1",
+  ]);
+});
+
+test("the host router exports a thread as a transcript or an archive", async () => {
+  const requests: unknown[] = [];
+  const service = {
+    async exportSession() {
+      return { format: "flary-thread-archive" } as never;
+    },
+    async exportTranscript(_target, input) {
+      requests.push(input);
+      return input.format === "markdown"
+        ? { format: "markdown", text: "# Thread thread_1\n" }
+        : { format: "openai-messages", messages: [{ role: "user", content: "Hi" }] };
+    },
+  } as Pick<
+    FlaryThreadHostService,
+    "exportSession" | "exportTranscript"
+  > as FlaryThreadHostService;
+  const router = createFlaryHostRouter<object>({
+    authorize: () => ({ organizationId: "tenant_1", actor: { id: "worker", kind: "service" } }),
+    service,
+  });
+  const exported = (query: string) =>
+    router.request(`/apps/crm/threads/thread_1/export${query}`);
+
+  const markdown = await exported("?format=markdown&reasoning=true&redact=true");
+  assert.equal(markdown.headers.get("content-type"), "text/markdown; charset=utf-8");
+  assert.equal(
+    markdown.headers.get("content-disposition"),
+    'attachment; filename="thread_1.md"',
+  );
+  assert.equal(await markdown.text(), "# Thread thread_1\n");
+  assert.deepEqual(await (await exported("?format=openai-messages")).json(), {
+    format: "openai-messages",
+    messages: [{ role: "user", content: "Hi" }],
+  });
+  assert.deepEqual(await (await exported("")).json(), {
+    archive: { format: "flary-thread-archive" },
+  });
+  assert.equal((await exported("?format=pdf")).status, 400);
+  assert.deepEqual(requests, [
+    { format: "markdown", reasoning: true, redact: true },
+    { format: "openai-messages", reasoning: false, redact: false },
+  ]);
+});
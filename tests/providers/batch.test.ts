@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  AnthropicMessagesAdapter,
+  OpenAICompatibleAdapter,
+  supportsModelBatch,
+  type ModelBatchRequest,
+} from "../../src/harness/providers/index.js";
+import { createFakeBatchServer } from "./fake-batch-server.ts";
+
+const requests: ModelBatchRequest[] = ["tides", "moons"].map((topic, index) => ({
+  customId: `item_${index}`,
+  request: {
+    model: "gpt-5",
+    messages: [{ role: "user", content: `Write about ${topic}` }],
+  },
+}));
+
+function respond(body: Record<string, unknown>): string {
+  const text = JSON.stringify(body.messages);
+  if (text.includes("moons")) throw new Error("The moon is not available.");
+  return "Tides rise.";
+}
+
+test("OpenAI batches upload a JSONL file and read the output and error files", async () => {
+  const server = createFakeBatchServer({ respond });
+  const adapter = new OpenAICompatibleAdapter({
+    baseUrl: "https://api.openai.test/v1",
+    apiKey: "key",
+    fetch: server.fetch,
+  });
+  assert.equal(supportsModelBatch(adapter), true);
+  assert.equal(
+    supportsModelBatch(new OpenAICompatibleAdapter({ baseUrl: "https://x.test", provider: "custom" })),
+    false,
+  );
+
+  const created = await adapter.createBatch(requests);
+  assert.equal(created.status, "in_progress");
+  assert.equal(server.submitted[0]?.[0]?.model, "gpt-5");
+  assert.equal("stream" in (server.submitted[0]?.[0] ?? {}), false);
+  assert.equal((await adapter.getBatch(created.id)).status, "in_progress");
+  assert.equal((await adapter.getBatch(created.id)).status, "completed");
+
+  const results = await adapter.batchResults(created.id);
+  const byId = new Map(results.map((result) => [result.customId, result]));
+  const first = byId.get("item_0");
+  assert.ok(first && "response" in first);
+  assert.equal(first.response.content, "Tides rise.");
+  assert.equal(first.response.usage?.totalTokens, 15);
+  const second = byId.get("item_1");
+  assert.ok(second && "error" in second);
+  assert.equal(second.error.code, "invalid_request");
+  assert.equal(second.error.status, 400);
+  assert.deepEqual(server.calls.slice(0, 2), ["POST /files", "POST /batches"]);
+});
+
+test("Anthropic batches submit message params and map errored results", async () => {
+  const server = createFakeBatchServer({ respond, pendingPolls: 0 });
+  const adapter = new AnthropicMessagesAdapter({
+    baseUrl: "https://api.anthropic.test/v1",
+    apiKey: "key",
+    fetch: server.fetch,
+  });
+
+  const created = await adapter.createBatch(requests);
+  assert.equal(server.submitted[0]?.[0]?.max_tokens, 4096);
+  assert.equal((await adapter.getBatch(created.id)).status, "completed");
+  const [first, second] = await adapter.batchResults(created.id);
+  assert.ok(first && "response" in first);
+  assert.equal(first.response.content, "Tides rise.");
+  assert.ok(second && "error" in second);
+  assert.equal(second.error.code, "invalid_request_error");
+  assert.equal(second.error.message, "The moon is not available.");
+
+  const cancelled = await adapter.createBatch(requests);
+  await adapter.cancelBatch(cancelled.id);
+  const [skipped] = await adapter.batchResults(cancelled.id);
+  assert.ok(skipped && "error" in skipped);
+  assert.equal(skipped.error.code, "batch_request_canceled");
+});
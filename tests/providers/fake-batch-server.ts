@@ -0,0 +1,215 @@
+/**
+ * An in-memory stand-in for the OpenAI and Anthropic batch endpoints. Pass
+ * its `fetch` to an adapter. A batch stays in progress for `pendingPolls`
+ * status reads, then every request is answered by `respond`.
+ */
+export interface FakeBatchServerOptions {
+  /** Answer one request body with assistant text. Throw to fail the item. */
+  readonly respond: (body: Record<string, unknown>) => string;
+  readonly pendingPolls?: number;
+}
+
+export interface FakeBatchServer {
+  readonly fetch: typeof fetch;
+  /** `METHOD /path` of every request, in order. */
+  readonly calls: string[];
+  /** Request bodies of every submitted batch. */
+  readonly submitted: Record<string, unknown>[][];
+  /** Bodies sent to the direct completion endpoints. */
+  readonly direct: Record<string, unknown>[];
+}
+
+interface StoredBatch {
+  readonly id: string;
+  readonly kind: "openai" | "anthropic";
+  readonly requests: { readonly customId: string; readonly body: Record<string, unknown> }[];
+  polls: number;
+  cancelled: boolean;
+}
+
+export function createFakeBatchServer(options: FakeBatchServerOptions): FakeBatchServer {
+  const files = new Map<string, string>();
+  const batches = new Map<string, StoredBatch>();
+  const calls: string[] = [];
+  const submitted: Record<string, unknown>[][] = [];
+  const direct: Record<string, unknown>[] = [];
+  let sequence = 0;
+  const pendingPolls = options.pendingPolls ?? 1;
+
+  const answer = (body: Record<string, unknown>):
+    | { readonly ok: true; readonly text: string }
+    | { readonly ok: false; readonly message: string } => {
+    try {
+      return { ok: true, text: options.respond(body) };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+  const status = (batch: StoredBatch): "in_progress" | "ended" | "cancelled" => {
+    if (batch.cancelled) return "cancelled";
+    return batch.polls > pendingPolls ? "ended" : "in_progress";
+  };
+  const openAIBatch = (batch: StoredBatch) => {
+    const state = status(batch);
+    return {
+      id: batch.id,
+      object: "batch",
+      status: state === "ended" ? "completed" : state,
+      ...(state === "ended"
+        ? { output_file_id: `${batch.id}_output`, error_file_id: `${batch.id}_errors` }
+        : {}),
+    };
+  };
+  const anthropicBatch = (batch: StoredBatch) => ({
+    id: batch.id,
+    type: "message_batch",
+    processing_status: status(batch) === "in_progress" ? "in_progress" : "ended",
+  });
+  const chatCompletion = (body: Record<string, unknown>, text: string) => ({
+    id: `chatcmpl_${(sequence += 1)}`,
+    model: body.model,
+    choices: [{ message: { role: "assistant", content: text }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  });
+  const message = (body: Record<string, unknown>, text: string) => ({
+    id: `msg_${(sequence += 1)}`,
+    type: "message",
+    model: body.model,
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: 10, output_tokens: 5 },
+  });
+  const jsonl = (lines: unknown[]) =>
+    new Response(lines.map((line) => JSON.stringify(line)).join("\n"), {
+      headers: { "content-type": "application/x-jsonl" },
+    });
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/v1/, "");
+    calls.push(`${request.method} ${path}`);
+    const parts = path.split("/").filter(Boolean);
+
+    if (request.method === "POST" && path === "/files") {
+      const form = await request.formData();
+      const file = form.get("file") as Blob;
+      const id = `file_${(sequence += 1)}`;
+      files.set(id, await file.text());
+      return Response.json({ id, object: "file", purpose: form.get("purpose") });
+    }
+    if (request.method === "POST" && path === "/batches") {
+      const body = (await request.json()) as { input_file_id: string };
+      const lines = (files.get(body.input_file_id) ?? "")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as { custom_id: string; body: Record<string, unknown> });
+      const batch: StoredBatch = {
+        id: `batch_${(sequence += 1)}`,
+        kind: "openai",
+        requests: lines.map((line) => ({ customId: line.custom_id, body: line.body })),
+        polls: 0,
+        cancelled: false,
+      };
+      batches.set(batch.id, batch);
+      submitted.push(batch.requests.map((item) => item.body));
+      return Response.json(openAIBatch(batch));
+    }
+    if (parts[0] === "batches" && parts[1]) {
+      const batch = batches.get(parts[1]);
+      if (!batch) return Response.json({ error: { message: "Not found" } }, { status: 404 });
+      if (parts[2] === "cancel") batch.cancelled = true;
+      else batch.polls += 1;
+      return Response.json(openAIBatch(batch));
+    }
+    if (parts[0] === "files" && parts[2] === "content") {
+      const [batchId, kind] = parts[1]!.split(/_(?=output$|errors$)/);
+      const batch = batches.get(batchId!);
+      if (!batch) return Response.json({ error: { message: "Not found" } }, { status: 404 });
+      const lines = batch.requests.flatMap((item) => {
+        const result = answer(item.body);
+        if (result.ok !== (kind === "output")) return [];
+        return [result.ok
+          ? {
+              custom_id: item.customId,
+              response: { status_code: 200, body: chatCompletion(item.body, result.text) },
+              error: null,
+            }
+          : {
+              custom_id: item.customId,
+              response: {
+                status_code: 400,
+                body: { error: { code: "invalid_request", message: result.message } },
+              },
+              error: null,
+            }];
+      });
+      return jsonl(lines);
+    }
+    if (request.method === "POST" && path === "/chat/completions") {
+      const body = (await request.json()) as Record<string, unknown>;
+      direct.push(body);
+      const result = answer(body);
+      return result.ok
+        ? Response.json(chatCompletion(body, result.text))
+        : Response.json({ error: { message: result.message } }, { status: 400 });
+    }
+
+    if (request.method === "POST" && path === "/messages/batches") {
+      const body = (await request.json()) as {
+        requests: { custom_id: string; params: Record<string, unknown> }[];
+      };
+      const batch: StoredBatch = {
+        id: `msgbatch_${(sequence += 1)}`,
+        kind: "anthropic",
+        requests: body.requests.map((item) => ({ customId: item.custom_id, body: item.params })),
+        polls: 0,
+        cancelled: false,
+      };
+      batches.set(batch.id, batch);
+      submitted.push(batch.requests.map((item) => item.body));
+      return Response.json(anthropicBatch(batch));
+    }
+    if (parts[0] === "messages" && parts[1] === "batches" && parts[2]) {
+      const batch = batches.get(parts[2]);
+      if (!batch) return Response.json({ error: { message: "Not found" } }, { status: 404 });
+      if (parts[3] === "results") {
+        return jsonl(batch.requests.map((item) => {
+          if (batch.cancelled) return { custom_id: item.customId, result: { type: "canceled" } };
+          const result = answer(item.body);
+          return {
+            custom_id: item.customId,
+            result: result.ok
+              ? { type: "succeeded", message: message(item.body, result.text) }
+              : {
+                  type: "errored",
+                  error: {
+                    type: "error",
+                    error: { type: "invalid_request_error", message: result.message },
+                  },
+                },
+          };
+        }));
+      }
+      if (parts[3] === "cancel") batch.cancelled = true;
+      else batch.polls += 1;
+      return Response.json(anthropicBatch(batch));
+    }
+    if (request.method === "POST" && path === "/messages") {
+      const body = (await request.json()) as Record<string, unknown>;
+      direct.push(body);
+      const result = answer(body);
+      return result.ok
+        ? Response.json(message(body, result.text))
+        : Response.json({ error: { message: result.message } }, { status: 400 });
+    }
+    return Response.json({ error: { message: `No route for ${path}` } }, { status: 404 });
+  };
+
+  return {
+    fetch: (async (input: RequestInfo | URL, init?: RequestInit) =>
+      handle(new Request(input, init))) as typeof fetch,
+    calls,
+    submitted,
+    direct,
+  };
+}
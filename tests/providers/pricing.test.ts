@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DEFAULT_MODEL_PRICING,
+  extendModelPricing,
+  modelPrice,
+  priceUsage,
+  usdMicroUnitCost,
+} from "../../src/harness/providers/index.ts";
+import { runEvaluation } from "../../src/harness/evaluations/index.ts";
+import {
+  InMemoryTelemetryStore,
+  createTraceContext,
+} from "../../src/harness/telemetry/index.ts";
+
+test("usage is priced per token class from the catalog", () => {
+  const catalog = extendModelPricing(DEFAULT_MODEL_PRICING, {
+    models: {
+      "custom/thinker": { input: 2, output: 8, cachedInput: 0.5, reasoning: 4 },
+    },
+  });
+  assert.equal(catalog.version, `${DEFAULT_MODEL_PRICING.version}+app`);
+  assert.ok(modelPrice(catalog, "openai/gpt-5"));
+  assert.deepEqual(modelPrice(catalog, { provider: "custom", model: "thinker" }), {
+    input: 2,
+    output: 8,
+    cachedInput: 0.5,
+    reasoning: 4,
+  });
+
+  const cost = priceUsage(catalog, "custom/thinker:fast", {
+    inputTokens: 1_000_000,
+    cachedInputTokens: 400_000,
+    outputTokens: 500_000,
+    reasoning: { tokens: 250_000 },
+  });
+  // 600k input at $2, 400k cached at $0.50, 250k output at $8, 250k reasoning at $4.
+  assert.equal(cost, 4.4);
+  assert.equal(priceUsage(catalog, "unknown/model", { inputTokens: 10 }), undefined);
+  assert.deepEqual(usdMicroUnitCost(0.0125), {
+    state: "known",
+    microUnits: 12_500,
+    unit: "USD",
+  });
+  assert.throws(() =>
+    extendModelPricing(DEFAULT_MODEL_PRICING, {
+      models: { "custom/bad": { input: -1, output: 1 } },
+    })
+  );
+});
+
+test("evaluations and telemetry price usage without a reported cost", async () => {
+  const report = await runEvaluation(
+    { id: "pricing", revision: "1", cases: [{ id: "one", input: "x", expected: "x" }] },
+    {
+      run: async () => ({
+        output: "x",
+        model: "openai/gpt-5-mini",
+        usage: { inputTokens: 1_000_000, outputTokens: 100_000 },
+      }),
+    },
+    {
+      candidateRevision: "candidate",
+      graders: [{ id: "exact", kind: "exact" }],
+    },
+  );
+  assert.equal(report.usage.costUsd, 0.45);
+
+  const store = new InMemoryTelemetryStore({ pricing: DEFAULT_MODEL_PRICING });
+  await store.append({
+    id: "model-1",
+    occurredAt: "2026-10-01T12:00:00.000Z",
+    runId: "run-1",
+    traceContext: createTraceContext(),
+    spanKind: "client",
+    type: "model",
+    payload: {
+      action: "completed",
+      model: { redacted: true, kind: "model", id: "gpt-5" },
+      provider: { redacted: true, kind: "provider", id: "openai" },
+      usage: { inputTokens: 2_000, outputTokens: 1_000 },
+    },
+  });
+  const aggregate = await store.aggregateRun("run-1");
+  assert.deepEqual(aggregate.cost, { state: "known", microUnits: 12_500, unit: "USD" });
+  assert.equal(aggregate.costUsd, 0.0125);
+});
@@ -1,7 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
-import { toProviderHistory } from "../../src/harness/session/index.ts";
+import { conversationHistory, toProviderHistory } from "../../src/harness/session/index.ts";
 
 test("portable history keeps text and safe attachment references across providers", () => {
   const history = toProviderHistory([
@@ -31,3 +31,51 @@ test("portable history removes tool calls for providers without tools", () => {
   ], { provider: "openai", model: "gpt-5" }, { supportsTools: false });
   assert.deepEqual(history, [{ role: "assistant", content: "[Tool call: shell.exec]" }]);
 });
+
+test("a materialized conversation becomes canonical history and keeps reasoning out of replays", () => {
+  const history = conversationHistory({
+    messages: [
+      {
+        id: "m1",
+        role: "user",
+        parts: [
+          { type: "text", text: "Check this file" },
+          { type: "file", filename: "notes.txt", mediaType: "text/plain", url: "r2://notes" },
+        ],
+      },
+      {
+        id: "m2",
+        role: "assistant",
+        parts: [
+          { type: "reasoning", text: "Read it first." },
+          {
+            type: "dynamic-tool",
+            toolName: "read",
+            toolCallId: "call_1",
+            state: "output-available",
+            input: { path: "notes.txt" },
+            output: "hello",
+          },
+          { type: "text", text: "It says hello." },
+        ],
+      },
+      { id: "m3", role: "system", parts: [{ type: "text", text: "ignored" }] },
+    ],
+  });
+  assert.deepEqual(history, [
+    {
+      kind: "user",
+      id: "m1",
+      text: "Check this file",
+      attachments: [{ id: "notes.txt", mimeType: "text/plain", storageKey: "r2://notes" }],
+    },
+    { kind: "reasoning", id: "m2_1", text: "Read it first." },
+    { kind: "tool-call", id: "call_1", toolId: "read", input: { path: "notes.txt" } },
+    { kind: "tool-result", id: "call_1", toolId: "read", output: "hello" },
+    { kind: "assistant", id: "m2_3", text: "It says hello." },
+  ]);
+  assert.deepEqual(
+    toProviderHistory(history, { provider: "openai", model: "gpt-5" }).map((item) => item.role),
+    ["user", "tool", "assistant"],
+  );
+});
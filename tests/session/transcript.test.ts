@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { conversationHistory, renderThreadTranscript } from "../../src/harness/session/index.ts";
+
+const source = {
+  threadId: "thread_1",
+  title: "Deploy <prod>",
+  history: conversationHistory({
+    messages: [
+      { id: "m1", role: "user", parts: [{ type: "text", text: "Deploy it", state: "done" }] },
+      {
+        id: "m2",
+        role: "assistant",
+        parts: [
+          { type: "reasoning", text: "Check the token first.", state: "done" },
+          { type: "text", text: "Deploying.", state: "done" },
+          {
+            type: "dynamic-tool",
+            toolName: "deploy",
+            toolCallId: "call_1",
+            state: "output-available",
+            input: { env: "prod", apiKey: "sk-live-1234567890" },
+            output: { ok: true },
+          },
+          {
+            type: "dynamic-tool",
+            toolName: "notify",
+            toolCallId: "call_2",
+            state: "output-error",
+            input: { channel: "ops" },
+            errorText: "channel closed",
+          },
+          { type: "dynamic-tool", toolName: "wait", toolCallId: "call_3", state: "input-available", input: {} },
+          { type: "text", text: "Done.", state: "done" },
+        ],
+      },
+    ],
+  }),
+  records: [
+    {
+      recordType: "approval.requested" as const,
+      toolCallId: "call_1",
+      publicPayload: { approvalId: "approval_1", request: { reason: "Production deploy" } },
+    },
+    {
+      recordType: "approval.resolved" as const,
+      publicPayload: { approvalId: "approval_1", decision: { status: "approved" } },
+    },
+  ],
+};
+
+test("markdown and HTML transcripts show tools and approvals, and reasoning on request", () => {
+  const plain = renderThreadTranscript(source, { format: "markdown" });
+  assert.equal(plain.format, "markdown");
+  const text = (plain as { text: string }).text;
+  assert.match(text, /^# Deploy <prod>\n\n## User\n\nDeploy it\n\n## Assistant\n\nDeploying\./);
+  assert.match(text, /\*\*Tool `deploy`\*\* \(completed\)/);
+  assert.match(text, /Approval: approved \(Production deploy\)/);
+  assert.match(text, /Error: channel closed/);
+  assert.match(text, /sk-live-1234567890/);
+  assert.doesNotMatch(text, /Check the token/);
+
+  const redacted = renderThreadTranscript(source, { format: "markdown", reasoning: true, redact: true });
+  assert.match((redacted as { text: string }).text, /> \*\*Reasoning\*\*\n> Check the token first\./);
+  assert.doesNotMatch((redacted as { text: string }).text, /sk-live/);
+
+  const page = (renderThreadTranscript(source, { format: "html" }) as { text: string }).text;
+  assert.match(page, /<title>Deploy &lt;prod&gt;<\/title>/);
+  assert.match(page, /<summary>Tool <code>deploy<\/code> \(completed\)<\/summary>/);
+  assert.doesNotMatch(page, /Reasoning/);
+});
+
+test("provider transcripts pair every finished tool call with its result", () => {
+  const openai = renderThreadTranscript(source, { format: "openai-messages", redact: true });
+  assert.deepEqual(openai, {
+    format: "openai-messages",
+    messages: [
+      { role: "user", content: "Deploy it" },
+      {
+        role: "assistant",
+        content: "Deploying.",
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "deploy", arguments: '{"env":"prod","apiKey":"<redacted>"}' },
+          },
+          {
+            id: "call_2",
+            type: "function",
+            function: { name: "notify", arguments: '{"channel":"ops"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: '{"ok":true}' },
+      { role: "tool", tool_call_id: "call_2", content: "channel closed" },
+      { role: "assistant", content: "Done." },
+    ],
+  });
+
+  const anthropic = renderThreadTranscript(source, { format: "anthropic-messages" });
+  assert.deepEqual(anthropic, {
+    format: "anthropic-messages",
+    messages: [
+      { role: "user", content: [{ type: "text", text: "Deploy it" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Deploying." },
+          {
+            type: "tool_use",
+            id: "call_1",
+            name: "deploy",
+            input: { env: "prod", apiKey: "sk-live-1234567890" },
+          },
+        ],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: '{"ok":true}' }] },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "call_2", name: "notify", input: { channel: "ops" } }],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "call_2", content: "channel closed", is_error: true }],
+      },
+      { role: "assistant", content: [{ type: "text", text: "Done." }] },
+    ],
+  });
+});